@@ -0,0 +1,156 @@
+// A stand-in for an OpenAI-compatible chat endpoint, for trying the
+// language-model design moves without the network:
+//
+//   node scripts/mock-llm-server.mjs
+//   AI_BASE_URL=http://localhost:8787/v1 npm run dev
+//
+// It understands a handful of phrasings ("twenty storeys", "make it 20%
+// narrower", "five more floors") and answers in the same structured-output
+// shape a real model would.
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.MOCK_LLM_PORT ?? 8787);
+const SETTINGS_MARKER = "Current settings:";
+
+const NUMBER_WORDS = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70,
+  eighty: 80, ninety: 90,
+};
+
+// "twenty five", "twenty-five" and "25" all read as 25.
+const readNumber = (text) => {
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  const parts = text.split(/[\s-]+/).map((word) => NUMBER_WORDS[word]);
+  return parts.every((part) => part !== undefined) ? parts.reduce((sum, part) => sum + part, 0) : null;
+};
+
+const FLOORS = "(?:floors?|storeys?|stor(?:y|ies)|levels?)\\b";
+
+// The number written just before a phrase, in digits or up to two words, and
+// the words that gave it.
+const numberBefore = (text, pattern) => {
+  const match = text.match(pattern);
+  if (!match) {
+    return null;
+  }
+  const words = text.slice(0, match.index).split(/[\s-]+/).filter(Boolean);
+  const count = readNumber(words.slice(-2).join(" ")) !== null ? 2 : 1;
+  return {
+    value: readNumber(words.slice(-count).join(" ")),
+    match,
+    phrase: `${words.slice(-count).join(" ")} ${match[0]}`.trim(),
+  };
+};
+
+const SCALES = [
+  { pattern: /narrower|thinner|slimmer/, fields: ["width"], sign: -1 },
+  { pattern: /wider|broader/, fields: ["width"], sign: 1 },
+  { pattern: /shallower/, fields: ["depth"], sign: -1 },
+  { pattern: /deeper/, fields: ["depth"], sign: 1 },
+  { pattern: /smaller/, fields: ["width", "depth"], sign: -1 },
+  { pattern: /larger|bigger/, fields: ["width", "depth"], sign: 1 },
+];
+
+const round = (value) => Math.round(value * 100) / 100;
+
+const designMove = (prompt, current) => {
+  const text = prompt.toLowerCase();
+  const updates = {};
+  const notes = [];
+  const cited = [];
+
+  const relative = numberBefore(text, new RegExp(`\\b(more|fewer|less)\\s+${FLOORS}`));
+  const absolute = numberBefore(text, new RegExp(`\\b${FLOORS}`));
+  if (relative?.value) {
+    const change = relative.value * (relative.match[1] === "more" ? 1 : -1);
+    updates.floors = Math.max(1, current.floors + change);
+    notes.push(`${change > 0 ? "Added" : "Removed"} ${Math.abs(change)} floors.`);
+    cited.push({ field: "floors", phrase: relative.phrase });
+  } else if (absolute?.value) {
+    updates.floors = absolute.value;
+    notes.push(`Set the tower to ${updates.floors} floors.`);
+    cited.push({ field: "floors", phrase: absolute.phrase });
+  }
+
+  const percent = text.match(/(\d+(?:\.\d+)?)\s*(?:%|percent)\s+(\w+)/);
+  if (percent) {
+    const scale = SCALES.find((entry) => entry.pattern.test(percent[2]));
+    if (scale) {
+      const factor = 1 + (scale.sign * Number(percent[1])) / 100;
+      scale.fields.forEach((field) => {
+        updates[field] = round(current[field] * factor);
+        cited.push({ field, phrase: percent[0] });
+      });
+      notes.push(`Made the plate ${percent[1]}% ${percent[2]}.`);
+    }
+  }
+
+  return {
+    updates,
+    summary: notes.length > 0 ? notes.join(" ") : "The mock model did not recognise a design move.",
+    notes: cited,
+  };
+};
+
+const readBody = (request) =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    request.on("data", (chunk) => {
+      body += chunk;
+    });
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+
+const send = (response, status, payload) => {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(payload));
+};
+
+const server = createServer(async (request, response) => {
+  if (request.method === "GET" && request.url === "/v1/models") {
+    send(response, 200, { object: "list", data: [{ id: "mock-architect", object: "model" }] });
+    return;
+  }
+  if (request.method !== "POST" || request.url !== "/v1/chat/completions") {
+    send(response, 404, { error: { message: `No route for ${request.method} ${request.url}.` } });
+    return;
+  }
+  let payload;
+  try {
+    payload = JSON.parse(await readBody(request));
+  } catch {
+    send(response, 400, { error: { message: "Request body is not JSON." } });
+    return;
+  }
+  const messages = Array.isArray(payload.messages) ? payload.messages : [];
+  const system = messages.find((message) => message.role === "system")?.content ?? "";
+  const prompt = messages.filter((message) => message.role === "user").pop()?.content ?? "";
+  const settings = system.includes(SETTINGS_MARKER)
+    ? system.slice(system.indexOf(SETTINGS_MARKER) + SETTINGS_MARKER.length)
+    : "{}";
+  let current;
+  try {
+    current = JSON.parse(settings);
+  } catch {
+    send(response, 400, { error: { message: "The system message carries no settings." } });
+    return;
+  }
+  const move = designMove(prompt, current);
+  console.log(`${new Date().toISOString()} ${JSON.stringify(prompt)} -> ${JSON.stringify(move.updates)}`);
+  send(response, 200, {
+    id: `chatcmpl-mock-${Date.now()}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: payload.model ?? "mock-architect",
+    choices: [{ index: 0, message: { role: "assistant", content: JSON.stringify(move) }, finish_reason: "stop" }],
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock chat endpoint on http://localhost:${PORT}/v1`);
+});
@@ -0,0 +1,33 @@
+import { createChatProvider } from "../../../building/ai/chat";
+import { AiProviderError } from "../../../building/ai/provider";
+import type { BuildingConfig } from "../../../building/types";
+
+// The endpoint is configured on the server so the key never reaches the
+// browser. AI_BASE_URL is the API root, e.g. https://api.openai.com/v1 or
+// http://localhost:8787/v1 for the mock in scripts/.
+const chatSettings = () => {
+  const baseUrl = process.env.AI_BASE_URL;
+  return baseUrl
+    ? { baseUrl, apiKey: process.env.AI_API_KEY ?? "", model: process.env.AI_MODEL ?? "gpt-4o-mini" }
+    : null;
+};
+
+export const POST = async (request: Request) => {
+  const settings = chatSettings();
+  if (!settings) {
+    return Response.json({ error: "No model endpoint is configured (set AI_BASE_URL)." }, { status: 503 });
+  }
+  const body = (await request.json().catch(() => null)) as { prompt?: unknown; config?: unknown } | null;
+  if (typeof body?.prompt !== "string" || typeof body.config !== "object" || body.config === null) {
+    return Response.json({ error: "Send a prompt and the current config." }, { status: 400 });
+  }
+  try {
+    const inference = await createChatProvider(settings).infer(body.prompt, body.config as BuildingConfig);
+    return Response.json(inference);
+  } catch (error) {
+    if (error instanceof AiProviderError) {
+      return Response.json({ error: error.message }, { status: 502 });
+    }
+    throw error;
+  }
+};
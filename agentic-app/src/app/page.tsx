@@ -1,621 +1,99 @@
 "use client";
 
-import { useMemo, useState } from "react";
-
-type FacadePattern = "grid" | "stacked" | "offset";
-type BalconyFrequency = "none" | "alternate" | "every" | "corners";
-type RoofStyle = "flat" | "pitched" | "sawtooth";
-
-type BuildingConfig = {
-  projectName: string;
-  narrative: string;
-  floors: number;
-  floorHeight: number;
-  lobbyHeight: number;
-  width: number;
-  depth: number;
-  coreWidth: number;
-  coreDepth: number;
-  baseHeight: number;
-  structuralGrid: number;
-  unitsPerFloor: number;
-  facadePattern: FacadePattern;
-  windowModule: number;
-  windowWidth: number;
-  windowHeight: number;
-  spandrelHeight: number;
-  balconyDepth: number;
-  balconyFrequency: BalconyFrequency;
-  roofStyle: RoofStyle;
-  podiumLevels: number;
-  podiumSetback: number;
-  includePodium: boolean;
-  hasAtrium: boolean;
-  addRooftopGarden: boolean;
-  includeSolarPanels: boolean;
-  includeLightShelves: boolean;
-  colors: {
-    base: string;
-    accent: string;
-    glazing: string;
-    balcony: string;
-    roof: string;
-  };
-};
-
-type AiInference = {
-  updates: Partial<BuildingConfig>;
-  summary: string;
-};
-
-const defaultConfig: BuildingConfig = {
-  projectName: "Aurora Habitat Tower",
-  narrative:
-    "A mixed-use tower prioritizing daylight, biophilic terraces, and a flexible core for future adaptation.",
-  floors: 18,
-  floorHeight: 3.6,
-  lobbyHeight: 6,
-  width: 38,
-  depth: 26,
-  coreWidth: 10,
-  coreDepth: 8,
-  baseHeight: 1.2,
-  structuralGrid: 7.5,
-  unitsPerFloor: 8,
-  facadePattern: "grid",
-  windowModule: 3.2,
-  windowWidth: 2.6,
-  windowHeight: 2.4,
-  spandrelHeight: 0.8,
-  balconyDepth: 2.1,
-  balconyFrequency: "alternate",
-  roofStyle: "flat",
-  podiumLevels: 3,
-  podiumSetback: 4,
-  includePodium: true,
-  hasAtrium: true,
-  addRooftopGarden: true,
-  includeSolarPanels: true,
-  includeLightShelves: false,
-  colors: {
-    base: "#4d5c6f",
-    accent: "#c48f5a",
-    glazing: "#85c3ff",
-    balcony: "#f2ede4",
-    roof: "#37414f",
-  },
-};
-
-const clamp = (value: number, min: number, max: number) =>
-  Math.min(Math.max(value, min), max);
-
-const escapePythonString = (value: string) =>
-  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
-
-const hexToRgb = (hex: string) => {
-  const cleaned = hex.replace("#", "");
-  const chunk =
-    cleaned.length === 3
-      ? cleaned.split("").map((c) => c + c)
-      : cleaned.match(/.{1,2}/g) ?? ["00", "00", "00"];
-  const [r, g, b] = chunk.map((c) => parseInt(c, 16));
-  return { r, g, b };
-};
-
-const lightenColor = (hex: string, amount: number) => {
-  const { r, g, b } = hexToRgb(hex);
-  const lighten = (channel: number) =>
-    Math.round(channel + (255 - channel) * clamp(amount, 0, 1));
-  return `rgb(${lighten(r)}, ${lighten(g)}, ${lighten(b)})`;
-};
-
-const mixWithBlack = (hex: string, amount: number) => {
-  const { r, g, b } = hexToRgb(hex);
-  const mix = (channel: number) => Math.round(channel * (1 - clamp(amount, 0, 1)));
-  return `rgb(${mix(r)}, ${mix(g)}, ${mix(b)})`;
-};
-
-const colorToPythonTuple = (hex: string) => {
-  const { r, g, b } = hexToRgb(hex);
-  const normalize = (channel: number) => (channel / 255).toFixed(4);
-  return `(${normalize(r)}, ${normalize(g)}, ${normalize(b)}, 1.0)`;
-};
-
-const formatNumber = (value: number) =>
-  Number.isInteger(value) ? value.toFixed(0) : value.toFixed(2);
-
-const generateBlenderScript = (config: BuildingConfig) => {
-  const pythonBoolean = (value: boolean) => (value ? "True" : "False");
-
-  const dimsPython = [
-    "{",
-    `        "width": ${formatNumber(config.width)},`,
-    `        "depth": ${formatNumber(config.depth)},`,
-    `        "floor_height": ${formatNumber(config.floorHeight)},`,
-    `        "lobby_height": ${formatNumber(config.lobbyHeight)},`,
-    `        "base_height": ${formatNumber(config.baseHeight)},`,
-    `        "core_width": ${formatNumber(config.coreWidth)},`,
-    `        "core_depth": ${formatNumber(config.coreDepth)},`,
-    `        "podium_levels": ${formatNumber(config.podiumLevels)},`,
-    `        "podium_setback": ${formatNumber(config.podiumSetback)}`,
-    "    }",
-  ].join("\n");
-
-  const facadePython = [
-    "{",
-    `        "pattern": "${config.facadePattern}",`,
-    `        "module": ${formatNumber(config.windowModule)},`,
-    `        "window_width": ${formatNumber(config.windowWidth)},`,
-    `        "window_height": ${formatNumber(config.windowHeight)},`,
-    `        "spandrel_height": ${formatNumber(config.spandrelHeight)},`,
-    `        "balcony_depth": ${formatNumber(config.balconyDepth)},`,
-    `        "balcony_frequency": "${config.balconyFrequency}",`,
-    `        "include_light_shelves": ${pythonBoolean(config.includeLightShelves)}`,
-    "    }",
-  ].join("\n");
-
-  const colors = {
-    base: colorToPythonTuple(config.colors.base),
-    accent: colorToPythonTuple(config.colors.accent),
-    glazing: colorToPythonTuple(config.colors.glazing),
-    balcony: colorToPythonTuple(config.colors.balcony),
-    roof: colorToPythonTuple(config.colors.roof),
-  };
-
-  return `"""
-Blender Building Assistant Script
-Generated for: ${escapePythonString(config.projectName)}
-Narrative: ${escapePythonString(config.narrative)}
-
-Run inside Blender's scripting workspace.
-"""
-
-import bpy
-import math
-
-CONFIG = {
-    "project_name": "${escapePythonString(config.projectName)}",
-    "narrative": "${escapePythonString(config.narrative)}",
-    "floors": ${formatNumber(config.floors)},
-    "units_per_floor": ${formatNumber(config.unitsPerFloor)},
-    "roof_style": "${config.roofStyle}",
-    "include_podium": ${pythonBoolean(config.includePodium)},
-    "has_atrium": ${pythonBoolean(config.hasAtrium)},
-    "add_rooftop_garden": ${pythonBoolean(config.addRooftopGarden)},
-    "include_solar_panels": ${pythonBoolean(config.includeSolarPanels)},
-    "dimensions": ${dimsPython},
-    "facade": ${facadePython},
-    "colors": {
-        "base": ${colors.base},
-        "accent": ${colors.accent},
-        "glazing": ${colors.glazing},
-        "balcony": ${colors.balcony},
-        "roof": ${colors.roof}
-    }
-}
-
-
-# -------- Utility Helpers --------
-def clear_scene():
-    bpy.ops.object.select_all(action='SELECT')
-    bpy.ops.object.delete()
-    for collection in (bpy.data.meshes, bpy.data.lights, bpy.data.cameras):
-        for block in list(collection):
-            collection.remove(block, do_unlink=True)
-
-
-def create_material(name, color_tuple):
-    mat = bpy.data.materials.get(name)
-    if mat is None:
-        mat = bpy.data.materials.new(name=name)
-        mat.use_nodes = True
-    nodes = mat.node_tree.nodes
-    principled = nodes.get("Principled BSDF")
-    principled.inputs[0].default_value = color_tuple
-    principled.inputs[7].default_value = 0.05
-    return mat
-
-
-# -------- Core Systems --------
-def create_site_grid(cfg):
-    width = cfg["dimensions"]["width"]
-    depth = cfg["dimensions"]["depth"]
-    bpy.ops.mesh.primitive_grid_add(x_subdivisions=12, y_subdivisions=12, size=max(width, depth) * 0.75)
-    plane = bpy.context.active_object
-    plane.name = f"{cfg['project_name']}::SiteGrid"
-    plane.location = (0, 0, 0)
-    plane_mat = create_material("GroundPlane", (0.12, 0.12, 0.12, 1.0))
-    plane.data.materials.append(plane_mat)
-
-
-def create_core(cfg, materials):
-    dims = cfg["dimensions"]
-    height = dims["floor_height"] * cfg["floors"] + dims["base_height"] * 2
-    bpy.ops.mesh.primitive_cube_add(size=1)
-    core = bpy.context.active_object
-    core.name = "VerticalCore"
-    core.scale = (dims["core_width"] / 2, dims["core_depth"] / 2, height / 2)
-    core.location = (0, 0, height / 2)
-    core.data.materials.append(materials["accent"])
-    bpy.ops.object.modifier_add(type='BEVEL')
-    core.modifiers['Bevel'].width = 0.2
-    core.modifiers['Bevel'].segments = 2
-    return core
-
-
-def create_floor_plate(cfg, level, materials):
-    dims = cfg["dimensions"]
-    z = dims["base_height"] + dims["floor_height"] * level + dims["floor_height"] / 2
-    height = dims["floor_height"]
-    if level == 0:
-        height = cfg["dimensions"]["lobby_height"]
-        z = dims["base_height"] + height / 2
-    bpy.ops.mesh.primitive_cube_add(size=1)
-    block = bpy.context.active_object
-    block.name = f"Floor_{level + 1:02d}"
-    block.scale = (dims["width"] / 2, dims["depth"] / 2, height / 2)
-    block.location = (0, 0, z)
-    block.data.materials.append(materials["base"])
-    return block
-
-
-def create_balcony(cfg, level, col_index, total_cols, materials):
-    facade = cfg["facade"]
-    dims = cfg["dimensions"]
-    if facade["balcony_depth"] <= 0.05:
-        return
-    spacing = dims["width"] / max(1, total_cols)
-    x = -dims["width"] / 2 + spacing * (col_index + 0.5)
-    z_base = dims["base_height"] + dims["floor_height"] * level + dims["floor_height"] * 0.6
-    bpy.ops.mesh.primitive_cube_add(size=1)
-    balcony = bpy.context.active_object
-    balcony.name = f"Balcony_{level + 1:02d}_{col_index:02d}"
-    balcony.scale = (facade["window_width"] / 2, facade["balcony_depth"] / 2, dims["floor_height"] * 0.18)
-    balcony.location = (x, dims["depth"] / 2 + facade["balcony_depth"] / 2, z_base)
-    balcony.data.materials.append(materials["balcony"])
-    bpy.ops.object.modifier_add(type='BEVEL')
-    balcony.modifiers['Bevel'].width = 0.08
-    balcony.modifiers['Bevel'].segments = 2
-
-
-def add_windows(cfg, level, side, materials):
-    dims = cfg["dimensions"]
-    facade = cfg["facade"]
-    module = max(1.0, facade["module"])
-    window_w = facade["window_width"]
-    window_h = facade["window_height"]
-    is_front_back = side in ("front", "back")
-    width = dims["width"] if is_front_back else dims["depth"]
-    depth = dims["depth"] if is_front_back else dims["width"]
-    repetitions = max(1, int(width // module))
-    forward = depth / 2 + 0.02
-    forward = forward if side in ("front", "right") else -forward
-    parent = bpy.data.objects.get(f"Floor_{level + 1:02d}")
-    for idx in range(repetitions):
-        bpy.ops.mesh.primitive_cube_add(size=1)
-        win = bpy.context.active_object
-        win.name = f"Window_{side}_{level + 1:02d}_{idx:03d}"
-        spread = width / repetitions
-        position = -width / 2 + spread * (idx + 0.5)
-        if is_front_back:
-            win.location = (position, forward, dims["base_height"] + dims["floor_height"] * level + window_h / 2 + facade["spandrel_height"])
-            win.scale = (window_w / 2, 0.05, window_h / 2)
-        else:
-            win.location = (forward, position, dims["base_height"] + dims["floor_height"] * level + window_h / 2 + facade["spandrel_height"])
-            win.scale = (0.05, window_w / 2, window_h / 2)
-        win.data.materials.append(materials["glazing"])
-        if parent:
-            win.parent = parent
-
-
-def create_podium(cfg, materials):
-    dims = cfg["dimensions"]
-    setback = cfg["dimensions"]["podium_setback"]
-    for level in range(cfg["dimensions"]["podium_levels"]):
-        bpy.ops.mesh.primitive_cube_add(size=1)
-        pod = bpy.context.active_object
-        pod.name = f"Podium_{level + 1}"
-        shrink = setback * level
-        height = dims["floor_height"]
-        pod.scale = ((dims["width"] + setback * 2 - shrink) / 2, (dims["depth"] + setback * 2 - shrink) / 2, height / 2)
-        pod.location = (0, 0, dims["base_height"] + height / 2 + level * height)
-        pod.data.materials.append(materials["accent"])
-
-
-def apply_roof(cfg, materials):
-    dims = cfg["dimensions"]
-    top_level = cfg["floors"]
-    z = dims["base_height"] + dims["floor_height"] * top_level + dims["floor_height"] * 0.5
-    bpy.ops.mesh.primitive_cube_add(size=1)
-    roof = bpy.context.active_object
-    roof.name = "Roof"
-    roof.scale = (dims["width"] / 2, dims["depth"] / 2, 0.4)
-    roof.location = (0, 0, z)
-    roof.data.materials.append(materials["roof"])
-    if cfg["roof_style"] == "pitched":
-        bpy.ops.object.modifier_add(type='SIMPLE_DEFORM')
-        roof.modifiers['SimpleDeform'].deform_method = 'BEND'
-        roof.modifiers['SimpleDeform'].angle = math.radians(12)
-    elif cfg["roof_style"] == "sawtooth":
-        bpy.ops.object.modifier_add(type='ARRAY')
-        roof.modifiers['Array'].count = 4
-        roof.modifiers['Array'].relative_offset_displace[0] = 0.3
-
-    if cfg["include_solar_panels"]:
-        panel_count = 10
-        for idx in range(panel_count):
-            bpy.ops.mesh.primitive_cube_add(size=1)
-            panel = bpy.context.active_object
-            panel.name = f"Solar_{idx:02d}"
-            panel.scale = (1.2, 2.4, 0.05)
-            panel.location = (
-                -dims["width"] / 2 + 2 + (idx % 5) * 3,
-                -dims["depth"] / 2 + 2 + (idx // 5) * 3,
-                z + 0.35,
-            )
-            panel.data.materials.append(materials["accent"])
-            panel.rotation_euler[0] = math.radians(12)
-
-    if cfg["add_rooftop_garden"]:
-        bpy.ops.mesh.primitive_plane_add(size=min(dims["width"], dims["depth"]) * 0.65, location=(0, 0, z + 0.2))
-        garden = bpy.context.active_object
-        garden.name = "RooftopGarden"
-        garden_mat = create_material("RooftopGarden", (0.18, 0.32, 0.18, 1))
-        garden.data.materials.append(garden_mat)
-
-
-def carve_atrium(cfg):
-    if not cfg["has_atrium"]:
-        return
-    dims = cfg["dimensions"]
-    bpy.ops.mesh.primitive_cube_add(size=1)
-    atrium = bpy.context.active_object
-    atrium.name = "AtriumCut"
-    atrium.scale = (dims["width"] * 0.25, dims["depth"] * 0.25, dims["floor_height"] * cfg["floors"] / 2)
-    atrium.location = (0, 0, dims["base_height"] + dims["floor_height"] * cfg["floors"] / 2)
-    for obj in bpy.data.objects:
-        if obj.name.startswith("Floor_"):
-            bool_mod = obj.modifiers.new(name="AtriumBoolean", type='BOOLEAN')
-            bool_mod.operation = 'DIFFERENCE'
-            bool_mod.object = atrium
-    atrium.hide_viewport = True
-    atrium.hide_render = True
-
-
-def tag_metadata(cfg):
-    if "building_metadata" not in bpy.context.scene:
-        bpy.context.scene["building_metadata"] = {}
-    bpy.context.scene["building_metadata"][cfg["project_name"]] = cfg
-
-
-def material_library(cfg):
-    base = create_material("Facade_Base", cfg["colors"]["base"])
-    accent = create_material("Facade_Accent", cfg["colors"]["accent"])
-    glazing = create_material("Facade_Glass", cfg["colors"]["glazing"])
-    balcony = create_material("Balcony_Frame", cfg["colors"]["balcony"])
-    roof = create_material("Roof_Finish", cfg["colors"]["roof"])
-    return {"base": base, "accent": accent, "glazing": glazing, "balcony": balcony, "roof": roof}
-
-
-def build(cfg):
-    clear_scene()
-    create_site_grid(cfg)
-    materials = material_library(cfg)
-    create_core(cfg, materials)
-    if cfg["include_podium"]:
-        create_podium(cfg, materials)
-    for level in range(cfg["floors"]):
-        floor = create_floor_plate(cfg, level, materials)
-        add_windows(cfg, level, "front", materials)
-        add_windows(cfg, level, "back", materials)
-        add_windows(cfg, level, "left", materials)
-        add_windows(cfg, level, "right", materials)
-        if cfg["facade"]["balcony_frequency"] != "none" and level > 0 and cfg["facade"]["balcony_depth"] > 0.05:
-            module_count = max(3, int(cfg["dimensions"]["width"] // cfg["facade"]["module"]))
-            if cfg["facade"]["balcony_frequency"] == "every" or (cfg["facade"]["balcony_frequency"] == "alternate" and level % 2 == 0):
-                for col in range(module_count):
-                    create_balcony(cfg, level, col, module_count, materials)
-            elif cfg["facade"]["balcony_frequency"] == "corners":
-                corner_cols = max(2, module_count)
-                for col in (0, corner_cols - 1):
-                    create_balcony(cfg, level, col, corner_cols, materials)
-        if cfg["facade"]["include_light_shelves"] and level <= 6:
-            bpy.ops.mesh.primitive_cube_add(size=1)
-            shelf = bpy.context.active_object
-            shelf.name = f"LightShelf_{level + 1:02d}"
-            shelf.scale = (cfg["dimensions"]["width"] / 2, 0.25, 0.05)
-            shelf.location = (0, cfg["dimensions"]["depth"] / 2 + 0.3, floor.location[2] + cfg["facade"]["window_height"] / 2)
-            shelf.data.materials.append(materials["accent"])
-    carve_atrium(cfg)
-    apply_roof(cfg, materials)
-    tag_metadata(cfg)
-    bpy.context.view_layer.update()
-
-
-if __name__ == "__main__":
-    build(CONFIG)
-`;
-};
-
-const applyAiInference = (prompt: string, current: BuildingConfig): AiInference => {
-  const normalized = prompt.trim().toLowerCase();
-  if (!normalized) {
-    return { updates: {}, summary: "" };
-  }
-
-  const updates: Partial<BuildingConfig> = {};
-  const summaryParts: string[] = [];
-
-  const floorMatch = normalized.match(/(\d+)[-\s]*(story|storey|floor)s?/);
-  if (floorMatch) {
-    const floors = clamp(parseInt(floorMatch[1], 10), 1, 80);
-    updates.floors = floors;
-    summaryParts.push(`Set tower to ${floors} floors.`);
-  } else if (normalized.includes("supertall")) {
-    updates.floors = clamp(current.floors + 40, 30, 120);
-    summaryParts.push("Adjusted height to supertall proportion.");
-  } else if (normalized.includes("tall")) {
-    updates.floors = clamp(current.floors + 8, 6, 80);
-    summaryParts.push("Raised overall height.");
-  } else if (normalized.includes("low-rise") || normalized.includes("mid-rise")) {
-    updates.floors = clamp(current.floors, 4, 12);
-    summaryParts.push("Shaped tower to mid-rise scale.");
-  }
-
-  const widthMatch = normalized.match(/(\d+(?:\.\d+)?)\s*m(?:eter)?s?\s*wide/);
-  if (widthMatch) {
-    const widthValue = clamp(parseFloat(widthMatch[1]), 10, 120);
-    updates.width = widthValue;
-    summaryParts.push(`Adjusted width to ${widthValue}m.`);
-  }
-
-  const depthMatch = normalized.match(/(\d+(?:\.\d+)?)\s*m(?:eter)?s?\s*(deep|depth)/);
-  if (depthMatch) {
-    const depthValue = clamp(parseFloat(depthMatch[1]), 10, 120);
-    updates.depth = depthValue;
-    summaryParts.push(`Adjusted depth to ${depthValue}m.`);
-  }
-
-  if (normalized.includes("slender")) {
-    updates.width = clamp(current.width * 0.85, 12, current.width);
-    updates.depth = clamp(current.depth * 0.85, 12, current.depth);
-    summaryParts.push("Slenderized the floor plate.");
-  }
-
-  if (normalized.includes("atrium")) {
-    updates.hasAtrium = true;
-    summaryParts.push("Enabled multi-level atrium.");
-  }
-
-  if (normalized.includes("podium")) {
-    updates.includePodium = true;
-    updates.podiumLevels = Math.max(current.podiumLevels, 2);
-    summaryParts.push("Activated urban podium interface.");
-  }
-
-  if (normalized.includes("garden") || normalized.includes("green roof")) {
-    updates.addRooftopGarden = true;
-    summaryParts.push("Reserved rooftop for green space.");
-  }
-
-  if (normalized.includes("solar")) {
-    updates.includeSolarPanels = true;
-    summaryParts.push("Integrated rooftop solar arrays.");
-  }
-
-  if (normalized.includes("balcon")) {
-    updates.balconyFrequency = normalized.includes("every")
-      ? "every"
-      : normalized.includes("corner")
-      ? "corners"
-      : "alternate";
-    summaryParts.push("Reconfigured balcony rhythm.");
-  }
-
-  if (normalized.includes("glass curtain")) {
-    updates.facadePattern = "grid";
-    updates.colors = {
-      ...current.colors,
-      base: "#2b3a55",
-      accent: "#546a89",
-      glazing: "#a7d9ff",
-    };
-    summaryParts.push("Shifted to glass curtain wall aesthetic.");
-  } else if (normalized.includes("brick")) {
-    updates.facadePattern = "stacked";
-    updates.colors = {
-      ...current.colors,
-      base: "#884a39",
-      accent: "#d46f4d",
-      glazing: "#93c6ff",
-    };
-    summaryParts.push("Applied brick-inspired palette.");
-  } else if (normalized.includes("timber") || normalized.includes("wood")) {
-    updates.facadePattern = "offset";
-    updates.colors = {
-      ...current.colors,
-      base: "#8c6b3e",
-      accent: "#d9b382",
-      glazing: "#9bc1ff",
-    };
-    summaryParts.push("Shifted to warm timber articulation.");
-  }
-
-  if (normalized.includes("light shelves")) {
-    updates.includeLightShelves = true;
-    summaryParts.push("Added daylight shelves to facade.");
-  }
-
-  if (normalized.includes("pitched roof")) {
-    updates.roofStyle = "pitched";
-    summaryParts.push("Configured pitched roof profile.");
-  } else if (normalized.includes("sawtooth")) {
-    updates.roofStyle = "sawtooth";
-    summaryParts.push("Configured sawtooth roof profile.");
-  } else if (normalized.includes("flat roof")) {
-    updates.roofStyle = "flat";
-    summaryParts.push("Kept clean flat roofline.");
-  }
-
-  if (normalized.includes("generous lobby") || normalized.includes("grand lobby")) {
-    updates.lobbyHeight = clamp(current.lobbyHeight * 1.2, 4.5, 12);
-    summaryParts.push("Expanded lobby volume.");
-  }
-
-  const unitMatch = normalized.match(/(\d+)\s*units?/);
-  if (unitMatch) {
-    const units = clamp(parseInt(unitMatch[1], 10), 2, 40);
-    updates.unitsPerFloor = units;
-    summaryParts.push(`Set ${units} flexible units per typical floor.`);
-  }
-
-  const combinedSummary = summaryParts.join(" ");
-  return {
-    updates,
-    summary: combinedSummary,
-  };
-};
-
-const BuildingPreview = ({ config }: { config: BuildingConfig }) => {
-  const floors = Array.from({ length: config.floors }, (_, index) => config.floors - index);
-  const modules = Math.max(1, Math.round(config.width / Math.max(config.windowModule, 1)));
-  const windowColor = lightenColor(config.colors.glazing, 0.15);
-  const mullionColor = mixWithBlack(config.colors.base, 0.45);
-
+import type { ChangeEvent } from "react";
+import { useEffect, useMemo, useState } from "react";
+import type { OptionSet } from "../building/ai/options";
+import { OPTION_COUNTS, generateOptions } from "../building/ai/options";
+import type { AiProviderId } from "../building/ai/provider";
+import { AI_PROVIDERS, runDesignMove } from "../building/ai/provider";
+import type { MoveReview } from "../building/ai/review";
+import { acceptedUpdates, describeReview, reviewDesignMove } from "../building/ai/review";
+import { generateBlenderScript, generateSiteBlenderScript } from "../building/blender";
+import { defaultConfig, defaultSite } from "../building/defaults";
+import type { Drawing } from "../building/drawings";
+import { DRAWING_SCALE, createDrawings } from "../building/drawings";
+import { checkSiteEnvelope, envelopeIssues, hasPlot } from "../building/envelope";
+import { exportDxf } from "../building/exporters/dxf";
+import { exportGlb } from "../building/exporters/gltf";
+import { exportIfc } from "../building/exporters/ifc";
+import { exportObj } from "../building/exporters/obj";
+import { exportStl } from "../building/exporters/stl";
+import { exportSvg } from "../building/exporters/svg";
+import { CORRIDOR_WIDTH, layoutFloorPlan } from "../building/floorplan";
+import { computeGlazing } from "../building/glazing";
+import { createHistory, pushHistory, redoHistory, undoHistory } from "../building/history";
+import type { SavedProject } from "../building/library";
+import {
+  activeProjectId,
+  createProjectId,
+  listSavedProjects,
+  loadFromLibrary,
+  removeFromLibrary,
+  saveToLibrary,
+} from "../building/library";
+import type { Vec3 } from "../building/math";
+import { clamp } from "../building/math";
+import { computeMetrics } from "../building/metrics";
+import type { Candidate, OptimizerTargets, SearchProgress, SearchResult } from "../building/optimizer";
+import { DEFAULT_TARGETS, SEARCH_BUDGET, searchDesignSpace } from "../building/optimizer";
+import type { ProjectFile } from "../building/project";
+import { ProjectFileError, parseProject, serializeProject } from "../building/project";
+import { buildScene } from "../building/scene";
+import { buildSiteScene } from "../building/site";
+import { layoutStructure, summarizeStructure } from "../building/structure";
+import { computeSunHours, solarPosition, sunDirection } from "../building/sun";
+import type {
+  AiOption,
+  BalconyFrequency,
+  BuildingConfig,
+  CornerStyle,
+  DesignSnapshot,
+  FacadePattern,
+  HeightProfile,
+  PlanShape,
+  RoofStyle,
+  SiteModel,
+} from "../building/types";
+import { hasErrors, validateBuildingConfig } from "../building/validation";
+import { AiMoveReview } from "../components/AiMoveReview";
+import { AiOptionsPanel } from "../components/AiOptionsPanel";
+import type { CompareOption } from "../components/CompareView";
+import { CompareView } from "../components/CompareView";
+import type { DrawingFormat } from "../components/DrawingsPanel";
+import { DrawingsPanel } from "../components/DrawingsPanel";
+import { FieldIssues } from "../components/FieldIssues";
+import { FloorPlanView } from "../components/FloorPlanView";
+import { MassingViewer } from "../components/MassingViewer";
+import { GlazingPanel } from "../components/GlazingPanel";
+import { MetricsPanel } from "../components/MetricsPanel";
+import { OptimizerPanel } from "../components/OptimizerPanel";
+import { PlotEditor } from "../components/PlotEditor";
+import { SitePanel } from "../components/SitePanel";
+import { StructurePanel } from "../components/StructurePanel";
+import { SunStudyPanel } from "../components/SunStudyPanel";
+import { ZoneEditor } from "../components/ZoneEditor";
+
+const PRINT_SCALES = [200, 500, 1000];
+
+const MAX_COMPARED = 4;
+const CURRENT_OPTION_ID = "current";
+
+const BuildingPreview = ({ config, sun }: { config: BuildingConfig; sun: Vec3 | null }) => {
+  const scene = useMemo(() => buildScene(config), [config]);
   return (
     <div className="w-full max-w-sm rounded-3xl border border-slate-900/20 bg-gradient-to-b from-slate-900 via-slate-900 to-slate-950 p-6 text-white shadow-2xl">
       <div className="flex items-center justify-between text-xs uppercase tracking-wider text-slate-300">
         <span>{config.projectName}</span>
         <span>{config.floors} floors</span>
       </div>
-      <div className="mt-4 h-72 overflow-hidden rounded-2xl border border-white/5 bg-slate-950/40 p-3">
-        <div className="flex h-full flex-col justify-end gap-1">
-          {floors.map((level) => (
-            <div
-              key={level}
-              className="flex flex-col gap-0.5 rounded-lg border border-white/5 p-1"
-              style={{
-                background: `linear-gradient(180deg, ${lightenColor(config.colors.base, 0.2)}, ${config.colors.base})`,
-              }}
-            >
-              <div className="flex items-center justify-between gap-1">
-                {Array.from({ length: modules }).map((_, idx) => (
-                  <div
-                    key={idx}
-                    className="flex-1 rounded-md border border-white/10"
-                    style={{
-                      background: `linear-gradient(180deg, ${windowColor}, ${mixWithBlack(config.colors.glazing, 0.25)})`,
-                      boxShadow: `inset 0 0 8px ${mixWithBlack(config.colors.glazing, 0.4)}`,
-                    }}
-                  >
-                    <div className="h-1 w-full" style={{ backgroundColor: mullionColor }} />
-                  </div>
-                ))}
-              </div>
-            </div>
-          ))}
-        </div>
-      </div>
+      <MassingViewer
+        scene={scene}
+        sun={sun}
+        className="mt-4 h-72 overflow-hidden rounded-2xl border border-white/5 bg-slate-950/40"
+      />
+      <p className="mt-2 text-[10px] uppercase tracking-wider text-slate-500">
+        Drag to orbit · Shift or right-drag to pan · Scroll to zoom
+      </p>
       <div className="mt-4 grid grid-cols-2 gap-3 text-xs text-slate-300">
         <span>Width {config.width.toFixed(1)} m</span>
         <span>Depth {config.depth.toFixed(1)} m</span>
@@ -629,22 +107,148 @@ const BuildingPreview = ({ config }: { config: BuildingConfig }) => {
 };
 
 export default function Home() {
-  const [config, setConfig] = useState<BuildingConfig>(defaultConfig);
+  const [history, setHistory] = useState(() => createHistory(defaultConfig));
   const [aiPrompt, setAiPrompt] = useState("");
+  const [aiProviderId, setAiProviderId] = useState<AiProviderId>("rules");
+  const [aiPending, setAiPending] = useState(false);
   const [aiSummary, setAiSummary] = useState<string[]>([]);
+  const [aiReview, setAiReview] = useState<MoveReview | null>(null);
+  const [aiOptions, setAiOptions] = useState<OptionSet | null>(null);
+  const [aiOptionCount, setAiOptionCount] = useState(OPTION_COUNTS[0]);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [printScale, setPrintScale] = useState(500);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [savedProjects, setSavedProjects] = useState<SavedProject[]>([]);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<DesignSnapshot[]>([]);
+  const [snapshotName, setSnapshotName] = useState("");
+  const [compareIds, setCompareIds] = useState<string[] | null>(null);
+  const [site, setSite] = useState<SiteModel>(defaultSite);
+  const [sunHour, setSunHour] = useState(12);
+  const [showShadows, setShowShadows] = useState(true);
+  const [optimizerTargets, setOptimizerTargets] = useState<OptimizerTargets>(DEFAULT_TARGETS);
+  const [optimizerResult, setOptimizerResult] = useState<SearchResult | null>(null);
+  const [optimizerProgress, setOptimizerProgress] = useState<SearchProgress | null>(null);
+  const [loadedCandidateId, setLoadedCandidateId] = useState<string | null>(null);
+
+  const config = history.present;
+
+  const availableOptions = useMemo<CompareOption[]>(
+    () => [{ id: CURRENT_OPTION_ID, name: "Current design", config }, ...snapshots],
+    [config, snapshots],
+  );
+
+  const comparedOptions = useMemo(
+    () => availableOptions.filter((option) => compareIds?.includes(option.id)),
+    [availableOptions, compareIds],
+  );
+
+  const openProject = (project: ProjectFile, id: string) => {
+    setHistory(createHistory(project.config));
+    setAiSummary(project.aiSummary);
+    setAiReview(null);
+    setAiOptions(null);
+    setOptimizerResult(null);
+    setLoadedCandidateId(null);
+    setSnapshots(project.snapshots);
+    setSite(project.site);
+    setProjectId(id);
+    setProjectError(null);
+  };
+
+  // Restored after mount so the server-rendered markup matches the first client render.
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => {
+      const lastId = activeProjectId();
+      setSavedProjects(listSavedProjects());
+      try {
+        if (lastId) {
+          openProject(loadFromLibrary(lastId), lastId);
+          return;
+        }
+      } catch (error) {
+        setProjectError(error instanceof ProjectFileError ? error.message : "Last session could not be restored.");
+      }
+      setProjectId(createProjectId());
+    });
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  useEffect(() => {
+    if (!projectId) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      if (saveToLibrary(projectId, { config, aiSummary, snapshots, site })) {
+        setSavedProjects(listSavedProjects());
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [projectId, config, aiSummary, snapshots, site]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) {
+        return;
+      }
+      const target = event.target as HTMLElement | null;
+      const editingText =
+        target?.isContentEditable ||
+        target?.tagName === "TEXTAREA" ||
+        (target instanceof HTMLInputElement && ["text", "number", "search"].includes(target.type));
+      if (editingText) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === "z") {
+        event.preventDefault();
+        setHistory(event.shiftKey ? redoHistory : undoHistory);
+      } else if (key === "y") {
+        event.preventDefault();
+        setHistory(redoHistory);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
 
   const script = useMemo(() => generateBlenderScript(config), [config]);
+  const metrics = useMemo(() => computeMetrics(config), [config]);
+  const glazing = useMemo(() => computeGlazing(config), [config]);
+  const floorPlan = useMemo(() => layoutFloorPlan(config), [config]);
+  const drawings = useMemo(() => createDrawings(config), [config]);
+  const structure = useMemo(() => summarizeStructure(layoutStructure(config)), [config]);
+  const envelopeChecks = useMemo(() => checkSiteEnvelope(config, metrics), [config, metrics]);
+  const sunHours = useMemo(() => computeSunHours(config), [config]);
+  const { sunStudy } = config;
+  const sunPosition = useMemo(
+    () => solarPosition(sunStudy, clamp(sunHour, sunStudy.startHour, sunStudy.endHour)),
+    [sunStudy, sunHour],
+  );
+  const sun = useMemo(() => (showShadows ? sunDirection(sunPosition) : null), [showShadows, sunPosition]);
+  const issues = useMemo(
+    () => [...validateBuildingConfig(config), ...envelopeIssues(envelopeChecks)],
+    [config, envelopeChecks],
+  );
+  const blocked = hasErrors(issues);
 
+  // Single-field edits are grouped so a slider drag undoes in one step.
   const updateConfig = (partial: Partial<BuildingConfig>) => {
-    setConfig((prev) => ({
-      ...prev,
-      ...partial,
-      colors: {
-        ...prev.colors,
-        ...(partial.colors ?? {}),
-      },
-    }));
+    const keys = Object.keys(partial);
+    setHistory((prev) =>
+      pushHistory(
+        prev,
+        {
+          ...prev.present,
+          ...partial,
+          colors: {
+            ...prev.present.colors,
+            ...(partial.colors ?? {}),
+          },
+        },
+        keys.length === 1 ? keys[0] : null,
+      ),
+    );
   };
 
   const handleCopy = async () => {
@@ -657,42 +261,273 @@ export default function Home() {
     setTimeout(() => setStatusMessage(null), 2400);
   };
 
-  const handleDownload = () => {
-    const blob = new Blob([script], { type: "text/x-python" });
+  const fileStem = config.projectName.replace(/[^a-z0-9]+/gi, "-").toLowerCase() || "building";
+
+  const downloadBlob = (blob: Blob, suffix: string) => {
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
     link.href = url;
-    const safeName = config.projectName.replace(/[^a-z0-9]+/gi, "-").toLowerCase();
-    link.download = `${safeName || "building"}-blender-generator.py`;
+    link.download = `${fileStem}${suffix}`;
     link.click();
     URL.revokeObjectURL(url);
+  };
+
+  const handleDownload = () => {
+    downloadBlob(new Blob([script], { type: "text/x-python" }), "-blender-generator.py");
     setStatusMessage("Python file downloaded.");
     setTimeout(() => setStatusMessage(null), 2400);
   };
 
+  const handleDownloadObj = () => {
+    const { obj, mtl } = exportObj(buildScene(config), `${fileStem}.mtl`);
+    downloadBlob(new Blob([obj], { type: "model/obj" }), ".obj");
+    downloadBlob(new Blob([mtl], { type: "model/mtl" }), ".mtl");
+    setStatusMessage("OBJ and MTL files downloaded.");
+    setTimeout(() => setStatusMessage(null), 2400);
+  };
+
+  const handleDownloadStl = () => {
+    const { data } = exportStl(buildScene(config), { scale: printScale });
+    downloadBlob(new Blob([data], { type: "model/stl" }), `-1-${printScale}.stl`);
+    setStatusMessage(`STL massing model downloaded at 1:${printScale}.`);
+    setTimeout(() => setStatusMessage(null), 2400);
+  };
+
+  const handleDownloadGlb = () => {
+    const glb = exportGlb(buildScene(config));
+    downloadBlob(new Blob([glb], { type: "model/gltf-binary" }), ".glb");
+    setStatusMessage("GLB model downloaded.");
+    setTimeout(() => setStatusMessage(null), 2400);
+  };
+
+  const handleDownloadIfc = () => {
+    const ifc = exportIfc(config, buildScene(config));
+    downloadBlob(new Blob([ifc], { type: "application/x-step" }), ".ifc");
+    setStatusMessage("IFC model downloaded.");
+    setTimeout(() => setStatusMessage(null), 2400);
+  };
+
+  const handleDownloadSiteScript = () => {
+    const siteScript = generateSiteBlenderScript(site, config);
+    downloadBlob(new Blob([siteScript], { type: "text/x-python" }), "-site-blender-generator.py");
+    setStatusMessage("Site Python file downloaded.");
+    setTimeout(() => setStatusMessage(null), 2400);
+  };
+
+  const handleDownloadSiteGlb = () => {
+    const glb = exportGlb(buildSiteScene(site, config));
+    downloadBlob(new Blob([glb], { type: "model/gltf-binary" }), "-site.glb");
+    setStatusMessage("Site GLB model downloaded.");
+    setTimeout(() => setStatusMessage(null), 2400);
+  };
+
+  const handleDownloadDrawing = (drawing: Drawing, format: DrawingFormat) => {
+    const blob =
+      format === "svg"
+        ? new Blob([exportSvg(drawing)], { type: "image/svg+xml" })
+        : new Blob([exportDxf(drawing)], { type: "image/vnd.dxf" });
+    downloadBlob(blob, `-${drawing.id}.${format}`);
+    setStatusMessage(`${drawing.title} downloaded as ${format.toUpperCase()}.`);
+    setTimeout(() => setStatusMessage(null), 2400);
+  };
+
   const handleReset = () => {
-    setConfig(defaultConfig);
+    setHistory(createHistory(defaultConfig));
     setAiSummary([]);
-    setStatusMessage("Configuration reset.");
+    setAiReview(null);
+    setAiOptions(null);
+    setOptimizerResult(null);
+    setLoadedCandidateId(null);
+    setSnapshots([]);
+    setSite(defaultSite);
+    setProjectId(createProjectId());
+    setStatusMessage("Configuration reset. The previous project stays in your saved projects.");
     setTimeout(() => setStatusMessage(null), 2000);
   };
 
-  const handleApplyAi = () => {
-    const { updates, summary } = applyAiInference(aiPrompt, config);
-    if (Object.keys(updates).length === 0) {
-      setStatusMessage("No actionable design moves detected.");
-      setTimeout(() => setStatusMessage(null), 2200);
+  const handleExportProject = () => {
+    downloadBlob(new Blob([serializeProject({ config, aiSummary, snapshots, site })], { type: "application/json" }), ".project.json");
+    setStatusMessage("Project file downloaded.");
+    setTimeout(() => setStatusMessage(null), 2400);
+  };
+
+  const handleImportProject = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
       return;
     }
-    updateConfig({
-      ...updates,
-      narrative: `${config.narrative}\n\nPrompt: ${aiPrompt.trim()}`,
+    try {
+      const project = parseProject(await file.text());
+      openProject(project, createProjectId());
+      setStatusMessage(`Imported ${project.config.projectName}.`);
+      setTimeout(() => setStatusMessage(null), 2400);
+    } catch (error) {
+      setProjectError(
+        error instanceof ProjectFileError ? `${file.name}: ${error.message}` : `${file.name} could not be read.`,
+      );
+    }
+  };
+
+  const handleOpenProject = (id: string) => {
+    try {
+      const project = loadFromLibrary(id);
+      openProject(project, id);
+      setStatusMessage(`Opened ${project.config.projectName}.`);
+      setTimeout(() => setStatusMessage(null), 2400);
+    } catch (error) {
+      setProjectError(error instanceof ProjectFileError ? error.message : "Saved project could not be opened.");
+    }
+  };
+
+  const handleDeleteProject = (id: string) => {
+    removeFromLibrary(id);
+    setSavedProjects(listSavedProjects());
+  };
+
+  const handlePinSnapshot = () => {
+    const name = snapshotName.trim() || `Option ${String.fromCharCode(65 + (snapshots.length % 26))}`;
+    setSnapshots((prev) => [
+      ...prev,
+      { id: createProjectId(), name, createdAt: new Date().toISOString(), config },
+    ]);
+    setSnapshotName("");
+    setStatusMessage(`Pinned snapshot "${name}".`);
+    setTimeout(() => setStatusMessage(null), 2200);
+  };
+
+  const handleRestoreSnapshot = (snapshot: DesignSnapshot) => {
+    setHistory((prev) => pushHistory(prev, snapshot.config));
+    setStatusMessage(`Switched to "${snapshot.name}". Undo to go back.`);
+    setTimeout(() => setStatusMessage(null), 2200);
+  };
+
+  const handleRemoveSnapshot = (id: string) => {
+    setSnapshots((prev) => prev.filter((snapshot) => snapshot.id !== id));
+    setCompareIds((prev) => prev?.filter((optionId) => optionId !== id) ?? null);
+  };
+
+  const handleOpenCompare = () => {
+    setCompareIds(availableOptions.slice(0, MAX_COMPARED).map((option) => option.id));
+  };
+
+  const toggleCompared = (id: string) => {
+    setCompareIds((prev) => {
+      const selected = prev ?? [];
+      if (selected.includes(id)) {
+        return selected.filter((optionId) => optionId !== id);
+      }
+      return selected.length >= MAX_COMPARED ? selected : [...selected, id];
     });
-    if (summary) {
-      setAiSummary((prev) => [summary, ...prev].slice(0, 5));
+  };
+
+  // A move is only proposed here; nothing reaches the design until the
+  // architect applies the changes they keep.
+  const handleProposeAi = async () => {
+    const provider = AI_PROVIDERS.find((entry) => entry.id === aiProviderId) ?? AI_PROVIDERS[0];
+    setAiPending(true);
+    try {
+      const move = await runDesignMove(provider, aiPrompt, config);
+      setAiOptions(null);
+      const review = reviewDesignMove(config, aiPrompt, move);
+      if (review.changes.length === 0) {
+        setAiReview(null);
+        setStatusMessage(
+          move.fallbackReason
+            ? `${move.fallbackReason} The offline rules found no moves.`
+            : "No actionable design moves detected.",
+        );
+        setTimeout(() => setStatusMessage(null), move.fallbackReason ? 4800 : 2200);
+        return;
+      }
+      setAiReview(review);
+    } catch (error) {
+      setStatusMessage(`The design move failed: ${error instanceof Error ? error.message : "unknown error"}`);
+      setTimeout(() => setStatusMessage(null), 4800);
+    } finally {
+      setAiPending(false);
     }
+  };
+
+  const handleGenerateOptions = async () => {
+    const provider = AI_PROVIDERS.find((entry) => entry.id === aiProviderId) ?? AI_PROVIDERS[0];
+    setAiPending(true);
+    try {
+      const optionSet = await generateOptions(provider, aiPrompt, config, aiOptionCount);
+      setAiReview(null);
+      setAiOptions(optionSet);
+    } catch (error) {
+      setStatusMessage(`Options could not be generated: ${error instanceof Error ? error.message : "unknown error"}`);
+      setTimeout(() => setStatusMessage(null), 4800);
+    } finally {
+      setAiPending(false);
+    }
+  };
+
+  // The picked option's changes are laid over the design as it is now, in one
+  // undoable step, so edits made since the options were generated survive.
+  const handlePickOption = (optionSet: OptionSet, option: AiOption) => {
+    updateConfig({
+      ...option.updates,
+      narrative: `${config.narrative}\n\nPrompt: ${optionSet.prompt.trim()}`,
+    });
+    const entry = `Picked option ${option.rank} of ${optionSet.options.length}, ${option.name}: ${option.summary}`;
+    setAiSummary((prev) => [entry, ...prev].slice(0, 5));
+    setAiOptions(null);
     setAiPrompt("");
-    setStatusMessage("AI design move applied.");
+    setStatusMessage(`${option.name} is now the working design.`);
+    setTimeout(() => setStatusMessage(null), 2200);
+  };
+
+  const handleToggleAiChange = (key: string, accepted: boolean) => {
+    setAiReview((review) =>
+      review && {
+        ...review,
+        accepted: accepted ? [...review.accepted, key] : review.accepted.filter((entry) => entry !== key),
+      },
+    );
+  };
+
+  const handleResolveAi = (review: MoveReview) => {
+    if (review.accepted.length > 0) {
+      updateConfig({
+        ...acceptedUpdates(config, review),
+        narrative: `${config.narrative}\n\nPrompt: ${review.prompt.trim()}`,
+      });
+      setAiPrompt("");
+    }
+    setAiSummary((prev) => [describeReview(review), ...prev].slice(0, 5));
+    setAiReview(null);
+    setStatusMessage(
+      review.accepted.length > 0
+        ? `Applied ${review.accepted.length} of ${review.changes.length} proposed changes.`
+        : "Design move rejected.",
+    );
+    setTimeout(() => setStatusMessage(null), 2200);
+  };
+
+  // The search starts from the design as it is; only the searched settings
+  // change when a point is loaded.
+  const handleSearchDesignSpace = async () => {
+    setOptimizerProgress({ evaluated: 0, total: SEARCH_BUDGET });
+    try {
+      const result = await searchDesignSpace(config, optimizerTargets, setOptimizerProgress);
+      setOptimizerResult(result);
+      setLoadedCandidateId(null);
+    } catch (error) {
+      setStatusMessage(`The search failed: ${error instanceof Error ? error.message : "unknown error"}`);
+      setTimeout(() => setStatusMessage(null), 4800);
+    } finally {
+      setOptimizerProgress(null);
+    }
+  };
+
+  const handleLoadCandidate = (candidate: Candidate) => {
+    updateConfig(candidate.values);
+    setLoadedCandidateId(candidate.id);
+    setStatusMessage(
+      `Loaded ${candidate.values.floors} floors at ${candidate.values.width} × ${candidate.values.depth} m from the explorer.`,
+    );
     setTimeout(() => setStatusMessage(null), 2200);
   };
 
@@ -706,7 +541,7 @@ export default function Home() {
               Define the tower geometry, facade rhythm, and rooftop systems. Generate a full Blender script that you can run to model the project instantly, then tweak every component further in Blender.
             </p>
           </div>
-          <BuildingPreview config={config} />
+          <BuildingPreview config={config} sun={sun} />
           <div className="rounded-2xl border border-slate-900/10 bg-white p-6 shadow">
             <div className="flex items-center justify-between">
               <h2 className="text-lg font-medium text-slate-900">AI Assistant Moves</h2>
@@ -726,12 +561,63 @@ export default function Home() {
                 className="min-h-[92px] rounded-xl border border-slate-200 bg-slate-50 px-3 py-3 text-sm text-slate-900 outline-none transition focus:border-slate-400 focus:bg-white"
               />
             </label>
+            <label className="mt-3 flex items-center justify-between gap-3 text-xs font-medium text-slate-600">
+              Interpreted by
+              <select
+                value={aiProviderId}
+                onChange={(event) => setAiProviderId(event.target.value as AiProviderId)}
+                className="rounded-lg border border-slate-200 px-2 py-1 text-xs text-slate-900 outline-none transition focus:border-slate-400"
+              >
+                {AI_PROVIDERS.map((provider) => (
+                  <option key={provider.id} value={provider.id}>
+                    {provider.label}
+                  </option>
+                ))}
+              </select>
+            </label>
             <button
-              onClick={handleApplyAi}
-              className="mt-3 w-full rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-700"
+              onClick={handleProposeAi}
+              disabled={aiPending}
+              className="mt-3 w-full rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-700 disabled:cursor-wait disabled:opacity-60"
             >
-              Apply AI Design Move
+              {aiPending ? "Thinking…" : "Propose AI Design Move"}
             </button>
+            <div className="mt-2 flex gap-2">
+              <button
+                onClick={handleGenerateOptions}
+                disabled={aiPending}
+                className="flex-1 rounded-xl border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-300 hover:text-slate-900 disabled:cursor-wait disabled:opacity-60"
+              >
+                Generate Options
+              </button>
+              <select
+                value={aiOptionCount}
+                onChange={(event) => setAiOptionCount(Number(event.target.value))}
+                aria-label="Number of options"
+                className="rounded-xl border border-slate-200 px-2 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
+              >
+                {OPTION_COUNTS.map((count) => (
+                  <option key={count} value={count}>
+                    {count} options
+                  </option>
+                ))}
+              </select>
+            </div>
+            {aiOptions && (
+              <AiOptionsPanel
+                optionSet={aiOptions}
+                onPick={(option) => handlePickOption(aiOptions, option)}
+                onDismiss={() => setAiOptions(null)}
+              />
+            )}
+            {aiReview && (
+              <AiMoveReview
+                review={aiReview}
+                onToggle={handleToggleAiChange}
+                onApply={() => handleResolveAi(aiReview)}
+                onDiscard={() => handleResolveAi({ ...aiReview, accepted: [] })}
+              />
+            )}
             <div className="mt-5 space-y-2 text-xs text-slate-500">
               {aiSummary.length === 0 ? (
                 <p>No AI adjustments logged yet.</p>
@@ -744,6 +630,161 @@ export default function Home() {
               )}
             </div>
           </div>
+          <div className="rounded-2xl border border-slate-900/10 bg-white p-6 shadow">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-medium text-slate-900">Design History</h2>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setHistory(undoHistory)}
+                  disabled={history.past.length === 0}
+                  title="Undo (Ctrl/Cmd+Z)"
+                  className="rounded-lg border border-slate-200 px-3 py-1 text-xs font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  Undo
+                </button>
+                <button
+                  onClick={() => setHistory(redoHistory)}
+                  disabled={history.future.length === 0}
+                  title="Redo (Ctrl/Cmd+Shift+Z)"
+                  className="rounded-lg border border-slate-200 px-3 py-1 text-xs font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  Redo
+                </button>
+              </div>
+            </div>
+            <p className="mt-2 text-xs text-slate-500">
+              {history.past.length} step{history.past.length === 1 ? "" : "s"} back · {history.future.length} forward
+            </p>
+            <div className="mt-4 flex gap-2">
+              <input
+                value={snapshotName}
+                onChange={(event) => setSnapshotName(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter") {
+                    handlePinSnapshot();
+                  }
+                }}
+                placeholder="e.g. Option A – timber"
+                className="min-w-0 flex-1 rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400 focus:bg-white"
+              />
+              <button
+                onClick={handlePinSnapshot}
+                className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-700"
+              >
+                Pin
+              </button>
+            </div>
+            <div className="mt-4 space-y-2 text-xs">
+              {snapshots.length === 0 ? (
+                <p className="text-slate-500">No snapshots pinned yet.</p>
+              ) : (
+                snapshots.map((snapshot) => {
+                  const isCurrent = JSON.stringify(snapshot.config) === JSON.stringify(config);
+                  return (
+                    <div
+                      key={snapshot.id}
+                      className={`flex items-center justify-between gap-2 rounded-lg border px-3 py-2 ${
+                        isCurrent ? "border-slate-400 bg-slate-100" : "border-slate-200 bg-slate-50"
+                      }`}
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate font-medium text-slate-800">{snapshot.name}</p>
+                        <p className="text-slate-500">
+                          {snapshot.config.floors} floors · {snapshot.config.facadePattern} · {snapshot.config.roofStyle} roof
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        {isCurrent ? (
+                          <span className="text-slate-500">Current</span>
+                        ) : (
+                          <button
+                            onClick={() => handleRestoreSnapshot(snapshot)}
+                            className="font-medium text-slate-700 transition hover:text-slate-900"
+                          >
+                            Jump
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleRemoveSnapshot(snapshot.id)}
+                          className="font-medium text-rose-600 transition hover:text-rose-800"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+            {snapshots.length > 0 ? (
+              <button
+                onClick={handleOpenCompare}
+                className="mt-4 w-full rounded-xl border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-400 hover:text-slate-900"
+              >
+                Compare options
+              </button>
+            ) : null}
+          </div>
+          <div className="rounded-2xl border border-slate-900/10 bg-white p-6 shadow">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-medium text-slate-900">Projects</h2>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleExportProject}
+                  className="rounded-lg border border-slate-200 px-3 py-1 text-xs font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+                >
+                  Export JSON
+                </button>
+                <label className="cursor-pointer rounded-lg border border-slate-200 px-3 py-1 text-xs font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-900">
+                  Import JSON
+                  <input type="file" accept=".json,application/json" onChange={handleImportProject} className="hidden" />
+                </label>
+              </div>
+            </div>
+            <p className="mt-2 text-xs text-slate-500">Changes are saved in this browser automatically.</p>
+            {projectError ? (
+              <div className="mt-3 rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">
+                {projectError}
+              </div>
+            ) : null}
+            <div className="mt-4 space-y-2 text-xs">
+              {savedProjects.length === 0 ? (
+                <p className="text-slate-500">No saved projects yet.</p>
+              ) : (
+                savedProjects.map((project) => (
+                  <div
+                    key={project.id}
+                    className={`flex items-center justify-between gap-2 rounded-lg border px-3 py-2 ${
+                      project.id === projectId ? "border-slate-400 bg-slate-100" : "border-slate-200 bg-slate-50"
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate font-medium text-slate-800">{project.name || "Untitled project"}</p>
+                      <p className="text-slate-500">{new Date(project.savedAt).toLocaleString()}</p>
+                    </div>
+                    {project.id === projectId ? (
+                      <span className="text-slate-500">Open</span>
+                    ) : (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleOpenProject(project.id)}
+                          className="font-medium text-slate-700 transition hover:text-slate-900"
+                        >
+                          Open
+                        </button>
+                        <button
+                          onClick={() => handleDeleteProject(project.id)}
+                          className="font-medium text-rose-600 transition hover:text-rose-800"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
           {statusMessage ? (
             <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-2 text-sm text-emerald-700">
               {statusMessage}
@@ -773,6 +814,7 @@ export default function Home() {
                   className="accent-slate-900"
                 />
                 <span className="text-xs text-slate-500">{config.floors} levels</span>
+                <FieldIssues issues={issues} field="floors" />
               </label>
               <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
                 Floor-to-floor height (m)
@@ -785,6 +827,7 @@ export default function Home() {
                   onChange={(event) => updateConfig({ floorHeight: Number(event.target.value) })}
                   className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
                 />
+                <FieldIssues issues={issues} field="floorHeight" />
               </label>
               <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
                 Lobby height (m)
@@ -797,6 +840,7 @@ export default function Home() {
                   onChange={(event) => updateConfig({ lobbyHeight: Number(event.target.value) })}
                   className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
                 />
+                <FieldIssues issues={issues} field="lobbyHeight" />
               </label>
               <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
                 Overall width (m)
@@ -809,6 +853,7 @@ export default function Home() {
                   onChange={(event) => updateConfig({ width: Number(event.target.value) })}
                   className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
                 />
+                <FieldIssues issues={issues} field="width" />
               </label>
               <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
                 Overall depth (m)
@@ -821,6 +866,7 @@ export default function Home() {
                   onChange={(event) => updateConfig({ depth: Number(event.target.value) })}
                   className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
                 />
+                <FieldIssues issues={issues} field="depth" />
               </label>
               <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
                 Core width (m)
@@ -833,6 +879,7 @@ export default function Home() {
                   onChange={(event) => updateConfig({ coreWidth: Number(event.target.value) })}
                   className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
                 />
+                <FieldIssues issues={issues} field="coreWidth" />
               </label>
               <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
                 Core depth (m)
@@ -845,6 +892,7 @@ export default function Home() {
                   onChange={(event) => updateConfig({ coreDepth: Number(event.target.value) })}
                   className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
                 />
+                <FieldIssues issues={issues} field="coreDepth" />
               </label>
               <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
                 Units per floor
@@ -856,6 +904,7 @@ export default function Home() {
                   onChange={(event) => updateConfig({ unitsPerFloor: Number(event.target.value) })}
                   className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
                 />
+                <FieldIssues issues={issues} field="unitsPerFloor" />
               </label>
               <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
                 Base plinth height (m)
@@ -880,6 +929,116 @@ export default function Home() {
                   onChange={(event) => updateConfig({ structuralGrid: Number(event.target.value) })}
                   className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
                 />
+                <FieldIssues issues={issues} field="structuralGrid" />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
+                Plan shape
+                <select
+                  value={config.planShape}
+                  onChange={(event) => updateConfig({ planShape: event.target.value as PlanShape })}
+                  className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
+                >
+                  <option value="rectangle">Rectangle</option>
+                  <option value="l-shape">L-shape</option>
+                  <option value="u-shape">U-shape</option>
+                  <option value="courtyard">Courtyard</option>
+                </select>
+                <FieldIssues issues={issues} field="planShape" />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
+                Cut-out ratio
+                <input
+                  type="number"
+                  min={0.1}
+                  max={0.8}
+                  step={0.05}
+                  value={config.cutoutRatio}
+                  onChange={(event) => updateConfig({ cutoutRatio: Number(event.target.value) })}
+                  className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
+                  disabled={config.planShape === "rectangle"}
+                />
+                <FieldIssues issues={issues} field="cutoutRatio" />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
+                Corners
+                <select
+                  value={config.cornerStyle}
+                  onChange={(event) => updateConfig({ cornerStyle: event.target.value as CornerStyle })}
+                  className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
+                >
+                  <option value="square">Square</option>
+                  <option value="chamfered">Chamfered</option>
+                  <option value="rounded">Rounded</option>
+                </select>
+                <FieldIssues issues={issues} field="cornerStyle" />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
+                Corner size (m)
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.5}
+                  value={config.cornerSize}
+                  onChange={(event) => updateConfig({ cornerSize: Number(event.target.value) })}
+                  className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
+                  disabled={config.cornerStyle === "square"}
+                />
+                <FieldIssues issues={issues} field="cornerSize" />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
+                Height profile
+                <select
+                  value={config.heightProfile}
+                  onChange={(event) => updateConfig({ heightProfile: event.target.value as HeightProfile })}
+                  className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
+                >
+                  <option value="straight">Straight</option>
+                  <option value="taper">Taper</option>
+                  <option value="stepped">Stepped setbacks</option>
+                </select>
+                <FieldIssues issues={issues} field="heightProfile" />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
+                Top floor scale
+                <input
+                  type="number"
+                  min={0.3}
+                  max={1}
+                  step={0.05}
+                  value={config.topScale}
+                  onChange={(event) => updateConfig({ topScale: Number(event.target.value) })}
+                  className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
+                  disabled={config.heightProfile === "straight"}
+                />
+                <FieldIssues issues={issues} field="topScale" />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
+                Floors per setback
+                <input
+                  type="number"
+                  min={1}
+                  max={40}
+                  step={1}
+                  value={config.setbackInterval}
+                  onChange={(event) => updateConfig({ setbackInterval: Number(event.target.value) })}
+                  className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
+                  disabled={config.heightProfile !== "stepped"}
+                />
+                <FieldIssues issues={issues} field="setbackInterval" />
+              </label>
+              <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
+                Twist per floor (°)
+                <input
+                  type="number"
+                  min={-10}
+                  max={10}
+                  step={0.5}
+                  value={config.twistPerFloor}
+                  onChange={(event) => updateConfig({ twistPerFloor: Number(event.target.value) })}
+                  className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
+                />
+                <FieldIssues issues={issues} field="twistPerFloor" />
               </label>
               <label className="flex flex-col gap-2 text-sm font-medium text-slate-700 md:col-span-2">
                 Narrative
@@ -892,6 +1051,123 @@ export default function Home() {
             </div>
           </section>
 
+          <section className="rounded-3xl border border-slate-900/10 bg-white p-8 shadow">
+            <h2 className="text-xl font-semibold text-slate-900">Program Zones</h2>
+            <p className="mt-1 text-sm text-slate-500">
+              Floor ranges override the typical floor height, unit count and balconies; the preview colours each zone.
+            </p>
+            <div className="mt-6 space-y-2">
+              <ZoneEditor config={config} onChange={(zones) => updateConfig({ zones })} />
+              <FieldIssues issues={issues} field="zones" />
+            </div>
+          </section>
+
+          <section className="rounded-3xl border border-slate-900/10 bg-white p-8 shadow">
+            <h2 className="text-xl font-semibold text-slate-900">Site Context</h2>
+            <p className="mt-1 text-sm text-slate-500">
+              The plot, its setback lines and the zoning limits the design is checked against. The preview and
+              Blender scene draw the plot and the buildable envelope as outlines.
+            </p>
+            <div className="mt-6 space-y-2">
+              <PlotEditor config={config} checks={envelopeChecks} onChange={updateConfig} />
+              <FieldIssues issues={issues} field="plot" />
+            </div>
+          </section>
+
+          <section className="rounded-3xl border border-slate-900/10 bg-white p-8 shadow">
+            <h2 className="text-xl font-semibold text-slate-900">Sun Study</h2>
+            <p className="mt-1 text-sm text-slate-500">
+              The sun is tracked locally from the site&apos;s position and date. Scrub the time to cast its shadow in the
+              preview; the Blender script animates a sun lamp through the same hours.
+            </p>
+            <div className="mt-6 space-y-2">
+              <SunStudyPanel
+                study={sunStudy}
+                hours={sunHours}
+                position={sunPosition}
+                showShadows={showShadows}
+                onChange={(next) => updateConfig({ sunStudy: next })}
+                onHourChange={setSunHour}
+                onShowShadowsChange={setShowShadows}
+              />
+              <FieldIssues issues={issues} field="sunStudy" />
+            </div>
+          </section>
+
+          <section className="rounded-3xl border border-slate-900/10 bg-white p-8 shadow">
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <h2 className="text-xl font-semibold text-slate-900">Area Schedule</h2>
+              <label className="flex items-center gap-3 text-sm font-medium text-slate-700">
+                Site area (m²)
+                <input
+                  type="number"
+                  min={0}
+                  step={10}
+                  value={config.siteArea}
+                  onChange={(event) => updateConfig({ siteArea: Math.max(0, Number(event.target.value)) })}
+                  disabled={hasPlot(config)}
+                  title={hasPlot(config) ? "Set by the plot boundary" : undefined}
+                  className="w-32 rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
+                />
+              </label>
+            </div>
+            <div className="mt-6">
+              <MetricsPanel metrics={metrics} />
+            </div>
+          </section>
+
+          <section className="rounded-3xl border border-slate-900/10 bg-white p-8 shadow">
+            <h2 className="text-xl font-semibold text-slate-900">Design Space Explorer</h2>
+            <p className="mt-1 text-sm text-slate-500">
+              Searches floors, plate size, floor height, units per floor and window module for designs that meet the
+              targets. The front trades height against footprint; a point loads those settings into the editor.
+            </p>
+            <div className="mt-6">
+              <OptimizerPanel
+                targets={optimizerTargets}
+                result={optimizerResult}
+                progress={optimizerProgress}
+                loadedId={loadedCandidateId}
+                onTargetsChange={setOptimizerTargets}
+                onSearch={handleSearchDesignSpace}
+                onPick={handleLoadCandidate}
+              />
+            </div>
+          </section>
+
+          <section className="rounded-3xl border border-slate-900/10 bg-white p-8 shadow">
+            <h2 className="text-xl font-semibold text-slate-900">Structure</h2>
+            <p className="mt-2 text-sm text-slate-600">
+              Columns follow the {config.structuralGrid.toFixed(1)} m structural grid on every plate. Toggle the preview to Structure to inspect the frame.
+            </p>
+            <div className="mt-6">
+              <StructurePanel summary={structure} />
+            </div>
+          </section>
+
+          <section className="rounded-3xl border border-slate-900/10 bg-white p-8 shadow">
+            <h2 className="text-xl font-semibold text-slate-900">Typical Floor Plan</h2>
+            <p className="mt-2 text-sm text-slate-600">
+              {floorPlan.units.length} units wrap a {CORRIDOR_WIDTH.toFixed(1)} m corridor around the core
+              {config.hasAtrium ? " and atrium void" : ""}. The same demising walls are written to the Blender script
+              and IFC export.
+            </p>
+            <div className="mt-6">
+              <FloorPlanView plan={floorPlan} />
+            </div>
+          </section>
+
+          <section className="rounded-3xl border border-slate-900/10 bg-white p-8 shadow">
+            <h2 className="text-xl font-semibold text-slate-900">Drawings</h2>
+            <p className="mt-2 text-sm text-slate-600">
+              Plan, elevations and section at 1:{DRAWING_SCALE} with level lines and dimensions, ready for CAD as DXF or for
+              markup as SVG.
+            </p>
+            <div className="mt-6">
+              <DrawingsPanel drawings={drawings} disabled={blocked} onDownload={handleDownloadDrawing} />
+            </div>
+          </section>
+
           <section className="rounded-3xl border border-slate-900/10 bg-white p-8 shadow">
             <h2 className="text-xl font-semibold text-slate-900">Facade &amp; Lifestyle Features</h2>
             <div className="mt-6 grid grid-cols-1 gap-6 md:grid-cols-2">
@@ -918,6 +1194,7 @@ export default function Home() {
                   onChange={(event) => updateConfig({ windowModule: Number(event.target.value) })}
                   className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
                 />
+                <FieldIssues issues={issues} field="windowModule" />
               </label>
               <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
                 Window width (m)
@@ -930,6 +1207,7 @@ export default function Home() {
                   onChange={(event) => updateConfig({ windowWidth: Number(event.target.value) })}
                   className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
                 />
+                <FieldIssues issues={issues} field="windowWidth" />
               </label>
               <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
                 Window height (m)
@@ -942,6 +1220,7 @@ export default function Home() {
                   onChange={(event) => updateConfig({ windowHeight: Number(event.target.value) })}
                   className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
                 />
+                <FieldIssues issues={issues} field="windowHeight" />
               </label>
               <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
                 Spandrel height (m)
@@ -954,6 +1233,7 @@ export default function Home() {
                   onChange={(event) => updateConfig({ spandrelHeight: Number(event.target.value) })}
                   className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
                 />
+                <FieldIssues issues={issues} field="spandrelHeight" />
               </label>
               <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
                 Balcony depth (m)
@@ -966,6 +1246,7 @@ export default function Home() {
                   onChange={(event) => updateConfig({ balconyDepth: Number(event.target.value) })}
                   className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
                 />
+                <FieldIssues issues={issues} field="balconyDepth" />
               </label>
               <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
                 Balcony frequency
@@ -1012,6 +1293,7 @@ export default function Home() {
                   className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
                   disabled={!config.includePodium}
                 />
+                <FieldIssues issues={issues} field="podiumLevels" />
               </label>
               <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
                 Podium setback (m)
@@ -1025,6 +1307,7 @@ export default function Home() {
                   className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
                   disabled={!config.includePodium}
                 />
+                <FieldIssues issues={issues} field="podiumSetback" />
               </label>
               <label className="flex items-center gap-3 text-sm font-medium text-slate-700">
                 <input
@@ -1063,6 +1346,42 @@ export default function Home() {
                 Daylight shelves
               </label>
             </div>
+            <div className="mt-8 flex flex-wrap items-end justify-between gap-4">
+              <h3 className="text-base font-semibold text-slate-900">Glazing &amp; Window-to-Wall Ratio</h3>
+              <label className="flex items-center gap-3 text-sm font-medium text-slate-700">
+                WWR limit (%)
+                <input
+                  type="number"
+                  min={10}
+                  max={100}
+                  step={1}
+                  value={Math.round(config.maxWindowWallRatio * 100)}
+                  onChange={(event) => updateConfig({ maxWindowWallRatio: clamp(Number(event.target.value), 0, 100) / 100 })}
+                  className="w-24 rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
+                />
+              </label>
+            </div>
+            <div className="mt-4">
+              <GlazingPanel glazing={glazing} />
+            </div>
+          </section>
+
+          <section className="rounded-3xl border border-slate-900/10 bg-white p-8 shadow">
+            <h2 className="text-xl font-semibold text-slate-900">Site Ensemble</h2>
+            <p className="mt-1 text-sm text-slate-500">
+              Place several designs on one site. Object names are prefixed per building so the ensemble builds in a
+              single Blender scene.
+            </p>
+            <div className="mt-6">
+              <SitePanel
+                site={site}
+                project={config}
+                options={availableOptions}
+                onChange={setSite}
+                onDownloadScript={handleDownloadSiteScript}
+                onDownloadGlb={handleDownloadSiteGlb}
+              />
+            </div>
           </section>
 
           <section className="rounded-3xl border border-slate-900/10 bg-white p-8 shadow">
@@ -1119,21 +1438,85 @@ export default function Home() {
           <section className="rounded-3xl border border-slate-900/10 bg-white p-8 shadow">
             <h2 className="text-xl font-semibold text-slate-900">Blender Python Script</h2>
             <p className="mt-2 text-sm text-slate-600">
-              Copy the script into Blender&apos;s scripting workspace and run. Every part of the massing, facade, podium, and roof systems can be refined further inside Blender once generated.
+              Copy the script into Blender&apos;s scripting workspace and run. Every part of the massing, facade, podium, and roof systems can be refined further inside Blender once generated. No Blender on hand? Download the same massing as GLB or OBJ, as IFC for BIM coordination, or as a watertight STL for the model shop.
             </p>
+            {issues.length > 0 ? (
+              <div
+                className={`mt-4 rounded-2xl border px-4 py-3 text-sm ${
+                  blocked ? "border-rose-200 bg-rose-50 text-rose-700" : "border-amber-200 bg-amber-50 text-amber-800"
+                }`}
+              >
+                <p className="font-semibold">
+                  {blocked
+                    ? "Fix the errors below before copying or downloading the model."
+                    : "The model can be exported, but check these warnings."}
+                </p>
+                <ul className="mt-2 list-disc space-y-1 pl-5 text-xs">
+                  {issues.map((issue) => (
+                    <li key={issue.id} className={issue.severity === "error" ? "text-rose-700" : "text-amber-800"}>
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
             <div className="mt-4 flex flex-wrap gap-2">
               <button
                 onClick={handleCopy}
-                className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-700"
+                disabled={blocked}
+                className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40"
               >
                 Copy script
               </button>
               <button
                 onClick={handleDownload}
-                className="rounded-xl border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-400 hover:text-slate-900"
+                disabled={blocked}
+                className="rounded-xl border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-400 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-40"
               >
                 Download .py
               </button>
+              <button
+                onClick={handleDownloadGlb}
+                disabled={blocked}
+                className="rounded-xl border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-400 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Download GLB
+              </button>
+              <button
+                onClick={handleDownloadObj}
+                disabled={blocked}
+                className="rounded-xl border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-400 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Download OBJ + MTL
+              </button>
+              <button
+                onClick={handleDownloadIfc}
+                disabled={blocked}
+                className="rounded-xl border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-400 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Download IFC
+              </button>
+              <div className="flex items-center gap-2">
+                <select
+                  value={printScale}
+                  onChange={(event) => setPrintScale(Number(event.target.value))}
+                  className="rounded-xl border border-slate-300 px-3 py-2 text-sm text-slate-700 outline-none transition focus:border-slate-400"
+                  aria-label="Print scale"
+                >
+                  {PRINT_SCALES.map((scale) => (
+                    <option key={scale} value={scale}>
+                      1:{scale}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleDownloadStl}
+                  disabled={blocked}
+                  className="rounded-xl border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-400 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  Download STL
+                </button>
+              </div>
             </div>
             <pre className="mt-5 max-h-[540px] overflow-y-auto rounded-2xl border border-slate-900/10 bg-slate-950/90 p-6 text-xs text-emerald-100 shadow-inner">
               <code>{script}</code>
@@ -1141,6 +1524,47 @@ export default function Home() {
           </section>
         </div>
       </div>
+      {compareIds ? (
+        <section className="mx-auto w-full max-w-6xl px-6">
+          <div className="rounded-3xl border border-slate-900/10 bg-white p-8 shadow">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-slate-900">Compare Options</h2>
+              <button
+                onClick={() => setCompareIds(null)}
+                className="rounded-lg border border-slate-200 px-3 py-1 text-xs font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+              >
+                Close
+              </button>
+            </div>
+            <div className="mt-4 flex flex-wrap gap-2">
+              {availableOptions.map((option) => {
+                const selected = compareIds.includes(option.id);
+                return (
+                  <button
+                    key={option.id}
+                    onClick={() => toggleCompared(option.id)}
+                    disabled={!selected && compareIds.length >= MAX_COMPARED}
+                    className={`rounded-full border px-3 py-1 text-xs font-medium transition disabled:cursor-not-allowed disabled:opacity-40 ${
+                      selected
+                        ? "border-slate-900 bg-slate-900 text-white"
+                        : "border-slate-200 text-slate-600 hover:border-slate-300 hover:text-slate-900"
+                    }`}
+                  >
+                    {option.name}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="mt-6">
+              {comparedOptions.length < 2 ? (
+                <p className="text-sm text-slate-500">Select at least two options to compare (up to {MAX_COMPARED}).</p>
+              ) : (
+                <CompareView options={comparedOptions} />
+              )}
+            </div>
+          </div>
+        </section>
+      ) : null}
     </div>
   );
 }
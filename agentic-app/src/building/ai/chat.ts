@@ -0,0 +1,193 @@
+import { defaultConfig } from "../defaults";
+import { ZONE_USES } from "../levels";
+import { ENUM_FIELDS, ProjectFileError, validateConfigUpdates } from "../project";
+import type { AiInference, BuildingConfig } from "../types";
+import type { AiProvider } from "./provider";
+import { AiProviderError } from "./provider";
+
+// Any server that speaks the OpenAI chat completions API: the hosted one, a
+// self-hosted model behind vLLM, llama.cpp or Ollama, or the local mock.
+export type ChatSettings = {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+};
+
+type JsonSchema = Record<string, unknown>;
+
+const CHAT_TIMEOUT_MS = 30_000;
+
+// Design moves may not rename the project or rewrite its narrative.
+const FIXED_FIELDS: (keyof BuildingConfig)[] = ["projectName", "narrative"];
+
+const objectOf = (properties: Record<string, JsonSchema>): JsonSchema => ({
+  type: "object",
+  properties,
+  required: Object.keys(properties),
+  additionalProperties: false,
+});
+
+const primitive = (value: unknown): JsonSchema => ({ type: typeof value });
+
+const NUMBER_LIST: JsonSchema = { type: "array", items: { type: "number" } };
+
+const fieldSchema = (key: keyof BuildingConfig): JsonSchema => {
+  const value = defaultConfig[key];
+  const options = ENUM_FIELDS[key];
+  if (options) {
+    return { type: "string", enum: options };
+  }
+  if (key === "zones") {
+    return {
+      type: "array",
+      items: objectOf({
+        use: { type: "string", enum: ZONE_USES },
+        fromFloor: { type: "number" },
+        toFloor: { type: "number" },
+        floorHeight: { type: "number" },
+        unitsPerFloor: { type: "number" },
+        balconyFrequency: { type: "string", enum: ENUM_FIELDS.balconyFrequency },
+      }),
+    };
+  }
+  if (key === "plot") {
+    return objectOf({
+      boundary: { type: "array", items: NUMBER_LIST },
+      setbacks: NUMBER_LIST,
+      maxHeight: { type: "number" },
+      maxFloorAreaRatio: { type: "number" },
+      maxCoverage: { type: "number" },
+    });
+  }
+  if (typeof value === "object") {
+    return objectOf(Object.fromEntries(Object.entries(value).map(([field, entry]) => [field, primitive(entry)])));
+  }
+  return primitive(value);
+};
+
+const EDITABLE_FIELDS = (Object.keys(defaultConfig) as (keyof BuildingConfig)[]).filter(
+  (key) => !FIXED_FIELDS.includes(key),
+);
+
+// Strict structured output wants every property listed, so a field the move
+// leaves alone comes back as null.
+export const DESIGN_MOVE_SCHEMA: JsonSchema = objectOf({
+  updates: objectOf(
+    Object.fromEntries(EDITABLE_FIELDS.map((key) => [key, { anyOf: [fieldSchema(key), { type: "null" }] }])),
+  ),
+  summary: { type: "string" },
+  notes: {
+    type: "array",
+    items: objectOf({ field: { type: "string", enum: EDITABLE_FIELDS }, phrase: { type: "string" } }),
+  },
+});
+
+export const SETTINGS_MARKER = "Current settings:";
+
+const systemPrompt = (current: BuildingConfig) =>
+  [
+    "You are the design assistant of a parametric building studio.",
+    "Turn the architect's request into changes to the building settings below.",
+    "Put each setting you change under `updates` and leave every other setting null.",
+    "Describe the move in one or two sentences under `summary`.",
+    "Under `notes`, quote for each changed setting the words of the request that called for it.",
+    "Lengths are metres, areas square metres, angles degrees, and ratios and coverage are fractions from 0 to 1.",
+    "Floors are numbered from 1, the lobby. Relative requests such as '20% narrower' or 'five more floors'",
+    "are measured from the current settings.",
+    "",
+    SETTINGS_MARKER,
+    JSON.stringify(current),
+  ].join("\n");
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Notes are a courtesy: any that are malformed or name a setting the move does
+// not change are dropped rather than failing the move.
+const readNotes = (raw: unknown, updates: Partial<BuildingConfig>): AiInference["notes"] => {
+  const notes: AiInference["notes"] = {};
+  (Array.isArray(raw) ? raw : []).forEach((note) => {
+    if (isRecord(note) && typeof note.field === "string" && typeof note.phrase === "string" && note.field in updates) {
+      notes[note.field] = notes[note.field] ? `${notes[note.field]}; ${note.phrase.trim()}` : note.phrase.trim();
+    }
+  });
+  return notes;
+};
+
+// Reads the model's answer back through the project file's own checks, so a
+// move can never put the config into a shape the app cannot load.
+export const parseDesignMove = (content: string, current: BuildingConfig): AiInference => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new AiProviderError("The model did not answer with JSON.");
+  }
+  if (!isRecord(raw) || !isRecord(raw.updates)) {
+    throw new AiProviderError("The model's answer has no updates object.");
+  }
+  const proposed = Object.fromEntries(
+    Object.entries(raw.updates).filter(
+      ([key, value]) => value !== null && !FIXED_FIELDS.includes(key as keyof BuildingConfig),
+    ),
+  );
+  if (isRecord(proposed.colors)) {
+    proposed.colors = { ...current.colors, ...proposed.colors };
+  }
+  try {
+    const updates = validateConfigUpdates(proposed);
+    return {
+      updates,
+      summary: typeof raw.summary === "string" ? raw.summary.trim() : "",
+      notes: readNotes(raw.notes, updates),
+    };
+  } catch (error) {
+    if (error instanceof ProjectFileError) {
+      throw new AiProviderError(`The model proposed an invalid move: ${error.message}`);
+    }
+    throw error;
+  }
+};
+
+export const createChatProvider = (settings: ChatSettings): AiProvider => ({
+  id: "model",
+  label: settings.model,
+  infer: async (prompt, current) => {
+    let response: Response;
+    try {
+      response = await fetch(`${settings.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: settings.model,
+          temperature: 0.2,
+          messages: [
+            { role: "system", content: systemPrompt(current) },
+            { role: "user", content: prompt },
+          ],
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "design_move", strict: true, schema: DESIGN_MOVE_SCHEMA },
+          },
+        }),
+        signal: AbortSignal.timeout(CHAT_TIMEOUT_MS),
+      });
+    } catch {
+      throw new AiProviderError(`The model endpoint at ${settings.baseUrl} could not be reached.`);
+    }
+    if (!response.ok) {
+      throw new AiProviderError(`The model endpoint answered ${response.status} ${response.statusText}.`);
+    }
+    const body = (await response.json().catch(() => null)) as {
+      choices?: { message?: { content?: string | null } }[];
+    } | null;
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new AiProviderError("The model endpoint sent no message.");
+    }
+    return parseDesignMove(content, current);
+  },
+});
@@ -0,0 +1,580 @@
+import type { BalconyFrequency } from "../types";
+import type { ChoiceSpec, ColourSlot, Macro, Mention, NumericSpec, Quantity, Style, ToggleSpec } from "./lexicon";
+import { DEPTH, FLOOR_HEIGHT, FLOORS, HEIGHT, LEXICON, WIDTH } from "./lexicon";
+
+type Unit = "m" | "ft" | "percent" | "deg" | "sqm" | "sqft";
+
+// `source` keeps the words as written, for quoting back what triggered a move.
+type Token = { source: string } & (
+  | { kind: "word"; text: string }
+  | { kind: "number"; value: number; unit: Unit | null }
+  | { kind: "colour"; value: string }
+  | { kind: "date"; value: string }
+  // Sentence breaks end everything a clause carries over; commas and "and"
+  // keep a verb or a negation going ("reduce width by 10%, depth by 5%").
+  | { kind: "break"; sentence: boolean }
+);
+
+type Item = Token | { kind: "mention"; mention: Mention; source: string };
+
+type Move =
+  | { kind: "set"; spec: NumericSpec; value: number }
+  | { kind: "change"; spec: NumericSpec; delta: number }
+  | { kind: "scale"; spec: NumericSpec; factor: number }
+  | { kind: "toggle"; spec: ToggleSpec; on: boolean }
+  | { kind: "choice"; spec: ChoiceSpec; negated: boolean }
+  | { kind: "balconies"; frequency: BalconyFrequency }
+  | { kind: "style"; style: Style }
+  | { kind: "macro"; macro: Macro; negated: boolean }
+  | { kind: "colour"; slot: ColourSlot; value: string }
+  | { kind: "date"; value: string }
+  | { kind: "season"; monthDay: string }
+  | { kind: "name"; value: string };
+
+// A single design move read from the prompt, with the clause it came from.
+// Values are already in the config's units: metres, square metres, fractions
+// and degrees.
+export type Intent = Move & { source: string };
+
+const FEET = 0.3048;
+const SQUARE_FEET = 0.092903;
+
+// A comparative or verb with no number ("make it taller") moves by 10%.
+const NUDGE = 0.1;
+
+const NUMBER_WORDS = new Map<string, number>(
+  [
+    "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+    "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen",
+  ].map((word, index): [string, number] => [word, index]),
+);
+["twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"].forEach((word, index) =>
+  NUMBER_WORDS.set(word, 20 + index * 10),
+);
+NUMBER_WORDS.set("dozen", 12);
+
+const UNITS = new Map<string, Unit>([
+  ["m", "m"],
+  ["metre", "m"],
+  ["metres", "m"],
+  ["meter", "m"],
+  ["meters", "m"],
+  ["ft", "ft"],
+  ["foot", "ft"],
+  ["feet", "ft"],
+  ["'", "ft"],
+  ["%", "percent"],
+  ["percent", "percent"],
+  ["°", "deg"],
+  ["deg", "deg"],
+  ["degree", "deg"],
+  ["degrees", "deg"],
+  ["sqm", "sqm"],
+  ["sqft", "sqft"],
+]);
+
+const UNIT_QUANTITIES: Record<Unit, Quantity[]> = {
+  m: ["length"],
+  ft: ["length"],
+  percent: ["ratio", "count", "length", "area", "angle", "plain"],
+  deg: ["angle"],
+  sqm: ["area"],
+  sqft: ["area"],
+};
+
+const SENTENCE_BREAKS = new Set([".", ";", "!", "?"]);
+const CLAUSE_BREAKS = new Set([",", ":"]);
+const CONJUNCTIONS = new Set(["and", "then", "but", "also", "while", "whereas"]);
+
+const NEGATORS = new Set([
+  "no", "not", "without", "remove", "drop", "disable", "delete", "omit", "skip", "exclude", "lose", "ditch",
+  "eliminate", "never", "none",
+]);
+const ADD_VERBS = new Set([
+  "add", "increase", "raise", "extend", "grow", "boost", "plus", "up", "enlarge", "expand", "lengthen", "stretch",
+]);
+const SUB_VERBS = new Set([
+  "reduce", "decrease", "lower", "cut", "shrink", "trim", "remove", "drop", "minus", "lose", "shorten", "take",
+  "down", "subtract",
+]);
+const SET_VERBS = new Set(["set", "make", "change", "adjust", "use", "give", "fix"]);
+const MORE = new Set(["more", "extra", "additional", "another"]);
+const FEWER = new Set(["fewer", "less"]);
+// "double the floors", "twice as tall", "half the width".
+const MULTIPLIERS = new Map([
+  ["double", 2],
+  ["twice", 2],
+  ["triple", 3],
+  ["treble", 3],
+  ["halve", 0.5],
+  ["half", 0.5],
+]);
+// Words describing how tall a floor is ("floors 10 feet tall").
+const STATURE = new Set(["tall", "high"]);
+
+// Words that may sit between a number and the setting it belongs to.
+const BEFORE_FILLERS = new Set([...MORE, ...FEWER, ...STATURE, "new"]);
+const AFTER_FILLERS = new Set([
+  "of", "to", "at", "by", "is", "be", "it", "about", "around", "roughly", "approximately", "the", "a", "an",
+]);
+const ARTICLES = new Set(["the", "a", "an", "any", "its", "all", "more"]);
+const MULTIPLIER_SKIPS = new Set([...ARTICLES, "as", "of", "many", "much"]);
+// Negations reach past these to the thing turned down ("don't add solar").
+const NEGATION_SKIPS = new Set([...ARTICLES, "or", "nor", "add", "want", "need", "have", "include", "use", "with"]);
+
+// "call it Harbour Point", `name the tower "Kestrel"`.
+const NAMING =
+  /\b(?:call|name|rename)\s+(?:it|the\s+(?:project|tower|building|scheme))\s+(?:to\s+|as\s+)?(?:["“]([^"”]+)["”]|([^.,;!?"]+?)(?=\s+(?:and|with|then)\b|[.,;!?]|$))/i;
+
+const TOKEN = /#[0-9a-f]{6}\b|\d{4}-\d{2}-\d{2}|-?\d+(?:\.\d+)?|[a-z]+|[%°'.,;:!?]/g;
+
+const normalize = (prompt: string) =>
+  prompt
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/n't\b/g, " not")
+    .replace(/(?<=\d),(?=\d{3}\b)/g, "")
+    .replace(/(?<=\d)\s*[-–]\s*(?=\d)(?!\d{2}-\d{2})/g, " to ")
+    .replace(/×/g, " x ")
+    .replace(/\bper\s+cent\b/g, "percent")
+    .replace(/\b(?:square|sq\.?)\s*(?:metres?|meters?|m)\b|(?<![a-z])m(?:2|²)(?![a-z0-9])/g, " sqm ")
+    .replace(/\b(?:square|sq\.?)\s*(?:feet|foot|ft)\b|(?<![a-z])ft(?:2|²)(?![a-z0-9])/g, " sqft ")
+    .replace(/([a-z])-(?=[a-z])/g, "$1 ");
+
+// "twenty five", "one hundred twenty" and "a dozen" read as single numbers.
+const readNumberWords = (words: string[], start: number) => {
+  let value = 0;
+  let index = start;
+  while (index < words.length) {
+    const word = words[index];
+    if (word === "hundred" && index > start) {
+      value *= 100;
+    } else if (NUMBER_WORDS.has(word)) {
+      value += NUMBER_WORDS.get(word) ?? 0;
+    } else {
+      break;
+    }
+    index += 1;
+  }
+  return { value, next: index };
+};
+
+const tokenize = (prompt: string): Token[] => {
+  const words = normalize(prompt).match(TOKEN) ?? [];
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < words.length) {
+    const word = words[index];
+    const start = index;
+    let value: number | null = null;
+    if (word.startsWith("#")) {
+      tokens.push({ kind: "colour", value: word, source: word });
+    } else if (/^\d{4}-\d{2}-\d{2}$/.test(word)) {
+      tokens.push({ kind: "date", value: word, source: word });
+    } else if (/^-?\d/.test(word)) {
+      value = Number(word);
+    } else if (NUMBER_WORDS.has(word)) {
+      const read = readNumberWords(words, index);
+      value = read.value;
+      index = read.next - 1;
+    } else if (SENTENCE_BREAKS.has(word) || CLAUSE_BREAKS.has(word)) {
+      tokens.push({ kind: "break", sentence: SENTENCE_BREAKS.has(word), source: word });
+    } else {
+      tokens.push({ kind: "word", text: word, source: word });
+    }
+    index += 1;
+    if (value !== null) {
+      const unit = UNITS.get(words[index]) ?? null;
+      if (unit) {
+        index += 1;
+      }
+      const source = words.slice(start, index).join(" ").replace(/ (?=[%°'])/g, "");
+      tokens.push({ kind: "number", value, unit, source });
+    }
+  }
+  return tokens;
+};
+
+const matchPhrases = (tokens: Token[]): Item[] => {
+  const items: Item[] = [];
+  let index = 0;
+  while (index < tokens.length) {
+    const token = tokens[index];
+    const entry =
+      token.kind === "word"
+        ? LEXICON.get(token.text)?.find((candidate) =>
+            candidate.words.every((word, offset) => {
+              const next = tokens[index + offset];
+              return next?.kind === "word" && next.text === word;
+            }),
+          )
+        : undefined;
+    if (entry) {
+      items.push({ kind: "mention", mention: entry.mention, source: entry.words.join(" ") });
+      index += entry.words.length;
+    } else {
+      items.push(token);
+      index += 1;
+    }
+  }
+  return items;
+};
+
+const isWord = (item: Item | undefined, words: Set<string>) => item?.kind === "word" && words.has(item.text);
+
+const measureOf = (item: Item | undefined) =>
+  item?.kind === "mention" && item.mention.kind === "measure" ? item.mention : null;
+
+const AND = new Set(["and"]);
+
+// "width and depth by 10%" moves both settings together.
+const joinMeasures = (items: Item[]) =>
+  items.reduce<Item[]>((joined, item) => {
+    const second = measureOf(item);
+    const first = measureOf(joined[joined.length - 2]);
+    if (
+      second &&
+      !second.direction &&
+      first &&
+      !first.direction &&
+      isWord(joined[joined.length - 1], AND) &&
+      joined[joined.length - 3]?.kind !== "number"
+    ) {
+      joined.splice(joined.length - 2, 2, {
+        kind: "mention",
+        mention: { kind: "measure", specs: [...first.specs, ...second.specs] },
+        source: `${joined[joined.length - 2].source} and ${item.source}`,
+      });
+    } else {
+      joined.push(item);
+    }
+    return joined;
+  }, []);
+
+const isLength = (item: Item | undefined) => item?.kind === "number" && (item.unit === "m" || item.unit === "ft");
+
+const isStature = (item: Item | undefined) =>
+  item?.kind === "mention" && measureOf(item)?.specs[0] === HEIGHT && STATURE.has(item.source);
+
+// A floor count never takes a length: "floors 10 feet tall", "3.5 m high
+// floors" and "4 m floors" are the floor-to-floor height, not the tower's.
+const floorHeights = (items: Item[]) =>
+  items.reduce<Item[]>((read, item, index) => {
+    const counted = items[index - 1]?.kind === "number" && !isLength(items[index - 1]);
+    if (measureOf(item)?.specs.length !== 1 || measureOf(item)?.specs[0] !== FLOORS || counted) {
+      return read;
+    }
+    let after = index + 1;
+    while (isWord(items[after], AFTER_FILLERS)) {
+      after += 1;
+    }
+    const before = isStature(items[index - 1]) ? index - 2 : index - 1;
+    const at = isLength(items[after]) ? after : isLength(items[before]) ? before : null;
+    if (at === null) {
+      return read;
+    }
+    read[index] = { kind: "mention", mention: { kind: "measure", specs: [FLOOR_HEIGHT] }, source: item.source };
+    if (isStature(items[at + 1])) {
+      read[at + 1] = { kind: "word", text: items[at + 1].source, source: items[at + 1].source };
+    }
+    return read;
+  }, [...items]);
+
+type Clause = { items: Item[]; opensSentence: boolean };
+
+const splitClauses = (items: Item[]) => {
+  const clauses: Clause[] = [{ items: [], opensSentence: true }];
+  items.forEach((item) => {
+    if (item.kind === "break" || isWord(item, CONJUNCTIONS)) {
+      clauses.push({ items: [], opensSentence: item.kind === "break" && item.sentence });
+    } else {
+      clauses[clauses.length - 1].items.push(item);
+    }
+  });
+  return clauses.filter((clause, index) => clause.items.length > 0 || clauses[index + 1]?.opensSentence === false);
+};
+
+// What one clause hands the next: the way its numbers moved ("reduce width
+// by 10%, depth by 5%") and whether it was turning things down ("no atrium
+// and podium").
+type ClauseContext = { sign: 1 | -1 | 0 | null; negated: boolean };
+
+const verbSign = (text: string): 1 | -1 | 0 | null =>
+  ADD_VERBS.has(text) ? 1 : SUB_VERBS.has(text) ? -1 : SET_VERBS.has(text) ? 0 : null;
+
+const inModelUnits = (value: number, unit: Unit | null, quantity: Quantity) => {
+  if (unit === "ft") {
+    return value * FEET;
+  }
+  if (unit === "sqft") {
+    return value * SQUARE_FEET;
+  }
+  if (quantity === "ratio" && (unit === "percent" || value > 1)) {
+    return value / 100;
+  }
+  return value;
+};
+
+const accepts = (specs: NumericSpec[], unit: Unit | null) =>
+  unit === null || specs.every((spec) => UNIT_QUANTITIES[unit].includes(spec.quantity));
+
+type Binding = { number: { value: number; unit: Unit | null }; markers: string[]; at: number };
+
+// The number a setting takes: written just before it ("20 floors", "3 m
+// wider") or just after ("floor height of 4 m", "width by 10%").
+const bindNumber = (items: Item[], index: number, specs: NumericSpec[], bound: Set<number>): Binding | null => {
+  const search = (step: 1 | -1, fillers: Set<string>) => {
+    const markers: string[] = [];
+    let cursor = index + step;
+    while (isWord(items[cursor], fillers)) {
+      markers.push((items[cursor] as { text: string }).text);
+      cursor += step;
+    }
+    const item = items[cursor];
+    if (item?.kind !== "number" || bound.has(cursor) || !accepts(specs, item.unit)) {
+      return null;
+    }
+    const before = items[cursor - 1];
+    if (step === -1 && before?.kind === "word") {
+      markers.push(before.text);
+    }
+    return { number: item, markers, at: cursor };
+  };
+  return search(-1, BEFORE_FILLERS) ?? search(1, AFTER_FILLERS);
+};
+
+const measureIntents = (specs: NumericSpec[], binding: Binding, sign: 1 | -1 | 0): Move[] => {
+  const { value, unit } = binding.number;
+  return specs.flatMap((spec): Move[] => {
+    if (sign !== 0) {
+      return unit === "percent"
+        ? [{ kind: "scale", spec, factor: 1 + (sign * value) / 100 }]
+        : [{ kind: "change", spec, delta: sign * inModelUnits(value, unit, spec.quantity) }];
+    }
+    if (unit === "percent" && spec.quantity !== "ratio") {
+      return [];
+    }
+    return [{ kind: "set", spec, value: inModelUnits(value, unit, spec.quantity) }];
+  });
+};
+
+const balconyFrequency = (items: Item[]): BalconyFrequency => {
+  const words = new Set(items.flatMap((item) => (item.kind === "word" ? [item.text] : [])));
+  if (words.has("other") || words.has("alternate") || words.has("alternating")) {
+    return "alternate";
+  }
+  if (words.has("every") || words.has("each") || words.has("all")) {
+    return "every";
+  }
+  return words.has("corner") || words.has("corners") ? "corners" : "alternate";
+};
+
+const parseClause = (items: Item[], context: ClauseContext) => {
+  const intents: [number, Move][] = [];
+  const bound = new Set<number>();
+
+  // "40 by 30 m" is the plate footprint.
+  items.forEach((item, index) => {
+    const by = items[index + 1];
+    const second = items[index + 2];
+    if (
+      item.kind === "number" &&
+      by?.kind === "word" &&
+      (by.text === "by" || by.text === "x") &&
+      second?.kind === "number" &&
+      !bound.has(index)
+    ) {
+      const unit = item.unit ?? second.unit;
+      const scale = unit === "ft" ? FEET : 1;
+      if (unit === null || unit === "m" || unit === "ft") {
+        bound.add(index).add(index + 2);
+        intents.push([index, { kind: "set", spec: WIDTH, value: item.value * scale }]);
+        intents.push([index + 2, { kind: "set", spec: DEPTH, value: second.value * scale }]);
+      }
+    }
+  });
+
+  const clauseVerbs = items.flatMap((item, index) =>
+    item.kind === "word" && verbSign(item.text) !== null ? [index] : [],
+  );
+  const verbBefore = (index: number) => {
+    const verb = [...clauseVerbs].reverse().find((position) => position < index);
+    if (verb !== undefined) {
+      return verbSign((items[verb] as { text: string }).text);
+    }
+    return clauseVerbs.length === 0 ? context.sign : null;
+  };
+  // "fewer floors", "more units": a marker right before a setting.
+  const markerBefore = (index: number) =>
+    isWord(items[index - 1], MORE) ? 1 : isWord(items[index - 1], FEWER) ? -1 : null;
+  const multiplierBefore = (index: number) => {
+    let cursor = index - 1;
+    while (isWord(items[cursor], MULTIPLIER_SKIPS)) {
+      cursor -= 1;
+    }
+    const item = items[cursor];
+    return item?.kind === "word" ? (MULTIPLIERS.get(item.text) ?? null) : null;
+  };
+
+  // Numbers first, so a comparative knows whether it was given one.
+  const bindings = new Map<number, Binding>();
+  items.forEach((item, index) => {
+    const mention = measureOf(item);
+    if (mention) {
+      const binding = bindNumber(items, index, mention.specs, bound);
+      if (binding) {
+        bound.add(binding.at);
+        bindings.set(index, binding);
+      }
+    }
+  });
+  const comparatives = items.flatMap((item, index) =>
+    measureOf(item)?.direction && !bindings.has(index) ? [index] : [],
+  );
+  const usedComparatives = new Set<number>();
+  let carriedSign: ClauseContext["sign"] = null;
+
+  // A negator turns down the next thing it meets, and whatever follows it
+  // through "or" ("no atrium or podium").
+  const negated = new Set<number>();
+  let pending = false;
+  items.forEach((item, index) => {
+    if (item.kind === "word") {
+      if (NEGATORS.has(item.text)) {
+        pending = true;
+      } else if (!NEGATION_SKIPS.has(item.text)) {
+        pending = false;
+      }
+    } else if (item.kind === "mention") {
+      if (pending && !bindings.has(index)) {
+        negated.add(index);
+      }
+      pending = pending && !bindings.has(index) && isWord(items[index + 1], new Set(["or", "nor"]));
+    } else {
+      pending = false;
+    }
+  });
+  const bareClause = items.every((item) => item.kind === "mention" || isWord(item, ARTICLES));
+  if (negated.size === 0 && context.negated && bareClause) {
+    items.forEach((item, index) => {
+      if (item.kind === "mention") {
+        negated.add(index);
+      }
+    });
+  }
+
+  items.forEach((item, index) => {
+    if (item.kind === "colour") {
+      const slots = items.flatMap((candidate, position) =>
+        candidate.kind === "mention" && candidate.mention.kind === "colourSlot"
+          ? [{ slot: candidate.mention.slot, distance: Math.abs(position - index) + (position > index ? 0.5 : 0) }]
+          : [],
+      );
+      const nearest = slots.sort((a, b) => a.distance - b.distance)[0];
+      if (nearest) {
+        intents.push([index, { kind: "colour", slot: nearest.slot, value: item.value }]);
+      }
+      return;
+    }
+    if (item.kind === "date") {
+      intents.push([index, { kind: "date", value: item.value }]);
+      return;
+    }
+    if (item.kind !== "mention") {
+      return;
+    }
+    const mention = item.mention;
+    const off = negated.has(index);
+    switch (mention.kind) {
+      case "measure": {
+        const binding = bindings.get(index);
+        if (binding) {
+          const marker = binding.markers.find((word) => MORE.has(word) || FEWER.has(word));
+          let sign: 1 | -1 | 0 | null = mention.direction ?? (marker ? (MORE.has(marker) ? 1 : -1) : null);
+          if (sign === null) {
+            const comparative = comparatives.find((position) => !usedComparatives.has(position));
+            if (comparative !== undefined) {
+              usedComparatives.add(comparative);
+              sign = measureOf(items[comparative])?.direction ?? null;
+            }
+          }
+          if (sign === null && !binding.markers.includes("to")) {
+            sign = verbBefore(Math.min(index, binding.at));
+            carriedSign = sign;
+          }
+          intents.push(...measureIntents(mention.specs, binding, sign ?? 0).map((intent): [number, Move] => [index, intent]));
+          return;
+        }
+        if (off) {
+          mention.specs.forEach((spec) => {
+            if (spec.cleared !== undefined) {
+              intents.push([index, { kind: "set", spec, value: spec.cleared }]);
+            }
+          });
+          return;
+        }
+        const factor = multiplierBefore(index);
+        if (factor !== null) {
+          mention.specs.forEach((spec) => intents.push([index, { kind: "scale", spec, factor }]));
+          return;
+        }
+        const sign = mention.direction ?? markerBefore(index) ?? verbBefore(index);
+        if (mention.direction && (usedComparatives.has(index) || bindings.size > 0)) {
+          return;
+        }
+        if (sign) {
+          mention.specs.forEach((spec) => intents.push([index, { kind: "scale", spec, factor: 1 + sign * NUDGE }]));
+        } else if (mention.bare) {
+          intents.push([index, { kind: "macro", macro: mention.bare, negated: false }]);
+        }
+        return;
+      }
+      case "toggle":
+        intents.push([index, { kind: "toggle", spec: mention.spec, on: !off }]);
+        return;
+      case "choice":
+        intents.push([index, { kind: "choice", spec: mention.spec, negated: off }]);
+        return;
+      case "balconies":
+        intents.push([index, { kind: "balconies", frequency: off ? "none" : balconyFrequency(items) }]);
+        return;
+      case "style":
+        if (!off) {
+          intents.push([index, { kind: "style", style: mention.style }]);
+        }
+        return;
+      case "macro":
+        intents.push([index, { kind: "macro", macro: mention.macro, negated: off }]);
+        return;
+      case "season":
+        intents.push([index, { kind: "season", monthDay: mention.monthDay }]);
+        return;
+      case "colourSlot":
+        return;
+    }
+  });
+
+  const source = items.map((item) => item.source).join(" ");
+  const lastMention = [...items.keys()].reverse().find((index) => items[index].kind === "mention");
+  return {
+    intents: intents.sort((a, b) => a[0] - b[0]).map(([, move]): Intent => ({ ...move, source })),
+    context: { sign: carriedSign, negated: lastMention !== undefined && negated.has(lastMention) },
+  };
+};
+
+export const parsePrompt = (prompt: string): Intent[] => {
+  const naming = NAMING.exec(prompt);
+  const intents: Intent[] = [];
+  let text = prompt;
+  if (naming) {
+    intents.push({ kind: "name", value: (naming[1] ?? naming[2]).trim(), source: naming[0].trim() });
+    text = `${prompt.slice(0, naming.index)}.${prompt.slice(naming.index + naming[0].length)}`;
+  }
+  let context: ClauseContext = { sign: null, negated: false };
+  splitClauses(floorHeights(joinMeasures(matchPhrases(tokenize(text))))).forEach((clause) => {
+    const parsed = parseClause(clause.items, clause.opensSentence ? { sign: null, negated: false } : context);
+    intents.push(...parsed.intents);
+    context = parsed.context;
+  });
+  return intents;
+};
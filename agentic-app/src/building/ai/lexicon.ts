@@ -0,0 +1,304 @@
+import { towerTop } from "../levels";
+import { clamp } from "../math";
+import { FIELD_RANGES } from "../project";
+import type { BuildingConfig, SitePlot, SunStudy } from "../types";
+
+// How a number in a prompt is read: lengths are metres unless given in feet,
+// areas square metres unless given in square feet, ratios are fractions or
+// percentages.
+export type Quantity = "count" | "length" | "area" | "ratio" | "angle" | "plain";
+
+// A numeric setting the prompt can set or change. `read` and `write` go
+// through the working config so nested settings merge with earlier moves.
+export type NumericSpec = {
+  key: string;
+  label: string;
+  quantity: Quantity;
+  range: [number, number];
+  read: (config: BuildingConfig) => number;
+  write: (config: BuildingConfig, value: number) => Partial<BuildingConfig>;
+  // The value "no twist" and the like clear the setting to.
+  cleared?: number;
+  note?: (config: BuildingConfig) => string;
+};
+
+export type ToggleField = "includePodium" | "hasAtrium" | "addRooftopGarden" | "includeSolarPanels" | "includeLightShelves";
+
+export type ToggleSpec = {
+  field: ToggleField;
+  on: string;
+  off: string;
+};
+
+export type ChoiceField = "roofStyle" | "planShape" | "cornerStyle" | "heightProfile" | "facadePattern";
+
+export type ChoiceSpec = {
+  field: ChoiceField;
+  value: BuildingConfig[ChoiceField];
+  summary: string;
+};
+
+export type Style = "glass" | "brick" | "timber";
+
+export type Macro = "supertall" | "tall" | "midRise" | "slender" | "grandLobby" | "mixedUse" | "singleUse" | "twist";
+
+export type ColourSlot = keyof BuildingConfig["colors"];
+
+export type Mention =
+  | { kind: "measure"; specs: NumericSpec[]; direction?: 1 | -1; bare?: Macro }
+  | { kind: "toggle"; spec: ToggleSpec }
+  | { kind: "choice"; spec: ChoiceSpec }
+  | { kind: "balconies" }
+  | { kind: "style"; style: Style }
+  | { kind: "macro"; macro: Macro }
+  | { kind: "colourSlot"; slot: ColourSlot }
+  | { kind: "season"; monthDay: string };
+
+type NumericKey = {
+  [K in keyof BuildingConfig]: BuildingConfig[K] extends number ? K : never;
+}[keyof BuildingConfig];
+
+// Settings the editor has a control for take that control's limits.
+const setting = (key: NumericKey, label: string, quantity: Quantity): NumericSpec => ({
+  key,
+  label,
+  quantity,
+  range: FIELD_RANGES[key] ?? [-Infinity, Infinity],
+  read: (config) => config[key],
+  write: (_, value) => ({ [key]: value }),
+});
+
+const plotLimit = (
+  key: Exclude<keyof SitePlot, "boundary" | "setbacks">,
+  label: string,
+  quantity: Quantity,
+  range: [number, number],
+): NumericSpec => ({
+  key: `plot.${key}`,
+  label,
+  quantity,
+  range,
+  read: (config) => config.plot[key],
+  write: (config, value) => ({ plot: { ...config.plot, [key]: value } }),
+});
+
+const sunSetting = (
+  key: "latitude" | "longitude" | "utcOffset",
+  label: string,
+  range: [number, number],
+): NumericSpec => ({
+  key: `sunStudy.${key}`,
+  label,
+  quantity: "plain",
+  range,
+  read: (config) => config.sunStudy[key],
+  write: (config, value) => ({ sunStudy: { ...config.sunStudy, [key]: value } as SunStudy }),
+});
+
+export const FLOORS = setting("floors", "the floor count", "count");
+export const WIDTH = setting("width", "the plate width", "length");
+export const DEPTH = setting("depth", "the plate depth", "length");
+export const FLOOR_HEIGHT = setting("floorHeight", "the floor-to-floor height", "length");
+export const LOBBY_HEIGHT = setting("lobbyHeight", "the lobby height", "length");
+const TWIST = { ...setting("twistPerFloor", "the twist per floor", "angle"), cleared: 0 };
+
+// Heights are met with whole floors at the current floor-to-floor height.
+export const HEIGHT: NumericSpec = {
+  key: "height",
+  label: "the tower height",
+  quantity: "length",
+  range: [3, 600],
+  read: towerTop,
+  write: (config, value) => ({
+    floors: clamp(
+      1 + Math.round((value - config.baseHeight - config.lobbyHeight) / config.floorHeight),
+      FLOORS.range[0],
+      FLOORS.range[1],
+    ),
+  }),
+  note: (config) => `${config.floors} floors`,
+};
+
+// "0 podium levels" removes the podium; any other count keeps to the editor's.
+const PODIUM = setting("podiumLevels", "the podium levels", "count");
+const PODIUM_LEVELS: NumericSpec = {
+  ...PODIUM,
+  range: [0, PODIUM.range[1]],
+  read: (config) => (config.includePodium ? config.podiumLevels : 0),
+  write: (_, value) =>
+    value > 0 ? { podiumLevels: Math.max(value, PODIUM.range[0]), includePodium: true } : { includePodium: false },
+};
+
+const measure = (specs: NumericSpec[], extra: { direction?: 1 | -1; bare?: Macro } = {}): Mention => ({
+  kind: "measure",
+  specs,
+  ...extra,
+});
+
+const toggle = (field: ToggleField, on: string, off: string): Mention => ({ kind: "toggle", spec: { field, on, off } });
+
+const choice = <F extends ChoiceField>(field: F, value: BuildingConfig[F], summary: string): Mention => ({
+  kind: "choice",
+  spec: { field, value, summary },
+});
+
+// What a choice falls back to when the prompt turns its current value down.
+export const NEUTRAL_CHOICES: Record<ChoiceField, ChoiceSpec> = {
+  roofStyle: { field: "roofStyle", value: "flat", summary: "Kept clean flat roofline." },
+  planShape: { field: "planShape", value: "rectangle", summary: "Squared the plan off to a rectangle." },
+  cornerStyle: { field: "cornerStyle", value: "square", summary: "Squared off the outside corners." },
+  heightProfile: { field: "heightProfile", value: "straight", summary: "Ran the tower straight up." },
+  facadePattern: { field: "facadePattern", value: "grid", summary: "Set the windows on a plain grid." },
+};
+
+const VOCABULARY: [string[], Mention][] = [
+  [["floors", "floor", "storeys", "storey", "stories", "story", "floor count", "number of floors"], measure([FLOORS])],
+  [["taller"], measure([HEIGHT], { direction: 1 })],
+  [["shorter"], measure([HEIGHT], { direction: -1 })],
+  [["height", "building height", "tower height", "high"], measure([HEIGHT])],
+  [["tall"], measure([HEIGHT], { bare: "tall" })],
+  [["supertall", "super tall"], { kind: "macro", macro: "supertall" }],
+  [["low rise", "mid rise"], { kind: "macro", macro: "midRise" }],
+  [
+    ["floor height", "floor heights", "floor to floor", "floor to floor height", "storey height"],
+    measure([FLOOR_HEIGHT]),
+  ],
+  [["lobby", "lobby height"], measure([LOBBY_HEIGHT])],
+  [["generous lobby", "grand lobby", "double height lobby"], { kind: "macro", macro: "grandLobby" }],
+  [["width", "wide", "frontage"], measure([WIDTH])],
+  [["narrower", "thinner", "slimmer", "narrow"], measure([WIDTH], { direction: -1 })],
+  [["wider", "broader", "widen"], measure([WIDTH], { direction: 1 })],
+  [["depth", "deep"], measure([DEPTH])],
+  [["deeper", "deepen"], measure([DEPTH], { direction: 1 })],
+  [["shallower"], measure([DEPTH], { direction: -1 })],
+  [["bigger", "larger"], measure([WIDTH, DEPTH], { direction: 1 })],
+  [["smaller"], measure([WIDTH, DEPTH], { direction: -1 })],
+  [["slender", "slim"], { kind: "macro", macro: "slender" }],
+  [
+    ["cutout", "cut out", "cutout ratio", "courtyard size"],
+    measure([setting("cutoutRatio", "the cutout ratio", "ratio")]),
+  ],
+  [["corner size", "corner radius", "chamfer size"], measure([setting("cornerSize", "the corner size", "length")])],
+  [["top scale", "taper ratio"], measure([setting("topScale", "the top scale", "ratio")])],
+  [
+    ["setback interval", "setback every", "setbacks every", "step every", "steps every", "step back every"],
+    measure([setting("setbackInterval", "the setback interval", "count")]),
+  ],
+  [["twist", "twisting", "twisted", "twist per floor", "rotation per floor"], measure([TWIST], { bare: "twist" })],
+  [["site", "site area", "lot", "lot area"], measure([setting("siteArea", "the site area", "area")])],
+  [["core width"], measure([setting("coreWidth", "the core width", "length")])],
+  [["core depth"], measure([setting("coreDepth", "the core depth", "length")])],
+  [["base height", "plinth", "plinth height"], measure([setting("baseHeight", "the base height", "length")])],
+  [
+    ["structural grid", "column grid", "column spacing", "grid spacing"],
+    measure([setting("structuralGrid", "the structural grid", "length")]),
+  ],
+  [
+    ["units", "unit", "units per floor", "apartments", "apartment", "flats", "homes", "dwellings"],
+    measure([setting("unitsPerFloor", "the units per floor", "count")]),
+  ],
+  [
+    ["window module", "facade module", "module", "bay width"],
+    measure([setting("windowModule", "the window module", "length")]),
+  ],
+  [["window width"], measure([setting("windowWidth", "the window width", "length")])],
+  [["window height"], measure([setting("windowHeight", "the window height", "length")])],
+  [
+    ["spandrel", "spandrel height", "sill height"],
+    measure([setting("spandrelHeight", "the spandrel height", "length")]),
+  ],
+  [
+    ["window to wall ratio", "window wall ratio", "wwr", "glazing ratio", "glazing"],
+    measure([setting("maxWindowWallRatio", "the window-to-wall ratio limit", "ratio")]),
+  ],
+  [["balcony depth"], measure([setting("balconyDepth", "the balcony depth", "length")])],
+  [
+    ["podium levels", "podium floors", "podium storeys", "storey podium", "story podium", "level podium", "floor podium"],
+    measure([PODIUM_LEVELS]),
+  ],
+  [["podium setback"], measure([setting("podiumSetback", "the podium setback", "length")])],
+  [
+    ["height limit", "max height", "maximum height", "height cap"],
+    measure([plotLimit("maxHeight", "the height limit", "length", [0, 600])]),
+  ],
+  [
+    ["far", "max far", "maximum far", "floor area ratio", "plot ratio"],
+    measure([plotLimit("maxFloorAreaRatio", "the FAR limit", "plain", [0, 30])]),
+  ],
+  [
+    ["coverage", "site coverage", "max coverage", "coverage limit"],
+    measure([plotLimit("maxCoverage", "the coverage limit", "ratio", [0, 1])]),
+  ],
+  [["latitude", "lat"], measure([sunSetting("latitude", "the latitude", [-90, 90])])],
+  [["longitude", "lon", "lng"], measure([sunSetting("longitude", "the longitude", [-180, 180])])],
+  [["utc offset", "utc", "gmt", "time zone"], measure([sunSetting("utcOffset", "the UTC offset", [-12, 14])])],
+  [["summer solstice", "midsummer"], { kind: "season", monthDay: "06-21" }],
+  [["winter solstice", "midwinter"], { kind: "season", monthDay: "12-21" }],
+  [["spring equinox", "equinox"], { kind: "season", monthDay: "03-20" }],
+  [["autumn equinox"], { kind: "season", monthDay: "09-22" }],
+  [
+    ["podium", "base podium", "urban podium"],
+    toggle("includePodium", "Activated urban podium interface.", "Removed the podium."),
+  ],
+  [["atrium", "atria"], toggle("hasAtrium", "Enabled multi-level atrium.", "Filled in the atrium.")],
+  [
+    ["garden", "gardens", "green roof", "roof garden", "rooftop garden"],
+    toggle("addRooftopGarden", "Reserved rooftop for green space.", "Dropped the rooftop garden."),
+  ],
+  [
+    ["solar", "solar panels", "solar array", "solar arrays", "pv", "photovoltaic", "photovoltaics"],
+    toggle("includeSolarPanels", "Integrated rooftop solar arrays.", "Removed the rooftop solar arrays."),
+  ],
+  [
+    ["light shelves", "light shelf", "daylight shelves"],
+    toggle("includeLightShelves", "Added daylight shelves to facade.", "Removed the light shelves."),
+  ],
+  [["balcony", "balconies"], { kind: "balconies" }],
+  [["pitched", "pitched roof", "gable roof", "gabled roof"], choice("roofStyle", "pitched", "Configured pitched roof profile.")],
+  [["sawtooth", "sawtooth roof", "saw tooth"], choice("roofStyle", "sawtooth", "Configured sawtooth roof profile.")],
+  [["flat roof"], choice("roofStyle", "flat", "Kept clean flat roofline.")],
+  [["courtyard", "courtyard plan"], choice("planShape", "courtyard", "Opened a central courtyard in the plan.")],
+  [["l shaped", "l shape", "l plan"], choice("planShape", "l-shape", "Folded the plan into an L.")],
+  [["u shaped", "u shape", "u plan"], choice("planShape", "u-shape", "Wrapped the plan into a U around a forecourt.")],
+  [["rectangular", "rectangle", "box plan"], choice("planShape", "rectangle", "Squared the plan off to a rectangle.")],
+  [
+    ["rounded", "rounded corners", "round corners", "soft corners"],
+    choice("cornerStyle", "rounded", "Rounded the outside corners."),
+  ],
+  [["chamfer", "chamfers", "chamfered", "chamfered corners"], choice("cornerStyle", "chamfered", "Chamfered the outside corners.")],
+  [["square corners", "sharp corners"], choice("cornerStyle", "square", "Squared off the outside corners.")],
+  [["taper", "tapers", "tapered", "tapering"], choice("heightProfile", "taper", "Tapered the tower towards the top.")],
+  [["stepped", "stepping", "wedding cake"], choice("heightProfile", "stepped", "Stepped the tower back as it rises.")],
+  [["straight", "straight sided", "extruded"], choice("heightProfile", "straight", "Ran the tower straight up.")],
+  [["grid facade", "grid pattern", "gridded"], choice("facadePattern", "grid", "Set the windows on a plain grid.")],
+  [["stacked", "stacked windows", "stack bond"], choice("facadePattern", "stacked", "Stacked the windows floor over floor.")],
+  [["offset", "staggered", "offset windows"], choice("facadePattern", "offset", "Staggered the windows floor by floor.")],
+  [["glass curtain", "glass curtain wall", "curtain wall", "glassy"], { kind: "style", style: "glass" }],
+  [["brick", "masonry"], { kind: "style", style: "brick" }],
+  [["timber", "wood", "wooden", "mass timber", "clt"], { kind: "style", style: "timber" }],
+  [["mixed use", "mixed program", "mixed programme"], { kind: "macro", macro: "mixedUse" }],
+  [["single use"], { kind: "macro", macro: "singleUse" }],
+  [["base colour", "base color", "facade colour", "facade color"], { kind: "colourSlot", slot: "base" }],
+  [["accent", "accent colour", "accent color"], { kind: "colourSlot", slot: "accent" }],
+  [
+    ["glazing colour", "glazing color", "glass colour", "glass color", "glass tint"],
+    { kind: "colourSlot", slot: "glazing" },
+  ],
+  [["balcony colour", "balcony color"], { kind: "colourSlot", slot: "balcony" }],
+  [["roof colour", "roof color", "roof finish"], { kind: "colourSlot", slot: "roof" }],
+];
+
+export type LexiconEntry = { words: string[]; mention: Mention };
+
+// Phrases by their first word, longest first, so "floor height" wins over
+// "floor" and "storey podium" over "storey".
+export const LEXICON = VOCABULARY.reduce((lexicon, [phrases, mention]) => {
+  phrases.forEach((phrase) => {
+    const words = phrase.split(" ");
+    const entries = lexicon.get(words[0]) ?? [];
+    entries.push({ words, mention });
+    entries.sort((a, b) => b.words.length - a.words.length);
+    lexicon.set(words[0], entries);
+  });
+  return lexicon;
+}, new Map<string, LexiconEntry[]>());
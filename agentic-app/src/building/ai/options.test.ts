@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "../defaults";
+import type { BuildingConfig } from "../types";
+import { ARCHETYPES, generateOptions } from "./options";
+import type { AiProvider } from "./provider";
+import { ruleProvider } from "./provider";
+import { inferFromRules } from "./rules";
+
+// A provider whose move sets everything any archetype changes, as the timber mid-rise has it.
+const overridingEverything = (): AiProvider => {
+  const moves = ARCHETYPES.map((archetype) => inferFromRules(archetype.brief, defaultConfig).updates);
+  const timber = { ...defaultConfig, ...moves[ARCHETYPES.findIndex((archetype) => archetype.id === "timber")] };
+  const fields = new Set(moves.flatMap((move) => Object.keys(move) as (keyof BuildingConfig)[]));
+  const updates = Object.fromEntries([...fields].map((field) => [field, timber[field]]));
+  return { id: "model", label: "Test model", infer: async () => ({ updates, summary: "", notes: {} }) };
+};
+
+describe("generateOptions", () => {
+  it("ranks the archetypes that fit the brief's words first", async () => {
+    const { options, requested } = await generateOptions(ruleProvider, "timber housing", defaultConfig, 3);
+    assert.equal(requested, 3);
+    assert.deepEqual(
+      options.map((option) => option.rank),
+      [1, 2, 3],
+    );
+    assert.equal(options[0].id, "timber");
+    assert.match(options[0].rationale, /“timber”, “housing”/);
+  });
+
+  it("offers archetypes that come out as the same design once", async () => {
+    const { options, requested } = await generateOptions(overridingEverything(), "timber", defaultConfig, 4);
+    assert.equal(requested, 4);
+    assert.equal(options.length, 1);
+  });
+});
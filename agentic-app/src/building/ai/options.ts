@@ -0,0 +1,147 @@
+import { checkSiteEnvelope, envelopeIssues } from "../envelope";
+import { computeMetrics } from "../metrics";
+import { validateConfigUpdates } from "../project";
+import type { AiOption, BuildingConfig } from "../types";
+import { validateBuildingConfig } from "../validation";
+import type { AiProvider } from "./provider";
+import { runDesignMove } from "./provider";
+import { inferFromRules } from "./rules";
+
+// A starting point for an option, written as a brief the offline rules read.
+// `keywords` are the words of a user's brief that make it a good fit.
+type Archetype = {
+  id: string;
+  name: string;
+  brief: string;
+  keywords: string[];
+};
+
+export const ARCHETYPES: Archetype[] = [
+  {
+    id: "slender",
+    name: "Slender tower",
+    brief: "slender tall tower, tapered, rounded corners, glass curtain wall, no podium",
+    keywords: ["slender", "tall", "tower", "glass", "taper", "tapered", "elegant", "skyline", "thin"],
+  },
+  {
+    id: "podium",
+    name: "Podium-heavy scheme",
+    brief: "14 floors, mixed use, 4 storey podium, podium setback 4 m, roof garden, balconies on every other floor",
+    keywords: ["podium", "retail", "shops", "mixed", "street", "office", "offices", "base", "urban"],
+  },
+  {
+    id: "timber",
+    name: "Timber mid-rise",
+    brief: "timber mid rise, 8 floors, balconies on every floor, pitched roof, solar panels, no podium",
+    keywords: ["timber", "wood", "wooden", "mid", "low", "sustainable", "housing", "homes", "residential"],
+  },
+  {
+    id: "courtyard",
+    name: "Courtyard block",
+    brief: "courtyard plan, 7 floors, 60 by 45 m footprint, green roof, light shelves, no podium",
+    keywords: ["courtyard", "block", "perimeter", "garden", "gardens", "daylight", "community", "wide"],
+  },
+  {
+    id: "landmark",
+    name: "Twisting landmark",
+    brief: "supertall, twist 1.5 degrees per floor, chamfered corners, solar panels, atrium",
+    keywords: ["twist", "twisting", "landmark", "iconic", "supertall", "sculptural", "dramatic", "atrium"],
+  },
+];
+
+export const OPTION_COUNTS = [3, 4, 5];
+
+// `requested` is the count asked for; archetypes that come out as the same
+// design are offered once, so a brief that overrides them all yields fewer.
+export type OptionSet = {
+  prompt: string;
+  options: AiOption[];
+  requested: number;
+  source: string;
+  fallbackReason: string | null;
+};
+
+const isEntries = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// The brief's own move goes over the archetype. For nested settings only the
+// entries the brief changed win, so "accent #aa2200" keeps a timber base colour.
+const layerMove = (
+  current: BuildingConfig,
+  archetype: Partial<BuildingConfig>,
+  brief: Partial<BuildingConfig>,
+): Partial<BuildingConfig> => {
+  const layered: Record<string, unknown> = { ...archetype };
+  Object.entries(brief).forEach(([key, value]) => {
+    const before: unknown = current[key as keyof BuildingConfig];
+    layered[key] =
+      isEntries(value) && isEntries(before)
+        ? {
+            ...((layered[key] ?? before) as object),
+            ...Object.fromEntries(Object.entries(value).filter(([entry, setting]) => setting !== before[entry])),
+          }
+        : value;
+  });
+  return layered as Partial<BuildingConfig>;
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+// Options that fit the words of the brief rank first; failed design checks
+// push an option down, zoning and other warnings a little less.
+export const generateOptions = async (
+  provider: AiProvider,
+  prompt: string,
+  current: BuildingConfig,
+  count: number,
+): Promise<OptionSet> => {
+  const brief = await runDesignMove(provider, prompt, current);
+  const words = new Set(prompt.toLowerCase().match(/[a-z]+/g) ?? []);
+  const seen = new Set<string>();
+  const scored = ARCHETYPES.flatMap((archetype, order) => {
+    const base = inferFromRules(archetype.brief, current);
+    const updates = validateConfigUpdates(layerMove(current, base.updates, brief.updates));
+    const config = { ...current, ...updates };
+    const signature = JSON.stringify(config);
+    if (seen.has(signature)) {
+      return [];
+    }
+    seen.add(signature);
+    const issues = [
+      ...validateBuildingConfig(config),
+      ...envelopeIssues(checkSiteEnvelope(config, computeMetrics(config))),
+    ];
+    const errors = issues.filter((issue) => issue.severity === "error").length;
+    const warnings = issues.length - errors;
+    const matches = archetype.keywords.filter((word) => words.has(word));
+    const rationale = [
+      matches.length > 0
+        ? `Fits ${matches.map((word) => `“${word}”`).join(", ")} in the brief.`
+        : "Offered for contrast.",
+      errors > 0 ? `${plural(errors, "design check")} failing.` : "",
+      warnings > 0 ? `${plural(warnings, "warning")}.` : "",
+    ]
+      .filter(Boolean)
+      .join(" ");
+    return [
+      {
+        order,
+        score: matches.length * 2 - errors * 3 - warnings,
+        option: {
+          id: archetype.id,
+          name: archetype.name,
+          updates,
+          summary: [base.summary, brief.summary].filter(Boolean).join(" "),
+          notes: { ...base.notes, ...brief.notes },
+          rationale,
+          config,
+        },
+      },
+    ];
+  });
+  const options = scored
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .slice(0, count)
+    .map(({ option }, index): AiOption => ({ ...option, rank: index + 1 }));
+  return { prompt, options, requested: count, source: brief.source, fallbackReason: brief.fallbackReason };
+};
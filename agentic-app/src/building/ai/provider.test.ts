@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "../defaults";
+import type { AiInference } from "../types";
+import type { AiProvider } from "./provider";
+import { AiProviderError, runDesignMove } from "./provider";
+
+const answering = (inference: AiInference | Error): AiProvider => ({
+  id: "model",
+  label: "Test model",
+  infer: async () => {
+    if (inference instanceof Error) {
+      throw inference;
+    }
+    return inference;
+  },
+});
+
+describe("runDesignMove", () => {
+  it("holds a provider's numbers to the editor's limits", async () => {
+    const move = await runDesignMove(
+      answering({ updates: { floors: 500, width: -5 }, summary: "", notes: {} }),
+      "",
+      defaultConfig,
+    );
+    assert.deepEqual(move.updates, { floors: 80, width: 12 });
+    assert.equal(move.fallbackReason, null);
+  });
+
+  it("falls back to the offline rules when a provider fails or answers badly", async () => {
+    const failed = await runDesignMove(answering(new AiProviderError("Offline.")), "add 5 floors", defaultConfig);
+    assert.equal(failed.fallbackReason, "Offline.");
+    assert.deepEqual(failed.updates, { floors: defaultConfig.floors + 5 });
+
+    const invalid = { updates: { roofStyle: "dome" }, summary: "", notes: {} } as unknown as AiInference;
+    const rejected = await runDesignMove(answering(invalid), "add 5 floors", defaultConfig);
+    assert.match(rejected.fallbackReason ?? "", /roofStyle/);
+    assert.deepEqual(rejected.updates, { floors: defaultConfig.floors + 5 });
+  });
+});
@@ -0,0 +1,84 @@
+import { validateConfigUpdates } from "../project";
+import type { AiInference, BuildingConfig } from "../types";
+import { inferFromRules } from "./rules";
+
+export type AiProviderId = "rules" | "model";
+
+export type AiProvider = {
+  id: AiProviderId;
+  label: string;
+  infer: (prompt: string, current: BuildingConfig) => Promise<AiInference>;
+};
+
+export type DesignMove = AiInference & {
+  source: string;
+  fallbackReason: string | null;
+};
+
+export class AiProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AiProviderError";
+  }
+}
+
+export const DESIGN_MOVE_ROUTE = "/api/design-move";
+
+export const ruleProvider: AiProvider = {
+  id: "rules",
+  label: "Offline rules",
+  infer: async (prompt, current) => inferFromRules(prompt, current),
+};
+
+// The browser never talks to the model directly: the app's own route holds
+// the endpoint and key, so self-hosted servers need no CORS setup.
+export const modelProvider: AiProvider = {
+  id: "model",
+  label: "Language model",
+  infer: async (prompt, current) => {
+    let response: Response;
+    try {
+      response = await fetch(DESIGN_MOVE_ROUTE, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prompt, config: current }),
+      });
+    } catch {
+      throw new AiProviderError("The design-move route could not be reached.");
+    }
+    const body = (await response.json().catch(() => null)) as (AiInference & { error?: string }) | null;
+    if (!response.ok || !body) {
+      throw new AiProviderError(body?.error ?? `The design-move route answered ${response.status}.`);
+    }
+    return { updates: body.updates, summary: body.summary, notes: body.notes ?? {} };
+  },
+};
+
+export const AI_PROVIDERS: AiProvider[] = [ruleProvider, modelProvider];
+
+// Every provider's updates pass the same checks as a project file, so no
+// path writes values the editor would not. Any provider failure, an invalid
+// answer included, falls back to the offline rules, so a design move always
+// gets an answer; the reason is passed on for the status line.
+export const runDesignMove = async (
+  provider: AiProvider,
+  prompt: string,
+  current: BuildingConfig,
+): Promise<DesignMove> => {
+  const infer = async (from: AiProvider) => {
+    const inference = await from.infer(prompt, current);
+    return { ...inference, updates: validateConfigUpdates(inference.updates) };
+  };
+  try {
+    return { ...(await infer(provider)), source: provider.label, fallbackReason: null };
+  } catch (error) {
+    if (provider.id === ruleProvider.id) {
+      throw error;
+    }
+    return {
+      ...(await infer(ruleProvider)),
+      source: ruleProvider.label,
+      fallbackReason: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "../defaults";
+import type { DesignMove } from "./provider";
+import { acceptedUpdates, describeReview, reviewDesignMove } from "./review";
+import { inferFromRules } from "./rules";
+
+const PROMPT = "add 5 floors, no balconies and a brick look";
+
+const review = () => {
+  const move: DesignMove = { ...inferFromRules(PROMPT, defaultConfig), source: "rules", fallbackReason: null };
+  return reviewDesignMove(defaultConfig, PROMPT, move);
+};
+
+describe("reviewDesignMove", () => {
+  it("lists each changed setting with the words that asked for it, all accepted", () => {
+    const { changes, accepted } = review();
+    assert.deepEqual(
+      changes.map(({ key, before, after, note }) => [key, before, after, note]),
+      [
+        ["floors", 18, 23, "add 5 floors"],
+        ["facadePattern", "grid", "stacked", "a brick look"],
+        ["balconyFrequency", "alternate", "none", "no balconies"],
+        ["colors.base", "#4d5c6f", "#884a39", "a brick look"],
+        ["colors.accent", "#c48f5a", "#d46f4d", "a brick look"],
+        ["colors.glazing", "#85c3ff", "#93c6ff", "a brick look"],
+      ],
+    );
+    assert.deepEqual(
+      accepted,
+      changes.map((change) => change.key),
+    );
+  });
+
+  it("applies only the accepted changes, colour by colour", () => {
+    const rejecting = { ...review(), accepted: ["floors", "colors.accent"] };
+    assert.deepEqual(acceptedUpdates(defaultConfig, rejecting), {
+      floors: 23,
+      colors: { ...defaultConfig.colors, accent: "#d46f4d" },
+    });
+    assert.deepEqual(acceptedUpdates(defaultConfig, { ...rejecting, accepted: [] }), {});
+  });
+
+  it("records what was kept and what was turned down", () => {
+    const summary = describeReview({ ...review(), accepted: ["floors", "balconyFrequency"] });
+    assert.match(summary, /^Raised the floor count from 18 to 23\./);
+    assert.match(summary, /Accepted: Floors 18 → 23; Balcony frequency alternate → none\./);
+    assert.match(summary, /Rejected: Facade pattern, Colors base, Colors accent, Colors glazing\.$/);
+  });
+});
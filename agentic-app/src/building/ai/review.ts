@@ -0,0 +1,70 @@
+import type { FieldValue } from "../fields";
+import { fieldLabel, flattenConfig, formatFieldValue } from "../fields";
+import type { BuildingConfig } from "../types";
+import type { DesignMove } from "./provider";
+
+// One row of a design move under review: a setting as it is and as the move
+// would leave it, and the words of the prompt that asked for it.
+export type ProposedChange = {
+  key: string;
+  label: string;
+  before: FieldValue;
+  after: FieldValue;
+  note: string | null;
+};
+
+export type MoveReview = {
+  prompt: string;
+  move: DesignMove;
+  changes: ProposedChange[];
+  accepted: string[];
+};
+
+const fieldOf = (key: string) => key.split(".")[0] as keyof BuildingConfig;
+
+// Every change starts accepted; the architect unticks what they do not want.
+export const reviewDesignMove = (current: BuildingConfig, prompt: string, move: DesignMove): MoveReview => {
+  const before = new Map(flattenConfig(current));
+  const changes = flattenConfig({ ...current, ...move.updates })
+    .filter(([key, value]) => value !== before.get(key))
+    .map(([key, after]) => ({
+      key,
+      label: fieldLabel(key),
+      before: before.get(key) as FieldValue,
+      after,
+      note: move.notes[key] ?? move.notes[fieldOf(key)] ?? null,
+    }));
+  return { prompt, move, changes, accepted: changes.map((change) => change.key) };
+};
+
+// Nested settings such as the colours take only their accepted entries and
+// keep the rest as they are now.
+export const acceptedUpdates = (current: BuildingConfig, review: MoveReview): Partial<BuildingConfig> => {
+  const accepted: Record<string, unknown> = {};
+  review.accepted.forEach((key) => {
+    const field = fieldOf(key);
+    const value = review.move.updates[field];
+    const entry = key.split(".")[1];
+    accepted[field] =
+      entry === undefined
+        ? value
+        : { ...((accepted[field] ?? current[field]) as object), [entry]: (value as Record<string, unknown>)[entry] };
+  });
+  return accepted as Partial<BuildingConfig>;
+};
+
+const describeChange = (change: ProposedChange) =>
+  `${change.label} ${formatFieldValue(change.before)} → ${formatFieldValue(change.after)}`;
+
+// The history entry: what the move said it would do, then what was kept.
+export const describeReview = (review: MoveReview) => {
+  const kept = review.changes.filter((change) => review.accepted.includes(change.key));
+  const rejected = review.changes.filter((change) => !review.accepted.includes(change.key));
+  return [
+    review.move.summary,
+    kept.length > 0 ? `Accepted: ${kept.map(describeChange).join("; ")}.` : "",
+    rejected.length > 0 ? `Rejected: ${rejected.map((change) => change.label).join(", ")}.` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+};
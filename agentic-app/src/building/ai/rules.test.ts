@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "../defaults";
+import { parsePrompt } from "./grammar";
+import { inferFromRules } from "./rules";
+
+const updatesFor = (prompt: string) => inferFromRules(prompt, defaultConfig).updates;
+
+describe("inferFromRules", () => {
+  it("reads relative changes", () => {
+    assert.deepEqual(updatesFor("add 5 floors"), { floors: defaultConfig.floors + 5 });
+    assert.deepEqual(updatesFor("five more floors"), { floors: defaultConfig.floors + 5 });
+    assert.deepEqual(updatesFor("make it 3 m wider"), { width: defaultConfig.width + 3 });
+  });
+
+  it("reads bare comparatives and multipliers", () => {
+    assert.deepEqual(updatesFor("fewer floors"), { floors: 16 });
+    assert.deepEqual(updatesFor("more units"), { unitsPerFloor: defaultConfig.unitsPerFloor + 1 });
+    assert.deepEqual(updatesFor("double the floors"), { floors: defaultConfig.floors * 2 });
+    assert.deepEqual(updatesFor("half the width"), { width: defaultConfig.width / 2 });
+    assert.deepEqual(updatesFor("halve the depth"), { depth: defaultConfig.depth / 2 });
+  });
+
+  it("reads percentages as scaling", () => {
+    assert.deepEqual(updatesFor("reduce depth by 10%"), { depth: 23.4 });
+    assert.deepEqual(updatesFor("make it 20% narrower"), { width: 30.4 });
+  });
+
+  it("reads number words and plan dimensions", () => {
+    assert.deepEqual(updatesFor("twenty storeys"), { floors: 20 });
+    assert.deepEqual(updatesFor("a 60 by 45 m footprint"), { width: 60, depth: 45 });
+  });
+
+  it("reads feet and meets a height with whole floors", () => {
+    // 91.44 m less the base and lobby is 23.4 typical floors, rounded, plus the lobby.
+    assert.deepEqual(updatesFor("height of 300 feet"), { floors: 24 });
+  });
+
+  it("reads a length given to floors as the floor-to-floor height", () => {
+    assert.deepEqual(updatesFor("make the floors 10 feet tall"), { floorHeight: 3.05 });
+    assert.deepEqual(updatesFor("4 m floors"), { floorHeight: 4 });
+    assert.deepEqual(updatesFor("3.5 m high floors"), { floorHeight: 3.5 });
+  });
+
+  it("keeps every setting within the editor's limits", () => {
+    assert.deepEqual(updatesFor("one hundred floors"), { floors: 80 });
+    assert.deepEqual(updatesFor("make it 5 m wide"), { width: 12 });
+    assert.deepEqual(inferFromRules("make it supertall", { ...defaultConfig, floors: 60 }).updates, { floors: 80 });
+    assert.deepEqual(updatesFor("0 podium levels"), { includePodium: false });
+  });
+
+  it("reads negation", () => {
+    assert.deepEqual(updatesFor("no balconies"), { balconyFrequency: "none" });
+    assert.deepEqual(updatesFor("don't add solar panels"), { includeSolarPanels: false });
+    assert.deepEqual(updatesFor("without solar"), { includeSolarPanels: false });
+    assert.deepEqual(updatesFor("remove the atrium"), { hasAtrium: false });
+  });
+});
+
+describe("parsePrompt", () => {
+  it("keeps the words each move came from", () => {
+    assert.deepEqual(
+      parsePrompt("add 5 floors and no balconies").map((intent) => intent.source),
+      ["add 5 floors", "no balconies"],
+    );
+  });
+});
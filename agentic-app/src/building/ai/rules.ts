@@ -0,0 +1,218 @@
+import { flattenConfig } from "../fields";
+import { clamp } from "../math";
+import { parseStudyDate } from "../sun";
+import type { AiInference, BuildingConfig } from "../types";
+import type { Intent } from "./grammar";
+import { parsePrompt } from "./grammar";
+import type { NumericSpec, Style } from "./lexicon";
+import { DEPTH, FLOORS, HEIGHT, LOBBY_HEIGHT, NEUTRAL_CHOICES, WIDTH } from "./lexicon";
+
+type Palette = {
+  facadePattern: BuildingConfig["facadePattern"];
+  colors: Partial<BuildingConfig["colors"]>;
+  summary: string;
+};
+
+const PALETTES: Record<Style, Palette> = {
+  glass: {
+    facadePattern: "grid",
+    colors: { base: "#2b3a55", accent: "#546a89", glazing: "#a7d9ff" },
+    summary: "Shifted to glass curtain wall aesthetic.",
+  },
+  brick: {
+    facadePattern: "stacked",
+    colors: { base: "#884a39", accent: "#d46f4d", glazing: "#93c6ff" },
+    summary: "Applied brick-inspired palette.",
+  },
+  timber: {
+    facadePattern: "offset",
+    colors: { base: "#8c6b3e", accent: "#d9b382", glazing: "#9bc1ff" },
+    summary: "Shifted to warm timber articulation.",
+  },
+};
+
+const roundFor = (spec: NumericSpec, value: number) =>
+  spec.quantity === "count" || spec.quantity === "area" ? Math.round(value) : Math.round(value * 100) / 100;
+
+const formatFor = (spec: NumericSpec, value: number) => {
+  switch (spec.quantity) {
+    case "length":
+      return `${value} m`;
+    case "area":
+      return `${value.toLocaleString("en-GB")} m²`;
+    case "ratio":
+      return `${Math.round(value * 100)}%`;
+    case "angle":
+      return `${value}°`;
+    default:
+      return String(value);
+  }
+};
+
+const isMixedUse = (intent: Intent) => intent.kind === "macro" && intent.macro === "mixedUse";
+
+const changesFloors = (intent: Intent) =>
+  (intent.kind === "set" || intent.kind === "change" || intent.kind === "scale") &&
+  (intent.spec === FLOORS || intent.spec === HEIGHT);
+
+// The offline fallback: a small grammar over the prompt (see grammar.ts). It
+// needs no network and always answers, even if only with no moves.
+export const inferFromRules = (prompt: string, current: BuildingConfig): AiInference => {
+  const intents = parsePrompt(prompt.trim());
+  const updates: Partial<BuildingConfig> = {};
+  const summaryParts: string[] = [];
+  const working = (): BuildingConfig => ({ ...current, ...updates });
+  const explicitFloors = intents.some(changesFloors);
+
+  const applyMeasure = (spec: NumericSpec, target: number, relative: boolean) => {
+    const before = spec.read(working());
+    Object.assign(updates, spec.write(working(), roundFor(spec, clamp(target, spec.range[0], spec.range[1]))));
+    const after = roundFor(spec, spec.read(working()));
+    const note = spec.note ? ` (${spec.note(working())})` : "";
+    if (!relative) {
+      summaryParts.push(`Set ${spec.label} to ${formatFor(spec, after)}${note}.`);
+    } else if (after === roundFor(spec, before)) {
+      summaryParts.push(`Kept ${spec.label} at ${formatFor(spec, after)}${note}.`);
+    } else {
+      summaryParts.push(
+        `${after > before ? "Raised" : "Reduced"} ${spec.label} from ${formatFor(spec, roundFor(spec, before))} to ${formatFor(spec, after)}${note}.`,
+      );
+    }
+  };
+
+  const apply = (intent: Intent) => {
+    const config = working();
+    switch (intent.kind) {
+      case "set":
+        applyMeasure(intent.spec, intent.value, false);
+        return;
+      case "change":
+        applyMeasure(intent.spec, intent.spec.read(config) + intent.delta, true);
+        return;
+      case "scale":
+        applyMeasure(intent.spec, intent.spec.read(config) * intent.factor, true);
+        return;
+      case "toggle":
+        updates[intent.spec.field] = intent.on;
+        if (intent.spec.field === "includePodium" && intent.on) {
+          updates.podiumLevels = Math.max(config.podiumLevels, 2);
+        }
+        summaryParts.push(intent.on ? intent.spec.on : intent.spec.off);
+        return;
+      case "choice": {
+        if (intent.negated && config[intent.spec.field] !== intent.spec.value) {
+          return;
+        }
+        const chosen = intent.negated ? NEUTRAL_CHOICES[intent.spec.field] : intent.spec;
+        Object.assign(updates, { [chosen.field]: chosen.value });
+        summaryParts.push(chosen.summary);
+        return;
+      }
+      case "balconies":
+        updates.balconyFrequency = intent.frequency;
+        summaryParts.push(intent.frequency === "none" ? "Removed the balconies." : "Reconfigured balcony rhythm.");
+        return;
+      case "style": {
+        const palette = PALETTES[intent.style];
+        updates.facadePattern = palette.facadePattern;
+        updates.colors = { ...config.colors, ...palette.colors };
+        summaryParts.push(palette.summary);
+        return;
+      }
+      case "colour":
+        updates.colors = { ...config.colors, [intent.slot]: intent.value };
+        summaryParts.push(`Set the ${intent.slot} colour to ${intent.value}.`);
+        return;
+      case "date":
+      case "season": {
+        const date = intent.kind === "date" ? intent.value : `${config.sunStudy.date.slice(0, 4)}-${intent.monthDay}`;
+        if (parseStudyDate(date)) {
+          updates.sunStudy = { ...config.sunStudy, date };
+          summaryParts.push(`Moved the sun study to ${date}.`);
+        }
+        return;
+      }
+      case "name":
+        updates.projectName = intent.value;
+        summaryParts.push(`Renamed the project to “${intent.value}”.`);
+        return;
+      case "macro":
+        break;
+    }
+
+    if (intent.negated) {
+      if (intent.macro === "mixedUse" && config.zones.length > 0) {
+        updates.zones = [];
+        summaryParts.push("Returned every floor to the typical program.");
+      }
+      return;
+    }
+    switch (intent.macro) {
+      case "supertall":
+        if (!explicitFloors) {
+          updates.floors = clamp(config.floors + 40, 30, FLOORS.range[1]);
+          summaryParts.push("Adjusted height to supertall proportion.");
+        }
+        return;
+      case "tall":
+        if (!explicitFloors) {
+          updates.floors = clamp(config.floors + 8, 6, FLOORS.range[1]);
+          summaryParts.push("Raised overall height.");
+        }
+        return;
+      case "midRise":
+        updates.floors = clamp(config.floors, 4, 12);
+        summaryParts.push("Shaped tower to mid-rise scale.");
+        return;
+      case "slender":
+        updates.width = roundFor(WIDTH, clamp(config.width * 0.85, WIDTH.range[0], config.width));
+        updates.depth = roundFor(DEPTH, clamp(config.depth * 0.85, DEPTH.range[0], config.depth));
+        summaryParts.push("Slenderized the floor plate.");
+        return;
+      case "grandLobby":
+        updates.lobbyHeight = roundFor(LOBBY_HEIGHT, clamp(config.lobbyHeight * 1.2, 4.5, LOBBY_HEIGHT.range[1]));
+        summaryParts.push("Expanded lobby volume.");
+        return;
+      case "twist":
+        updates.twistPerFloor = 2;
+        summaryParts.push("Twisted each floor 2° over the one below.");
+        return;
+      case "singleUse":
+        if (config.zones.length > 0) {
+          updates.zones = [];
+          summaryParts.push("Returned every floor to the typical program.");
+        }
+        return;
+      case "mixedUse": {
+        const floors = config.floors;
+        if (floors >= 6) {
+          const officeTop = Math.min(floors - 1, 2 + Math.round((floors - 2) * 0.3));
+          updates.zones = [
+            { use: "retail", fromFloor: 2, toFloor: 2, floorHeight: 4.5, unitsPerFloor: 4, balconyFrequency: "none" },
+            { use: "office", fromFloor: 3, toFloor: officeTop, floorHeight: 4.2, unitsPerFloor: 2, balconyFrequency: "none" },
+          ];
+          summaryParts.push(`Stacked retail on floor 2 and offices on floors 3–${officeTop} below the residences.`);
+        }
+        return;
+      }
+    }
+  };
+
+  // Zones are laid out over the final floor count.
+  const notes: AiInference["notes"] = {};
+  [...intents.filter((intent) => !isMixedUse(intent)), ...intents.filter(isMixedUse)].forEach((intent) => {
+    const previous = new Map(flattenConfig(working()));
+    apply(intent);
+    flattenConfig(working())
+      .filter(([key, value]) => value !== previous.get(key) && !notes[key]?.includes(intent.source))
+      .forEach(([key]) => {
+        notes[key] = notes[key] ? `${notes[key]}; ${intent.source}` : intent.source;
+      });
+  });
+
+  return {
+    updates,
+    summary: summaryParts.join(" "),
+    notes,
+  };
+};
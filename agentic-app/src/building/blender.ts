@@ -0,0 +1,410 @@
+import { hexToRgb } from "./color";
+import type { Vec3 } from "./math";
+import { boundarySegments } from "./polygon";
+import type { BuildingScene, MaterialSlot, SceneElement } from "./scene";
+import { buildScene } from "./scene";
+import { buildSiteScene, sharedPodiumHost, sitePrefix } from "./site";
+import type { SunPosition } from "./sun";
+import { sunPath } from "./sun";
+import type { BuildingConfig, SiteModel } from "./types";
+
+const escapePythonString = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\r?\n/g, "\\n");
+
+const colorToPythonTuple = (hex: string) => {
+  const { r, g, b } = hexToRgb(hex);
+  const normalize = (channel: number) => (channel / 255).toFixed(4);
+  return `(${normalize(r)}, ${normalize(g)}, ${normalize(b)}, 1.0)`;
+};
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? value.toFixed(0) : value.toFixed(2);
+
+const pythonCoordinate = (value: number) => {
+  const rounded = Number(value.toFixed(4));
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+};
+
+const pythonVector = (vector: Vec3) => `(${vector.map(pythonCoordinate).join(", ")})`;
+
+const pythonBoolean = (value: boolean) => (value ? "True" : "False");
+
+const elementToPython = (element: SceneElement) => {
+  const fields = [
+    `"name": "${escapePythonString(element.name)}"`,
+    `"shape": "${element.shape}"`,
+    `"material": ${element.material ? `"${element.material}"` : "None"}`,
+    `"size": ${pythonVector(element.size)}`,
+    `"location": ${pythonVector(element.position)}`,
+  ];
+  if (element.rotation.some((angle) => angle !== 0)) {
+    fields.push(`"rotation": ${pythonVector(element.rotation)}`);
+  }
+  if (element.parent) {
+    fields.push(`"parent": "${escapePythonString(element.parent)}"`);
+  }
+  if (element.subdivisions) {
+    fields.push(`"subdivisions": ${element.subdivisions}`);
+  }
+  if (element.bevel) {
+    fields.push(`"bevel": (${pythonCoordinate(element.bevel.width)}, ${element.bevel.segments})`);
+  }
+  if (element.cutBy?.length) {
+    fields.push(`"cut_by": [${element.cutBy.map((name) => `"${escapePythonString(name)}"`).join(", ")}]`);
+  }
+  if (element.hidden) {
+    fields.push(`"hidden": True`);
+  }
+  if (element.wireframe) {
+    fields.push(`"wireframe": True`);
+  }
+  if (element.profile) {
+    const pieces = element.profile.map(
+      (piece) => `[${piece.map(([x, y]) => `(${pythonCoordinate(x)}, ${pythonCoordinate(y)})`).join(", ")}]`,
+    );
+    const sides = boundarySegments(element.profile).map(
+      ({ from, to }) =>
+        `((${pythonCoordinate(from[0])}, ${pythonCoordinate(from[1])}), (${pythonCoordinate(to[0])}, ${pythonCoordinate(to[1])}))`,
+    );
+    fields.push(`"profile": [${pieces.join(", ")}]`, `"sides": [${sides.join(", ")}]`);
+  }
+  return `    {${fields.join(", ")}},`;
+};
+
+const materialsToPython = (scene: BuildingScene) =>
+  (Object.entries(scene.materials) as [MaterialSlot, BuildingScene["materials"][MaterialSlot]][])
+    .map(
+      ([slot, material]) =>
+        `    "${slot}": ("${escapePythonString(material.name)}", ${colorToPythonTuple(material.color)}),`,
+    )
+    .join("\n");
+
+// One building's settings as a Python dict literal, laid out for the top
+// level of the script.
+const configToPython = (config: BuildingConfig) => {
+  const dimsPython = [
+    "{",
+    `        "width": ${formatNumber(config.width)},`,
+    `        "depth": ${formatNumber(config.depth)},`,
+    `        "plan_shape": "${config.planShape}",`,
+    `        "cutout_ratio": ${formatNumber(config.cutoutRatio)},`,
+    `        "corner_style": "${config.cornerStyle}",`,
+    `        "corner_size": ${formatNumber(config.cornerSize)},`,
+    `        "height_profile": "${config.heightProfile}",`,
+    `        "top_scale": ${formatNumber(config.topScale)},`,
+    `        "setback_interval": ${formatNumber(config.setbackInterval)},`,
+    `        "twist_per_floor": ${formatNumber(config.twistPerFloor)},`,
+    `        "floor_height": ${formatNumber(config.floorHeight)},`,
+    `        "lobby_height": ${formatNumber(config.lobbyHeight)},`,
+    `        "base_height": ${formatNumber(config.baseHeight)},`,
+    `        "core_width": ${formatNumber(config.coreWidth)},`,
+    `        "core_depth": ${formatNumber(config.coreDepth)},`,
+    `        "podium_levels": ${formatNumber(config.podiumLevels)},`,
+    `        "podium_setback": ${formatNumber(config.podiumSetback)},`,
+    `        "structural_grid": ${formatNumber(config.structuralGrid)}`,
+    "    }",
+  ].join("\n");
+
+  const facadePython = [
+    "{",
+    `        "pattern": "${config.facadePattern}",`,
+    `        "module": ${formatNumber(config.windowModule)},`,
+    `        "window_width": ${formatNumber(config.windowWidth)},`,
+    `        "window_height": ${formatNumber(config.windowHeight)},`,
+    `        "spandrel_height": ${formatNumber(config.spandrelHeight)},`,
+    `        "balcony_depth": ${formatNumber(config.balconyDepth)},`,
+    `        "balcony_frequency": "${config.balconyFrequency}",`,
+    `        "include_light_shelves": ${pythonBoolean(config.includeLightShelves)}`,
+    "    }",
+  ].join("\n");
+
+  const zonesPython = config.zones.length
+    ? [
+        "[",
+        ...config.zones.map(
+          (zone, idx) =>
+            `        {"use": "${zone.use}", "from_floor": ${formatNumber(zone.fromFloor)}, "to_floor": ${formatNumber(
+              zone.toFloor,
+            )}, "floor_height": ${formatNumber(zone.floorHeight)}, "units_per_floor": ${formatNumber(
+              zone.unitsPerFloor,
+            )}, "balcony_frequency": "${zone.balconyFrequency}"}${idx < config.zones.length - 1 ? "," : ""}`,
+        ),
+        "    ]",
+      ].join("\n")
+    : "[]";
+
+  const plotPython = [
+    "{",
+    `        "boundary": [${config.plot.boundary.map(([x, y]) => `(${pythonCoordinate(x)}, ${pythonCoordinate(y)})`).join(", ")}],`,
+    `        "setbacks": [${config.plot.setbacks.map(pythonCoordinate).join(", ")}],`,
+    `        "max_height": ${formatNumber(config.plot.maxHeight)},`,
+    `        "max_floor_area_ratio": ${formatNumber(config.plot.maxFloorAreaRatio)},`,
+    `        "max_coverage": ${formatNumber(config.plot.maxCoverage)}`,
+    "    }",
+  ].join("\n");
+
+  const sunPython = [
+    "{",
+    `        "latitude": ${pythonCoordinate(config.sunStudy.latitude)},`,
+    `        "longitude": ${pythonCoordinate(config.sunStudy.longitude)},`,
+    `        "utc_offset": ${pythonCoordinate(config.sunStudy.utcOffset)},`,
+    `        "date": "${escapePythonString(config.sunStudy.date)}",`,
+    `        "start_hour": ${pythonCoordinate(config.sunStudy.startHour)},`,
+    `        "end_hour": ${pythonCoordinate(config.sunStudy.endHour)}`,
+    "    }",
+  ].join("\n");
+
+  const colors = {
+    base: colorToPythonTuple(config.colors.base),
+    accent: colorToPythonTuple(config.colors.accent),
+    glazing: colorToPythonTuple(config.colors.glazing),
+    balcony: colorToPythonTuple(config.colors.balcony),
+    roof: colorToPythonTuple(config.colors.roof),
+  };
+
+  return `{
+    "project_name": "${escapePythonString(config.projectName)}",
+    "narrative": "${escapePythonString(config.narrative)}",
+    "floors": ${formatNumber(config.floors)},
+    "units_per_floor": ${formatNumber(config.unitsPerFloor)},
+    "zones": ${zonesPython},
+    "roof_style": "${config.roofStyle}",
+    "include_podium": ${pythonBoolean(config.includePodium)},
+    "has_atrium": ${pythonBoolean(config.hasAtrium)},
+    "add_rooftop_garden": ${pythonBoolean(config.addRooftopGarden)},
+    "include_solar_panels": ${pythonBoolean(config.includeSolarPanels)},
+    "plot": ${plotPython},
+    "sun_study": ${sunPython},
+    "dimensions": ${dimsPython},
+    "facade": ${facadePython},
+    "colors": {
+        "base": ${colors.base},
+        "accent": ${colors.accent},
+        "glazing": ${colors.glazing},
+        "balcony": ${colors.balcony},
+        "roof": ${colors.roof}
+    }
+}`;
+};
+
+// Azimuths are unwrapped so the lamp turns the short way when the sun crosses
+// north (every midday south of the tropics).
+const sunPathToPython = (path: SunPosition[]) => {
+  let previous: number | null = null;
+  return path
+    .map(({ hour, azimuth, altitude }) => {
+      const unwrapped = previous === null ? azimuth : azimuth + Math.round((previous - azimuth) / 360) * 360;
+      previous = unwrapped;
+      return `    (${pythonCoordinate(hour)}, ${pythonCoordinate(unwrapped)}, ${pythonCoordinate(altitude)}),`;
+    })
+    .join("\n");
+};
+
+const scriptFor = (config: BuildingConfig, configPython: string, scene: BuildingScene) => `"""
+Blender Building Assistant Script
+Generated for: ${escapePythonString(config.projectName)}
+Narrative: ${escapePythonString(config.narrative)}
+
+Run inside Blender's scripting workspace.
+"""
+
+import math
+
+import bpy
+import bmesh
+from mathutils import Matrix
+
+CONFIG = ${configPython}
+
+# Material slots and scene elements are generated from the studio's shared
+# scene model, so this script matches the in-browser preview and exporters.
+MATERIALS = {
+${materialsToPython(scene)}
+}
+
+SCENE = [
+${scene.elements.map(elementToPython).join("\n")}
+]
+
+# (local hour, azimuth clockwise from north, altitude) in degrees across the
+# sun study, computed by the studio for the site's position and date.
+SUN_PATH = [
+${sunPathToPython(sunPath(config.sunStudy))}
+]
+SUN_FRAMES_PER_STEP = 6
+SUN_STRENGTH = 4.0
+
+
+# -------- Utility Helpers --------
+def clear_scene():
+    bpy.ops.object.select_all(action='SELECT')
+    bpy.ops.object.delete()
+    for collection in (bpy.data.meshes, bpy.data.lights, bpy.data.cameras):
+        for block in list(collection):
+            collection.remove(block, do_unlink=True)
+
+
+def create_material(name, color_tuple):
+    mat = bpy.data.materials.get(name)
+    if mat is None:
+        mat = bpy.data.materials.new(name=name)
+        mat.use_nodes = True
+    nodes = mat.node_tree.nodes
+    principled = nodes.get("Principled BSDF")
+    principled.inputs[0].default_value = color_tuple
+    principled.inputs[7].default_value = 0.05
+    return mat
+
+
+def material_library(materials):
+    return {slot: create_material(name, color) for slot, (name, color) in materials.items()}
+
+
+# -------- Scene Assembly --------
+def create_prism(name, profile, sides, height):
+    # Caps are filled per convex piece of the plan; walls only run along the
+    # outer edges, then shared corners are welded into one shell.
+    mesh = bpy.data.meshes.new(name)
+    bm = bmesh.new()
+    for piece in profile:
+        bm.faces.new([bm.verts.new((x, y, -height / 2)) for x, y in reversed(piece)])
+        bm.faces.new([bm.verts.new((x, y, height / 2)) for x, y in piece])
+    for (x1, y1), (x2, y2) in sides:
+        corners = ((x1, y1, -height / 2), (x2, y2, -height / 2), (x2, y2, height / 2), (x1, y1, height / 2))
+        bm.faces.new([bm.verts.new(corner) for corner in corners])
+    bmesh.ops.remove_doubles(bm, verts=bm.verts, dist=0.0001)
+    bm.to_mesh(mesh)
+    bm.free()
+    obj = bpy.data.objects.new(name, mesh)
+    bpy.context.collection.objects.link(obj)
+    return obj
+
+
+def create_element(element, materials):
+    shape = element["shape"]
+    if shape == "prism":
+        obj = create_prism(element["name"], element["profile"], element["sides"], element["size"][2])
+    else:
+        if shape == "grid":
+            divisions = element.get("subdivisions", 10)
+            bpy.ops.mesh.primitive_grid_add(x_subdivisions=divisions, y_subdivisions=divisions, size=1)
+        elif shape == "plane":
+            bpy.ops.mesh.primitive_plane_add(size=1)
+        else:
+            bpy.ops.mesh.primitive_cube_add(size=1)
+        obj = bpy.context.active_object
+        obj.name = element["name"]
+        size_x, size_y, size_z = element["size"]
+        obj.data.transform(Matrix.Diagonal((size_x, size_y, size_z if shape == "box" else 1.0, 1.0)))
+    obj.location = element["location"]
+    obj.rotation_euler = element.get("rotation", (0, 0, 0))
+    if element["material"]:
+        obj.data.materials.append(materials[element["material"]])
+    if element.get("wireframe"):
+        obj.display_type = 'WIRE'
+        obj.hide_render = True
+    if "bevel" in element:
+        width, segments = element["bevel"]
+        bevel = obj.modifiers.new(name="Bevel", type='BEVEL')
+        bevel.width = width
+        bevel.segments = segments
+    return obj
+
+
+def link_parents(objects):
+    for element in SCENE:
+        parent = objects.get(element.get("parent", ""))
+        if parent:
+            child = objects[element["name"]]
+            child.parent = parent
+            child.matrix_parent_inverse = parent.matrix_world.inverted()
+
+
+def apply_cuts(objects):
+    for element in SCENE:
+        for cutter_name in element.get("cut_by", []):
+            cutter = objects.get(cutter_name)
+            if cutter is None:
+                continue
+            bool_mod = objects[element["name"]].modifiers.new(name=f"{cutter_name}Boolean", type='BOOLEAN')
+            bool_mod.operation = 'DIFFERENCE'
+            bool_mod.object = cutter
+    for element in SCENE:
+        if element.get("hidden"):
+            objects[element["name"]].hide_viewport = True
+            objects[element["name"]].hide_render = True
+
+
+def create_sun(path):
+    # One keyframe per study step; the lamp goes dark while the sun is down.
+    if not path:
+        return None
+    light = bpy.data.lights.new(name="Sun", type='SUN')
+    light.angle = math.radians(0.53)
+    sun = bpy.data.objects.new("Sun", light)
+    bpy.context.collection.objects.link(sun)
+    for index, (hour, azimuth, altitude) in enumerate(path):
+        frame = 1 + index * SUN_FRAMES_PER_STEP
+        sun.rotation_euler = (math.radians(90 - altitude), 0, math.radians(180 - azimuth))
+        sun.keyframe_insert(data_path="rotation_euler", frame=frame)
+        light.energy = SUN_STRENGTH if altitude > 0 else 0.0
+        light.keyframe_insert(data_path="energy", frame=frame)
+    scene = bpy.context.scene
+    scene.frame_start = 1
+    scene.frame_end = 1 + (len(path) - 1) * SUN_FRAMES_PER_STEP
+    return sun
+
+
+def tag_metadata(cfg):
+    if "building_metadata" not in bpy.context.scene:
+        bpy.context.scene["building_metadata"] = {}
+    bpy.context.scene["building_metadata"][cfg["project_name"]] = cfg
+
+
+def build(cfg):
+    clear_scene()
+    materials = material_library(MATERIALS)
+    objects = {}
+    for element in SCENE:
+        objects[element["name"]] = create_element(element, materials)
+    bpy.context.view_layer.update()
+    link_parents(objects)
+    apply_cuts(objects)
+    create_sun(SUN_PATH)
+    tag_metadata(cfg)
+    bpy.context.view_layer.update()
+
+
+if __name__ == "__main__":
+    build(CONFIG)
+`;
+
+export const generateBlenderScript = (config: BuildingConfig) =>
+  scriptFor(config, configToPython(config), buildScene(config));
+
+// The whole site in one script: each building's settings are kept under its
+// object-name prefix, and the scene is built once without clearing between towers.
+export const generateSiteBlenderScript = (site: SiteModel, project: BuildingConfig) => {
+  const buildings = site.buildings.map((building, index) =>
+    [
+      "        {",
+      `            "prefix": "${sitePrefix(index)}",`,
+      `            "name": "${escapePythonString(building.name)}",`,
+      `            "position": (${pythonCoordinate(building.position[0])}, ${pythonCoordinate(building.position[1])}),`,
+      `            "rotation": ${pythonCoordinate(building.rotation)},`,
+      `            "config": ${configToPython(building.config).replace(/\n/g, `\n${" ".repeat(12)}`)},`,
+      "        },",
+    ].join("\n"),
+  );
+  const configPython = [
+    "{",
+    `    "project_name": "${escapePythonString(project.projectName)}",`,
+    `    "narrative": "${escapePythonString(project.narrative)}",`,
+    `    "shared_podium": ${pythonBoolean(sharedPodiumHost(site) !== null)},`,
+    '    "buildings": [',
+    ...buildings,
+    "    ]",
+    "}",
+  ].join("\n");
+  return scriptFor(project, configPython, buildSiteScene(site, project));
+};
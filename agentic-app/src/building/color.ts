@@ -0,0 +1,14 @@
+export const hexToRgb = (hex: string) => {
+  const cleaned = hex.replace("#", "");
+  const chunk =
+    cleaned.length === 3
+      ? cleaned.split("").map((c) => c + c)
+      : cleaned.match(/.{1,2}/g) ?? ["00", "00", "00"];
+  const [r, g, b] = chunk.map((c) => parseInt(c, 16));
+  return { r, g, b };
+};
+
+export const hexToUnitRgb = (hex: string): [number, number, number] => {
+  const { r, g, b } = hexToRgb(hex);
+  return [r / 255, g / 255, b / 255];
+};
@@ -0,0 +1,70 @@
+import type { BuildingConfig, SiteModel } from "./types";
+
+export const defaultConfig: BuildingConfig = {
+  projectName: "Aurora Habitat Tower",
+  narrative:
+    "A mixed-use tower prioritizing daylight, biophilic terraces, and a flexible core for future adaptation.",
+  floors: 18,
+  floorHeight: 3.6,
+  lobbyHeight: 6,
+  width: 38,
+  depth: 26,
+  planShape: "rectangle",
+  cutoutRatio: 0.4,
+  cornerStyle: "square",
+  cornerSize: 2,
+  heightProfile: "straight",
+  topScale: 0.7,
+  setbackInterval: 6,
+  twistPerFloor: 0,
+  siteArea: 3200,
+  plot: {
+    boundary: [],
+    setbacks: [],
+    maxHeight: 0,
+    maxFloorAreaRatio: 0,
+    maxCoverage: 0,
+  },
+  sunStudy: {
+    latitude: 51.5,
+    longitude: -0.12,
+    utcOffset: 1,
+    date: "2026-06-21",
+    startHour: 6,
+    endHour: 20,
+  },
+  coreWidth: 10,
+  coreDepth: 8,
+  baseHeight: 1.2,
+  structuralGrid: 7.5,
+  unitsPerFloor: 8,
+  zones: [],
+  facadePattern: "grid",
+  windowModule: 3.2,
+  windowWidth: 2.6,
+  windowHeight: 2.4,
+  spandrelHeight: 0.8,
+  maxWindowWallRatio: 0.4,
+  balconyDepth: 2.1,
+  balconyFrequency: "alternate",
+  roofStyle: "flat",
+  podiumLevels: 3,
+  podiumSetback: 4,
+  includePodium: true,
+  hasAtrium: true,
+  addRooftopGarden: true,
+  includeSolarPanels: true,
+  includeLightShelves: false,
+  colors: {
+    base: "#4d5c6f",
+    accent: "#c48f5a",
+    glazing: "#85c3ff",
+    balcony: "#f2ede4",
+    roof: "#37414f",
+  },
+};
+
+export const defaultSite: SiteModel = {
+  buildings: [],
+  sharedPodium: true,
+};
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "./defaults";
+import type { Drawing, DrawingPrimitive } from "./drawings";
+import { createDrawings } from "./drawings";
+import { exportDxf } from "./exporters/dxf";
+import { exportSvg } from "./exporters/svg";
+import { FACADE_SIDES, buildScene } from "./scene";
+import type { BuildingConfig } from "./types";
+
+const sixFloors: BuildingConfig = { ...defaultConfig, floors: 6, includePodium: false };
+
+const drawings = createDrawings(sixFloors);
+
+const drawing = (id: Drawing["id"]) => {
+  const found = drawings.find((entry) => entry.id === id);
+  assert.ok(found, id);
+  return found;
+};
+
+const texts = ({ primitives }: Drawing) =>
+  primitives.flatMap((primitive) => (primitive.type === "text" ? [primitive.text] : []));
+
+const count = ({ primitives }: Drawing, type: DrawingPrimitive["type"], layer: DrawingPrimitive["layer"]) =>
+  primitives.filter((primitive) => primitive.type === type && primitive.layer === layer).length;
+
+describe("createDrawings", () => {
+  it("draws the typical plan, the four elevations and a section", () => {
+    assert.deepEqual(
+      drawings.map(({ id }) => id),
+      ["plan", ...FACADE_SIDES.map((side) => `elevation-${side}`), "section"],
+    );
+  });
+
+  it("numbers every unit on the plan and dimensions the plate", () => {
+    const plan = texts(drawing("plan"));
+    ["201", "208", "38.00", "26.00"].forEach((text) => assert.ok(plan.includes(text), text));
+  });
+
+  it("draws each elevation's windows and a line at every level", () => {
+    const { elements } = buildScene(sixFloors);
+    FACADE_SIDES.forEach((side) => {
+      const elevation = drawing(`elevation-${side}`);
+      const windows = elements.filter((element) => element.kind === "window" && element.side === side);
+      assert.equal(count(elevation, "polygon", "glazing"), windows.length, side);
+      assert.equal(count(elevation, "line", "level"), sixFloors.floors + 1, side);
+    });
+    assert.ok(texts(drawing("section")).includes("Top of structure  +25.20"));
+  });
+});
+
+describe("drawing exports", () => {
+  const plan = drawing("plan");
+
+  it("writes an SVG in real units", () => {
+    const svg = exportSvg(plan);
+    assert.match(svg, /^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" viewBox="[-\d. ]+" width="[\d.]+mm"/);
+    assert.match(svg, /<\/svg>\s*$/);
+  });
+
+  it("writes one DXF entity per primitive", () => {
+    const dxf = exportDxf(plan);
+    const entities = (name: string) => dxf.split("\n0\n").filter((chunk) => chunk.startsWith(`${name}\n`)).length;
+    assert.equal(entities("LINE"), plan.primitives.filter((primitive) => primitive.type === "line").length);
+    assert.equal(entities("POLYLINE"), plan.primitives.filter((primitive) => primitive.type === "polygon").length);
+    assert.equal(entities("TEXT"), texts(plan).length);
+    assert.match(dxf, /\n0\nEOF\n$/);
+  });
+});
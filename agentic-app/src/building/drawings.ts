@@ -0,0 +1,530 @@
+import { layoutFloorPlan } from "./floorplan";
+import { footprintToLocal, footprintToWorld, isRectangularMassing, levelFootprint } from "./footprint";
+import type { Level } from "./levels";
+import { levelAt, towerTop } from "./levels";
+import type { Vec3 } from "./math";
+import { toWorld } from "./mesh";
+import type { PlanPolygon, PlanSegment } from "./polygon";
+import { clipSegment, rectPolygon } from "./polygon";
+import type { ElementKind, FacadeSide, SceneElement } from "./scene";
+import { FACADE_SIDES, buildScene } from "./scene";
+import { COLUMN_SIZE, layoutStructure } from "./structure";
+import type { BuildingConfig } from "./types";
+
+export type DrawingPoint = [number, number];
+
+export type DrawingLayer =
+  | "outline"
+  | "cut"
+  | "glazing"
+  | "partition"
+  | "structure"
+  | "hidden"
+  | "level"
+  | "dimension"
+  | "annotation";
+
+export type DrawingFill = "solid" | "glass" | "poche";
+
+export type DrawingPrimitive =
+  | { type: "line"; layer: DrawingLayer; from: DrawingPoint; to: DrawingPoint }
+  | { type: "polygon"; layer: DrawingLayer; points: DrawingPoint[]; fill?: DrawingFill }
+  | {
+      type: "text";
+      layer: DrawingLayer;
+      at: DrawingPoint;
+      text: string;
+      height: number;
+      anchor: "start" | "middle" | "end";
+      rotation?: number;
+    };
+
+export type DrawingId = "plan" | `elevation-${FacadeSide}` | "section";
+
+export type Drawing = {
+  id: DrawingId;
+  title: string;
+  primitives: DrawingPrimitive[];
+};
+
+export const DRAWING_SCALE = 100;
+
+const LABEL = 0.6;
+const TITLE = 1.2;
+const DIMENSION_GAP = 2.5;
+const TICK = 0.3;
+const SLAB_THICKNESS = 0.3;
+const WALL_THICKNESS = 0.3;
+const CORE_WALL_THICKNESS = 0.25;
+
+// Elevations are drawn as seen by someone standing outside each facade, so
+// `u` is their left-to-right axis and `depth` grows towards them.
+const ELEVATION_AXES: Record<FacadeSide, { u: (point: Vec3) => number; depth: (point: Vec3) => number }> = {
+  front: { u: ([x]) => -x, depth: ([, y]) => y },
+  back: { u: ([x]) => x, depth: ([, y]) => -y },
+  right: { u: ([, y]) => y, depth: ([x]) => x },
+  left: { u: ([, y]) => -y, depth: ([x]) => -x },
+};
+
+const ELEVATION_KINDS: ElementKind[] = ["podium", "floor", "roof", "solar", "window", "balcony", "lightShelf"];
+
+const formatLevel = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+
+const formatLength = (value: number) => value.toFixed(2);
+
+const rectangle = (min: DrawingPoint, max: DrawingPoint): DrawingPoint[] => [
+  [min[0], min[1]],
+  [max[0], min[1]],
+  [max[0], max[1]],
+  [min[0], max[1]],
+];
+
+const text = (
+  at: DrawingPoint,
+  value: string,
+  height = LABEL,
+  anchor: "start" | "middle" | "end" = "middle",
+  layer: DrawingLayer = "annotation",
+  rotation = 0,
+): DrawingPrimitive => ({ type: "text", layer, at, text: value, height, anchor, ...(rotation ? { rotation } : {}) });
+
+// A dimension string between two points, offset perpendicular to them with
+// extension lines, ticks and the measured length written along the line.
+const dimension = (from: DrawingPoint, to: DrawingPoint, offset: number, label?: string): DrawingPrimitive[] => {
+  const length = Math.hypot(to[0] - from[0], to[1] - from[1]);
+  if (length < 1e-6) {
+    return [];
+  }
+  const dir: DrawingPoint = [(to[0] - from[0]) / length, (to[1] - from[1]) / length];
+  const normal: DrawingPoint = [-dir[1], dir[0]];
+  const shift = (point: DrawingPoint, amount: number): DrawingPoint => [
+    point[0] + normal[0] * amount,
+    point[1] + normal[1] * amount,
+  ];
+  const gap = Math.sign(offset) * 0.3;
+  const a = shift(from, offset);
+  const b = shift(to, offset);
+  const tick = (point: DrawingPoint): DrawingPrimitive => {
+    const slant: DrawingPoint = [((dir[0] + normal[0]) * TICK) / 2, ((dir[1] + normal[1]) * TICK) / 2];
+    return {
+      type: "line",
+      layer: "dimension",
+      from: [point[0] - slant[0], point[1] - slant[1]],
+      to: [point[0] + slant[0], point[1] + slant[1]],
+    };
+  };
+  return [
+    { type: "line", layer: "dimension", from: shift(from, gap), to: shift(from, offset + gap) },
+    { type: "line", layer: "dimension", from: shift(to, gap), to: shift(to, offset + gap) },
+    { type: "line", layer: "dimension", from: a, to: b },
+    tick(a),
+    tick(b),
+    text(
+      shift([(a[0] + b[0]) / 2, (a[1] + b[1]) / 2], 0.25),
+      label ?? formatLength(length),
+      LABEL * 0.8,
+      "middle",
+      "dimension",
+      (Math.atan2(dir[1], dir[0]) * 180) / Math.PI,
+    ),
+  ];
+};
+
+const allLevels = (config: BuildingConfig) =>
+  Array.from({ length: Math.max(config.floors, config.includePodium ? config.podiumLevels : 0) }, (_, index) =>
+    levelAt(config, index),
+  );
+
+// Plan pieces of a prism in world coordinates.
+const prismPieces = (element: SceneElement): PlanPolygon[] =>
+  (element.profile ?? []).map((piece) =>
+    piece.map(([x, y]): DrawingPoint => {
+      const [wx, wy] = toWorld(element, [x, y, 0]);
+      return [wx, wy];
+    }),
+  );
+
+const elementCorners = (element: SceneElement): Vec3[] =>
+  element.profile
+    ? element.profile.flatMap((piece) =>
+        piece.flatMap(([x, y]) => [-0.5, 0.5].map((sz) => toWorld(element, [x, y, element.size[2] * sz]))),
+      )
+    : [-0.5, 0.5].flatMap((sx) =>
+        [-0.5, 0.5].flatMap((sy) =>
+          [-0.5, 0.5].map((sz) =>
+            toWorld(element, [element.size[0] * sx, element.size[1] * sy, element.size[2] * sz]),
+          ),
+        ),
+      );
+
+// Monotone chain hull; a projected box is exactly the hull of its corners.
+const convexHull = (points: DrawingPoint[]): DrawingPoint[] => {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  const cross = (o: DrawingPoint, a: DrawingPoint, b: DrawingPoint) =>
+    (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const half = (input: DrawingPoint[]) => {
+    const chain: DrawingPoint[] = [];
+    input.forEach((point) => {
+      while (chain.length >= 2 && cross(chain[chain.length - 2], chain[chain.length - 1], point) <= 1e-9) {
+        chain.pop();
+      }
+      chain.push(point);
+    });
+    return chain.slice(0, -1);
+  };
+  return [...half(sorted), ...half([...sorted].reverse())];
+};
+
+const bounds = (points: DrawingPoint[]) => ({
+  min: [Math.min(...points.map((point) => point[0])), Math.min(...points.map((point) => point[1]))] as DrawingPoint,
+  max: [Math.max(...points.map((point) => point[0])), Math.max(...points.map((point) => point[1]))] as DrawingPoint,
+});
+
+// Dashed level lines run past the right-hand edge of the drawing with the
+// level name and height above ground.
+const levelLines = (levels: Level[], top: number, left: number, right: number): DrawingPrimitive[] => [
+  ...levels.flatMap((level): DrawingPrimitive[] => [
+    { type: "line", layer: "level", from: [left - 1, level.bottom], to: [right + 4, level.bottom] },
+    text([right + 4.3, level.bottom + 0.15], `${level.name}  ${formatLevel(level.bottom)}`, LABEL, "start", "level"),
+  ]),
+  { type: "line", layer: "level", from: [left - 1, top], to: [right + 4, top] },
+  text([right + 4.3, top + 0.15], `Top of structure  ${formatLevel(top)}`, LABEL, "start", "level"),
+];
+
+const heightDimensions = (config: BuildingConfig, left: number, overall: number): DrawingPrimitive[] => {
+  const chain = [0, config.baseHeight];
+  const labels: string[] = [formatLength(config.baseHeight)];
+  if (config.floors > 0) {
+    chain.push(config.baseHeight + config.lobbyHeight);
+    labels.push(formatLength(config.lobbyHeight));
+  }
+  // Consecutive floors of the same height share one run of the chain.
+  for (let index = 1; index < config.floors; ) {
+    const height = levelAt(config, index).height;
+    let end = index + 1;
+    while (end < config.floors && levelAt(config, end).height === height) {
+      end += 1;
+    }
+    chain.push(end === config.floors ? towerTop(config) : levelAt(config, end).bottom);
+    labels.push(`${end - index} × ${formatLength(height)}`);
+    index = end;
+  }
+  return [
+    ...chain.slice(1).flatMap((z, idx) =>
+      dimension([left, chain[idx]], [left, z], DIMENSION_GAP, labels[idx]),
+    ),
+    ...dimension([left, 0], [left, overall], DIMENSION_GAP * 2),
+  ];
+};
+
+// The inner face of the facade walls: each outer edge moved inwards by the
+// wall thickness, meeting its neighbours at mitred corners. Edges run
+// counter-clockwise, so inwards is to their left.
+const insetFacades = (facades: PlanSegment[], thickness: number): PlanSegment[] => {
+  const same = (a: DrawingPoint, b: DrawingPoint) => Math.hypot(a[0] - b[0], a[1] - b[1]) < 1e-6;
+  const offsetLine = ({ from, to }: PlanSegment) => {
+    const length = Math.hypot(to[0] - from[0], to[1] - from[1]);
+    const dir: DrawingPoint = [(to[0] - from[0]) / length, (to[1] - from[1]) / length];
+    return { point: [from[0] - dir[1] * thickness, from[1] + dir[0] * thickness] as DrawingPoint, dir };
+  };
+  const meet = (a: PlanSegment, b: PlanSegment, fallback: DrawingPoint): DrawingPoint => {
+    const [la, lb] = [offsetLine(a), offsetLine(b)];
+    const denominator = la.dir[0] * lb.dir[1] - la.dir[1] * lb.dir[0];
+    if (Math.abs(denominator) < 1e-9) {
+      return fallback;
+    }
+    const t =
+      ((lb.point[0] - la.point[0]) * lb.dir[1] - (lb.point[1] - la.point[1]) * lb.dir[0]) / denominator;
+    return [la.point[0] + la.dir[0] * t, la.point[1] + la.dir[1] * t];
+  };
+  return facades.map((segment) => {
+    const { point, dir } = offsetLine(segment);
+    const length = Math.hypot(segment.to[0] - segment.from[0], segment.to[1] - segment.from[1]);
+    const end: DrawingPoint = [point[0] + dir[0] * length, point[1] + dir[1] * length];
+    const before = facades.find((other) => same(other.to, segment.from));
+    const after = facades.find((other) => same(other.from, segment.to));
+    return {
+      from: before ? meet(before, segment, point) : point,
+      to: after ? meet(segment, after, end) : end,
+    };
+  });
+};
+
+const titleBlock = (title: string, left: number, bottom: number): DrawingPrimitive =>
+  text([left, bottom - DIMENSION_GAP * 2 - TITLE], `${title}  1:${DRAWING_SCALE}`, TITLE, "start");
+
+const createPlan = (config: BuildingConfig, elements: SceneElement[]): Drawing => {
+  const plan = layoutFloorPlan(config);
+  const level = levelAt(config, plan.level);
+  const footprint = levelFootprint(config, plan.level);
+  // Plans put the front facade at the bottom of the sheet, so plan y is -y.
+  // Shaped plates are drawn in their own frame, square to the sheet.
+  const flip = ([x, y]: DrawingPoint): DrawingPoint => [x, -y];
+  const local = (point: DrawingPoint) => flip(footprintToLocal(footprint, point));
+  const rect = (min: DrawingPoint, max: DrawingPoint) => rectangle(flip(min), flip(max));
+  const { min, max } = plan.bounds;
+  const primitives: DrawingPrimitive[] = [];
+
+  plan.walls.forEach((wall) =>
+    primitives.push({ type: "line", layer: "partition", from: flip(wall.from), to: flip(wall.to) }),
+  );
+  if (plan.atrium) {
+    primitives.push({ type: "polygon", layer: "hidden", points: rect(plan.atrium.min, plan.atrium.max) });
+    primitives.push(text([0, -plan.core.max[1] - 1], "Atrium void", LABEL * 0.8));
+  }
+  primitives.push({ type: "polygon", layer: "cut", points: plan.coreOutline.map(flip), fill: "poche" });
+  if (isRectangularMassing(config)) {
+    const [halfWidth, halfDepth] = [config.width / 2, config.depth / 2];
+    primitives.push(
+      {
+        type: "polygon",
+        layer: "cut",
+        points: rectangle([-halfWidth, -halfDepth], [halfWidth, halfDepth]),
+      },
+      {
+        type: "polygon",
+        layer: "cut",
+        points: rectangle([-halfWidth + WALL_THICKNESS, -halfDepth + WALL_THICKNESS], [halfWidth - WALL_THICKNESS, halfDepth - WALL_THICKNESS]),
+      },
+    );
+  } else {
+    [...footprint.facades, ...insetFacades(footprint.facades, WALL_THICKNESS)].forEach(({ from, to }) =>
+      primitives.push({ type: "line", layer: "cut", from: flip(from), to: flip(to) }),
+    );
+  }
+
+  elements
+    .filter((element) => element.kind === "window" && element.level === level.index)
+    .forEach((element) => {
+      // Windows run along their longer plan side; twisted ones are turned too.
+      const angle = element.rotation[2] + (element.size[0] >= element.size[1] ? 0 : Math.PI / 2);
+      const half = Math.max(element.size[0], element.size[1]) / 2;
+      const [x, y] = element.position;
+      const [dx, dy] = [Math.cos(angle), Math.sin(angle)];
+      primitives.push({
+        type: "line",
+        layer: "glazing",
+        from: local([x - dx * half, y - dy * half]),
+        to: local([x + dx * half, y + dy * half]),
+      });
+    });
+
+  layoutStructure(config)
+    .columns.filter((column) => column.level === level.index && !column.podium)
+    .forEach((column) =>
+      primitives.push({
+        type: "polygon",
+        layer: "structure",
+        points: rectPolygon({
+          min: [column.x - COLUMN_SIZE / 2, column.y - COLUMN_SIZE / 2],
+          max: [column.x + COLUMN_SIZE / 2, column.y + COLUMN_SIZE / 2],
+        }).map(local),
+        fill: "poche",
+      }),
+    );
+
+  plan.units.forEach((unit) => {
+    primitives.push(text([unit.label[0], -unit.label[1] + 0.2], unit.number, LABEL));
+    primitives.push(text([unit.label[0], -unit.label[1] - 0.8], `${Math.round(unit.area)} m²`, LABEL * 0.8));
+  });
+  // A twisted core sits at an angle to the plate, so only a square core gets
+  // its width dimensioned.
+  const coreDimension =
+    footprint.rotation === 0
+      ? dimension([plan.core.min[0], -min[1]], [plan.core.max[0], -min[1]], DIMENSION_GAP, `Core ${formatLength(config.coreWidth)}`)
+      : [];
+  primitives.push(
+    ...dimension([min[0], -max[1]], [max[0], -max[1]], -DIMENSION_GAP),
+    ...dimension([max[0], -max[1]], [max[0], -min[1]], -DIMENSION_GAP),
+    ...coreDimension,
+    text([(min[0] + max[0]) / 2, -max[1] - DIMENSION_GAP * 1.6], "FRONT", LABEL, "middle"),
+    titleBlock(`Typical floor plan — ${level.name}`, min[0], -max[1] - DIMENSION_GAP),
+  );
+  return { id: "plan", title: "Typical floor plan", primitives };
+};
+
+const createElevation = (config: BuildingConfig, elements: SceneElement[], side: FacadeSide): Drawing => {
+  const axes = ELEVATION_AXES[side];
+  const projected = elements
+    .filter(
+      (element) =>
+        !element.hidden &&
+        ELEVATION_KINDS.includes(element.kind) &&
+        (element.side === undefined || element.side === side),
+    )
+    .map((element) => {
+      const corners = elementCorners(element);
+      return {
+        element,
+        depth: Math.max(...corners.map(axes.depth)),
+        points: convexHull(corners.map((corner): DrawingPoint => [axes.u(corner), corner[2]])),
+      };
+    });
+  // A twisted plate's nearest corner can stand proud of its own facade, so
+  // windows and balconies are never drawn behind the plate they hang on.
+  const plateDepth = new Map(
+    projected.filter(({ element }) => element.kind === "floor").map(({ element, depth }) => [element.level, depth]),
+  );
+  const drawOrder = ({ element, depth }: (typeof projected)[number]) =>
+    element.side ? Math.max(depth, plateDepth.get(element.level) ?? depth) : depth;
+  projected.sort((a, b) => drawOrder(a) - drawOrder(b));
+
+  const primitives: DrawingPrimitive[] = projected.map(({ element, points }) => ({
+    type: "polygon",
+    layer: element.kind === "window" ? "glazing" : "outline",
+    points,
+    fill: element.kind === "window" ? "glass" : "solid",
+  }));
+  const extent = bounds(projected.flatMap(({ points }) => points));
+  const left = extent.min[0];
+  const right = extent.max[0];
+  // Shaped and twisted plates are dimensioned across the ground floor as seen.
+  const ground = projected.find(({ element }) => element.kind === "floor" && element.level === 0);
+  const half = (side === "front" || side === "back" ? config.width : config.depth) / 2;
+  const span = ground ? bounds(ground.points) : { min: [-half, 0], max: [half, 0] };
+
+  primitives.push(
+    { type: "line", layer: "cut", from: [left - 3, 0], to: [right + 3, 0] },
+    ...levelLines(allLevels(config), towerTop(config), left, right),
+    ...heightDimensions(config, left, extent.max[1]),
+    ...dimension([span.min[0], 0], [span.max[0], 0], -DIMENSION_GAP),
+    titleBlock(`${side[0].toUpperCase()}${side.slice(1)} elevation`, left, 0),
+  );
+  return { id: `elevation-${side}`, title: `${side[0].toUpperCase()}${side.slice(1)} elevation`, primitives };
+};
+
+// Section A–A cuts the building on y = 0 and looks towards the front facade,
+// so x reads left to right as it does on the plan.
+const createSection = (config: BuildingConfig, elements: SceneElement[]): Drawing => {
+  const levels = allLevels(config);
+  const primitives: DrawingPrimitive[] = [];
+  const cut = (min: DrawingPoint, max: DrawingPoint): DrawingPrimitive => ({
+    type: "polygon",
+    layer: "cut",
+    points: rectangle(min, max),
+    fill: "poche",
+  });
+  const halfWidth = config.width / 2;
+  const top = towerTop(config);
+  const rectangular = isRectangularMassing(config);
+  const reach = config.width + config.depth + config.podiumSetback * 2;
+  // Where the cut line crosses a set of plan pieces, left to right.
+  const crossing = (pieces: PlanPolygon[]) => clipSegment({ from: [-reach, 0], to: [reach, 0] }, pieces);
+  let span: [number, number] = [-halfWidth, halfWidth];
+
+  levels.forEach((level) => {
+    const hasTower = level.index < config.floors;
+    const shrink = config.podiumSetback * level.index;
+    const podiumHalf =
+      config.includePodium && level.index < config.podiumLevels
+        ? (config.width + config.podiumSetback * 2 - shrink) / 2
+        : 0;
+    if (!rectangular) {
+      // Shaped plates can cross the cut line several times, e.g. either side
+      // of a courtyard, with facade walls at the ends of every stretch.
+      const footprint = levelFootprint(config, Math.min(level.index, config.floors - 1));
+      const world = (pieces: PlanPolygon[]) =>
+        hasTower ? pieces.map((piece) => piece.map((point) => footprintToWorld(footprint, point))) : [];
+      const podiumDepth = (config.depth + config.podiumSetback * 2 - shrink) / 2;
+      const podium =
+        podiumHalf > 0 ? [rectPolygon({ min: [-podiumHalf, -podiumDepth], max: [podiumHalf, podiumDepth] })] : [];
+      crossing([...world(footprint.solid), ...podium]).forEach(({ from, to }) =>
+        primitives.push(cut([from[0], level.bottom], [to[0], level.bottom + SLAB_THICKNESS])),
+      );
+      const stretches = crossing([...world(footprint.plate), ...podium]);
+      stretches.forEach(({ from, to }) =>
+        primitives.push(
+          cut([from[0], level.bottom + SLAB_THICKNESS], [from[0] + WALL_THICKNESS, level.bottom + level.height]),
+          cut([to[0] - WALL_THICKNESS, level.bottom + SLAB_THICKNESS], [to[0], level.bottom + level.height]),
+        ),
+      );
+      const tower = crossing(world(footprint.plate));
+      if (level.index === 0 && tower.length > 0) {
+        span = [tower[0].from[0], tower[tower.length - 1].to[0]];
+      }
+      return;
+    }
+    const slabHalf = Math.max(hasTower ? halfWidth : 0, podiumHalf);
+    const opening = config.hasAtrium && hasTower && level.index > 0 ? config.width / 4 : 0;
+    if (slabHalf > 0) {
+      if (opening > 0) {
+        primitives.push(
+          cut([-slabHalf, level.bottom], [-opening, level.bottom + SLAB_THICKNESS]),
+          cut([opening, level.bottom], [slabHalf, level.bottom + SLAB_THICKNESS]),
+        );
+      } else {
+        primitives.push(cut([-slabHalf, level.bottom], [slabHalf, level.bottom + SLAB_THICKNESS]));
+      }
+    }
+    const wallHalf = Math.max(hasTower ? halfWidth : 0, podiumHalf);
+    if (wallHalf > 0) {
+      primitives.push(
+        cut([-wallHalf, level.bottom + SLAB_THICKNESS], [-wallHalf + WALL_THICKNESS, level.bottom + level.height]),
+        cut([wallHalf - WALL_THICKNESS, level.bottom + SLAB_THICKNESS], [wallHalf, level.bottom + level.height]),
+      );
+    }
+  });
+
+  elements
+    .filter((element) => element.kind === "core" && Math.abs(element.position[1]) < element.size[1] / 2)
+    .forEach((element) => {
+      const bottom = element.position[2] - element.size[2] / 2;
+      const height = element.position[2] + element.size[2] / 2;
+      const [left, right] = [element.position[0] - element.size[0] / 2, element.position[0] + element.size[0] / 2];
+      primitives.push(
+        cut([left, bottom], [left + CORE_WALL_THICKNESS, height]),
+        cut([right - CORE_WALL_THICKNESS, bottom], [right, height]),
+        cut([left, height - SLAB_THICKNESS], [right, height]),
+      );
+    });
+
+  elements
+    .filter((element) => element.kind === "roof" && element.profile)
+    .forEach((element) =>
+      crossing(prismPieces(element)).forEach(({ from, to }) =>
+        primitives.push(
+          cut(
+            [from[0], element.position[2] - element.size[2] / 2],
+            [to[0], element.position[2] + element.size[2] / 2],
+          ),
+        ),
+      ),
+    );
+
+  // Columns and roof planes on the cut line; roof planes only tilt about y so
+  // their projection is also their cut.
+  elements
+    .filter((element) => {
+      if (element.kind === "roof") {
+        return !element.profile && element.rotation[0] === 0 && element.rotation[2] === 0;
+      }
+      return element.kind === "column" && Math.abs(element.position[1]) < element.size[1] / 2;
+    })
+    .forEach((element) =>
+      primitives.push({
+        type: "polygon",
+        layer: "cut",
+        points: convexHull(elementCorners(element).map((corner): DrawingPoint => [corner[0], corner[2]])),
+        fill: "poche",
+      }),
+    );
+
+  const extent = bounds(primitives.flatMap((primitive) => (primitive.type === "polygon" ? primitive.points : [])));
+  primitives.push(
+    { type: "line", layer: "cut", from: [extent.min[0] - 3, 0], to: [extent.max[0] + 3, 0] },
+    ...levelLines(levels, top, extent.min[0], extent.max[0]),
+    ...heightDimensions(config, extent.min[0], extent.max[1]),
+    ...dimension([span[0], 0], [span[1], 0], -DIMENSION_GAP),
+    titleBlock("Section A–A", extent.min[0], 0),
+  );
+  return { id: "section", title: "Section A–A", primitives };
+};
+
+export const createDrawings = (config: BuildingConfig): Drawing[] => {
+  const { elements } = buildScene(config);
+  return [
+    createPlan(config, elements),
+    ...FACADE_SIDES.map((side) => createElevation(config, elements, side)),
+    createSection(config, elements),
+  ];
+};
@@ -0,0 +1,126 @@
+import type { PlanPoint } from "./floorplan";
+import { footprintToWorld, levelFootprint } from "./footprint";
+import type { BuildingMetrics } from "./metrics";
+import type { PlanPolygon } from "./polygon";
+import { insetConvex, isConvex, pointInPieces, polygonArea, rectPolygon } from "./polygon";
+import type { BuildingConfig } from "./types";
+import type { ConfigField, ValidationIssue } from "./validation";
+
+export type EnvelopeCheck = {
+  id: string;
+  label: string;
+  actual: string;
+  limit: string;
+  ok: boolean;
+  fields: ConfigField[];
+  message: string;
+};
+
+const EPSILON = 1e-6;
+
+export const hasPlot = (config: BuildingConfig) => config.plot.boundary.length >= 3;
+
+export const plotArea = (config: BuildingConfig) => (hasPlot(config) ? polygonArea(config.plot.boundary) : 0);
+
+// Setbacks are applied edge by edge, which is exact for the convex plots the
+// checks expect; a concave plot gets no envelope.
+export const buildableArea = (config: BuildingConfig): PlanPolygon =>
+  hasPlot(config) && isConvex(config.plot.boundary) ? insetConvex(config.plot.boundary, config.plot.setbacks) : [];
+
+// Every corner the tower and podium put on the ground plan, in site
+// coordinates: each tower plate as built and the podium's lowest level.
+const footprintCorners = (config: BuildingConfig): PlanPoint[] => {
+  const plates = Array.from({ length: config.floors }, (_, index) => {
+    const footprint = levelFootprint(config, index);
+    return footprint.plate.flatMap((piece) => piece.map((point) => footprintToWorld(footprint, point)));
+  }).flat();
+  if (!config.includePodium || config.podiumLevels <= 0) {
+    return plates;
+  }
+  const [halfWidth, halfDepth] = [config.width / 2 + config.podiumSetback, config.depth / 2 + config.podiumSetback];
+  return [...plates, ...rectPolygon({ min: [-halfWidth, -halfDepth], max: [halfWidth, halfDepth] })];
+};
+
+const formatMetres = (value: number) => `${value.toFixed(1)} m`;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+// One row per limit the plot defines; an empty list means no plot is set.
+export const checkSiteEnvelope = (config: BuildingConfig, metrics: BuildingMetrics): EnvelopeCheck[] => {
+  if (!hasPlot(config)) {
+    return [];
+  }
+  const { plot } = config;
+  const area = plotArea(config);
+  const checks: EnvelopeCheck[] = [];
+
+  if (!isConvex(plot.boundary)) {
+    checks.push({
+      id: "plot-not-convex",
+      label: "Buildable envelope",
+      actual: "Concave plot",
+      limit: "Convex plot",
+      ok: false,
+      fields: ["plot"],
+      message: "Setback lines are only worked out for convex plots; split the site or straighten the boundary.",
+    });
+  } else {
+    const envelope = buildableArea(config);
+    const outside = footprintCorners(config).filter((point) => !pointInPieces(point, [envelope], -EPSILON));
+    checks.push({
+      id: "footprint-outside-envelope",
+      label: "Buildable envelope",
+      actual: envelope.length === 0 ? "No buildable area" : `${outside.length} corners outside`,
+      limit: `${Math.round(polygonArea(envelope)).toLocaleString()} m² buildable`,
+      ok: envelope.length > 0 && outside.length === 0,
+      fields: ["plot", "width", "depth", "podiumSetback"],
+      message:
+        envelope.length === 0
+          ? "The setbacks leave no buildable area on the plot."
+          : "The building footprint crosses the setback lines.",
+    });
+  }
+
+  if (plot.maxHeight > 0) {
+    checks.push({
+      id: "height-exceeds-limit",
+      label: "Height",
+      actual: formatMetres(metrics.height),
+      limit: formatMetres(plot.maxHeight),
+      ok: metrics.height <= plot.maxHeight + EPSILON,
+      fields: ["plot", "floors", "floorHeight"],
+      message: `The ${formatMetres(metrics.height)} building is taller than the ${formatMetres(plot.maxHeight)} height limit.`,
+    });
+  }
+  if (plot.maxFloorAreaRatio > 0 && area > 0) {
+    const ratio = metrics.grossArea / area;
+    checks.push({
+      id: "far-exceeds-limit",
+      label: "Floor-area ratio",
+      actual: ratio.toFixed(2),
+      limit: plot.maxFloorAreaRatio.toFixed(2),
+      ok: ratio <= plot.maxFloorAreaRatio + EPSILON,
+      fields: ["plot", "floors"],
+      message: `A floor-area ratio of ${ratio.toFixed(2)} is above the permitted ${plot.maxFloorAreaRatio.toFixed(2)}.`,
+    });
+  }
+  if (plot.maxCoverage > 0 && area > 0) {
+    const coverage = (metrics.levels[0]?.gross ?? 0) / area;
+    checks.push({
+      id: "coverage-exceeds-limit",
+      label: "Site coverage",
+      actual: formatPercent(coverage),
+      limit: formatPercent(plot.maxCoverage),
+      ok: coverage <= plot.maxCoverage + EPSILON,
+      fields: ["plot", "width", "depth"],
+      message: `The ground floor covers ${formatPercent(coverage)} of the plot; the limit is ${formatPercent(plot.maxCoverage)}.`,
+    });
+  }
+  return checks;
+};
+
+// Zoning breaches are warnings: the model is still valid to export.
+export const envelopeIssues = (checks: EnvelopeCheck[]): ValidationIssue[] =>
+  checks
+    .filter((check) => !check.ok)
+    .map(({ id, fields, message }) => ({ id, severity: "warning", fields, message }));
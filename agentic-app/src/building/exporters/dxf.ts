@@ -0,0 +1,156 @@
+import type { Drawing, DrawingLayer, DrawingPrimitive } from "../drawings";
+
+// AutoCAD colour index and linetype for each drawing layer.
+const LAYERS: Record<DrawingLayer, { name: string; color: number; linetype: "CONTINUOUS" | "DASHED" }> = {
+  outline: { name: "A-ELEV-OTLN", color: 7, linetype: "CONTINUOUS" },
+  cut: { name: "A-CUT", color: 7, linetype: "CONTINUOUS" },
+  glazing: { name: "A-GLAZ", color: 5, linetype: "CONTINUOUS" },
+  partition: { name: "A-WALL-PRTN", color: 8, linetype: "CONTINUOUS" },
+  structure: { name: "S-COLS", color: 1, linetype: "CONTINUOUS" },
+  hidden: { name: "A-HIDDEN", color: 9, linetype: "DASHED" },
+  level: { name: "A-LEVL", color: 4, linetype: "DASHED" },
+  dimension: { name: "A-DIMS", color: 3, linetype: "CONTINUOUS" },
+  annotation: { name: "A-ANNO-TEXT", color: 7, linetype: "CONTINUOUS" },
+};
+
+const JUSTIFY = { start: 0, middle: 1, end: 2 };
+
+const real = (value: number) => {
+  const rounded = Number(value.toFixed(4));
+  return Object.is(rounded, -0) ? "0.0" : rounded.toFixed(4);
+};
+
+// DXF is a flat list of group-code/value pairs, one per line.
+const groups = (pairs: [number, string | number][]) => pairs.flatMap(([code, value]) => [String(code), String(value)]);
+
+// TEXT is plain ASCII in R12, so anything else is written as a \U+ escape.
+const dxfText = (value: string) =>
+  [...value.replace(/[\r\n]+/g, " ")]
+    .map((char) => {
+      const code = char.codePointAt(0) ?? 0;
+      return code < 128 ? char : `\\U+${code.toString(16).toUpperCase().padStart(4, "0")}`;
+    })
+    .join("");
+
+const entity = (primitive: DrawingPrimitive): string[] => {
+  const layer = LAYERS[primitive.layer].name;
+  if (primitive.type === "line") {
+    return groups([
+      [0, "LINE"],
+      [8, layer],
+      [10, real(primitive.from[0])],
+      [20, real(primitive.from[1])],
+      [30, real(0)],
+      [11, real(primitive.to[0])],
+      [21, real(primitive.to[1])],
+      [31, real(0)],
+    ]);
+  }
+  if (primitive.type === "polygon") {
+    return [
+      ...groups([
+        [0, "POLYLINE"],
+        [8, layer],
+        [66, 1],
+        [10, real(0)],
+        [20, real(0)],
+        [30, real(0)],
+        [70, 1],
+      ]),
+      ...primitive.points.flatMap(([x, y]) =>
+        groups([
+          [0, "VERTEX"],
+          [8, layer],
+          [10, real(x)],
+          [20, real(y)],
+          [30, real(0)],
+        ]),
+      ),
+      ...groups([
+        [0, "SEQEND"],
+        [8, layer],
+      ]),
+    ];
+  }
+  const justify = JUSTIFY[primitive.anchor];
+  return groups([
+    [0, "TEXT"],
+    [8, layer],
+    [10, real(primitive.at[0])],
+    [20, real(primitive.at[1])],
+    [30, real(0)],
+    [40, real(primitive.height)],
+    [1, dxfText(primitive.text)],
+    [50, real(primitive.rotation ?? 0)],
+    [72, justify],
+    ...(justify !== 0
+      ? ([
+          [11, real(primitive.at[0])],
+          [21, real(primitive.at[1])],
+          [31, real(0)],
+        ] as [number, string][])
+      : []),
+  ]);
+};
+
+// Writes an AutoCAD R12 ASCII DXF in metres, the oldest revision every CAD
+// package still reads. Layers follow the AIA naming used by most offices.
+export const exportDxf = (drawing: Drawing) => {
+  const layerTable = (Object.keys(LAYERS) as DrawingLayer[]).flatMap((key) =>
+    groups([
+      [0, "LAYER"],
+      [2, LAYERS[key].name],
+      [70, 0],
+      [62, LAYERS[key].color],
+      [6, LAYERS[key].linetype],
+    ]),
+  );
+  return [
+    ...groups([
+      [999, dxfText(drawing.title)],
+      [0, "SECTION"],
+      [2, "HEADER"],
+      [9, "$ACADVER"],
+      [1, "AC1009"],
+      [0, "ENDSEC"],
+      [0, "SECTION"],
+      [2, "TABLES"],
+      [0, "TABLE"],
+      [2, "LTYPE"],
+      [70, 2],
+      [0, "LTYPE"],
+      [2, "CONTINUOUS"],
+      [70, 0],
+      [3, "Solid line"],
+      [72, 65],
+      [73, 0],
+      [40, real(0)],
+      [0, "LTYPE"],
+      [2, "DASHED"],
+      [70, 0],
+      [3, "Dashed __ __ __"],
+      [72, 65],
+      [73, 2],
+      [40, real(0.9)],
+      [49, real(0.6)],
+      [49, real(-0.3)],
+      [0, "ENDTAB"],
+      [0, "TABLE"],
+      [2, "LAYER"],
+      [70, Object.keys(LAYERS).length],
+    ]),
+    ...layerTable,
+    ...groups([
+      [0, "ENDTAB"],
+      [0, "ENDSEC"],
+      [0, "SECTION"],
+      [2, "ENTITIES"],
+    ]),
+    ...drawing.primitives.flatMap(entity),
+    ...groups([
+      [0, "ENDSEC"],
+      [0, "EOF"],
+    ]),
+    "",
+  ].join("\n");
+};
@@ -0,0 +1,255 @@
+import { hexToUnitRgb } from "../color";
+import type { Vec3 } from "../math";
+import { elementMesh, indexScene } from "../mesh";
+import type { BuildingScene, MaterialSlot, SceneElement } from "../scene";
+
+type Quat = [number, number, number, number];
+
+type GltfNode = {
+  name: string;
+  mesh?: number;
+  translation?: Vec3;
+  rotation?: Quat;
+  children?: number[];
+};
+
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+const TRIANGLES = 4;
+
+const GLB_MAGIC = 0x46546c67;
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+// Blender is Z-up, glTF is Y-up: (x, y, z) -> (x, z, -y).
+const toYUp = ([x, y, z]: Vec3): Vec3 => [x, z, -y];
+
+const multiplyQuat = (a: Quat, b: Quat): Quat => [
+  a[3] * b[0] + a[0] * b[3] + a[1] * b[2] - a[2] * b[1],
+  a[3] * b[1] - a[0] * b[2] + a[1] * b[3] + a[2] * b[0],
+  a[3] * b[2] + a[0] * b[1] - a[1] * b[0] + a[2] * b[3],
+  a[3] * b[3] - a[0] * b[0] - a[1] * b[1] - a[2] * b[2],
+];
+
+const conjugate = ([x, y, z, w]: Quat): Quat => [-x, -y, -z, w];
+
+const rotateByQuat = (q: Quat, [x, y, z]: Vec3): Vec3 => {
+  const [rx, ry, rz] = multiplyQuat(multiplyQuat(q, [x, y, z, 0]), conjugate(q));
+  return [rx, ry, rz];
+};
+
+const eulerToQuat = ([rx, ry, rz]: Vec3): Quat => {
+  const qx: Quat = [Math.sin(rx / 2), 0, 0, Math.cos(rx / 2)];
+  const qy: Quat = [0, Math.sin(ry / 2), 0, Math.cos(ry / 2)];
+  const qz: Quat = [0, 0, Math.sin(rz / 2), Math.cos(rz / 2)];
+  return multiplyQuat(qz, multiplyQuat(qy, qx));
+};
+
+const Z_UP_TO_Y_UP: Quat = [-Math.SQRT1_2, 0, 0, Math.SQRT1_2];
+
+const nodeRotation = (element: SceneElement): Quat =>
+  multiplyQuat(multiplyQuat(Z_UP_TO_Y_UP, eulerToQuat(element.rotation)), conjugate(Z_UP_TO_Y_UP));
+
+const isIdentity = ([x, y, z, w]: Quat) =>
+  Math.abs(x) < 1e-9 && Math.abs(y) < 1e-9 && Math.abs(z) < 1e-9 && Math.abs(w - 1) < 1e-9;
+
+const srgbToLinear = (channel: number) =>
+  channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+
+const meshKey = (element: SceneElement, lookup: Map<string, SceneElement>) => {
+  const cuts = (element.cutBy ?? []).map((name) => {
+    const cutter = lookup.get(name);
+    return cutter
+      ? [...cutter.size, ...cutter.position.map((value, axis) => value - element.position[axis])]
+      : [];
+  });
+  return JSON.stringify([element.shape, element.material, element.size, cuts, element.profile ?? []]);
+};
+
+const createBinaryWriter = () => {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  return {
+    append: (data: Float32Array | Uint32Array) => {
+      const offset = length;
+      const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+      chunks.push(bytes);
+      length += bytes.byteLength;
+      const padding = (4 - (length % 4)) % 4;
+      if (padding) {
+        chunks.push(new Uint8Array(padding));
+        length += padding;
+      }
+      return { offset, length: bytes.byteLength };
+    },
+    byteLength: () => length,
+    concat: () => {
+      const out = new Uint8Array(length);
+      let cursor = 0;
+      chunks.forEach((chunk) => {
+        out.set(chunk, cursor);
+        cursor += chunk.byteLength;
+      });
+      return out;
+    },
+  };
+};
+
+export const buildGltf = (scene: BuildingScene) => {
+  const lookup = indexScene(scene);
+  const binary = createBinaryWriter();
+  const bufferViews: object[] = [];
+  const accessors: object[] = [];
+  const meshes: object[] = [];
+  const nodes: GltfNode[] = [];
+  const meshIndex = new Map<string, number>();
+  const nodeIndex = new Map<string, number>();
+
+  const slots = Object.keys(scene.materials) as MaterialSlot[];
+  const materials = slots.map((slot) => {
+    const [r, g, b] = hexToUnitRgb(scene.materials[slot].color).map(srgbToLinear);
+    return {
+      name: scene.materials[slot].name,
+      pbrMetallicRoughness: {
+        baseColorFactor: [r, g, b, 1],
+        metallicFactor: 0,
+        roughnessFactor: 0.05,
+      },
+      doubleSided: slot === "ground" || slot === "garden",
+    };
+  });
+
+  const addAccessor = (
+    data: Float32Array | Uint32Array,
+    target: number,
+    type: "VEC3" | "SCALAR",
+    extra: object = {},
+  ) => {
+    const { offset, length } = binary.append(data);
+    bufferViews.push({ buffer: 0, byteOffset: offset, byteLength: length, target });
+    accessors.push({
+      bufferView: bufferViews.length - 1,
+      componentType: data instanceof Float32Array ? FLOAT : UNSIGNED_INT,
+      count: type === "VEC3" ? data.length / 3 : data.length,
+      type,
+      ...extra,
+    });
+    return accessors.length - 1;
+  };
+
+  const addMesh = (element: SceneElement) => {
+    const mesh = elementMesh(element, lookup);
+    const positions: number[] = [];
+    const normals: number[] = [];
+    for (let idx = 0; idx < mesh.positions.length; idx += 3) {
+      positions.push(...toYUp([mesh.positions[idx], mesh.positions[idx + 1], mesh.positions[idx + 2]]));
+      normals.push(...toYUp([mesh.normals[idx], mesh.normals[idx + 1], mesh.normals[idx + 2]]));
+    }
+    const min: Vec3 = [Infinity, Infinity, Infinity];
+    const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+    for (let idx = 0; idx < positions.length; idx += 3) {
+      [0, 1, 2].forEach((axis) => {
+        min[axis] = Math.min(min[axis], positions[idx + axis]);
+        max[axis] = Math.max(max[axis], positions[idx + axis]);
+      });
+    }
+    const position = addAccessor(new Float32Array(positions), ARRAY_BUFFER, "VEC3", { min, max });
+    const normal = addAccessor(new Float32Array(normals), ARRAY_BUFFER, "VEC3");
+    const indices = addAccessor(new Uint32Array(mesh.indices), ELEMENT_ARRAY_BUFFER, "SCALAR");
+    meshes.push({
+      name: element.name,
+      primitives: [
+        {
+          attributes: { POSITION: position, NORMAL: normal },
+          indices,
+          material: element.material ? slots.indexOf(element.material) : undefined,
+          mode: TRIANGLES,
+        },
+      ],
+    });
+    return meshes.length - 1;
+  };
+
+  const exported = scene.elements.filter(
+    (element) => !element.hidden && !element.wireframe && element.material,
+  );
+  exported.forEach((element) => {
+    const key = meshKey(element, lookup);
+    let mesh = meshIndex.get(key);
+    if (mesh === undefined) {
+      mesh = addMesh(element);
+      meshIndex.set(key, mesh);
+    }
+    nodes.push({ name: element.name, mesh });
+    nodeIndex.set(element.name, nodes.length - 1);
+  });
+
+  const roots: number[] = [];
+  exported.forEach((element) => {
+    const node = nodes[nodeIndex.get(element.name) as number];
+    const parent = element.parent ? lookup.get(element.parent) : undefined;
+    const parentNode = parent ? nodeIndex.get(parent.name) : undefined;
+    let translation = toYUp(element.position);
+    let rotation = nodeRotation(element);
+    if (parent && parentNode !== undefined) {
+      const parentRotation = nodeRotation(parent);
+      const offset = toYUp([
+        element.position[0] - parent.position[0],
+        element.position[1] - parent.position[1],
+        element.position[2] - parent.position[2],
+      ]);
+      translation = rotateByQuat(conjugate(parentRotation), offset);
+      rotation = multiplyQuat(conjugate(parentRotation), rotation);
+      const parentEntry = nodes[parentNode];
+      parentEntry.children = parentEntry.children ?? [];
+      parentEntry.children.push(nodeIndex.get(element.name) as number);
+    } else {
+      roots.push(nodeIndex.get(element.name) as number);
+    }
+    if (translation.some((value) => value !== 0)) {
+      node.translation = translation;
+    }
+    if (!isIdentity(rotation)) {
+      node.rotation = rotation;
+    }
+  });
+
+  const json = {
+    asset: { version: "2.0", generator: "Parametric Building Studio" },
+    scene: 0,
+    scenes: [{ name: scene.projectName, nodes: roots }],
+    nodes,
+    meshes,
+    materials,
+    accessors,
+    bufferViews,
+    buffers: [{ byteLength: binary.byteLength() }],
+  };
+  return { json, binary: binary.concat() };
+};
+
+export const exportGlb = (scene: BuildingScene) => {
+  const { json, binary } = buildGltf(scene);
+  const encoder = new TextEncoder();
+  const jsonText = JSON.stringify(json);
+  const jsonPadding = (4 - (encoder.encode(jsonText).byteLength % 4)) % 4;
+  const jsonBytes = encoder.encode(jsonText + " ".repeat(jsonPadding));
+  const totalLength = 12 + 8 + jsonBytes.byteLength + 8 + binary.byteLength;
+
+  const out = new ArrayBuffer(totalLength);
+  const view = new DataView(out);
+  const bytes = new Uint8Array(out);
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, totalLength, true);
+  view.setUint32(12, jsonBytes.byteLength, true);
+  view.setUint32(16, CHUNK_JSON, true);
+  bytes.set(jsonBytes, 20);
+  const binOffset = 20 + jsonBytes.byteLength;
+  view.setUint32(binOffset, binary.byteLength, true);
+  view.setUint32(binOffset + 4, CHUNK_BIN, true);
+  bytes.set(binary, binOffset + 8);
+  return out;
+};
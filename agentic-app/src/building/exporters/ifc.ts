@@ -0,0 +1,499 @@
+import { hexToUnitRgb } from "../color";
+import { layoutFloorPlan } from "../floorplan";
+import type { LevelFootprint } from "../footprint";
+import { coreCentre, footprintToWorld, isRectangularMassing, levelFootprint } from "../footprint";
+import type { Level } from "../levels";
+import { buildLevelStack, towerTop, zoneAt, zoneUseLabel } from "../levels";
+import type { Vec3 } from "../math";
+import type { PlanPolygon } from "../polygon";
+import type { BuildingScene, FacadeSide, SceneElement } from "../scene";
+import { FACADE_SIDES, ROOF_THICKNESS } from "../scene";
+import type { BuildingConfig } from "../types";
+
+const SLAB_THICKNESS = 0.3;
+const WALL_THICKNESS = 0.3;
+const CORE_WALL_THICKNESS = 0.25;
+
+const GUID_CHARS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz_$";
+
+type Ref = `#${number}`;
+
+// IFC GlobalIds are 128-bit values in IFC's own base-64 alphabet. They are
+// derived from the element path so repeated exports keep stable identities.
+const ifcGuid = (seed: string) => {
+  const words = [0x811c9dc5, 0x01000193, 0x6a09e667, 0xbb67ae85].map((start, lane) => {
+    let hash = start ^ lane;
+    for (let idx = 0; idx < seed.length; idx += 1) {
+      hash = Math.imul(hash ^ seed.charCodeAt(idx), 0x01000193 + lane * 2);
+      hash ^= hash >>> 15;
+    }
+    return hash >>> 0;
+  });
+  const bits = words.map((word) => word.toString(2).padStart(32, "0")).join("");
+  let guid = GUID_CHARS[parseInt(bits.slice(0, 2), 2)];
+  for (let idx = 2; idx < 128; idx += 6) {
+    guid += GUID_CHARS[parseInt(bits.slice(idx, idx + 6), 2)];
+  }
+  return guid;
+};
+
+const stepString = (value: string) => {
+  let out = "";
+  for (const char of value) {
+    const code = char.codePointAt(0) ?? 0;
+    if (char === "'") {
+      out += "''";
+    } else if (char === "\\") {
+      out += "\\\\";
+    } else if (code < 32 || code > 126) {
+      const wide = code > 0xffff;
+      out += `\\${wide ? "X4" : "X2"}\\${code.toString(16).toUpperCase().padStart(wide ? 8 : 4, "0")}\\X0\\`;
+    } else {
+      out += char;
+    }
+  }
+  return `'${out}'`;
+};
+
+const stepReal = (value: number) => {
+  const rounded = Number(value.toFixed(6));
+  const text = String(Object.is(rounded, -0) ? 0 : rounded);
+  return text.includes(".") ? text : `${text}.`;
+};
+
+const stepList = (items: string[]) => `(${items.join(",")})`;
+
+const createStepWriter = () => {
+  const lines: string[] = [];
+  return {
+    add: (entity: string): Ref => {
+      lines.push(entity);
+      return `#${lines.length}`;
+    },
+    lines: () => lines.map((entity, idx) => `#${idx + 1}=${entity};`),
+  };
+};
+
+type StepWriter = ReturnType<typeof createStepWriter>;
+
+const pad = (value: number, length: number) => String(value).padStart(length, "0");
+
+const createGeometry = (writer: StepWriter, projectName: string) => {
+  const point = (coordinates: number[]) =>
+    writer.add(`IFCCARTESIANPOINT(${stepList(coordinates.map(stepReal))})`);
+  const direction = (coordinates: number[]) =>
+    writer.add(`IFCDIRECTION(${stepList(coordinates.map(stepReal))})`);
+
+  const origin = point([0, 0, 0]);
+  const origin2d = point([0, 0]);
+  const zAxis = direction([0, 0, 1]);
+  const xAxis = direction([1, 0, 0]);
+  const worldPlacement = writer.add(`IFCAXIS2PLACEMENT3D(${origin},${zAxis},${xAxis})`);
+  const profilePlacement = writer.add(`IFCAXIS2PLACEMENT2D(${origin2d},$)`);
+  const context = writer.add(
+    `IFCGEOMETRICREPRESENTATIONCONTEXT($,'Model',3,1.E-05,${worldPlacement},$)`,
+  );
+  const bodyContext = writer.add(
+    `IFCGEOMETRICREPRESENTATIONSUBCONTEXT('Body','Model',*,*,*,*,${context},$,.MODEL_VIEW.,$)`,
+  );
+  const styles = new Map<string, Ref>();
+
+  const surfaceStyle = (name: string, hex: string, transparency = 0) => {
+    const existing = styles.get(name);
+    if (existing) {
+      return existing;
+    }
+    const [r, g, b] = hexToUnitRgb(hex);
+    const colour = writer.add(`IFCCOLOURRGB($,${stepReal(r)},${stepReal(g)},${stepReal(b)})`);
+    const shading = writer.add(`IFCSURFACESTYLESHADING(${colour},${stepReal(transparency)})`);
+    const style = writer.add(`IFCSURFACESTYLE(${stepString(name)},.BOTH.,(${shading}))`);
+    styles.set(name, style);
+    return style;
+  };
+
+  const extrudedShape = (parts: { size: Vec3; offset: [number, number] }[], style: Ref | null) => {
+    const solids = parts.map(({ size, offset }) => {
+      const profile = writer.add(
+        `IFCRECTANGLEPROFILEDEF(.AREA.,$,${profilePlacement},${stepReal(size[0])},${stepReal(size[1])})`,
+      );
+      const solidPlacement = writer.add(
+        `IFCAXIS2PLACEMENT3D(${offset[0] === 0 && offset[1] === 0 ? origin : point([offset[0], offset[1], 0])},$,$)`,
+      );
+      const solid = writer.add(
+        `IFCEXTRUDEDAREASOLID(${profile},${solidPlacement},${zAxis},${stepReal(size[2])})`,
+      );
+      if (style) {
+        writer.add(`IFCSTYLEDITEM(${solid},(${style}),$)`);
+      }
+      return solid;
+    });
+    const representation = writer.add(
+      `IFCSHAPEREPRESENTATION(${bodyContext},'Body','SweptSolid',${stepList(solids)})`,
+    );
+    return writer.add(`IFCPRODUCTDEFINITIONSHAPE($,$,(${representation}))`);
+  };
+
+  // Convex plan pieces, each extruded upwards from the placement origin.
+  const polygonShape = (pieces: PlanPolygon[], height: number, style: Ref | null) => {
+    const solids = pieces.map((piece) => {
+      const polyline = writer.add(`IFCPOLYLINE(${stepList([...piece, piece[0]].map((corner) => point(corner)))})`);
+      const profile = writer.add(`IFCARBITRARYCLOSEDPROFILEDEF(.AREA.,$,${polyline})`);
+      const solid = writer.add(
+        `IFCEXTRUDEDAREASOLID(${profile},${writer.add(`IFCAXIS2PLACEMENT3D(${origin},$,$)`)},${zAxis},${stepReal(height)})`,
+      );
+      if (style) {
+        writer.add(`IFCSTYLEDITEM(${solid},(${style}),$)`);
+      }
+      return solid;
+    });
+    const representation = writer.add(
+      `IFCSHAPEREPRESENTATION(${bodyContext},'Body','SweptSolid',${stepList(solids)})`,
+    );
+    return writer.add(`IFCPRODUCTDEFINITIONSHAPE($,$,(${representation}))`);
+  };
+
+  return {
+    context,
+    // `angle` turns the placement's x axis about z, for twisted floors.
+    placement: (relativeTo: Ref | null, location: Vec3, angle = 0) => {
+      const at = location.every((value) => value === 0) ? origin : point(location);
+      const axis =
+        angle === 0
+          ? writer.add(`IFCAXIS2PLACEMENT3D(${at},$,$)`)
+          : writer.add(`IFCAXIS2PLACEMENT3D(${at},${zAxis},${direction([Math.cos(angle), Math.sin(angle), 0])})`);
+      return writer.add(`IFCLOCALPLACEMENT(${relativeTo ?? "$"},${axis})`);
+    },
+    // Extrudes a rectangle of `size` upwards from the placement origin; the
+    // placement sits at the bottom centre of the element.
+    box: (size: Vec3, style: Ref | null) => extrudedShape([{ size, offset: [0, 0] }], style),
+    // Several rectangles extruded as one body, each offset from the placement
+    // origin, for L-shaped spaces.
+    prisms: extrudedShape,
+    polygons: polygonShape,
+    surfaceStyle,
+    guid: (path: string) => stepString(ifcGuid(`${projectName}/${path}`)),
+  };
+};
+
+type Geometry = ReturnType<typeof createGeometry>;
+
+const perimeterWalls = (width: number, depth: number, thickness: number) =>
+  FACADE_SIDES.map((side) => {
+    const isFrontBack = side === "front" || side === "back";
+    const sign = side === "front" || side === "right" ? 1 : -1;
+    return {
+      side,
+      center: isFrontBack
+        ? ([0, sign * (depth / 2 - thickness / 2)] as [number, number])
+        : ([sign * (width / 2 - thickness / 2), 0] as [number, number]),
+      size: isFrontBack
+        ? ([width, thickness] as [number, number])
+        : ([thickness, depth - thickness * 2] as [number, number]),
+    };
+  });
+
+// One straight wall per outer edge of a shaped plate, set inside the edge and
+// in world coordinates, so windows can find their host by distance.
+const facadeWalls = (footprint: LevelFootprint) =>
+  footprint.facades.map(({ from, to }) => {
+    const [start, end] = [footprintToWorld(footprint, from), footprintToWorld(footprint, to)];
+    const length = Math.hypot(end[0] - start[0], end[1] - start[1]);
+    const dir: [number, number] = [(end[0] - start[0]) / length, (end[1] - start[1]) / length];
+    return {
+      center: [
+        (start[0] + end[0]) / 2 - (dir[1] * WALL_THICKNESS) / 2,
+        (start[1] + end[1]) / 2 + (dir[0] * WALL_THICKNESS) / 2,
+      ] as [number, number],
+      dir,
+      length,
+      angle: Math.atan2(dir[1], dir[0]),
+    };
+  });
+
+export const exportIfc = (config: BuildingConfig, scene: BuildingScene) => {
+  const writer = createStepWriter();
+  const geometry: Geometry = createGeometry(writer, config.projectName);
+  const { guid, placement, box, prisms, polygons, surfaceStyle } = geometry;
+  const levels = buildLevelStack(config);
+  const podiumLevels = config.includePodium ? config.podiumLevels : 0;
+
+  const baseStyle = surfaceStyle("Facade_Base", config.colors.base);
+  const accentStyle = surfaceStyle("Facade_Accent", config.colors.accent);
+  const glassStyle = surfaceStyle("Facade_Glass", config.colors.glazing, 0.6);
+  const roofStyle = surfaceStyle("Roof_Finish", config.colors.roof);
+
+  const units = [
+    "IFCSIUNIT(*,.LENGTHUNIT.,$,.METRE.)",
+    "IFCSIUNIT(*,.AREAUNIT.,$,.SQUARE_METRE.)",
+    "IFCSIUNIT(*,.VOLUMEUNIT.,$,.CUBIC_METRE.)",
+    "IFCSIUNIT(*,.PLANEANGLEUNIT.,$,.RADIAN.)",
+  ].map((unit) => writer.add(unit));
+  const unitAssignment = writer.add(`IFCUNITASSIGNMENT(${stepList(units)})`);
+  const project = writer.add(
+    `IFCPROJECT(${guid("project")},$,${stepString(config.projectName)},${stepString(config.narrative)},$,$,$,(${geometry.context}),${unitAssignment})`,
+  );
+
+  const sitePlacement = placement(null, [0, 0, 0]);
+  const site = writer.add(
+    `IFCSITE(${guid("site")},$,'Site',$,$,${sitePlacement},$,$,.ELEMENT.,$,$,$,$,$)`,
+  );
+  const buildingPlacement = placement(sitePlacement, [0, 0, 0]);
+  const building = writer.add(
+    `IFCBUILDING(${guid("building")},$,${stepString(config.projectName)},$,$,${buildingPlacement},$,$,.ELEMENT.,$,$,$)`,
+  );
+  writer.add(`IFCRELAGGREGATES(${guid("project-site")},$,$,$,${project},(${site}))`);
+  writer.add(`IFCRELAGGREGATES(${guid("site-building")},$,$,$,${site},(${building}))`);
+
+  const windowsByLevel = new Map<number, SceneElement[]>();
+  scene.elements
+    .filter((element) => element.kind === "window" && element.level !== undefined)
+    .forEach((element) => {
+      const list = windowsByLevel.get(element.level as number) ?? [];
+      list.push(element);
+      windowsByLevel.set(element.level as number, list);
+    });
+  const podiumElements = scene.elements.filter((element) => element.kind === "podium");
+  const partitionElements = scene.elements.filter((element) => element.kind === "partition");
+  const rectangular = isRectangularMassing(config);
+  const typicalPlan = layoutFloorPlan(config);
+  const [coreX, coreY] = coreCentre(config);
+
+  const storeyName = (level: Level) => {
+    const label = level.isLobby ? "Lobby" : `Level ${pad(level.index + 1, 2)}`;
+    return level.index < podiumLevels ? `${label} (Podium)` : label;
+  };
+
+  const storeyType = (level: Level) => {
+    if (level.index < podiumLevels) {
+      return "Podium";
+    }
+    const zone = zoneAt(config, level.index);
+    return level.isLobby ? "Lobby" : zone ? zoneUseLabel(zone.use) : "Typical";
+  };
+
+  const storeys = levels.map((level) => {
+    const storeyPlacement = placement(buildingPlacement, [0, 0, level.bottom]);
+    const storey = writer.add(
+      `IFCBUILDINGSTOREY(${guid(`storey/${level.index}`)},$,${stepString(storeyName(level))},$,${stepString(
+        storeyType(level),
+      )},${storeyPlacement},$,$,.ELEMENT.,${stepReal(level.bottom)})`,
+    );
+    const contained: Ref[] = [];
+    const spaces: Ref[] = [];
+    const prefix = `Floor_${pad(level.index + 1, 2)}`;
+    const footprint = levelFootprint(config, level.index);
+    // Shaped plates are placed in their own (scaled, twisted) frame.
+    const platePlacement = (z: number) =>
+      placement(storeyPlacement, [footprint.origin[0], footprint.origin[1], z], footprint.rotation);
+
+    const slabPlacement = rectangular ? placement(storeyPlacement, [0, 0, 0]) : platePlacement(0);
+    const slab = writer.add(
+      `IFCSLAB(${guid(`${prefix}/slab`)},$,${stepString(`${prefix}_Slab`)},$,$,${slabPlacement},${
+        rectangular
+          ? box([config.width, config.depth, SLAB_THICKNESS], baseStyle)
+          : polygons(footprint.solid, SLAB_THICKNESS, baseStyle)
+      },$,${level.isLobby ? ".BASESLAB." : ".FLOOR."})`,
+    );
+    contained.push(slab);
+    if (rectangular && config.hasAtrium && !level.isLobby) {
+      const openingPlacement = placement(slabPlacement, [0, 0, -0.05]);
+      const opening = writer.add(
+        `IFCOPENINGELEMENT(${guid(`${prefix}/atrium`)},$,'AtriumCut',$,$,${openingPlacement},${box(
+          [config.width * 0.5, config.depth * 0.5, SLAB_THICKNESS + 0.1],
+          null,
+        )},$,.OPENING.)`,
+      );
+      writer.add(`IFCRELVOIDSELEMENT(${guid(`${prefix}/atrium-void`)},$,$,$,${slab},${opening})`);
+    }
+
+    const walls = new Map<FacadeSide, { ref: Ref; placement: Ref; center: [number, number] }>();
+    const shapedWalls: { ref: Ref; placement: Ref; center: [number, number]; dir: [number, number] }[] = [];
+    (rectangular ? [] : facadeWalls(footprint)).forEach((wall, idx) => {
+      const wallPlacement = placement(storeyPlacement, [wall.center[0], wall.center[1], 0], wall.angle);
+      const ref = writer.add(
+        `IFCWALL(${guid(`${prefix}/wall/${idx}`)},$,${stepString(`${prefix}_Wall_${pad(idx + 1, 2)}`)},$,$,${wallPlacement},${box(
+          [wall.length, WALL_THICKNESS, level.height],
+          baseStyle,
+        )},$,.SOLIDWALL.)`,
+      );
+      shapedWalls.push({ ref, placement: wallPlacement, center: wall.center, dir: wall.dir });
+      contained.push(ref);
+    });
+    (rectangular ? perimeterWalls(config.width, config.depth, WALL_THICKNESS) : []).forEach((wall) => {
+      const wallPlacement = placement(storeyPlacement, [wall.center[0], wall.center[1], 0]);
+      const ref = writer.add(
+        `IFCWALL(${guid(`${prefix}/wall/${wall.side}`)},$,${stepString(`${prefix}_Wall_${wall.side}`)},$,$,${wallPlacement},${box(
+          [wall.size[0], wall.size[1], level.height],
+          baseStyle,
+        )},$,.SOLIDWALL.)`,
+      );
+      walls.set(wall.side, { ref, placement: wallPlacement, center: wall.center });
+      contained.push(ref);
+    });
+
+    perimeterWalls(config.coreWidth, config.coreDepth, CORE_WALL_THICKNESS).forEach((wall) => {
+      const wallPlacement = placement(storeyPlacement, [coreX + wall.center[0], coreY + wall.center[1], 0]);
+      contained.push(
+        writer.add(
+          `IFCWALL(${guid(`${prefix}/core/${wall.side}`)},$,${stepString(`${prefix}_CoreWall_${wall.side}`)},$,'Core',${wallPlacement},${box(
+            [wall.size[0], wall.size[1], level.height],
+            accentStyle,
+          )},$,.SHEAR.)`,
+        ),
+      );
+    });
+
+    (windowsByLevel.get(level.index) ?? []).forEach((element) => {
+      const sillHeight = element.position[2] - element.size[2] / 2 - level.bottom;
+      const offset = (center: [number, number]) => [element.position[0] - center[0], element.position[1] - center[1]];
+      // Shaped plates host each window on the nearest wall, working in that
+      // wall's frame where the wall runs along x.
+      const nearest = [...shapedWalls].sort(
+        (a, b) => Math.hypot(...offset(a.center)) - Math.hypot(...offset(b.center)),
+      )[0];
+      const host = rectangular ? walls.get(element.side as FacadeSide) : nearest;
+      if (!host) {
+        return;
+      }
+      const isFrontBack = !rectangular || element.side === "front" || element.side === "back";
+      const along = rectangular
+        ? isFrontBack
+          ? element.position[0] - host.center[0]
+          : element.position[1] - host.center[1]
+        : offset(nearest.center)[0] * nearest.dir[0] + offset(nearest.center)[1] * nearest.dir[1];
+      const width = rectangular ? (isFrontBack ? element.size[0] : element.size[1]) : Math.max(element.size[0], element.size[1]);
+      const height = element.size[2];
+      const local: Vec3 = isFrontBack ? [along, 0, sillHeight] : [0, along, sillHeight];
+      const openingSize: Vec3 = isFrontBack
+        ? [width, WALL_THICKNESS + 0.2, height]
+        : [WALL_THICKNESS + 0.2, width, height];
+      const openingPlacement = placement(host.placement, local);
+      const opening = writer.add(
+        `IFCOPENINGELEMENT(${guid(`${element.name}/opening`)},$,${stepString(`${element.name}_Opening`)},$,$,${openingPlacement},${box(
+          openingSize,
+          null,
+        )},$,.OPENING.)`,
+      );
+      writer.add(`IFCRELVOIDSELEMENT(${guid(`${element.name}/void`)},$,$,$,${host.ref},${opening})`);
+      const windowSize: Vec3 = isFrontBack
+        ? [width, 0.1, height]
+        : [0.1, width, height];
+      const windowRef = writer.add(
+        `IFCWINDOW(${guid(element.name)},$,${stepString(element.name)},$,$,${placement(host.placement, local)},${box(
+          windowSize,
+          glassStyle,
+        )},$,${stepReal(height)},${stepReal(width)},.WINDOW.,.SINGLE_PANEL.,$)`,
+      );
+      writer.add(`IFCRELFILLSELEMENT(${guid(`${element.name}/fill`)},$,$,$,${opening},${windowRef})`);
+      contained.push(windowRef);
+    });
+
+    partitionElements
+      .filter((element) => element.level === level.index)
+      .forEach((element) => {
+        contained.push(
+          writer.add(
+            `IFCWALL(${guid(element.name)},$,${stepString(element.name)},$,'Partition',${placement(
+              storeyPlacement,
+              [element.position[0], element.position[1], 0],
+              element.rotation[2],
+            )},${box(element.size, baseStyle)},$,.PARTITIONING.)`,
+          ),
+        );
+      });
+
+    const podium = podiumElements.find((element) => element.level === level.index);
+    if (podium) {
+      const podiumPrefix = podium.name;
+      contained.push(
+        writer.add(
+          `IFCSLAB(${guid(`${podiumPrefix}/slab`)},$,${stepString(`${podiumPrefix}_Slab`)},$,'Podium',${placement(
+            storeyPlacement,
+            [0, 0, 0],
+          )},${box([podium.size[0], podium.size[1], SLAB_THICKNESS], accentStyle)},$,.FLOOR.)`,
+        ),
+      );
+      perimeterWalls(podium.size[0], podium.size[1], WALL_THICKNESS).forEach((wall) => {
+        contained.push(
+          writer.add(
+            `IFCWALL(${guid(`${podiumPrefix}/wall/${wall.side}`)},$,${stepString(`${podiumPrefix}_Wall_${wall.side}`)},$,'Podium',${placement(
+              storeyPlacement,
+              [wall.center[0], wall.center[1], 0],
+            )},${box([wall.size[0], wall.size[1], podium.size[2]], accentStyle)},$,.SOLIDWALL.)`,
+          ),
+        );
+      });
+    }
+
+    const spaceHeight = level.height - SLAB_THICKNESS;
+    if (level.isLobby) {
+      spaces.push(
+        writer.add(
+          `IFCSPACE(${guid(`${prefix}/space/lobby`)},$,'Lobby','Entrance lobby',$,${
+            rectangular ? placement(storeyPlacement, [0, 0, SLAB_THICKNESS]) : platePlacement(SLAB_THICKNESS)
+          },${
+            rectangular
+              ? box([config.width - WALL_THICKNESS * 2, config.depth - WALL_THICKNESS * 2, spaceHeight], null)
+              : polygons(footprint.plate, spaceHeight, null)
+          },'Lobby',.ELEMENT.,.INTERNAL.,$)`,
+        ),
+      );
+    } else {
+      (rectangular && !zoneAt(config, level.index) ? typicalPlan : layoutFloorPlan(config, level.index)).units.forEach((unit, idx) => {
+        const name = `Unit ${level.index + 1}${pad(idx + 1, 2)}`;
+        const parts = unit.rects.map((rect) => ({
+          size: [rect.max[0] - rect.min[0], rect.max[1] - rect.min[1], spaceHeight] as Vec3,
+          offset: [(rect.min[0] + rect.max[0]) / 2, (rect.min[1] + rect.max[1]) / 2] as [number, number],
+        }));
+        spaces.push(
+          writer.add(
+            `IFCSPACE(${guid(`${prefix}/space/${idx}`)},$,${stepString(name)},$,$,${
+              rectangular ? placement(storeyPlacement, [0, 0, SLAB_THICKNESS]) : platePlacement(SLAB_THICKNESS)
+            },${prisms(parts, null)},'Unit',.ELEMENT.,.INTERNAL.,$)`,
+          ),
+        );
+      });
+    }
+
+    writer.add(
+      `IFCRELCONTAINEDINSPATIALSTRUCTURE(${guid(`${prefix}/contains`)},$,$,$,${stepList(contained)},${storey})`,
+    );
+    if (spaces.length > 0) {
+      writer.add(`IFCRELAGGREGATES(${guid(`${prefix}/spaces`)},$,$,$,${storey},${stepList(spaces)})`);
+    }
+    return storey;
+  });
+
+  if (storeys.length > 0) {
+    const topLevel = levels[levels.length - 1];
+    const top = levelFootprint(config, topLevel.index);
+    const roof = writer.add(
+      `IFCSLAB(${guid("roof")},$,'Roof',$,$,${
+        rectangular
+          ? placement(buildingPlacement, [0, 0, towerTop(config)])
+          : placement(buildingPlacement, [top.origin[0], top.origin[1], towerTop(config)], top.rotation)
+      },${
+        rectangular ? box([config.width, config.depth, ROOF_THICKNESS], roofStyle) : polygons(top.plate, ROOF_THICKNESS, roofStyle)
+      },$,.ROOF.)`,
+    );
+    writer.add(
+      `IFCRELCONTAINEDINSPATIALSTRUCTURE(${guid("roof/contains")},$,$,$,(${roof}),${storeys[topLevel.index]})`,
+    );
+    writer.add(`IFCRELAGGREGATES(${guid("building-storeys")},$,$,$,${building},${stepList(storeys)})`);
+  }
+
+  const timestamp = new Date().toISOString().slice(0, 19);
+  return [
+    "ISO-10303-21;",
+    "HEADER;",
+    "FILE_DESCRIPTION(('ViewDefinition [ReferenceView_V1.2]'),'2;1');",
+    `FILE_NAME(${stepString(`${config.projectName}.ifc`)},'${timestamp}',(''),(''),'Parametric Building Studio','Parametric Building Studio','');`,
+    "FILE_SCHEMA(('IFC4'));",
+    "ENDSEC;",
+    "DATA;",
+    ...writer.lines(),
+    "ENDSEC;",
+    "END-ISO-10303-21;",
+    "",
+  ].join("\n");
+};
@@ -0,0 +1,83 @@
+import { hexToUnitRgb } from "../color";
+import { elementWorldMesh, indexScene } from "../mesh";
+import type { BuildingScene, MaterialSlot } from "../scene";
+
+export type ObjExport = {
+  obj: string;
+  mtl: string;
+};
+
+const formatCoordinate = (value: number) => {
+  const rounded = Number(value.toFixed(5));
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+};
+
+const sanitizeName = (value: string) => value.replace(/\s+/g, "_");
+
+// OBJ is conventionally Y-up, so the Z-up scene is rotated the same way the
+// glTF exporter does it: (x, y, z) -> (x, z, -y).
+export const exportObj = (scene: BuildingScene, mtlFileName: string): ObjExport => {
+  const lookup = indexScene(scene);
+  const slots = Object.keys(scene.materials) as MaterialSlot[];
+  const vertexLines: string[] = [];
+  const normalLines: string[] = [];
+  const faceGroups = new Map<MaterialSlot, string[]>(slots.map((slot) => [slot, []]));
+  let vertexCount = 0;
+
+  scene.elements.forEach((element) => {
+    if (element.hidden || element.wireframe || !element.material) {
+      return;
+    }
+    const mesh = elementWorldMesh(element, lookup);
+    for (let idx = 0; idx < mesh.positions.length; idx += 3) {
+      const [x, y, z] = mesh.positions.slice(idx, idx + 3);
+      const [nx, ny, nz] = mesh.normals.slice(idx, idx + 3);
+      vertexLines.push(`v ${formatCoordinate(x)} ${formatCoordinate(z)} ${formatCoordinate(-y)}`);
+      normalLines.push(`vn ${formatCoordinate(nx)} ${formatCoordinate(nz)} ${formatCoordinate(-ny)}`);
+    }
+    const faces = faceGroups.get(element.material) as string[];
+    faces.push(`# ${element.name}`);
+    for (let idx = 0; idx < mesh.indices.length; idx += 3) {
+      const corners = mesh.indices
+        .slice(idx, idx + 3)
+        .map((index) => `${index + vertexCount + 1}//${index + vertexCount + 1}`);
+      faces.push(`f ${corners.join(" ")}`);
+    }
+    vertexCount += mesh.positions.length / 3;
+  });
+
+  const groups = slots
+    .filter((slot) => (faceGroups.get(slot) ?? []).length > 0)
+    .flatMap((slot) => {
+      const name = sanitizeName(scene.materials[slot].name);
+      return [`g ${name}`, `usemtl ${name}`, ...(faceGroups.get(slot) as string[])];
+    });
+
+  const obj = [
+    `# ${scene.projectName}`,
+    "# Exported by Parametric Building Studio (units: metres, Y-up)",
+    `mtllib ${mtlFileName}`,
+    ...vertexLines,
+    ...normalLines,
+    ...groups,
+    "",
+  ].join("\n");
+
+  const mtl = slots
+    .flatMap((slot) => {
+      const [r, g, b] = hexToUnitRgb(scene.materials[slot].color).map((channel) => channel.toFixed(4));
+      return [
+        `newmtl ${sanitizeName(scene.materials[slot].name)}`,
+        `Ka 0.0000 0.0000 0.0000`,
+        `Kd ${r} ${g} ${b}`,
+        "Ks 0.0500 0.0500 0.0500",
+        "Ns 200",
+        "d 1.0",
+        "illum 2",
+        "",
+      ];
+    })
+    .join("\n");
+
+  return { obj, mtl };
+};
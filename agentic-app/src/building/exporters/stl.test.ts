@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "../defaults";
+import { buildScene } from "../scene";
+import type { BuildingConfig } from "../types";
+import { exportStl } from "./stl";
+
+const readTriangles = (data: ArrayBuffer) => {
+  const view = new DataView(data);
+  return Array.from({ length: view.getUint32(80, true) }, (_, idx) =>
+    [0, 1, 2].map((corner) =>
+      [0, 1, 2].map((axis) => view.getFloat32(84 + idx * 50 + 12 + corner * 12 + axis * 4, true)),
+    ),
+  );
+};
+
+// A closed, consistently wound mesh uses every edge once in each direction.
+const openEdges = (data: ArrayBuffer) => {
+  const edges = new Map<string, number>();
+  readTriangles(data).forEach((triangle) =>
+    triangle.forEach((point, idx) => {
+      const key = `${point.join(",")}>${triangle[(idx + 1) % 3].join(",")}`;
+      edges.set(key, (edges.get(key) ?? 0) + 1);
+    }),
+  );
+  let open = 0;
+  edges.forEach((count, key) => {
+    const [from, to] = key.split(">");
+    open += Math.abs(count - (edges.get(`${to}>${from}`) ?? 0));
+  });
+  return open / 2;
+};
+
+// Separate surfaces share no corner: each solid's outside, and each void sealed inside one.
+const shells = (data: ArrayBuffer) => {
+  const parent = new Map<string, string>();
+  const find = (key: string) => {
+    let root = key;
+    while (parent.has(root) && parent.get(root) !== root) {
+      root = parent.get(root) ?? root;
+    }
+    parent.set(key, root);
+    return root;
+  };
+  readTriangles(data).forEach((triangle) => {
+    const [first, ...rest] = triangle.map((point) => point.join(","));
+    rest.forEach((key) => parent.set(find(key), find(first)));
+  });
+  return new Set([...parent.keys()].map(find)).size;
+};
+
+const volume = (data: ArrayBuffer) =>
+  readTriangles(data).reduce(
+    (sum, [a, b, c]) =>
+      sum +
+      (a[0] * (b[1] * c[2] - b[2] * c[1]) - a[1] * (b[0] * c[2] - b[2] * c[0]) + a[2] * (b[0] * c[1] - b[1] * c[0])) /
+        6,
+    0,
+  );
+
+const exportDesign = (patch: Partial<BuildingConfig>) =>
+  exportStl(buildScene({ ...defaultConfig, hasAtrium: false, ...patch }), { scale: 500 });
+
+describe("exportStl", () => {
+  const shaped: Record<string, Partial<BuildingConfig>> = {
+    "a courtyard plan": { planShape: "courtyard" },
+    "an L-shaped plan": { planShape: "l-shape" },
+    "rounded corners": { cornerStyle: "rounded" },
+    "a tapering tower with an atrium": {
+      heightProfile: "taper",
+      hasAtrium: true,
+    },
+    "twisting floors": { twistPerFloor: 3, planShape: "u-shape" },
+  };
+
+  Object.entries(shaped).forEach(([name, patch]) => {
+    it(`writes one closed, outward-facing solid for ${name}`, () => {
+      const { data } = exportDesign(patch);
+      // An atrium is a void sealed under the roof, so it has a surface of its own.
+      assert.equal(shells(data), patch.hasAtrium ? 2 : 1);
+      assert.equal(openEdges(data), 0);
+      assert.ok(volume(data) > 0);
+    });
+  });
+
+  const roofs: Record<string, Partial<BuildingConfig>> = {
+    "a pitched roof": { roofStyle: "pitched" },
+    "a sawtooth roof on twisting floors": { roofStyle: "sawtooth", twistPerFloor: 2 },
+  };
+
+  Object.entries(roofs).forEach(([name, patch]) => {
+    it(`merges ${name} into the tower`, () => {
+      const { data } = exportDesign(patch);
+      const flat = exportDesign({ ...patch, roofStyle: "flat" });
+      assert.equal(shells(data), 1);
+      assert.equal(openEdges(data), 0);
+      assert.ok(volume(data) > volume(flat.data));
+    });
+  });
+});
@@ -0,0 +1,467 @@
+import type { PlanPoint } from "../floorplan";
+import type { Vec3 } from "../math";
+import { rotateEuler } from "../math";
+import { elementLocalBoxes, elementWorldMesh, indexScene, toWorld } from "../mesh";
+import type { PlanPolygon } from "../polygon";
+import { pointInPieces, rectPolygon, rotatePoint } from "../polygon";
+import type { BuildingScene, ElementKind, SceneElement } from "../scene";
+
+export type StlOptions = {
+  // Model scale denominator, e.g. 500 for a 1:500 massing model.
+  scale: number;
+};
+
+export type StlExport = {
+  data: ArrayBuffer;
+  triangleCount: number;
+};
+
+// Glazing, light shelves, solar panels and planes are thinner than a print
+// nozzle at massing scales, so only the load-bearing volumes are merged.
+const PRINTED_KINDS: ElementKind[] = ["core", "floor", "podium", "balcony", "roof"];
+
+const EPSILON = 1e-6;
+// How far either side of a wall edge the plan is sampled to tell inside from out.
+const SIDE_OFFSET = 1e-4;
+
+// A vertical extrusion of convex, counter-clockwise plan pieces in world space.
+type Prism = { pieces: PlanPolygon[]; bottom: number; top: number };
+
+type Segment = { from: PlanPoint; to: PlanPoint };
+
+// Boxes turned about z (twisted floors, towers placed on a site) are still
+// upright prisms; only tilted roof planes are not.
+const isUpright = (element: SceneElement) =>
+  Math.abs(element.rotation[0]) < EPSILON && Math.abs(element.rotation[1]) < EPSILON;
+
+const elementPrisms = (element: SceneElement, lookup: Map<string, SceneElement>): Prism[] => {
+  const plan = (piece: PlanPolygon) =>
+    piece.map(([x, y]): PlanPoint => {
+      const [wx, wy] = toWorld(element, [x, y, 0]);
+      return [wx, wy];
+    });
+  const z = element.position[2];
+  if (element.shape === "prism") {
+    const half = element.size[2] / 2;
+    return [
+      {
+        pieces: (element.profile ?? []).map(plan),
+        bottom: z - half,
+        top: z + half,
+      },
+    ];
+  }
+  return elementLocalBoxes(element, lookup).map(({ min, max }) => ({
+    pieces: [plan(rectPolygon({ min: [min[0], min[1]], max: [max[0], max[1]] }))],
+    bottom: z + min[2],
+    top: z + max[2],
+  }));
+};
+
+const uniqueSorted = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.filter((value, idx) => idx === 0 || value - sorted[idx - 1] > EPSILON);
+};
+
+// Index of the entry closest to `value` in a sorted list.
+const nearestIndex = (sorted: number[], value: number) => {
+  let low = 0;
+  let high = sorted.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] < value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low > 0 && value - sorted[low - 1] < sorted[low] - value ? low - 1 : low;
+};
+
+const pieceEdges = (pieces: PlanPolygon[]): Segment[] =>
+  pieces
+    .flatMap((piece) => piece.map((from, idx) => ({ from, to: piece[(idx + 1) % piece.length] })))
+    .filter(({ from, to }) => Math.hypot(to[0] - from[0], to[1] - from[1]) > EPSILON);
+
+// Where `other` meets `segment`, as fractions along `segment`: a crossing, or
+// the ends of `other` where they touch or run along it.
+const meetings = (segment: Segment, other: Segment): number[] => {
+  const [dx, dy] = [segment.to[0] - segment.from[0], segment.to[1] - segment.from[1]];
+  const [ex, ey] = [other.to[0] - other.from[0], other.to[1] - other.from[1]];
+  const length = Math.hypot(dx, dy);
+  const along = ([x, y]: PlanPoint) => ((x - segment.from[0]) * dx + (y - segment.from[1]) * dy) / (length * length);
+  const offLine = ([x, y]: PlanPoint) => Math.abs((x - segment.from[0]) * dy - (y - segment.from[1]) * dx) / length;
+  const inside = (t: number) => t > -EPSILON && t < 1 + EPSILON;
+  const touching = [other.from, other.to].filter((point) => offLine(point) < EPSILON).map(along);
+  const denominator = dx * ey - dy * ex;
+  if (Math.abs(denominator) < EPSILON * length * Math.hypot(ex, ey)) {
+    return touching.filter(inside);
+  }
+  const [wx, wy] = [other.from[0] - segment.from[0], other.from[1] - segment.from[1]];
+  const t = (wx * ey - wy * ex) / denominator;
+  const u = (wx * dy - wy * dx) / denominator;
+  return [...touching, ...(u > -EPSILON && u < 1 + EPSILON ? [t] : [])].filter(inside);
+};
+
+const overlapping = (a: Segment, b: Segment) =>
+  Math.min(a.from[0], a.to[0]) <= Math.max(b.from[0], b.to[0]) + EPSILON &&
+  Math.min(b.from[0], b.to[0]) <= Math.max(a.from[0], a.to[0]) + EPSILON &&
+  Math.min(a.from[1], a.to[1]) <= Math.max(b.from[1], b.to[1]) + EPSILON &&
+  Math.min(b.from[1], b.to[1]) <= Math.max(a.from[1], a.to[1]) + EPSILON;
+
+// Every segment split wherever another one meets it.
+const splitSegments = (segments: Segment[]): Segment[] =>
+  segments.flatMap((segment) => {
+    const cuts = uniqueSorted([
+      0,
+      1,
+      ...segments
+        .filter((other) => other !== segment && overlapping(segment, other))
+        .flatMap((other) => meetings(segment, other)),
+    ]).filter((t) => t > EPSILON && t < 1 - EPSILON);
+    const point = (t: number): PlanPoint => [
+      segment.from[0] + (segment.to[0] - segment.from[0]) * t,
+      segment.from[1] + (segment.to[1] - segment.from[1]) * t,
+    ];
+    const stops = [segment.from, ...cuts.map(point), segment.to];
+    return stops.slice(1).map((to, idx) => ({ from: stops[idx], to }));
+  });
+
+// The plan at one height, cut into vertical strips at every vertex and
+// crossing of the outlines just below and just above it. Within a strip no
+// two edges cross, so the cells between them are trapezoids. Every point the
+// level uses is snapped to `xs` and to the sorted `ys` on each strip line,
+// which is what lets caps and walls share their edges exactly.
+type Level = { xs: number[]; ys: number[][]; edges: Segment[] };
+
+const buildLevel = (segments: Segment[]): Level => {
+  const edges = splitSegments(segments);
+  const xs = uniqueSorted(edges.flatMap(({ from, to }) => [from[0], to[0]]));
+  const lines: number[][] = xs.map(() => []);
+  edges.forEach(({ from, to }) => {
+    const [start, end] = [nearestIndex(xs, from[0]), nearestIndex(xs, to[0])];
+    if (start === end) {
+      lines[start].push(from[1], to[1]);
+      return;
+    }
+    for (let idx = Math.min(start, end); idx <= Math.max(start, end); idx += 1) {
+      lines[idx].push(from[1] + ((to[1] - from[1]) * (xs[idx] - from[0])) / (to[0] - from[0]));
+    }
+  });
+  return { xs, ys: lines.map(uniqueSorted), edges };
+};
+
+const snapPoint = ({ xs, ys }: Level, [x, y]: PlanPoint): PlanPoint => {
+  const idx = nearestIndex(xs, x);
+  return [xs[idx], ys[idx][nearestIndex(ys[idx], y)]];
+};
+
+const range = (from: number, to: number) =>
+  Array.from({ length: Math.abs(to - from) + 1 }, (_, idx) => from + (to >= from ? idx : -idx));
+
+// The level's points along a segment, from `from` to `to`, ends included.
+const pointsAlong = (level: Level, { from, to }: Segment): PlanPoint[] => {
+  const { xs, ys } = level;
+  const [start, end] = [nearestIndex(xs, from[0]), nearestIndex(xs, to[0])];
+  if (start === end) {
+    const line = ys[start];
+    return range(nearestIndex(line, from[1]), nearestIndex(line, to[1])).map((idx): PlanPoint => [
+      xs[start],
+      line[idx],
+    ]);
+  }
+  return range(start, end).map((idx) =>
+    snapPoint(level, [xs[idx], from[1] + ((to[1] - from[1]) * (xs[idx] - from[0])) / (to[0] - from[0])]),
+  );
+};
+
+// Triangles between two parallel chains that run the same way, `lower` along
+// one side of a strip and `upper` along the other, wound lower-first.
+const zipper = (lower: Vec3[], upper: Vec3[]): Vec3[][] => {
+  const triangles: Vec3[][] = [];
+  let [i, j] = [0, 0];
+  while (i < lower.length - 1 || j < upper.length - 1) {
+    if (j === upper.length - 1 || (i < lower.length - 1 && (i + 1) / lower.length <= (j + 1) / upper.length)) {
+      triangles.push([lower[i], lower[i + 1], upper[j]]);
+      i += 1;
+    } else {
+      triangles.push([lower[i], upper[j + 1], upper[j]]);
+      j += 1;
+    }
+  }
+  return triangles;
+};
+
+// Caps at one level: every cell inside the solid on one side of the level
+// only, facing up where the solid ends and down where it starts.
+const levelCaps = (level: Level, z: number, below: PlanPolygon[], above: PlanPolygon[]): Vec3[][] => {
+  const { xs, ys } = level;
+  const yAt = ({ from, to }: Segment, x: number) => from[1] + ((to[1] - from[1]) * (x - from[0])) / (to[0] - from[0]);
+  const sloped = level.edges
+    .map((edge) => ({
+      edge,
+      start: nearestIndex(xs, edge.from[0]),
+      end: nearestIndex(xs, edge.to[0]),
+    }))
+    .filter(({ start, end }) => start !== end)
+    .map(({ edge, start, end }) => ({
+      edge,
+      first: Math.min(start, end),
+      last: Math.max(start, end),
+    }));
+  return xs.slice(1).flatMap((right, idx) => {
+    const middle = (xs[idx] + right) / 2;
+    const crossing = sloped
+      .filter(({ first, last }) => first <= idx && last > idx)
+      .map(({ edge }) => ({
+        left: nearestIndex(ys[idx], yAt(edge, xs[idx])),
+        right: nearestIndex(ys[idx + 1], yAt(edge, right)),
+        middle: yAt(edge, middle),
+      }))
+      .sort((a, b) => a.middle - b.middle)
+      .filter(
+        (edge, order, sorted) =>
+          order === 0 || edge.left !== sorted[order - 1].left || edge.right !== sorted[order - 1].right,
+      );
+    return crossing.slice(1).flatMap((upper, order) => {
+      const lower = crossing[order];
+      const point: PlanPoint = [middle, (lower.middle + upper.middle) / 2];
+      const inBelow = pointInPieces(point, below);
+      if (inBelow === pointInPieces(point, above)) {
+        return [];
+      }
+      const chain = (line: number, from: number, to: number) =>
+        ys[line].slice(from, to + 1).map((y): Vec3 => [xs[line], y, z]);
+      // Up the right line against the left one winds counter-clockwise from above.
+      const cell = zipper(chain(idx + 1, lower.right, upper.right), chain(idx, lower.left, upper.left));
+      return inBelow ? cell : cell.map(([a, b, c]) => [a, c, b]);
+    });
+  });
+};
+
+// Upright volumes are unioned exactly: the height is cut into slabs at every
+// top and bottom, each slab's outline gets walls, and each level between
+// slabs gets caps where the outline changes. Caps and walls split their
+// shared edges at the same points, so the solid is closed without T-junctions.
+const unionPrisms = (prisms: Prism[]): Vec3[][] => {
+  const zs = uniqueSorted(prisms.flatMap((prism) => [prism.bottom, prism.top]));
+  const slabs = zs
+    .slice(1)
+    .map((top, idx) =>
+      prisms
+        .filter((prism) => prism.bottom < zs[idx] + EPSILON && prism.top > top - EPSILON)
+        .flatMap((prism) => prism.pieces),
+    );
+  const slabEdges = slabs.map(pieceEdges);
+  const levels = zs.map((_, idx) => buildLevel([...(slabEdges[idx - 1] ?? []), ...(slabEdges[idx] ?? [])]));
+  const triangles = zs.flatMap((z, idx) => levelCaps(levels[idx], z, slabs[idx - 1] ?? [], slabs[idx] ?? []));
+
+  slabs.forEach((pieces, idx) => {
+    const seen = new Set<string>();
+    splitSegments(slabEdges[idx]).forEach((segment) => {
+      const key = [segment.from, segment.to]
+        .map((point) => snapPoint(levels[idx], point).join(","))
+        .sort()
+        .join("|");
+      if (seen.has(key)) {
+        return;
+      }
+      seen.add(key);
+      const [dx, dy] = [segment.to[0] - segment.from[0], segment.to[1] - segment.from[1]];
+      const [nx, ny] = [(-dy / Math.hypot(dx, dy)) * SIDE_OFFSET, (dx / Math.hypot(dx, dy)) * SIDE_OFFSET];
+      const [mx, my] = [(segment.from[0] + segment.to[0]) / 2, (segment.from[1] + segment.to[1]) / 2];
+      const left = pointInPieces([mx + nx, my + ny], pieces);
+      if (left === pointInPieces([mx - nx, my - ny], pieces)) {
+        return;
+      }
+      // Walls run with the outside on their right, seen from above.
+      const edge = left ? segment : { from: segment.to, to: segment.from };
+      const at = (level: number) => pointsAlong(levels[level], edge).map(([x, y]): Vec3 => [x, y, zs[level]]);
+      triangles.push(...zipper(at(idx), at(idx + 1)));
+    });
+  });
+  return triangles;
+};
+
+// Pitched and sawtooth roof planes are boxes tilted about their plan's y axis,
+// so across the pitch (u) every plane is a rectangle in u and z, and along it
+// (v) they all share one span. A stretch where the top of the roof is one
+// straight line is a span; a run of spans with no cliff in it is a piece.
+type RoofSpan = { from: number; to: number; start: number; end: number };
+type RoofPiece = { spans: RoofSpan[]; rank: number };
+type Roof = { yaw: number; near: number; far: number; base: number; pieces: RoofPiece[] };
+
+const heightOn = ({ from, to, start, end }: RoofSpan, u: number) =>
+  to - from < EPSILON ? Math.max(start, end) : start + ((end - start) * (u - from)) / (to - from);
+
+const pieceHeight = ({ spans }: RoofPiece, u: number) =>
+  heightOn(spans.find((span) => u < span.to + EPSILON) ?? spans[spans.length - 1], u);
+
+// The upper edges of each plane's rectangle in u and z, with `from` < `to`.
+const upperEdges = (element: SceneElement, lookup: Map<string, SceneElement>, centre: number): RoofSpan[] =>
+  elementLocalBoxes(element, lookup).flatMap(({ min, max }) => {
+    const corners = [
+      [min[0], min[2]],
+      [max[0], min[2]],
+      [max[0], max[2]],
+      [min[0], max[2]],
+    ].map(([x, z]) => {
+      const [u, , height] = rotateEuler([x, 0, z], [0, element.rotation[1], 0]);
+      return [centre + u, element.position[2] + height];
+    });
+    // Counter-clockwise, an edge running towards -u faces up.
+    return corners.flatMap(([u1, z1], idx) => {
+      const [u2, z2] = corners[(idx + 1) % corners.length];
+      return u2 < u1 - EPSILON ? [{ from: u2, to: u1, start: z2, end: z1 }] : [];
+    });
+  });
+
+// The top of the roof across the pitch: the highest edge between every end and
+// crossing, cut into pieces at each cliff (a sawtooth's upright face) or gap.
+// Across a cliff the higher side ranks one above the lower.
+const roofProfile = (edges: RoofSpan[]): RoofPiece[] => {
+  const crossings = edges.flatMap((edge, idx) =>
+    edges.slice(idx + 1).flatMap((other) => {
+      const [from, to] = [Math.max(edge.from, other.from), Math.min(edge.to, other.to)];
+      const [before, after] = [from, to].map((u) => heightOn(edge, u) - heightOn(other, u));
+      return to - from > EPSILON && before * after < 0 ? [from + ((to - from) * before) / (before - after)] : [];
+    }),
+  );
+  const stops = uniqueSorted([...edges.flatMap(({ from, to }) => [from, to]), ...crossings]);
+  const pieces: RoofPiece[] = [];
+  stops.slice(1).forEach((to, idx) => {
+    const from = stops[idx];
+    const middle = (from + to) / 2;
+    const covering = edges.filter((edge) => edge.from < middle && edge.to > middle);
+    if (covering.length === 0) {
+      return;
+    }
+    const top = covering.reduce((best, edge) => (heightOn(edge, middle) > heightOn(best, middle) ? edge : best));
+    const span = { from, to, start: heightOn(top, from), end: heightOn(top, to) };
+    const last = pieces[pieces.length - 1];
+    const previous = last?.spans[last.spans.length - 1];
+    if (previous && Math.abs(previous.to - from) < EPSILON && Math.abs(previous.end - span.start) < EPSILON) {
+      last.spans.push(span);
+      return;
+    }
+    const touching = previous && Math.abs(previous.to - from) < EPSILON;
+    pieces.push({ spans: [span], rank: (last?.rank ?? 0) + (touching ? (span.start > previous.end ? 1 : -1) : 0) });
+  });
+  const lowest = Math.min(...pieces.map(({ rank }) => rank));
+  return pieces.map((piece) => ({ ...piece, rank: piece.rank - lowest }));
+};
+
+// Tilted planes sharing a plan rotation and span are one roof, printed down to
+// the highest upright top beneath it. Anything standing on that base is taken
+// as enclosed, so a core poking through a sawtooth's valley is trimmed to the roof.
+const collectRoofs = (tilted: SceneElement[], lookup: Map<string, SceneElement>, tops: number[]): Roof[] => {
+  const groups = new Map<string, { yaw: number; near: number; far: number; elements: SceneElement[] }>();
+  tilted
+    .filter((element) => Math.abs(element.rotation[0]) < EPSILON)
+    .forEach((element) => {
+      const yaw = element.rotation[2];
+      const [, v] = rotatePoint([element.position[0], element.position[1]], -yaw);
+      const boxes = elementLocalBoxes(element, lookup);
+      const near = v + Math.min(...boxes.map(({ min }) => min[1]));
+      const far = v + Math.max(...boxes.map(({ max }) => max[1]));
+      const key = [yaw, near, far].map((value) => value.toFixed(4)).join("/");
+      const group = groups.get(key) ?? { yaw, near, far, elements: [] };
+      groups.set(key, { ...group, elements: [...group.elements, element] });
+    });
+  return [...groups.values()].map(({ yaw, near, far, elements }) => {
+    const edges = elements.flatMap((element) => {
+      const [u] = rotatePoint([element.position[0], element.position[1]], -yaw);
+      return upperEdges(element, lookup, u);
+    });
+    const lowest = Math.min(
+      ...elements.flatMap((element) => elementWorldMesh(element, lookup).positions.filter((_, idx) => idx % 3 === 2)),
+    );
+    const below = tops.filter((top) => top < lowest + EPSILON);
+    return { yaw, near, far, base: below.length > 0 ? Math.max(...below) : lowest, pieces: roofProfile(edges) };
+  });
+};
+
+// Each roof piece goes into the union as an upright prism from the roof's base
+// up to a stand-in level above everything else, one per rank. The stand-in
+// levels are then lifted onto the roof: a piece's own level and any above it
+// to its height, lower ones part way, so walls across a cliff stay upright.
+const roofPrisms = (roof: Roof, level: (rank: number) => number): Prism[] =>
+  roof.pieces.map(({ spans, rank }) => ({
+    pieces: spans.map(({ from, to }) =>
+      rectPolygon({ min: [from, roof.near], max: [to, roof.far] }).map((point) => rotatePoint(point, roof.yaw)),
+    ),
+    bottom: roof.base,
+    top: level(rank),
+  }));
+
+const liftToRoof = (roofs: Roof[], rank: number, [x, y, z]: Vec3): Vec3 => {
+  for (const roof of roofs) {
+    const [u, v] = rotatePoint([x, y], -roof.yaw);
+    const containing = roof.pieces.filter(
+      ({ spans }) => u > spans[0].from - EPSILON && u < spans[spans.length - 1].to + EPSILON,
+    );
+    if (v < roof.near - EPSILON || v > roof.far + EPSILON || containing.length === 0) {
+      continue;
+    }
+    const reached = containing.filter((piece) => piece.rank <= rank);
+    if (reached.length > 0) {
+      return [x, y, Math.max(...reached.map((piece) => pieceHeight(piece, u)))];
+    }
+    const lowest = containing.reduce((best, piece) => (piece.rank < best.rank ? piece : best));
+    return [x, y, roof.base + ((pieceHeight(lowest, u) - roof.base) * (rank + 1)) / (lowest.rank + 1)];
+  }
+  return [x, y, z];
+};
+
+const faceNormal = ([a, b, c]: Vec3[]): Vec3 => {
+  const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+  const n: Vec3 = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+  const length = Math.hypot(...n) || 1;
+  return [n[0] / length, n[1] / length, n[2] / length];
+};
+
+export const exportStl = (scene: BuildingScene, { scale }: StlOptions): StlExport => {
+  const lookup = indexScene(scene);
+  const printed = scene.elements.filter(
+    (element) =>
+      !element.hidden && (element.shape === "box" || element.shape === "prism") && PRINTED_KINDS.includes(element.kind),
+  );
+
+  const upright = printed.filter(isUpright).flatMap((element) => elementPrisms(element, lookup));
+  const roofs = collectRoofs(
+    printed.filter((element) => !isUpright(element)),
+    lookup,
+    upright.map(({ top }) => top),
+  );
+  const ceiling = Math.ceil(Math.max(0, ...upright.map(({ top }) => top), ...roofs.map(({ base }) => base))) + 1;
+  const level = (rank: number) => ceiling + rank;
+  const triangles = unionPrisms([...upright, ...roofs.flatMap((roof) => roofPrisms(roof, level))]).map((triangle) =>
+    triangle.map((point) => (point[2] >= ceiling ? liftToRoof(roofs, point[2] - ceiling, point) : point)),
+  );
+
+  const minZ = triangles.reduce((lowest, triangle) => Math.min(lowest, ...triangle.map((point) => point[2])), Infinity);
+  const millimetres = 1000 / Math.max(1, scale);
+  const data = new ArrayBuffer(84 + triangles.length * 50);
+  const view = new DataView(data);
+  const header = new TextEncoder().encode(`${scene.projectName} massing 1:${scale}`);
+  new Uint8Array(data, 0, 80).set(header.subarray(0, 80));
+  view.setUint32(80, triangles.length, true);
+
+  triangles.forEach((triangle, idx) => {
+    let offset = 84 + idx * 50;
+    faceNormal(triangle).forEach((value) => {
+      view.setFloat32(offset, value, true);
+      offset += 4;
+    });
+    triangle.forEach(([x, y, z]) => {
+      [x, y, z - (Number.isFinite(minZ) ? minZ : 0)].forEach((value) => {
+        view.setFloat32(offset, value * millimetres, true);
+        offset += 4;
+      });
+    });
+    view.setUint16(offset, 0, true);
+  });
+
+  return { data, triangleCount: triangles.length };
+};
@@ -0,0 +1,103 @@
+import type { Drawing, DrawingFill, DrawingLayer, DrawingPoint, DrawingPrimitive } from "../drawings";
+import { DRAWING_SCALE } from "../drawings";
+
+// Stroke widths are in metres at full size, so 0.035 prints as 0.35 mm at 1:100.
+const LAYER_STYLES: Record<DrawingLayer, { stroke: string; width: number; dash?: string }> = {
+  outline: { stroke: "#1e293b", width: 0.035 },
+  cut: { stroke: "#0f172a", width: 0.06 },
+  glazing: { stroke: "#2563eb", width: 0.025 },
+  partition: { stroke: "#334155", width: 0.04 },
+  structure: { stroke: "#0f172a", width: 0.03 },
+  hidden: { stroke: "#64748b", width: 0.02, dash: "0.6 0.3" },
+  level: { stroke: "#94a3b8", width: 0.02, dash: "1.2 0.4 0.2 0.4" },
+  dimension: { stroke: "#475569", width: 0.015 },
+  annotation: { stroke: "#0f172a", width: 0.015 },
+};
+
+const FILLS: Record<DrawingFill, string> = {
+  solid: "#ffffff",
+  glass: "#dbeafe",
+  poche: "#334155",
+};
+
+const MARGIN = 3;
+
+const coordinate = (value: number) => {
+  const rounded = Number(value.toFixed(3));
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Drawings are y-up like the model; SVG is y-down, so every y is negated.
+const svgPoint = ([x, y]: DrawingPoint) => `${coordinate(x)},${coordinate(-y)}`;
+
+// Text extents are estimated at 0.6 of the text height per character.
+const primitivePoints = (primitive: DrawingPrimitive): DrawingPoint[] => {
+  if (primitive.type === "line") {
+    return [primitive.from, primitive.to];
+  }
+  if (primitive.type === "polygon") {
+    return primitive.points;
+  }
+  const width = primitive.text.length * primitive.height * 0.6;
+  const start = primitive.anchor === "start" ? 0 : primitive.anchor === "middle" ? -width / 2 : -width;
+  const angle = ((primitive.rotation ?? 0) * Math.PI) / 180;
+  return [
+    [start, 0],
+    [start + width, 0],
+    [start, primitive.height],
+    [start + width, primitive.height],
+  ].map(([u, v]): DrawingPoint => [
+    primitive.at[0] + u * Math.cos(angle) - v * Math.sin(angle),
+    primitive.at[1] + u * Math.sin(angle) + v * Math.cos(angle),
+  ]);
+};
+
+const primitiveToSvg = (primitive: DrawingPrimitive) => {
+  const style = LAYER_STYLES[primitive.layer];
+  if (primitive.type === "text") {
+    const [x, y] = [coordinate(primitive.at[0]), coordinate(-primitive.at[1])];
+    const rotate = primitive.rotation ? ` transform="rotate(${coordinate(-primitive.rotation)} ${x} ${y})"` : "";
+    return `<text x="${x}" y="${y}" font-size="${coordinate(primitive.height)}" text-anchor="${primitive.anchor}" fill="${style.stroke}"${rotate}>${escapeXml(primitive.text)}</text>`;
+  }
+  const stroke = `stroke="${style.stroke}" stroke-width="${style.width}"${style.dash ? ` stroke-dasharray="${style.dash}"` : ""}`;
+  if (primitive.type === "line") {
+    return `<line x1="${coordinate(primitive.from[0])}" y1="${coordinate(-primitive.from[1])}" x2="${coordinate(primitive.to[0])}" y2="${coordinate(-primitive.to[1])}" ${stroke}/>`;
+  }
+  const fill = primitive.fill ? FILLS[primitive.fill] : "none";
+  return `<polygon points="${primitive.points.map(svgPoint).join(" ")}" fill="${fill}" ${stroke}/>`;
+};
+
+// One drawing unit is one metre; the width and height attributes carry the
+// print size at the drawing scale.
+export const exportSvg = (drawing: Drawing) => {
+  const points = drawing.primitives.flatMap(primitivePoints);
+  const minX = Math.min(...points.map((point) => point[0])) - MARGIN;
+  const maxX = Math.max(...points.map((point) => point[0])) + MARGIN;
+  const minY = Math.min(...points.map((point) => point[1])) - MARGIN;
+  const maxY = Math.max(...points.map((point) => point[1])) + MARGIN;
+  const [width, height] = [maxX - minX, maxY - minY];
+  // Primitives keep their order so filled shapes hide what lies behind them;
+  // consecutive primitives on the same layer share a group.
+  const groups: { layer: DrawingLayer; content: string[] }[] = [];
+  drawing.primitives.forEach((primitive) => {
+    const last = groups[groups.length - 1];
+    if (last && last.layer === primitive.layer) {
+      last.content.push(primitiveToSvg(primitive));
+    } else {
+      groups.push({ layer: primitive.layer, content: [primitiveToSvg(primitive)] });
+    }
+  });
+  const layers = groups.map(({ layer, content }) => `  <g class="${layer}">\n    ${content.join("\n    ")}\n  </g>`);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${coordinate(minX)} ${coordinate(-maxY)} ${coordinate(width)} ${coordinate(height)}" width="${coordinate((width * 1000) / DRAWING_SCALE)}mm" height="${coordinate((height * 1000) / DRAWING_SCALE)}mm" font-family="Helvetica, Arial, sans-serif">`,
+    `  <title>${escapeXml(drawing.title)}</title>`,
+    `  <rect x="${coordinate(minX)}" y="${coordinate(-maxY)}" width="${coordinate(width)}" height="${coordinate(height)}" fill="#ffffff"/>`,
+    ...layers,
+    "</svg>",
+    "",
+  ].join("\n");
+};
@@ -0,0 +1,46 @@
+import { zoneLabel } from "./levels";
+import type { BuildingConfig } from "./types";
+
+export type FieldValue = string | number | boolean;
+
+// Settings as flat rows keyed like `colors.base` or `plot.maxHeight`, for the
+// tables that compare options and review design moves.
+export const flattenConfig = (config: BuildingConfig): [string, FieldValue][] =>
+  Object.entries(config).flatMap(([key, value]): [string, FieldValue][] => {
+    if (key === "colors") {
+      return Object.entries(value as BuildingConfig["colors"]).map(([slot, color]) => [`colors.${slot}`, color]);
+    }
+    if (key === "plot") {
+      const plot = value as BuildingConfig["plot"];
+      return [
+        ["plot.boundary", plot.boundary.map(([x, y]) => `(${x}, ${y})`).join(" ") || "None"],
+        ["plot.setbacks", plot.setbacks.join(", ") || "None"],
+        ["plot.maxHeight", plot.maxHeight],
+        ["plot.maxFloorAreaRatio", plot.maxFloorAreaRatio],
+        ["plot.maxCoverage", plot.maxCoverage],
+      ];
+    }
+    if (key === "sunStudy") {
+      return Object.entries(value as BuildingConfig["sunStudy"]).map(([field, entry]) => [`sunStudy.${field}`, entry]);
+    }
+    if (key === "zones") {
+      const zones = (value as BuildingConfig["zones"]).map((zone) => `${zoneLabel(zone)} @ ${zone.floorHeight} m`);
+      return [[key, zones.length > 0 ? zones.join(", ") : "None"]];
+    }
+    return [[key, value as FieldValue]];
+  });
+
+export const fieldLabel = (key: string) => {
+  const words = key.replace(".", " ").replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const formatFieldValue = (value: FieldValue) => {
+  if (typeof value === "boolean") {
+    return value ? "Yes" : "No";
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  }
+  return value;
+};
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "./defaults";
+import type { PlanRect } from "./floorplan";
+import { layoutFloorPlan, planRectArea } from "./floorplan";
+import type { BuildingConfig } from "./types";
+
+const plain: BuildingConfig = { ...defaultConfig, hasAtrium: false };
+
+const overlaps = (a: PlanRect, b: PlanRect) =>
+  a.min[0] < b.max[0] - 1e-6 && b.min[0] < a.max[0] - 1e-6 && a.min[1] < b.max[1] - 1e-6 && b.min[1] < a.max[1] - 1e-6;
+
+describe("layoutFloorPlan", () => {
+  it("splits every plate into the units asked for, numbered by floor", () => {
+    [2, 5, 8, 13].forEach((unitsPerFloor) => {
+      (["rectangle", "l-shape", "courtyard"] as const).forEach((planShape) => {
+        const plan = layoutFloorPlan({ ...plain, unitsPerFloor, planShape }, 1);
+        assert.equal(plan.units.length, unitsPerFloor, `${unitsPerFloor} units on a ${planShape} plate`);
+      });
+    });
+    assert.deepEqual(
+      layoutFloorPlan({ ...plain, unitsPerFloor: 3 }, 4).units.map((unit) => unit.number),
+      ["501", "502", "503"],
+    );
+  });
+
+  it("shares the plate between units, the corridor and the core", () => {
+    const plan = layoutFloorPlan(plain, 1);
+    const units = plan.units.reduce((sum, unit) => sum + unit.area, 0);
+    assert.ok(Math.abs(units + plan.corridorArea + planRectArea(plan.core) - plain.width * plain.depth) < 1e-6);
+  });
+
+  it("keeps units out of the atrium", () => {
+    const { atrium, units } = layoutFloorPlan({ ...plain, hasAtrium: true }, 1);
+    assert.ok(atrium);
+    assert.equal(units.length, plain.unitsPerFloor);
+    assert.ok(units.every((unit) => unit.rects.every((rect) => !overlaps(rect, atrium))));
+  });
+
+  it("takes a zone's unit count on its floors", () => {
+    const zoned: BuildingConfig = {
+      ...plain,
+      zones: [
+        { use: "office", fromFloor: 2, toFloor: 4, floorHeight: 4.2, unitsPerFloor: 2, balconyFrequency: "none" },
+      ],
+    };
+    assert.equal(layoutFloorPlan(zoned, 2).units.length, 2);
+    assert.equal(layoutFloorPlan(zoned, 6).units.length, plain.unitsPerFloor);
+  });
+});
@@ -0,0 +1,352 @@
+import { coreOutline, levelFootprint } from "./footprint";
+import { unitsAt } from "./levels";
+import type { PlanPolygon } from "./polygon";
+import { clipSegment, intersectConvex, piecesArea, polygonBounds, rectPolygon, subtractRect } from "./polygon";
+import type { FacadeSide } from "./scene";
+import type { BuildingConfig } from "./types";
+
+export type PlanPoint = [number, number];
+
+export type PlanRect = { min: PlanPoint; max: PlanPoint };
+
+export type PlanUnit = {
+  number: string;
+  area: number;
+  side: FacadeSide;
+  rects: PlanRect[];
+  label: PlanPoint;
+};
+
+export type PlanWall = {
+  kind: "demising" | "corridor";
+  from: PlanPoint;
+  to: PlanPoint;
+};
+
+// Plans are drawn in the level's own frame, so a twisted floor reads the same
+// as the one below it.
+export type FloorPlan = {
+  level: number;
+  width: number;
+  depth: number;
+  bounds: PlanRect;
+  plate: PlanPolygon[];
+  core: PlanRect;
+  coreOutline: PlanPolygon;
+  atrium: PlanRect | null;
+  corridor: PlanRect;
+  corridorArea: number;
+  units: PlanUnit[];
+  walls: PlanWall[];
+};
+
+export const CORRIDOR_WIDTH = 1.8;
+
+// Strips between the corridor and the facade shallower than this are too thin
+// to live in, so the corridor is widened to the facade instead.
+const MIN_UNIT_DEPTH = 3;
+
+// Demising walls that land this close to a corner are moved onto the corner so
+// no unit is left with a sliver wrapping round it.
+const CORNER_SNAP = 1.5;
+const EPSILON = 1e-6;
+
+type Band = { side: FacadeSide; rect: PlanRect; axis: 0 | 1; reverse: boolean };
+
+type Run = { bands: Band[]; circular: boolean };
+
+export const planRectArea = ({ min, max }: PlanRect) => Math.max(0, max[0] - min[0]) * Math.max(0, max[1] - min[1]);
+
+const overlapArea = (a: PlanRect, b: PlanRect) =>
+  planRectArea({
+    min: [Math.max(a.min[0], b.min[0]), Math.max(a.min[1], b.min[1])],
+    max: [Math.min(a.max[0], b.max[0]), Math.min(a.max[1], b.max[1])],
+  });
+
+// The edge two rectangles share when they sit side by side, if any.
+const touchingEdge = (a: PlanRect, b: PlanRect): [PlanPoint, PlanPoint] | null => {
+  for (const axis of [0, 1]) {
+    const other = 1 - axis;
+    const low = Math.max(a.min[other], b.min[other]);
+    const high = Math.min(a.max[other], b.max[other]);
+    const at = [a.max[axis], a.min[axis]].find(
+      (value) => Math.abs(value - b.min[axis]) <= EPSILON || Math.abs(value - b.max[axis]) <= EPSILON,
+    );
+    if (at !== undefined && high - low > EPSILON) {
+      const from: PlanPoint = [0, 0];
+      const to: PlanPoint = [0, 0];
+      from[axis] = at;
+      to[axis] = at;
+      from[other] = low;
+      to[other] = high;
+      return [from, to];
+    }
+  }
+  return null;
+};
+
+const bandLength = (band: Band) => band.rect.max[band.axis] - band.rect.min[band.axis];
+
+const bandArea = (band: Band) => planRectArea(band.rect);
+
+const along = (band: Band, offset: number) =>
+  band.reverse ? band.rect.max[band.axis] - offset : band.rect.min[band.axis] + offset;
+
+const bandSlice = (band: Band, from: number, to: number): PlanRect => {
+  const [a, b] = [along(band, from), along(band, to)];
+  const min: PlanPoint = [...band.rect.min];
+  const max: PlanPoint = [...band.rect.max];
+  min[band.axis] = Math.min(a, b);
+  max[band.axis] = Math.max(a, b);
+  return { min, max };
+};
+
+const crossWall = (band: Band, offset: number): PlanWall => {
+  const slice = bandSlice(band, offset, offset);
+  return { kind: "demising", from: slice.min, to: slice.max };
+};
+
+const sharedEdge = (a: Band, b: Band): PlanWall => ({
+  kind: "demising",
+  from: [Math.max(a.rect.min[0], b.rect.min[0]), Math.max(a.rect.min[1], b.rect.min[1])],
+  to: [Math.min(a.rect.max[0], b.rect.max[0]), Math.min(a.rect.max[1], b.rect.max[1])],
+});
+
+// Units wrap the corridor starting at the front-left corner. The front and back
+// bands take the full plate width; the side bands fill the depth between them.
+const unitBands = ([px, py]: PlanPoint, [cx, cy]: PlanPoint): Band[] => [
+  { side: "front", rect: { min: [-px, cy], max: [px, py] }, axis: 0, reverse: false },
+  { side: "right", rect: { min: [cx, -cy], max: [px, cy] }, axis: 1, reverse: true },
+  { side: "back", rect: { min: [-px, -py], max: [px, -cy] }, axis: 0, reverse: true },
+  { side: "left", rect: { min: [-px, -cy], max: [-cx, cy] }, axis: 1, reverse: false },
+];
+
+// When the corridor reaches a facade the ring breaks into separate runs of
+// bands that units cannot cross.
+const bandRuns = (bands: Band[]): Run[] => {
+  const open = bands.map((band) => bandArea(band) > EPSILON);
+  if (open.every(Boolean)) {
+    return [{ bands, circular: true }];
+  }
+  const start = open.indexOf(false);
+  const runs: Run[] = [];
+  let current: Band[] = [];
+  bands.forEach((_, idx) => {
+    const index = (start + idx) % bands.length;
+    if (open[index]) {
+      current.push(bands[index]);
+    } else if (current.length > 0) {
+      runs.push({ bands: current, circular: false });
+      current = [];
+    }
+  });
+  if (current.length > 0) {
+    runs.push({ bands: current, circular: false });
+  }
+  return runs;
+};
+
+// Shaped plans have no ring to wrap: each wing left around the corridor is a
+// band of its own, ordered clockwise from the front-left like the ring.
+const wingBands = (rects: PlanRect[], corridor: PlanRect, bounds: PlanRect): Band[] => {
+  const half: PlanPoint = [(bounds.max[0] - bounds.min[0]) / 2, (bounds.max[1] - bounds.min[1]) / 2];
+  const clockwise = ([x, y]: PlanPoint) => {
+    const turn = (Math.PI * 3) / 4 - Math.atan2(y, x);
+    return ((turn % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2);
+  };
+  return rects
+    .flatMap((piece) => subtractRect(rectPolygon(piece), corridor))
+    .map(polygonBounds)
+    .filter((rect) => Math.min(rect.max[0] - rect.min[0], rect.max[1] - rect.min[1]) >= MIN_UNIT_DEPTH - EPSILON)
+    .map((rect) => {
+      const centre: PlanPoint = [(rect.min[0] + rect.max[0]) / 2, (rect.min[1] + rect.max[1]) / 2];
+      const axis: 0 | 1 = rect.max[0] - rect.min[0] >= rect.max[1] - rect.min[1] ? 0 : 1;
+      const [dx, dy] = [centre[0] / half[0], centre[1] / half[1]];
+      const side: FacadeSide = Math.abs(dx) > Math.abs(dy) ? (dx > 0 ? "right" : "left") : dy > 0 ? "front" : "back";
+      return { side, rect, axis, reverse: axis === 0 ? centre[1] < 0 : centre[0] > 0, order: clockwise(centre) };
+    })
+    .sort((a, b) => a.order - b.order)
+    .map(({ side, rect, axis, reverse }) => ({ side, rect, axis, reverse }));
+};
+
+// Largest-remainder split of the units by run area, giving every run at least
+// one unit when there are enough to go round.
+const allocateUnits = (areas: number[], count: number) => {
+  const total = areas.reduce((sum, area) => sum + area, 0);
+  const exact = areas.map((area) => (total > 0 ? (area / total) * count : 0));
+  const counts = exact.map(Math.floor);
+  exact
+    .map((value, idx) => ({ idx, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .slice(0, count - counts.reduce((sum, value) => sum + value, 0))
+    .forEach(({ idx }) => {
+      counts[idx] += 1;
+    });
+  if (count >= areas.length) {
+    counts.forEach((value, idx) => {
+      if (value === 0) {
+        const donor = counts.indexOf(Math.max(...counts));
+        counts[donor] -= 1;
+        counts[idx] = 1;
+      }
+    });
+  }
+  return counts;
+};
+
+const splitRun = (run: Run, count: number) => {
+  const lengths = run.bands.map(bandLength);
+  const starts = lengths.map((_, idx) => lengths.slice(0, idx).reduce((sum, value) => sum + value, 0));
+  const share = run.bands.reduce((sum, band) => sum + bandArea(band), 0) / count;
+  const deepest = Math.max(...run.bands.map((band, idx) => bandArea(band) / lengths[idx]));
+  const snap = share / deepest > CORNER_SNAP * 2;
+
+  // Cuts are measured as distance along the run, placed so every unit gets an
+  // equal share of the run's area.
+  const cuts: number[] = [];
+  for (let unit = 1; unit < count; unit += 1) {
+    let remaining = share * unit;
+    let bandIdx = 0;
+    while (bandIdx < run.bands.length - 1 && remaining > bandArea(run.bands[bandIdx]) + EPSILON) {
+      remaining -= bandArea(run.bands[bandIdx]);
+      bandIdx += 1;
+    }
+    const depth = bandArea(run.bands[bandIdx]) / lengths[bandIdx];
+    const offset = Math.min(lengths[bandIdx], remaining / depth);
+    if (snap && offset < CORNER_SNAP) {
+      cuts.push(starts[bandIdx]);
+    } else if (snap && lengths[bandIdx] - offset < CORNER_SNAP) {
+      cuts.push(starts[bandIdx] + lengths[bandIdx]);
+    } else {
+      cuts.push(starts[bandIdx] + offset);
+    }
+  }
+
+  const pieces: { band: Band; rect: PlanRect; unit: number }[] = [];
+  const walls: PlanWall[] = [];
+  run.bands.forEach((band, bandIdx) => {
+    const start = starts[bandIdx];
+    const end = start + lengths[bandIdx];
+    const inside = cuts.filter((cut) => cut > start + EPSILON && cut < end - EPSILON);
+    [start, ...inside].forEach((from, idx) => {
+      const to = idx < inside.length ? inside[idx] : end;
+      pieces.push({
+        band,
+        rect: bandSlice(band, from - start, to - start),
+        unit: cuts.filter((cut) => cut <= from + EPSILON).length,
+      });
+    });
+    inside.forEach((cut) => walls.push(crossWall(band, cut - start)));
+    if (bandIdx > 0 && cuts.some((cut) => Math.abs(cut - start) <= EPSILON)) {
+      walls.push(sharedEdge(run.bands[bandIdx - 1], band));
+    }
+  });
+  if (run.circular && count > 1) {
+    walls.push(sharedEdge(run.bands[run.bands.length - 1], run.bands[0]));
+  }
+  return { pieces, walls };
+};
+
+export const layoutFloorPlan = (config: BuildingConfig, level = 1): FloorPlan => {
+  const footprint = levelFootprint(config, level);
+  const { bounds, atrium } = footprint;
+  const outline = coreOutline(config, footprint);
+  const core = polygonBounds(outline);
+  const hole: PlanPoint = [
+    Math.max(core.max[0] - core.min[0], atrium ? atrium.max[0] - atrium.min[0] : 0) / 2,
+    Math.max(core.max[1] - core.min[1], atrium ? atrium.max[1] - atrium.min[1] : 0) / 2,
+  ];
+  const corridor: PlanRect = {
+    min: [0, 1].map((axis) =>
+      -hole[axis] - bounds.min[axis] - CORRIDOR_WIDTH < MIN_UNIT_DEPTH ? bounds.min[axis] : -hole[axis] - CORRIDOR_WIDTH,
+    ) as PlanPoint,
+    max: [0, 1].map((axis) =>
+      bounds.max[axis] - hole[axis] - CORRIDOR_WIDTH < MIN_UNIT_DEPTH ? bounds.max[axis] : hole[axis] + CORRIDOR_WIDTH,
+    ) as PlanPoint,
+  };
+  const voidArea = atrium ? planRectArea(core) + planRectArea(atrium) - overlapArea(core, atrium) : planRectArea(core);
+
+  // A rectangular plate keeps the ring of units round the corridor.
+  const ring = footprint.rects.length === 1;
+  const bands = ring ? unitBands(bounds.max, corridor.max) : wingBands(footprint.rects, corridor, bounds);
+  const runs = ring ? bandRuns(bands) : bands.map((band): Run => ({ bands: [band], circular: false }));
+  const count = Math.max(0, Math.round(unitsAt(config, level)));
+  const counts = allocateUnits(
+    runs.map((run) => run.bands.reduce((sum, band) => sum + bandArea(band), 0)),
+    count,
+  );
+
+  // Chamfered and rounded corners trim the units and walls that reach them.
+  const trimmed = config.cornerStyle !== "square";
+  const rectArea = (rect: PlanRect) =>
+    trimmed
+      ? footprint.plate.reduce((sum, piece) => sum + piecesArea([intersectConvex(rectPolygon(rect), piece)]), 0)
+      : planRectArea(rect);
+
+  const units: PlanUnit[] = [];
+  let walls: PlanWall[] = [];
+  runs.forEach((run, runIdx) => {
+    if (counts[runIdx] === 0) {
+      return;
+    }
+    const split = splitRun(run, counts[runIdx]);
+    walls.push(...split.walls);
+    for (let idx = 0; idx < counts[runIdx]; idx += 1) {
+      const pieces = split.pieces.filter((piece) => piece.unit === idx);
+      const largest = [...pieces].sort((a, b) => planRectArea(b.rect) - planRectArea(a.rect))[0];
+      units.push({
+        number: `${level + 1}${String(units.length + 1).padStart(2, "0")}`,
+        area: pieces.reduce((sum, piece) => sum + rectArea(piece.rect), 0),
+        side: largest.band.side,
+        rects: pieces.map((piece) => piece.rect),
+        label: [(largest.rect.min[0] + largest.rect.max[0]) / 2, (largest.rect.min[1] + largest.rect.max[1]) / 2],
+      });
+    }
+  });
+
+  const open = bands.filter((band) => bandArea(band) > EPSILON);
+  if (units.length > 0 && ring) {
+    const [cx, cy] = corridor.max;
+    const corridorEdges: Record<FacadeSide, PlanWall> = {
+      front: { kind: "corridor", from: [-cx, cy], to: [cx, cy] },
+      right: { kind: "corridor", from: [cx, -cy], to: [cx, cy] },
+      back: { kind: "corridor", from: [-cx, -cy], to: [cx, -cy] },
+      left: { kind: "corridor", from: [-cx, -cy], to: [-cx, cy] },
+    };
+    open.forEach((band) => walls.push(corridorEdges[band.side]));
+  } else if (units.length > 0) {
+    open.forEach((band, idx) => {
+      open.slice(idx + 1).forEach((other) => {
+        const edge = touchingEdge(band.rect, other.rect);
+        if (edge) {
+          walls.push({ kind: "demising", from: edge[0], to: edge[1] });
+        }
+      });
+      const edge = touchingEdge(band.rect, corridor);
+      if (edge) {
+        walls.push({ kind: "corridor", from: edge[0], to: edge[1] });
+      }
+    });
+  }
+  if (trimmed) {
+    walls = walls.flatMap((wall) =>
+      clipSegment(wall, footprint.plate).map((segment) => ({ kind: wall.kind, ...segment })),
+    );
+  }
+
+  const unitArea = units.reduce((sum, unit) => sum + unit.area, 0);
+  return {
+    level,
+    width: bounds.max[0] - bounds.min[0],
+    depth: bounds.max[1] - bounds.min[1],
+    bounds,
+    plate: footprint.plate,
+    core,
+    coreOutline: outline,
+    atrium,
+    corridor,
+    corridorArea: ring ? Math.max(0, planRectArea(corridor) - voidArea) : Math.max(0, footprint.area - unitArea - voidArea),
+    units,
+    walls,
+  };
+};
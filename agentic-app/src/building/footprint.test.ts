@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "./defaults";
+import { footprintToLocal, footprintToWorld, levelFootprint, levelScale } from "./footprint";
+import { degrees } from "./math";
+import { isConvex } from "./polygon";
+import type { BuildingConfig } from "./types";
+
+// A 40 × 20 m plate; half-depth and half-width cut-outs take a quarter of it.
+const plate: BuildingConfig = { ...defaultConfig, width: 40, depth: 20, cutoutRatio: 0.5, hasAtrium: false };
+
+const close = (actual: number, expected: number, tolerance = 1e-6) =>
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} is not ${expected}`);
+
+const perimeter = (config: BuildingConfig) =>
+  levelFootprint(config, 0).facades.reduce(
+    (sum, { from, to }) => sum + Math.hypot(to[0] - from[0], to[1] - from[1]),
+    0,
+  );
+
+describe("levelFootprint", () => {
+  it("cuts L, U and courtyard plans out of the plate as convex pieces", () => {
+    (["l-shape", "u-shape", "courtyard"] as const).forEach((planShape) => {
+      const footprint = levelFootprint({ ...plate, planShape }, 0);
+      close(footprint.area, 800 - 20 * 10);
+      assert.ok(footprint.plate.every(isConvex), planShape);
+    });
+    close(perimeter({ ...plate, planShape: "l-shape" }), 120);
+    close(perimeter({ ...plate, planShape: "courtyard" }), 120 + 60);
+  });
+
+  it("trims outside corners only", () => {
+    close(levelFootprint({ ...plate, cornerStyle: "chamfered", cornerSize: 2 }, 0).area, 800 - 4 * 2);
+    close(levelFootprint({ ...plate, cornerStyle: "rounded", cornerSize: 2 }, 0).area, 800 - 4 * (4 - Math.PI), 0.2);
+    // The L's inside corner stays square: five outside corners are chamfered.
+    close(
+      levelFootprint({ ...plate, planShape: "l-shape", cornerStyle: "chamfered", cornerSize: 2 }, 0).area,
+      600 - 5 * 2,
+    );
+  });
+
+  it("tapers to the top scale and holds stepped sizes for each interval", () => {
+    const tapered = { ...plate, floors: 11, heightProfile: "taper" as const, topScale: 0.5 };
+    close(levelScale(tapered, 0), 1);
+    close(levelScale(tapered, 5), 0.75);
+    close(levelFootprint(tapered, 10).area, 800 * 0.25);
+    const stepped = { ...tapered, heightProfile: "stepped" as const, setbackInterval: 5 };
+    assert.deepEqual(
+      [0, 4, 5, 9, 10].map((index) => levelScale(stepped, index)),
+      [1, 1, 0.75, 0.75, 0.5],
+    );
+  });
+
+  it("twists each floor about the core and maps points both ways", () => {
+    const footprint = levelFootprint({ ...plate, twistPerFloor: 3 }, 4);
+    close(footprint.rotation, degrees(12));
+    const [x, y] = footprintToLocal(footprint, footprintToWorld(footprint, [7, -3]));
+    close(x, 7);
+    close(y, -3);
+  });
+});
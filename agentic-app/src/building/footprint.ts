@@ -0,0 +1,188 @@
+import type { PlanPoint, PlanRect } from "./floorplan";
+import { clamp, degrees } from "./math";
+import type { PlanPolygon, PlanSegment } from "./polygon";
+import { boundarySegments, piecesArea, rectPolygon, rotatePoint, subtractRect } from "./polygon";
+import type { BuildingConfig } from "./types";
+
+export type LevelFootprint = {
+  level: number;
+  // World position of the plan's own origin, which sits on the core centre.
+  // Plates scale towards it and twist about it.
+  origin: PlanPoint;
+  rotation: number;
+  scale: number;
+  // Everything below is in the level's frame: scaled, but not yet rotated or
+  // moved to the origin.
+  rects: PlanRect[];
+  plate: PlanPolygon[];
+  solid: PlanPolygon[];
+  atrium: PlanRect | null;
+  facades: PlanSegment[];
+  bounds: PlanRect;
+  area: number;
+};
+
+const CORNER_SEGMENTS = 6;
+const PROBE = 0.01;
+
+// Interior direction at each corner of a rectangle, in `rectPolygon` order.
+const CORNER_INTERIOR: PlanPoint[] = [
+  [1, 1],
+  [-1, 1],
+  [-1, -1],
+  [1, -1],
+];
+
+const rect = (minX: number, minY: number, maxX: number, maxY: number): PlanRect => ({
+  min: [minX, minY],
+  max: [maxX, maxY],
+});
+
+const rectCentre = ({ min, max }: PlanRect): PlanPoint => [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2];
+
+const centred = (width: number, depth: number): PlanRect => rect(-width / 2, -depth / 2, width / 2, depth / 2);
+
+// The plan as non-overlapping rectangles, main wing first. Cut-outs open
+// towards the front facade; the courtyard sits in the middle of the plate.
+const shapeRects = (config: BuildingConfig): PlanRect[] => {
+  const [hw, hd] = [config.width / 2, config.depth / 2];
+  const ratio = clamp(config.cutoutRatio, 0.05, 0.9);
+  const [cutWidth, cutDepth] = [config.width * ratio, config.depth * ratio];
+  if (config.planShape === "l-shape") {
+    return [rect(-hw, -hd, hw, hd - cutDepth), rect(-hw, hd - cutDepth, hw - cutWidth, hd)];
+  }
+  if (config.planShape === "u-shape") {
+    return [
+      rect(-hw, -hd, hw, hd - cutDepth),
+      rect(-hw, hd - cutDepth, -cutWidth / 2, hd),
+      rect(cutWidth / 2, hd - cutDepth, hw, hd),
+    ];
+  }
+  if (config.planShape === "courtyard") {
+    return [
+      rect(-hw, -hd, hw, -cutDepth / 2),
+      rect(-hw, cutDepth / 2, hw, hd),
+      rect(-hw, -cutDepth / 2, -cutWidth / 2, cutDepth / 2),
+      rect(cutWidth / 2, -cutDepth / 2, hw, cutDepth / 2),
+    ];
+  }
+  return [rect(-hw, -hd, hw, hd)];
+};
+
+const insideRect = ([x, y]: PlanPoint, { min, max }: PlanRect) =>
+  x > min[0] && x < max[0] && y > min[1] && y < max[1];
+
+// A rectangle corner is an outside corner of the plan when nothing else
+// occupies the three quadrants around it.
+const isOutsideCorner = ([x, y]: PlanPoint, [sx, sy]: PlanPoint, rects: PlanRect[]) =>
+  [
+    [-sx, -sy],
+    [-sx, sy],
+    [sx, -sy],
+  ].every(([dx, dy]) => !rects.some((other) => insideRect([x + dx * PROBE, y + dy * PROBE], other)));
+
+// Chamfers and rounds only touch outside corners, so each rectangle stays a
+// single convex piece.
+const cornerPiece = (config: BuildingConfig, piece: PlanRect, rects: PlanRect[]): PlanPolygon => {
+  const corners = rectPolygon(piece);
+  const limit = Math.min(piece.max[0] - piece.min[0], piece.max[1] - piece.min[1]) * 0.49;
+  const size = Math.min(config.cornerSize, limit);
+  if (config.cornerStyle === "square" || size <= 0) {
+    return corners;
+  }
+  return corners.flatMap((corner, idx): PlanPoint[] => {
+    const [sx, sy] = CORNER_INTERIOR[idx];
+    if (!isOutsideCorner(corner, [sx, sy], rects)) {
+      return [corner];
+    }
+    // Corners are visited counter-clockwise, so even corners are entered along
+    // y and odd corners along x.
+    const alongY: PlanPoint = [corner[0], corner[1] + sy * size];
+    const alongX: PlanPoint = [corner[0] + sx * size, corner[1]];
+    const [first, last] = idx % 2 === 0 ? [alongY, alongX] : [alongX, alongY];
+    if (config.cornerStyle === "chamfered") {
+      return [first, last];
+    }
+    const centre: PlanPoint = [corner[0] + sx * size, corner[1] + sy * size];
+    const start = Math.atan2(first[1] - centre[1], first[0] - centre[0]);
+    return Array.from({ length: CORNER_SEGMENTS + 1 }, (_, step): PlanPoint => {
+      const angle = start + (Math.PI / 2) * (step / CORNER_SEGMENTS);
+      return [centre[0] + size * Math.cos(angle), centre[1] + size * Math.sin(angle)];
+    });
+  });
+};
+
+// Plain rectangular towers keep the original box massing, which every
+// exporter can read without the footprint.
+export const isRectangularMassing = (config: BuildingConfig) =>
+  config.planShape === "rectangle" &&
+  config.cornerStyle === "square" &&
+  config.heightProfile === "straight" &&
+  config.twistPerFloor === 0;
+
+export const coreCentre = (config: BuildingConfig): PlanPoint => rectCentre(shapeRects(config)[0]);
+
+// Tapers shrink every floor by the same step; stepped towers hold each size
+// for `setbackInterval` floors. The top floor always lands on `topScale`.
+export const levelScale = (config: BuildingConfig, index: number) => {
+  const last = config.floors - 1;
+  if (config.heightProfile === "straight" || last < 1) {
+    return 1;
+  }
+  let progress = index / last;
+  if (config.heightProfile === "stepped") {
+    const interval = Math.max(1, Math.round(config.setbackInterval));
+    const steps = Math.floor(last / interval);
+    progress = steps > 0 ? Math.floor(index / interval) / steps : 0;
+  }
+  return 1 - (1 - clamp(config.topScale, 0.05, 1)) * Math.min(1, progress);
+};
+
+export const levelFootprint = (config: BuildingConfig, index: number): LevelFootprint => {
+  const base = shapeRects(config);
+  const origin = rectCentre(base[0]);
+  const scale = levelScale(config, index);
+  const place = ([x, y]: PlanPoint): PlanPoint => [(x - origin[0]) * scale, (y - origin[1]) * scale];
+  const rects = base.map(({ min, max }) => ({ min: place(min), max: place(max) }));
+  const plate = base.map((piece) => cornerPiece(config, piece, base).map(place));
+  // A courtyard already opens the middle of the plan, so it replaces the atrium.
+  const atrium =
+    config.hasAtrium && index > 0 && config.planShape !== "courtyard"
+      ? centred(config.width * 0.5 * scale, config.depth * 0.5 * scale)
+      : null;
+  return {
+    level: index,
+    origin,
+    rotation: degrees(config.twistPerFloor * index),
+    scale,
+    rects,
+    plate,
+    solid: atrium ? plate.flatMap((piece) => subtractRect(piece, atrium)) : plate,
+    atrium,
+    facades: boundarySegments(plate),
+    bounds: rect(
+      Math.min(...rects.map((piece) => piece.min[0])),
+      Math.min(...rects.map((piece) => piece.min[1])),
+      Math.max(...rects.map((piece) => piece.max[0])),
+      Math.max(...rects.map((piece) => piece.max[1])),
+    ),
+    area: piecesArea(plate),
+  };
+};
+
+export const footprintToWorld = ({ origin, rotation }: LevelFootprint, point: PlanPoint): PlanPoint => {
+  const [x, y] = rotatePoint(point, rotation);
+  return [x + origin[0], y + origin[1]];
+};
+
+export const footprintToLocal = ({ origin, rotation }: LevelFootprint, [x, y]: PlanPoint): PlanPoint =>
+  rotatePoint([x - origin[0], y - origin[1]], -rotation);
+
+// The core stays square to the site while plates twist, so in a level's frame
+// it is the rotated core rectangle.
+export const coreOutline = (config: BuildingConfig, footprint: LevelFootprint): PlanPolygon => {
+  const [cx, cy] = coreCentre(config);
+  return rectPolygon(
+    rect(cx - config.coreWidth / 2, cy - config.coreDepth / 2, cx + config.coreWidth / 2, cy + config.coreDepth / 2),
+  ).map((point) => footprintToLocal(footprint, point));
+};
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "./defaults";
+import { computeGlazing } from "./glazing";
+import type { BuildingConfig } from "./types";
+
+// Four 4 m floors on a 32 × 16 m plate: eight 4 m modules along the front and
+// back, four along each end, each with a 2 × 2 m window.
+const facade: BuildingConfig = {
+  ...defaultConfig,
+  floors: 4,
+  width: 32,
+  depth: 16,
+  lobbyHeight: 4,
+  floorHeight: 4,
+  windowModule: 4,
+  windowWidth: 2,
+  windowHeight: 2,
+  includePodium: false,
+  hasAtrium: false,
+};
+
+describe("computeGlazing", () => {
+  it("measures each orientation module by module", () => {
+    const { sides, total } = computeGlazing(facade);
+    assert.deepEqual(
+      sides.map(({ side, wallArea, glazedArea, windowCount }) => [side, wallArea, glazedArea, windowCount]),
+      [
+        ["front", 4 * 4 * 32, 32 * 4, 32],
+        ["back", 4 * 4 * 32, 32 * 4, 32],
+        ["left", 4 * 4 * 16, 16 * 4, 16],
+        ["right", 4 * 4 * 16, 16 * 4, 16],
+      ],
+    );
+    sides.forEach((side) => assert.equal(side.ratio, 0.25));
+    assert.equal(total.opaqueArea, total.wallArea - total.glazedArea);
+    assert.equal(total.windowCount, 96);
+  });
+
+  it("flags a window-to-wall ratio over the limit", () => {
+    assert.ok(!computeGlazing(facade).total.exceedsLimit);
+    const { sides, total } = computeGlazing({ ...facade, maxWindowWallRatio: 0.2 });
+    assert.ok(total.exceedsLimit);
+    assert.ok(sides.every((side) => side.exceedsLimit));
+  });
+});
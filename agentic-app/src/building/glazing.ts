@@ -0,0 +1,74 @@
+import { levelFootprint } from "./footprint";
+import { buildLevelStack } from "./levels";
+import type { FacadeSide } from "./scene";
+import { FACADE_SIDES, buildScene, levelFacades } from "./scene";
+import type { BuildingConfig } from "./types";
+
+export type FacadeGlazing = {
+  side: FacadeSide;
+  wallArea: number;
+  glazedArea: number;
+  opaqueArea: number;
+  ratio: number;
+  windowCount: number;
+  exceedsLimit: boolean;
+};
+
+export type GlazingSummary = {
+  sides: FacadeGlazing[];
+  total: Omit<FacadeGlazing, "side">;
+  limit: number;
+};
+
+const summarize = (wallArea: number, glazedArea: number, windowCount: number, limit: number) => {
+  const ratio = wallArea > 0 ? glazedArea / wallArea : 0;
+  return {
+    wallArea,
+    glazedArea,
+    opaqueArea: Math.max(0, wallArea - glazedArea),
+    ratio,
+    windowCount,
+    exceedsLimit: ratio > limit,
+  };
+};
+
+// Glazing is read back from the generated window elements so the quantities
+// always match the modules the scene (and the Blender script) actually places.
+export const computeGlazing = (config: BuildingConfig, scene = buildScene(config)): GlazingSummary => {
+  const windows = scene.elements.filter((element) => element.kind === "window");
+  const levels = buildLevelStack(config).map((level) => ({
+    height: level.height,
+    facades: levelFacades(levelFootprint(config, level.index)),
+  }));
+  const limit = config.maxWindowWallRatio;
+
+  const sides = FACADE_SIDES.map((side): FacadeGlazing => {
+    // Walls follow each floor's own outline, so shaped, tapered and twisted
+    // plates report the facade they actually have.
+    const wallArea = levels.reduce(
+      (sum, level) =>
+        sum +
+        level.height *
+          level.facades.filter((facade) => facade.side === side).reduce((total, facade) => total + facade.length, 0),
+      0,
+    );
+    const placed = windows.filter((element) => element.side === side);
+    // Windows are thin, so their longer plan dimension is the glazed width.
+    const glazedArea = placed.reduce(
+      (sum, element) => sum + Math.max(element.size[0], element.size[1]) * element.size[2],
+      0,
+    );
+    return { side, ...summarize(wallArea, glazedArea, placed.length, limit) };
+  });
+
+  return {
+    sides,
+    total: summarize(
+      sides.reduce((sum, side) => sum + side.wallArea, 0),
+      sides.reduce((sum, side) => sum + side.glazedArea, 0),
+      windows.length,
+      limit,
+    ),
+    limit,
+  };
+};
@@ -0,0 +1,60 @@
+export type History<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  group: string | null;
+  groupedAt: number;
+};
+
+const HISTORY_LIMIT = 100;
+const GROUP_WINDOW_MS = 800;
+
+export const createHistory = <T>(present: T): History<T> => ({
+  past: [],
+  present,
+  future: [],
+  group: null,
+  groupedAt: 0,
+});
+
+// Consecutive changes in the same group (e.g. one slider being dragged) within
+// a short window collapse into a single undo step.
+export const pushHistory = <T>(history: History<T>, next: T, group: string | null = null): History<T> => {
+  const now = Date.now();
+  if (group && group === history.group && now - history.groupedAt < GROUP_WINDOW_MS) {
+    return { ...history, present: next, future: [], groupedAt: now };
+  }
+  return {
+    past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: next,
+    future: [],
+    group,
+    groupedAt: now,
+  };
+};
+
+export const undoHistory = <T>(history: History<T>): History<T> => {
+  if (history.past.length === 0) {
+    return history;
+  }
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    group: null,
+    groupedAt: 0,
+  };
+};
+
+export const redoHistory = <T>(history: History<T>): History<T> => {
+  if (history.future.length === 0) {
+    return history;
+  }
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    group: null,
+    groupedAt: 0,
+  };
+};
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "./defaults";
+import { balconiesAt, buildLevelStack, towerTop, unitsAt, zoneAt } from "./levels";
+import { buildScene } from "./scene";
+import type { BuildingConfig } from "./types";
+
+// Offices on floors 2–6 at 4.2 m under residential floors at the typical 3.2 m.
+const zoned: BuildingConfig = {
+  ...defaultConfig,
+  floors: 12,
+  floorHeight: 3.2,
+  zones: [
+    { use: "office", fromFloor: 2, toFloor: 6, floorHeight: 4.2, unitsPerFloor: 2, balconyFrequency: "none" },
+    { use: "amenity", fromFloor: 6, toFloor: 7, floorHeight: 5, unitsPerFloor: 1, balconyFrequency: "every" },
+  ],
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+describe("program zones", () => {
+  it("finds the zone of a floor, the first listed winning where two overlap", () => {
+    assert.equal(zoneAt(zoned, 0), null);
+    assert.equal(zoneAt(zoned, 1)?.use, "office");
+    assert.equal(zoneAt(zoned, 5)?.use, "office");
+    assert.equal(zoneAt(zoned, 6)?.use, "amenity");
+    assert.equal(zoneAt(zoned, 7), null);
+    assert.deepEqual(
+      [0, 1, 6, 7].map((index) => [unitsAt(zoned, index), balconiesAt(zoned, index)]),
+      [
+        [defaultConfig.unitsPerFloor, defaultConfig.balconyFrequency],
+        [2, "none"],
+        [1, "every"],
+        [defaultConfig.unitsPerFloor, defaultConfig.balconyFrequency],
+      ],
+    );
+  });
+
+  it("stacks each floor at its zone's height", () => {
+    const levels = buildLevelStack(zoned);
+    assert.deepEqual(
+      levels.slice(0, 9).map((level) => [round(level.bottom), level.height]),
+      [
+        [1.2, 6],
+        [7.2, 4.2],
+        [11.4, 4.2],
+        [15.6, 4.2],
+        [19.8, 4.2],
+        [24, 4.2],
+        [28.2, 5],
+        [33.2, 3.2],
+        [36.4, 3.2],
+      ],
+    );
+    assert.equal(round(towerTop(zoned)), 49.2);
+    assert.equal(round(towerTop({ ...zoned, zones: [] })), 42.4);
+  });
+
+  it("colours, glazes and fits balconies to each zone in the scene", () => {
+    const elements = buildScene(zoned).elements;
+    const onLevel = (kind: string, level: number) =>
+      elements.filter((element) => element.kind === kind && element.level === level);
+    assert.deepEqual(
+      [1, 6, 8].map((level) => onLevel("floor", level)[0]?.material),
+      ["office", "amenity", "base"],
+    );
+    assert.equal(round(onLevel("window", 2)[0]?.size[2] ?? 0), zoned.windowHeight + 1);
+    assert.equal(round(onLevel("window", 8)[0]?.size[2] ?? 0), zoned.windowHeight);
+    assert.equal(onLevel("balcony", 2).length, 0);
+    assert.ok(onLevel("balcony", 6).length > 0);
+    assert.ok(onLevel("balcony", 8).length > 0);
+  });
+});
@@ -0,0 +1,63 @@
+import type { BalconyFrequency, BuildingConfig, ProgramZone, ZoneUse } from "./types";
+
+export type Level = {
+  index: number;
+  name: string;
+  bottom: number;
+  height: number;
+  isLobby: boolean;
+};
+
+export const ZONE_USES: ZoneUse[] = ["retail", "office", "residential", "amenity"];
+
+// Zones are matched in list order, so an earlier zone wins where two overlap.
+export const zoneAt = (config: BuildingConfig, index: number): ProgramZone | null =>
+  index === 0 ? null : (config.zones.find((zone) => index + 1 >= zone.fromFloor && index + 1 <= zone.toFloor) ?? null);
+
+export const unitsAt = (config: BuildingConfig, index: number) =>
+  zoneAt(config, index)?.unitsPerFloor ?? config.unitsPerFloor;
+
+export const balconiesAt = (config: BuildingConfig, index: number): BalconyFrequency =>
+  zoneAt(config, index)?.balconyFrequency ?? config.balconyFrequency;
+
+// Height of the floors between the lobby and level `index`: the typical
+// floor-to-floor plus whatever zoned floors add or take away.
+export const stackHeight = (config: BuildingConfig, index: number) => {
+  let zoned = 0;
+  for (let floor = 1; floor < index; floor += 1) {
+    const zone = zoneAt(config, floor);
+    zoned += zone ? zone.floorHeight - config.floorHeight : 0;
+  }
+  return config.floorHeight * Math.max(0, index - 1) + zoned;
+};
+
+// The window drawn on a zoned floor: the typical one stretched or shrunk by
+// the height the zone adds, never below half a metre.
+export const zoneWindowHeight = (config: BuildingConfig, zone: ProgramZone) =>
+  Math.max(0.5, config.windowHeight + zone.floorHeight - config.floorHeight);
+
+export const zoneUseLabel = (use: ZoneUse) => `${use[0].toUpperCase()}${use.slice(1)}`;
+
+export const zoneLabel = (zone: ProgramZone) =>
+  `${zoneUseLabel(zone.use)} ${zone.fromFloor === zone.toFloor ? zone.fromFloor : `${zone.fromFloor}–${zone.toFloor}`}`;
+
+// Levels past the top of the tower (e.g. a podium taller than the tower)
+// continue at the typical floor-to-floor height.
+export const levelAt = (config: BuildingConfig, index: number): Level => {
+  const isLobby = index === 0;
+  return {
+    index,
+    name: `Floor_${String(index + 1).padStart(2, "0")}`,
+    bottom: isLobby ? config.baseHeight : config.baseHeight + config.lobbyHeight + stackHeight(config, index),
+    height: isLobby ? config.lobbyHeight : (zoneAt(config, index)?.floorHeight ?? config.floorHeight),
+    isLobby,
+  };
+};
+
+export const buildLevelStack = (config: BuildingConfig): Level[] =>
+  Array.from({ length: config.floors }, (_, index) => levelAt(config, index));
+
+export const towerTop = (config: BuildingConfig) =>
+  config.floors > 0
+    ? config.baseHeight + config.lobbyHeight + stackHeight(config, config.floors)
+    : config.baseHeight;
@@ -0,0 +1,91 @@
+import type { ProjectContents, ProjectFile } from "./project";
+import { ProjectFileError, parseProject, serializeProject } from "./project";
+
+export type SavedProject = {
+  id: string;
+  name: string;
+  savedAt: string;
+};
+
+const STORAGE_PREFIX = "parametric-building-studio";
+const INDEX_KEY = `${STORAGE_PREFIX}:projects`;
+const ACTIVE_KEY = `${STORAGE_PREFIX}:active`;
+
+const projectKey = (id: string) => `${STORAGE_PREFIX}:project:${id}`;
+
+// Storage can be missing (server render) or throw (privacy modes, quota), so
+// every access goes through here and degrades to "nothing saved".
+const storage = () => {
+  try {
+    return typeof window === "undefined" ? null : window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+const writeIndex = (store: Storage, projects: SavedProject[]) =>
+  store.setItem(INDEX_KEY, JSON.stringify(projects));
+
+export const createProjectId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listSavedProjects = (): SavedProject[] => {
+  const store = storage();
+  if (!store) {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(store.getItem(INDEX_KEY) ?? "[]");
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed
+      .filter(
+        (entry): entry is SavedProject =>
+          typeof entry?.id === "string" && typeof entry?.name === "string" && typeof entry?.savedAt === "string",
+      )
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  } catch {
+    return [];
+  }
+};
+
+export const activeProjectId = () => storage()?.getItem(ACTIVE_KEY) ?? null;
+
+export const saveToLibrary = (id: string, contents: ProjectContents) => {
+  const store = storage();
+  if (!store) {
+    return false;
+  }
+  try {
+    store.setItem(projectKey(id), serializeProject(contents));
+    const entry: SavedProject = { id, name: contents.config.projectName, savedAt: new Date().toISOString() };
+    writeIndex(store, [entry, ...listSavedProjects().filter((project) => project.id !== id)]);
+    store.setItem(ACTIVE_KEY, id);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const loadFromLibrary = (id: string): ProjectFile => {
+  const text = storage()?.getItem(projectKey(id));
+  if (!text) {
+    throw new ProjectFileError("Saved project could not be found in this browser.");
+  }
+  const project = parseProject(text);
+  storage()?.setItem(ACTIVE_KEY, id);
+  return project;
+};
+
+export const removeFromLibrary = (id: string) => {
+  const store = storage();
+  if (!store) {
+    return;
+  }
+  store.removeItem(projectKey(id));
+  writeIndex(store, listSavedProjects().filter((project) => project.id !== id));
+  if (store.getItem(ACTIVE_KEY) === id) {
+    store.removeItem(ACTIVE_KEY);
+  }
+};
@@ -0,0 +1,177 @@
+import type { Vec3 } from "./math";
+import { rotateEuler } from "./math";
+import type { PlanPolygon } from "./polygon";
+import { boundarySegments } from "./polygon";
+import type { BuildingScene, SceneElement } from "./scene";
+
+export type Box = {
+  min: Vec3;
+  max: Vec3;
+};
+
+export type MeshData = {
+  positions: number[];
+  normals: number[];
+  indices: number[];
+};
+
+const EPSILON = 1e-6;
+
+export const BOX_FACES: { normal: Vec3; corners: Vec3[] }[] = [
+  { normal: [1, 0, 0], corners: [[1, 0, 0], [1, 1, 0], [1, 1, 1], [1, 0, 1]] },
+  { normal: [-1, 0, 0], corners: [[0, 1, 0], [0, 0, 0], [0, 0, 1], [0, 1, 1]] },
+  { normal: [0, 1, 0], corners: [[1, 1, 0], [0, 1, 0], [0, 1, 1], [1, 1, 1]] },
+  { normal: [0, -1, 0], corners: [[0, 0, 0], [1, 0, 0], [1, 0, 1], [0, 0, 1]] },
+  { normal: [0, 0, 1], corners: [[0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1]] },
+  { normal: [0, 0, -1], corners: [[0, 1, 0], [1, 1, 0], [1, 0, 0], [0, 0, 0]] },
+];
+
+export const indexScene = (scene: BuildingScene) =>
+  new Map(scene.elements.map((element) => [element.name, element]));
+
+export const toWorld = (element: SceneElement, point: Vec3): Vec3 => {
+  const rotated = rotateEuler(point, element.rotation);
+  return [
+    rotated[0] + element.position[0],
+    rotated[1] + element.position[1],
+    rotated[2] + element.position[2],
+  ];
+};
+
+const overlaps = (a: Box, b: Box) =>
+  [0, 1, 2].every((axis) => a.min[axis] < b.max[axis] - EPSILON && b.min[axis] < a.max[axis] - EPSILON);
+
+export const subtractBox = (box: Box, cutter: Box): Box[] => {
+  if (!overlaps(box, cutter)) {
+    return [box];
+  }
+  const pieces: Box[] = [];
+  let remainder: Box = { min: [...box.min], max: [...box.max] };
+  [0, 1, 2].forEach((axis) => {
+    if (cutter.min[axis] > remainder.min[axis] + EPSILON) {
+      const max: Vec3 = [...remainder.max];
+      max[axis] = cutter.min[axis];
+      pieces.push({ min: [...remainder.min], max });
+    }
+    if (cutter.max[axis] < remainder.max[axis] - EPSILON) {
+      const min: Vec3 = [...remainder.min];
+      min[axis] = cutter.max[axis];
+      pieces.push({ min, max: [...remainder.max] });
+    }
+    const min: Vec3 = [...remainder.min];
+    const max: Vec3 = [...remainder.max];
+    min[axis] = Math.max(min[axis], cutter.min[axis]);
+    max[axis] = Math.min(max[axis], cutter.max[axis]);
+    remainder = { min, max };
+  });
+  return pieces;
+};
+
+const centeredBox = (size: Vec3, offset: Vec3 = [0, 0, 0]): Box => ({
+  min: [offset[0] - size[0] / 2, offset[1] - size[1] / 2, offset[2] - size[2] / 2],
+  max: [offset[0] + size[0] / 2, offset[1] + size[1] / 2, offset[2] + size[2] / 2],
+});
+
+// Boolean cuts are resolved in the element's local frame. Cutters only ever
+// turn about z together with the element they cut (a tower placed on a site),
+// so a cutter's local box is its offset turned back into that frame.
+export const elementLocalBoxes = (
+  element: SceneElement,
+  lookup: Map<string, SceneElement>,
+): Box[] => {
+  let boxes = [centeredBox(element.size)];
+  (element.cutBy ?? []).forEach((cutterName) => {
+    const cutter = lookup.get(cutterName);
+    if (!cutter) {
+      return;
+    }
+    const offset = rotateEuler(
+      [
+        cutter.position[0] - element.position[0],
+        cutter.position[1] - element.position[1],
+        cutter.position[2] - element.position[2],
+      ],
+      [0, 0, -element.rotation[2]],
+    );
+    const cutterBox = centeredBox(cutter.size, offset);
+    boxes = boxes.flatMap((piece) => subtractBox(piece, cutterBox));
+  });
+  return boxes;
+};
+
+export const appendBox = (mesh: MeshData, { min, max }: Box) => {
+  BOX_FACES.forEach(({ normal, corners }) => {
+    const start = mesh.positions.length / 3;
+    corners.forEach((corner) => {
+      mesh.positions.push(
+        corner[0] ? max[0] : min[0],
+        corner[1] ? max[1] : min[1],
+        corner[2] ? max[2] : min[2],
+      );
+      mesh.normals.push(...normal);
+    });
+    mesh.indices.push(start, start + 1, start + 2, start, start + 2, start + 3);
+  });
+};
+
+const appendQuad = (mesh: MeshData, size: Vec3) => {
+  const start = mesh.positions.length / 3;
+  const hx = size[0] / 2;
+  const hy = size[1] / 2;
+  mesh.positions.push(-hx, -hy, 0, hx, -hy, 0, hx, hy, 0, -hx, hy, 0);
+  mesh.normals.push(0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1);
+  mesh.indices.push(start, start + 1, start + 2, start, start + 2, start + 3);
+};
+
+// Caps are fanned from each convex piece; walls only go up the outer edges, so
+// the seams between pieces stay inside the solid.
+const appendPrism = (mesh: MeshData, profile: PlanPolygon[], height: number) => {
+  const half = height / 2;
+  profile.forEach((piece) => {
+    [half, -half].forEach((z) => {
+      const start = mesh.positions.length / 3;
+      const ordered = z > 0 ? piece : [...piece].reverse();
+      ordered.forEach(([x, y]) => {
+        mesh.positions.push(x, y, z);
+        mesh.normals.push(0, 0, Math.sign(z));
+      });
+      for (let idx = 1; idx < ordered.length - 1; idx += 1) {
+        mesh.indices.push(start, start + idx, start + idx + 1);
+      }
+    });
+  });
+  boundarySegments(profile).forEach(({ from, to }) => {
+    const length = Math.hypot(to[0] - from[0], to[1] - from[1]);
+    const normal = [(to[1] - from[1]) / length, (from[0] - to[0]) / length, 0];
+    const start = mesh.positions.length / 3;
+    mesh.positions.push(from[0], from[1], -half, to[0], to[1], -half, to[0], to[1], half, from[0], from[1], half);
+    mesh.normals.push(...normal, ...normal, ...normal, ...normal);
+    mesh.indices.push(start, start + 1, start + 2, start, start + 2, start + 3);
+  });
+};
+
+export const elementMesh = (element: SceneElement, lookup: Map<string, SceneElement>): MeshData => {
+  const mesh: MeshData = { positions: [], normals: [], indices: [] };
+  if (element.shape === "box") {
+    elementLocalBoxes(element, lookup).forEach((piece) => appendBox(mesh, piece));
+  } else if (element.shape === "prism") {
+    appendPrism(mesh, element.profile ?? [], element.size[2]);
+  } else {
+    appendQuad(mesh, element.size);
+  }
+  return mesh;
+};
+
+export const elementWorldMesh = (
+  element: SceneElement,
+  lookup: Map<string, SceneElement>,
+): MeshData => {
+  const mesh = elementMesh(element, lookup);
+  const positions: number[] = [];
+  const normals: number[] = [];
+  for (let idx = 0; idx < mesh.positions.length; idx += 3) {
+    positions.push(...toWorld(element, [mesh.positions[idx], mesh.positions[idx + 1], mesh.positions[idx + 2]]));
+    normals.push(...rotateEuler([mesh.normals[idx], mesh.normals[idx + 1], mesh.normals[idx + 2]], element.rotation));
+  }
+  return { positions, normals, indices: mesh.indices };
+};
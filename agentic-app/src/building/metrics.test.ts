@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "./defaults";
+import { computeMetrics } from "./metrics";
+import type { BuildingConfig } from "./types";
+
+// Ten 30 × 20 m floors with a 10 × 8 m core on a 1,200 m² site.
+const plainBox: BuildingConfig = {
+  ...defaultConfig,
+  floors: 10,
+  width: 30,
+  depth: 20,
+  siteArea: 1200,
+  includePodium: false,
+  hasAtrium: false,
+  addRooftopGarden: false,
+  includeSolarPanels: false,
+};
+
+describe("computeMetrics", () => {
+  it("totals gross and net area and sets them against the site", () => {
+    const metrics = computeMetrics(plainBox);
+    assert.equal(metrics.grossArea, 6000);
+    assert.equal(metrics.netArea, 6000 - 10 * 80);
+    assert.equal(metrics.floorAreaRatio, 5);
+    assert.equal(metrics.siteCoverage, 0.5);
+  });
+
+  it("measures podium levels with their setback", () => {
+    const metrics = computeMetrics({ ...plainBox, includePodium: true, podiumLevels: 2, podiumSetback: 4 });
+    assert.deepEqual(
+      metrics.levels.slice(0, 3).map((level) => level.gross),
+      [38 * 28, 34 * 24, 600],
+    );
+    assert.equal(metrics.grossArea, 38 * 28 + 34 * 24 + 8 * 600);
+  });
+
+  it("takes the atrium out of every floor above the lobby", () => {
+    const [lobby, typical] = computeMetrics({ ...plainBox, hasAtrium: true }).levels;
+    assert.equal(lobby.net, 520);
+    assert.ok(typical.net < 520);
+  });
+
+  it("adds the base, lobby and typical floors to the height and counts units above the lobby", () => {
+    const metrics = computeMetrics(plainBox);
+    const { base, lobby, typical, roof } = metrics.heightBreakdown;
+    assert.deepEqual([base, lobby, typical], [1.2, 6, 9 * 3.6]);
+    assert.ok(Math.abs(base + lobby + typical + roof - metrics.height) < 1e-9);
+    assert.equal(metrics.unitCount, 9 * plainBox.unitsPerFloor);
+  });
+});
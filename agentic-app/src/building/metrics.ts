@@ -0,0 +1,171 @@
+import { layoutFloorPlan } from "./floorplan";
+import { coreCentre, footprintToWorld, levelFootprint } from "./footprint";
+import { levelAt, stackHeight, towerTop, zoneAt, zoneLabel } from "./levels";
+import { elementWorldMesh, indexScene } from "./mesh";
+import type { PlanPolygon } from "./polygon";
+import { intersectConvex, piecesArea, polygonArea, rectPolygon } from "./polygon";
+import { buildScene } from "./scene";
+import type { BuildingScene, ElementKind } from "./scene";
+import type { BuildingConfig, ZoneUse } from "./types";
+
+export type LevelArea = {
+  index: number;
+  name: string;
+  bottom: number;
+  height: number;
+  gross: number;
+  net: number;
+  hasTower: boolean;
+  hasPodium: boolean;
+  use: ZoneUse | null;
+};
+
+export type ZoneArea = {
+  label: string;
+  use: ZoneUse;
+  floors: number;
+  gross: number;
+  units: number;
+};
+
+export type BuildingMetrics = {
+  levels: LevelArea[];
+  grossArea: number;
+  netArea: number;
+  efficiency: number;
+  unitCount: number;
+  averageUnitSize: number;
+  height: number;
+  heightBreakdown: { base: number; lobby: number; typical: number; roof: number };
+  siteArea: number;
+  floorAreaRatio: number;
+  siteCoverage: number;
+  windowCount: number;
+  zones: ZoneArea[];
+};
+
+const SOLID_KINDS: ElementKind[] = ["core", "floor", "podium", "roof"];
+
+const podiumOutline = (config: BuildingConfig, index: number): PlanPolygon | null => {
+  if (!config.includePodium || index >= config.podiumLevels) {
+    return null;
+  }
+  const shrink = config.podiumSetback * index;
+  const [halfWidth, halfDepth] = [
+    Math.max(0, config.width + config.podiumSetback * 2 - shrink) / 2,
+    Math.max(0, config.depth + config.podiumSetback * 2 - shrink) / 2,
+  ];
+  return rectPolygon({ min: [-halfWidth, -halfDepth], max: [halfWidth, halfDepth] });
+};
+
+// Overlap between a set of non-overlapping pieces and one convex outline.
+const overlapArea = (pieces: PlanPolygon[], outline: PlanPolygon) =>
+  piecesArea(pieces.map((piece) => intersectConvex(piece, outline)));
+
+const levelAreas = (config: BuildingConfig, index: number, hasTower: boolean) => {
+  const podium = podiumOutline(config, index);
+  const podiumArea = podium ? polygonArea(podium) : 0;
+  const [cx, cy] = coreCentre(config);
+  const core = rectPolygon({
+    min: [cx - config.coreWidth / 2, cy - config.coreDepth / 2],
+    max: [cx + config.coreWidth / 2, cy + config.coreDepth / 2],
+  });
+  const coreArea = config.coreWidth * config.coreDepth;
+  if (!hasTower) {
+    return { gross: podiumArea, void: coreArea };
+  }
+  const footprint = levelFootprint(config, index);
+  const toWorld = (pieces: PlanPolygon[]) =>
+    pieces.map((piece) => piece.map((point) => footprintToWorld(footprint, point)));
+  const [plate, solid] = [toWorld(footprint.plate), toWorld(footprint.solid)];
+  const gross = footprint.area + podiumArea - (podium ? overlapArea(plate, podium) : 0);
+  // The atrium leaves the lobby floor intact and opens every plate above it;
+  // the core counts once wherever it overlaps the atrium.
+  const atrium = footprint.area - piecesArea(solid);
+  const coreOverAtrium = overlapArea(plate, core) - overlapArea(solid, core);
+  return { gross, void: atrium + coreArea - coreOverAtrium };
+};
+
+const measureScene = (scene: BuildingScene) => {
+  const lookup = indexScene(scene);
+  let top = 0;
+  scene.elements
+    .filter((element) => !element.hidden && SOLID_KINDS.includes(element.kind))
+    .forEach((element) => {
+      const { positions } = elementWorldMesh(element, lookup);
+      for (let idx = 2; idx < positions.length; idx += 3) {
+        top = Math.max(top, positions[idx]);
+      }
+    });
+  return { top, windowCount: scene.elements.filter((element) => element.kind === "window").length };
+};
+
+// Areas only, without building the scene; cheap enough to call in a loop.
+export const computeLevels = (config: BuildingConfig): LevelArea[] => {
+  const levelCount = Math.max(config.floors, config.includePodium ? config.podiumLevels : 0);
+  return Array.from({ length: levelCount }, (_, index): LevelArea => {
+    const level = levelAt(config, index);
+    const hasTower = index < config.floors;
+    const areas = levelAreas(config, index, hasTower);
+    return {
+      index,
+      name: level.name,
+      bottom: level.bottom,
+      height: level.height,
+      gross: areas.gross,
+      net: Math.max(0, areas.gross - areas.void),
+      hasTower,
+      hasPodium: podiumOutline(config, index) !== null,
+      use: hasTower ? (zoneAt(config, index)?.use ?? null) : null,
+    };
+  });
+};
+
+// Callers that already built the scene pass it in rather than build it twice.
+export const computeMetrics = (config: BuildingConfig, scene = buildScene(config)): BuildingMetrics => {
+  const levels = computeLevels(config);
+  const grossArea = levels.reduce((sum, level) => sum + level.gross, 0);
+  const netArea = levels.reduce((sum, level) => sum + level.net, 0);
+  // Tapered and stepped floors each get their own plan; a lobby-only tower
+  // still reports the typical unit size.
+  const unitFloors = Math.max(0, config.floors - 1);
+  const floorUnits = Array.from({ length: Math.max(1, unitFloors) }, (_, idx) => layoutFloorPlan(config, idx + 1).units);
+  const planUnits = floorUnits.flat();
+  const unitArea = planUnits.reduce((sum, unit) => sum + unit.area, 0);
+  const { top, windowCount } = measureScene(scene);
+  const lobby = config.floors > 0 ? config.lobbyHeight : 0;
+
+  // Each floor counts towards the zone that governs it, so overlaps are not
+  // double counted.
+  const zones = config.zones.map((zone): ZoneArea => {
+    const floors = levels.filter((level) => level.hasTower && zoneAt(config, level.index) === zone);
+    return {
+      label: zoneLabel(zone),
+      use: zone.use,
+      floors: floors.length,
+      gross: floors.reduce((sum, level) => sum + level.gross, 0),
+      units: unitFloors > 0 ? floors.reduce((sum, level) => sum + floorUnits[level.index - 1].length, 0) : 0,
+    };
+  });
+
+  return {
+    levels,
+    grossArea,
+    netArea,
+    efficiency: grossArea > 0 ? netArea / grossArea : 0,
+    unitCount: unitFloors > 0 ? planUnits.length : 0,
+    averageUnitSize: planUnits.length > 0 ? unitArea / planUnits.length : 0,
+    height: top,
+    heightBreakdown: {
+      base: config.baseHeight,
+      lobby,
+      typical: stackHeight(config, config.floors),
+      roof: Math.max(0, top - towerTop(config)),
+    },
+    siteArea: config.siteArea,
+    floorAreaRatio: config.siteArea > 0 ? grossArea / config.siteArea : 0,
+    siteCoverage: config.siteArea > 0 ? (levels[0]?.gross ?? 0) / config.siteArea : 0,
+    windowCount,
+    zones,
+  };
+};
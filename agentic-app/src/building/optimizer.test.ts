@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "./defaults";
+import { DEFAULT_TARGETS, searchDesignSpace } from "./optimizer";
+import { FIELD_RANGES } from "./project";
+
+describe("searchDesignSpace", () => {
+  it("keeps each design on the front that no feasible design beats on height and footprint", async () => {
+    const { candidates } = await searchDesignSpace(defaultConfig, DEFAULT_TARGETS);
+    const front = candidates.filter((candidate) => candidate.pareto);
+    assert.ok(front.length > 0);
+    front.forEach((design) => {
+      assert.ok(design.feasible);
+      assert.ok(
+        !candidates.some(
+          (other) =>
+            other.feasible &&
+            other.height <= design.height &&
+            other.footprint <= design.footprint &&
+            (other.height < design.height || other.footprint < design.footprint),
+        ),
+      );
+    });
+  });
+
+  it("samples within the editor's limits, even when the window outgrows every floor", async () => {
+    const { candidates } = await searchDesignSpace(
+      { ...defaultConfig, windowHeight: 7, spandrelHeight: 1.5 },
+      DEFAULT_TARGETS,
+    );
+    candidates.forEach(({ values }) => {
+      assert.equal(values.floorHeight, FIELD_RANGES.floorHeight?.[1]);
+      Object.entries(values).forEach(([field, value]) => {
+        const [min, max] = FIELD_RANGES[field as keyof typeof values] ?? [NaN, NaN];
+        assert.ok(value >= min && value <= max, `${field} ${value}`);
+      });
+    });
+  });
+});
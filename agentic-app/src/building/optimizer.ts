@@ -0,0 +1,271 @@
+import { checkSiteEnvelope, envelopeIssues } from "./envelope";
+import { computeGlazing } from "./glazing";
+import { clamp } from "./math";
+import { computeLevels, computeMetrics } from "./metrics";
+import { FIELD_RANGES } from "./project";
+import { buildScene } from "./scene";
+import type { BuildingConfig } from "./types";
+import { validateBuildingConfig } from "./validation";
+
+export type OptimizerTargets = {
+  grossArea: number;
+  maxHeight: number;
+  maxWindowWallRatio: number;
+  minUnitSize: number;
+};
+
+export const DEFAULT_TARGETS: OptimizerTargets = {
+  grossArea: 25000,
+  maxHeight: 90,
+  maxWindowWallRatio: 0.4,
+  minUnitSize: 0,
+};
+
+// A design counts as on target when its GFA lands within this share of it.
+export const GFA_TOLERANCE = 0.05;
+
+export const SEARCH_FIELDS = ["floors", "width", "depth", "floorHeight", "unitsPerFloor", "windowModule"] as const;
+
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+export type SearchValues = Pick<BuildingConfig, SearchField>;
+
+type SearchRange = { min: number; max: number; step: number };
+
+export type Candidate = {
+  id: string;
+  values: SearchValues;
+  grossArea: number;
+  height: number;
+  footprint: number;
+  windowWallRatio: number;
+  averageUnitSize: number;
+  failures: string[];
+  violation: number;
+  feasible: boolean;
+  pareto: boolean;
+};
+
+export type SearchResult = {
+  targets: OptimizerTargets;
+  candidates: Candidate[];
+};
+
+export type SearchProgress = { evaluated: number; total: number };
+
+const SAMPLE_COUNT = 48;
+const REFINE_ROUNDS = 4;
+const CHILDREN_PER_ROUND = 16;
+// Candidates evaluated between yields, so the page keeps painting.
+const BATCH_SIZE = 4;
+const SEED = 20260421;
+
+export const SEARCH_BUDGET = SAMPLE_COUNT + REFINE_ROUNDS * CHILDREN_PER_ROUND;
+
+// A field's range in the editor, raised to `least` where that is higher. A
+// least value past the editor's top pins the range there rather than inverting it.
+const searchRange = (field: SearchField, step: number, least = -Infinity): SearchRange => {
+  const [min, max] = FIELD_RANGES[field] ?? [least, least];
+  return { min: clamp(least, min, max), max, step };
+};
+
+// The editor's own limits, narrowed where the current window would otherwise
+// fail a design check on every sample.
+const searchRanges = (config: BuildingConfig): Record<SearchField, SearchRange> => ({
+  floors: searchRange("floors", 1),
+  width: searchRange("width", 0.5),
+  depth: searchRange("depth", 0.5),
+  floorHeight: searchRange("floorHeight", 0.1, config.windowHeight + config.spandrelHeight),
+  unitsPerFloor: searchRange("unitsPerFloor", 1),
+  windowModule: searchRange("windowModule", 0.1, config.windowWidth),
+});
+
+// mulberry32: small, fast and repeatable, so the same targets give the same front.
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const snap = ({ min, max, step }: SearchRange, value: number) =>
+  Math.round(clamp(Math.round(value / step) * step, min, max) * 100) / 100;
+
+const grossAreaOf = (config: BuildingConfig) => computeLevels(config).reduce((sum, level) => sum + level.gross, 0);
+
+// Floors follow from the plate: step the count towards the GFA target using
+// the average area per floor, which settles in a few passes even with a podium.
+const solveFloors = (config: BuildingConfig, target: number, range: SearchRange) => {
+  let floors = config.floors;
+  for (let pass = 0; pass < 4; pass += 1) {
+    const gross = grossAreaOf({ ...config, floors });
+    const next = snap(range, gross > 0 ? floors + (target - gross) / (gross / floors) : range.max);
+    if (next === floors) {
+      break;
+    }
+    floors = next;
+  }
+  return floors;
+};
+
+const keyOf = (values: SearchValues) => SEARCH_FIELDS.map((field) => values[field]).join("/");
+
+const formatArea = (value: number) => `${Math.round(value).toLocaleString("en-GB")} m²`;
+
+const evaluate = (current: BuildingConfig, values: SearchValues, targets: OptimizerTargets): Candidate => {
+  const config = { ...current, ...values };
+  const scene = buildScene(config);
+  const metrics = computeMetrics(config, scene);
+  const glazing = computeGlazing(config, scene);
+  const windowWallRatio = glazing.total.ratio;
+  const errors = [...validateBuildingConfig(config), ...envelopeIssues(checkSiteEnvelope(config, metrics))].filter(
+    (issue) => issue.severity === "error",
+  ).length;
+
+  // Each miss adds how far off it is, relative to its own target, so the
+  // nearest infeasible designs are refined first.
+  const failures: string[] = [];
+  let violation = 0;
+  const areaMiss = targets.grossArea > 0 ? Math.abs(metrics.grossArea - targets.grossArea) / targets.grossArea : 0;
+  if (areaMiss > GFA_TOLERANCE) {
+    failures.push(`GFA ${formatArea(metrics.grossArea)} is ${Math.round(areaMiss * 100)}% off the target.`);
+    violation += areaMiss - GFA_TOLERANCE;
+  }
+  if (targets.maxHeight > 0 && metrics.height > targets.maxHeight) {
+    failures.push(`Height ${metrics.height.toFixed(1)} m is over ${targets.maxHeight} m.`);
+    violation += (metrics.height - targets.maxHeight) / targets.maxHeight;
+  }
+  if (targets.maxWindowWallRatio > 0 && windowWallRatio > targets.maxWindowWallRatio) {
+    failures.push(
+      `WWR ${Math.round(windowWallRatio * 100)}% is over ${Math.round(targets.maxWindowWallRatio * 100)}%.`,
+    );
+    violation += (windowWallRatio - targets.maxWindowWallRatio) / targets.maxWindowWallRatio;
+  }
+  if (targets.minUnitSize > 0 && metrics.averageUnitSize < targets.minUnitSize) {
+    failures.push(`Units average ${formatArea(metrics.averageUnitSize)}, under ${formatArea(targets.minUnitSize)}.`);
+    violation += (targets.minUnitSize - metrics.averageUnitSize) / targets.minUnitSize;
+  }
+  if (errors > 0) {
+    failures.push(`${errors} design check${errors === 1 ? "" : "s"} failing.`);
+    violation += errors;
+  }
+
+  return {
+    id: keyOf(values),
+    values,
+    grossArea: metrics.grossArea,
+    height: metrics.height,
+    footprint: metrics.levels[0]?.gross ?? 0,
+    windowWallRatio,
+    averageUnitSize: metrics.averageUnitSize,
+    failures,
+    violation,
+    feasible: failures.length === 0,
+    pareto: false,
+  };
+};
+
+// Among designs that meet every target, a shorter tower needs a larger
+// footprint; the front keeps each design no other beats on both. Sweeping by
+// height keeps one design per step, the one with the least glazing on ties.
+const markPareto = (candidates: Candidate[]) => {
+  const front = new Set<string>();
+  let smallest = Infinity;
+  candidates
+    .filter((candidate) => candidate.feasible)
+    .sort((a, b) => a.height - b.height || a.footprint - b.footprint || a.windowWallRatio - b.windowWallRatio)
+    .forEach((candidate) => {
+      if (candidate.footprint < smallest) {
+        smallest = candidate.footprint;
+        front.add(candidate.id);
+      }
+    });
+  return candidates.map((candidate) => ({ ...candidate, pareto: front.has(candidate.id) }));
+};
+
+const yieldToPage = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+// Random samples across the ranges first, then rounds of small moves around
+// the current front (or, while nothing fits, the nearest misses). Floors are
+// always re-solved for the GFA target, so every sample starts close to it.
+export const searchDesignSpace = async (
+  current: BuildingConfig,
+  targets: OptimizerTargets,
+  onProgress?: (progress: SearchProgress) => void,
+): Promise<SearchResult> => {
+  const ranges = searchRanges(current);
+  const random = createRandom(SEED);
+  const seen = new Map<string, Candidate>();
+
+  const complete = (values: Omit<SearchValues, "floors">): SearchValues => {
+    const plate = values.width * values.depth;
+    const guess = { ...current, ...values, floors: snap(ranges.floors, targets.grossArea / Math.max(1, plate)) };
+    return { ...values, floors: solveFloors(guess, targets.grossArea, ranges.floors) };
+  };
+
+  const run = async (batch: SearchValues[]) => {
+    for (let start = 0; start < batch.length; start += BATCH_SIZE) {
+      batch
+        .slice(start, start + BATCH_SIZE)
+        .filter((values) => !seen.has(keyOf(values)))
+        .forEach((values) => seen.set(keyOf(values), evaluate(current, values, targets)));
+      onProgress?.({ evaluated: seen.size, total: SEARCH_BUDGET });
+      await yieldToPage();
+    }
+  };
+
+  const pick = (field: Exclude<SearchField, "floors">) =>
+    snap(ranges[field], ranges[field].min + random() * (ranges[field].max - ranges[field].min));
+
+  // Plates are drawn by area, so the floors the target needs stay in range and
+  // the footprint fits the site, then split by a random aspect.
+  const [smallest, largest] = [ranges.width.min * ranges.depth.min, ranges.width.max * ranges.depth.max];
+  const plateMin = clamp(targets.grossArea / ranges.floors.max, smallest, largest);
+  const plateMax = clamp(
+    Math.min(targets.grossArea / ranges.floors.min, current.siteArea > 0 ? current.siteArea : largest),
+    plateMin,
+    largest,
+  );
+  const pickPlate = () => {
+    const area = plateMin * (plateMax / plateMin) ** random();
+    const width = Math.sqrt(area * 2.5 ** (random() * 2 - 1));
+    return { width: snap(ranges.width, width), depth: snap(ranges.depth, area / width) };
+  };
+
+  await run(
+    Array.from({ length: SAMPLE_COUNT }, () =>
+      complete({
+        ...pickPlate(),
+        floorHeight: pick("floorHeight"),
+        unitsPerFloor: pick("unitsPerFloor"),
+        windowModule: pick("windowModule"),
+      }),
+    ),
+  );
+
+  const nudge = (values: SearchValues): SearchValues => {
+    const next = { ...values };
+    const fields = SEARCH_FIELDS.filter((field) => field !== "floors");
+    const moves = random() < 0.5 ? 1 : 2;
+    for (let move = 0; move < moves; move += 1) {
+      const field = fields[Math.floor(random() * fields.length)];
+      const { min, max } = ranges[field];
+      next[field] = snap(ranges[field], next[field] + (random() * 2 - 1) * (max - min) * 0.15);
+    }
+    return complete(next);
+  };
+
+  for (let round = 0; round < REFINE_ROUNDS; round += 1) {
+    const candidates = markPareto([...seen.values()]);
+    const front = candidates.filter((candidate) => candidate.pareto);
+    const parents =
+      front.length > 0 ? front : [...candidates].sort((a, b) => a.violation - b.violation).slice(0, BATCH_SIZE);
+    await run(Array.from({ length: CHILDREN_PER_ROUND }, (_, idx) => nudge(parents[idx % parents.length].values)));
+  }
+
+  onProgress?.({ evaluated: SEARCH_BUDGET, total: SEARCH_BUDGET });
+  return { targets, candidates: markPareto([...seen.values()]) };
+};
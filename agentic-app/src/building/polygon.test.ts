@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { PlanPolygon } from "./polygon";
+import {
+  boundarySegments,
+  clipSegment,
+  insetConvex,
+  intersectConvex,
+  piecesArea,
+  polygonArea,
+  rectPolygon,
+  subtractRect,
+} from "./polygon";
+
+const square = (size: number, x = 0, y = 0): PlanPolygon => rectPolygon({ min: [x, y], max: [x + size, y + size] });
+
+describe("polygon", () => {
+  it("intersects convex polygons and cuts rectangles out of them", () => {
+    assert.equal(polygonArea(intersectConvex(square(10), square(10, 5, 5))), 25);
+    assert.deepEqual(intersectConvex(square(10), square(10, 20, 0)), []);
+    const pieces = subtractRect(square(10), { min: [2, 2], max: [6, 6] });
+    assert.equal(pieces.length, 4);
+    assert.equal(piecesArea(pieces), 100 - 16);
+  });
+
+  it("insets each edge by its own distance", () => {
+    assert.equal(polygonArea(insetConvex(square(10), [1, 2, 1, 2])), 6 * 8);
+    assert.deepEqual(insetConvex(square(10), [6, 0, 6, 0]), []);
+  });
+
+  it("keeps the stretches of a segment inside the pieces", () => {
+    const pieces = [square(10), square(10, 20, 0)];
+    assert.deepEqual(clipSegment({ from: [-5, 5], to: [35, 5] }, pieces), [
+      { from: [0, 5], to: [10, 5] },
+      { from: [20, 5], to: [30, 5] },
+    ]);
+  });
+
+  it("drops the edges two pieces share from the boundary", () => {
+    const length = boundarySegments([square(10), square(10, 10, 0)]).reduce(
+      (sum, { from, to }) => sum + Math.hypot(to[0] - from[0], to[1] - from[1]),
+      0,
+    );
+    assert.equal(length, 60);
+  });
+});
@@ -0,0 +1,199 @@
+import type { PlanPoint, PlanRect } from "./floorplan";
+
+// Plan shapes are unions of convex, counter-clockwise polygons that do not
+// overlap; edges shared between two pieces are internal.
+export type PlanPolygon = PlanPoint[];
+
+export type PlanSegment = { from: PlanPoint; to: PlanPoint };
+
+const EPSILON = 1e-6;
+
+export const rectPolygon = ({ min, max }: PlanRect): PlanPolygon => [
+  [min[0], min[1]],
+  [max[0], min[1]],
+  [max[0], max[1]],
+  [min[0], max[1]],
+];
+
+export const polygonArea = (points: PlanPolygon) => Math.abs(signedArea(points));
+
+export const signedArea = (points: PlanPolygon) => {
+  let twice = 0;
+  points.forEach(([x1, y1], idx) => {
+    const [x2, y2] = points[(idx + 1) % points.length];
+    twice += x1 * y2 - x2 * y1;
+  });
+  return twice / 2;
+};
+
+export const isConvex = (points: PlanPolygon) => {
+  const winding = Math.sign(signedArea(points));
+  return points.every(([x1, y1], idx) => {
+    const [x2, y2] = points[(idx + 1) % points.length];
+    const [x3, y3] = points[(idx + 2) % points.length];
+    return winding * ((x2 - x1) * (y3 - y2) - (y2 - y1) * (x3 - x2)) >= -EPSILON;
+  });
+};
+
+export const polygonBounds = (points: PlanPolygon): PlanRect => ({
+  min: [Math.min(...points.map((point) => point[0])), Math.min(...points.map((point) => point[1]))],
+  max: [Math.max(...points.map((point) => point[0])), Math.max(...points.map((point) => point[1]))],
+});
+
+export const piecesArea = (pieces: PlanPolygon[]) => pieces.reduce((sum, piece) => sum + polygonArea(piece), 0);
+
+export const rotatePoint = ([x, y]: PlanPoint, angle: number): PlanPoint =>
+  angle === 0 ? [x, y] : [x * Math.cos(angle) - y * Math.sin(angle), x * Math.sin(angle) + y * Math.cos(angle)];
+
+// Keeps the part of a convex polygon where normal · point <= offset.
+const clipHalfPlane = (points: PlanPolygon, normal: PlanPoint, offset: number): PlanPolygon => {
+  const distance = ([x, y]: PlanPoint) => normal[0] * x + normal[1] * y - offset;
+  const clipped: PlanPolygon = [];
+  points.forEach((current, idx) => {
+    const next = points[(idx + 1) % points.length];
+    const [a, b] = [distance(current), distance(next)];
+    if (a <= EPSILON) {
+      clipped.push(current);
+    }
+    if ((a < -EPSILON && b > EPSILON) || (a > EPSILON && b < -EPSILON)) {
+      const t = a / (a - b);
+      clipped.push([current[0] + (next[0] - current[0]) * t, current[1] + (next[1] - current[1]) * t]);
+    }
+  });
+  return clipped.length >= 3 && polygonArea(clipped) > EPSILON ? clipped : [];
+};
+
+export const intersectConvex = (subject: PlanPolygon, clip: PlanPolygon): PlanPolygon =>
+  clip.reduce((remaining, start, idx) => {
+    if (remaining.length === 0) {
+      return remaining;
+    }
+    const end = clip[(idx + 1) % clip.length];
+    const normal: PlanPoint = [end[1] - start[1], start[0] - end[0]];
+    return clipHalfPlane(remaining, normal, normal[0] * start[0] + normal[1] * start[1]);
+  }, subject);
+
+// Moves each edge of a convex polygon of either winding inwards by its own
+// distance. The result runs counter-clockwise and is empty once the edges
+// pass each other.
+export const insetConvex = (points: PlanPolygon, distances: number[]): PlanPolygon => {
+  const winding = signedArea(points) < 0 ? -1 : 1;
+  const subject = winding > 0 ? points : [...points].reverse();
+  return points.reduce((remaining, start, idx) => {
+    const end = points[(idx + 1) % points.length];
+    const length = Math.hypot(end[0] - start[0], end[1] - start[1]);
+    if (remaining.length === 0 || length < EPSILON) {
+      return remaining;
+    }
+    const normal: PlanPoint = [(winding * (end[1] - start[1])) / length, (winding * (start[0] - end[0])) / length];
+    return clipHalfPlane(remaining, normal, normal[0] * start[0] + normal[1] * start[1] - (distances[idx] ?? 0));
+  }, subject);
+};
+
+// The parts of a convex polygon outside a rectangle, as up to four convex
+// pieces: left and right of it, then below and above it.
+export const subtractRect = (points: PlanPolygon, rect: PlanRect): PlanPolygon[] => {
+  if (intersectConvex(points, rectPolygon(rect)).length === 0) {
+    return [points];
+  }
+  const middle = clipHalfPlane(clipHalfPlane(points, [-1, 0], -rect.min[0]), [1, 0], rect.max[0]);
+  return [
+    clipHalfPlane(points, [1, 0], rect.min[0]),
+    clipHalfPlane(points, [-1, 0], -rect.max[0]),
+    middle.length > 0 ? clipHalfPlane(middle, [0, 1], rect.min[1]) : [],
+    middle.length > 0 ? clipHalfPlane(middle, [0, -1], -rect.max[1]) : [],
+  ].filter((piece) => piece.length > 0);
+};
+
+export const pointInPieces = ([x, y]: PlanPoint, pieces: PlanPolygon[], margin = 0) =>
+  pieces.some((piece) =>
+    piece.every(([x1, y1], idx) => {
+      const [x2, y2] = piece[(idx + 1) % piece.length];
+      const length = Math.hypot(x2 - x1, y2 - y1);
+      return (x2 - x1) * (y - y1) - (y2 - y1) * (x - x1) >= (margin - EPSILON) * length;
+    }),
+  );
+
+// The stretches of a segment that lie inside any of the pieces.
+export const clipSegment = ({ from, to }: PlanSegment, pieces: PlanPolygon[]): PlanSegment[] => {
+  const delta: PlanPoint = [to[0] - from[0], to[1] - from[1]];
+  const spans = pieces
+    .map((piece) => {
+      let [start, end] = [0, 1];
+      piece.forEach((a, idx) => {
+        const b = piece[(idx + 1) % piece.length];
+        const normal: PlanPoint = [b[1] - a[1], a[0] - b[0]];
+        const limit = normal[0] * (a[0] - from[0]) + normal[1] * (a[1] - from[1]);
+        const rate = normal[0] * delta[0] + normal[1] * delta[1];
+        if (Math.abs(rate) < EPSILON) {
+          end = limit < -EPSILON ? -1 : end;
+        } else if (rate > 0) {
+          end = Math.min(end, limit / rate);
+        } else {
+          start = Math.max(start, limit / rate);
+        }
+      });
+      return [start, end];
+    })
+    .filter(([start, end]) => end - start > EPSILON)
+    .sort((a, b) => a[0] - b[0]);
+  const merged: number[][] = [];
+  spans.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + EPSILON) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+  const point = (t: number): PlanPoint => [from[0] + delta[0] * t, from[1] + delta[1] * t];
+  return merged.map(([start, end]) => ({
+    from: start <= EPSILON ? from : point(start),
+    to: end >= 1 - EPSILON ? to : point(end),
+  }));
+};
+
+// The outer edges of a set of pieces: every piece edge minus the stretches a
+// neighbouring piece runs along in the opposite direction. Edges keep their
+// counter-clockwise direction, so the outside is always on their right.
+export const boundarySegments = (pieces: PlanPolygon[]): PlanSegment[] => {
+  const edges = pieces.flatMap((piece, pieceIdx) =>
+    piece.map((from, idx) => ({ pieceIdx, from, to: piece[(idx + 1) % piece.length] })),
+  );
+  return edges.flatMap(({ pieceIdx, from, to }) => {
+    const length = Math.hypot(to[0] - from[0], to[1] - from[1]);
+    if (length < EPSILON) {
+      return [];
+    }
+    const dir: PlanPoint = [(to[0] - from[0]) / length, (to[1] - from[1]) / length];
+    const along = ([x, y]: PlanPoint) => (x - from[0]) * dir[0] + (y - from[1]) * dir[1];
+    const offLine = ([x, y]: PlanPoint) => Math.abs((x - from[0]) * dir[1] - (y - from[1]) * dir[0]);
+    const covered = edges
+      .filter(
+        (other) =>
+          other.pieceIdx !== pieceIdx &&
+          offLine(other.from) < EPSILON &&
+          offLine(other.to) < EPSILON &&
+          along(other.to) < along(other.from),
+      )
+      .map((other) => [Math.max(0, along(other.to)), Math.min(length, along(other.from))])
+      .filter(([start, end]) => end - start > EPSILON)
+      .sort((a, b) => a[0] - b[0]);
+    if (covered.length === 0) {
+      return [{ from, to }];
+    }
+    const point = (offset: number): PlanPoint => [from[0] + dir[0] * offset, from[1] + dir[1] * offset];
+    const open: PlanSegment[] = [];
+    let cursor = 0;
+    covered.forEach(([start, end]) => {
+      if (start - cursor > EPSILON) {
+        open.push({ from: cursor === 0 ? from : point(cursor), to: point(start) });
+      }
+      cursor = Math.max(cursor, end);
+    });
+    if (length - cursor > EPSILON) {
+      open.push({ from: point(cursor), to });
+    }
+    return open;
+  });
+};
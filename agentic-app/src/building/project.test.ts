@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig, defaultSite } from "./defaults";
+import {
+  PROJECT_SCHEMA_VERSION,
+  ProjectFileError,
+  parseProject,
+  serializeProject,
+  validateConfigUpdates,
+} from "./project";
+import type { BuildingConfig, SiteBuilding } from "./types";
+
+const tower = (config: BuildingConfig): SiteBuilding => ({
+  id: "b1",
+  name: "East tower",
+  config,
+  position: [40, 0],
+  rotation: 15,
+});
+
+// A current file with a snapshot and a site tower, written back as an older
+// version by dropping the settings that version did not have yet.
+const olderFile = (version: number, fields: (keyof BuildingConfig)[]) => {
+  const file = JSON.parse(
+    serializeProject({
+      config: defaultConfig,
+      aiSummary: [],
+      snapshots: [{ id: "s1", name: "Pinned", createdAt: "2026-01-01T00:00:00.000Z", config: defaultConfig }],
+      site: { ...defaultSite, buildings: [tower({ ...defaultConfig, floors: 12 })] },
+    }),
+  );
+  const strip = (config: Record<string, unknown>) => fields.forEach((field) => delete config[field]);
+  strip(file.config);
+  file.snapshots.forEach((snapshot: { config: Record<string, unknown> }) => strip(snapshot.config));
+  file.site.buildings.forEach((building: { config: Record<string, unknown> }) => strip(building.config));
+  return JSON.stringify({ ...file, version });
+};
+
+describe("parseProject", () => {
+  it("round-trips a current project", () => {
+    const text = serializeProject({
+      config: defaultConfig,
+      aiSummary: ["Raised height."],
+      snapshots: [],
+      site: defaultSite,
+    });
+    const project = parseProject(text);
+    assert.equal(project.version, PROJECT_SCHEMA_VERSION);
+    assert.deepEqual(project.config, defaultConfig);
+    assert.deepEqual(project.aiSummary, ["Raised height."]);
+  });
+
+  it("adds the plot and sun study to every site tower of a version 7 file", () => {
+    const project = parseProject(olderFile(7, ["plot", "sunStudy"]));
+    assert.equal(project.site.buildings.length, 1);
+    assert.deepEqual(project.site.buildings[0].config.plot, defaultConfig.plot);
+    assert.deepEqual(project.site.buildings[0].config.sunStudy, defaultConfig.sunStudy);
+    assert.equal(project.site.buildings[0].config.floors, 12);
+    assert.deepEqual(project.snapshots[0].config.plot, defaultConfig.plot);
+  });
+
+  it("adds the sun study to every site tower of a version 8 file", () => {
+    const project = parseProject(olderFile(8, ["sunStudy"]));
+    assert.deepEqual(project.config.sunStudy, defaultConfig.sunStudy);
+    assert.deepEqual(project.site.buildings[0].config.sunStudy, defaultConfig.sunStudy);
+  });
+
+  it("holds imported numbers to the editor's limits", () => {
+    const file = JSON.parse(olderFile(PROJECT_SCHEMA_VERSION, []));
+    file.config = { ...file.config, floors: 100000, width: -5, unitsPerFloor: 7.6 };
+    file.site.buildings[0].config.depth = 500;
+    const project = parseProject(JSON.stringify(file));
+    assert.equal(project.config.floors, 80);
+    assert.equal(project.config.width, 12);
+    assert.equal(project.config.unitsPerFloor, 8);
+    assert.equal(project.site.buildings[0].config.depth, 120);
+  });
+
+  it("rejects numbers written as text", () => {
+    const file = JSON.parse(olderFile(PROJECT_SCHEMA_VERSION, []));
+    file.config.floors = "12";
+    assert.throws(() => parseProject(JSON.stringify(file)), ProjectFileError);
+  });
+
+  it("rejects files newer than the app", () => {
+    const text = JSON.stringify({ ...JSON.parse(olderFile(PROJECT_SCHEMA_VERSION, [])), version: 99 });
+    assert.throws(() => parseProject(text), ProjectFileError);
+  });
+});
+
+describe("validateConfigUpdates", () => {
+  it("clamps numbers to the editor's limits and rounds counts", () => {
+    assert.deepEqual(validateConfigUpdates({ floors: 100000, width: -5, maxWindowWallRatio: 4, podiumLevels: 2.5 }), {
+      floors: 80,
+      width: 12,
+      maxWindowWallRatio: 1,
+      podiumLevels: 3,
+    });
+  });
+
+  it("keeps values inside the limits and drops unknown keys", () => {
+    assert.deepEqual(validateConfigUpdates({ floors: 24, twistPerFloor: -2.5, elevators: 6 }), {
+      floors: 24,
+      twistPerFloor: -2.5,
+    });
+  });
+
+  it("rejects values of the wrong type", () => {
+    assert.throws(() => validateConfigUpdates({ floors: "many" }), ProjectFileError);
+    assert.throws(() => validateConfigUpdates({ depth: Number.NaN }), ProjectFileError);
+  });
+});
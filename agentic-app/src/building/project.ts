@@ -0,0 +1,387 @@
+import { defaultConfig, defaultSite } from "./defaults";
+import { ZONE_USES } from "./levels";
+import { clamp } from "./math";
+import type {
+  BuildingConfig,
+  DesignSnapshot,
+  ProgramZone,
+  SiteBuilding,
+  SiteModel,
+  SitePlot,
+  SunStudy,
+} from "./types";
+
+export const PROJECT_FORMAT = "parametric-building-studio";
+export const PROJECT_SCHEMA_VERSION = 9;
+
+export type ProjectFile = {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  config: BuildingConfig;
+  aiSummary: string[];
+  snapshots: DesignSnapshot[];
+  site: SiteModel;
+};
+
+export type ProjectContents = Pick<ProjectFile, "config" | "aiSummary" | "snapshots" | "site">;
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectFileError";
+  }
+}
+
+type RawProject = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawProject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const mapEntries = (list: unknown, update: (config: RawProject) => RawProject) =>
+  Array.isArray(list)
+    ? list.map((entry) => (isRecord(entry) && isRecord(entry.config) ? { ...entry, config: update(entry.config) } : entry))
+    : list;
+
+// Applies a config upgrade to the working config, every pinned snapshot and
+// every tower on the site.
+const mapConfigs = (raw: RawProject, update: (config: RawProject) => RawProject): RawProject => ({
+  ...raw,
+  config: isRecord(raw.config) ? update(raw.config) : raw.config,
+  snapshots: mapEntries(raw.snapshots, update),
+  site: isRecord(raw.site) ? { ...raw.site, buildings: mapEntries(raw.site.buildings, update) } : raw.site,
+});
+
+// Keyed by the version a migration upgrades from; each step returns the file
+// at `version + 1`. Add an entry here whenever PROJECT_SCHEMA_VERSION is bumped.
+const MIGRATIONS: Record<number, (raw: RawProject) => RawProject> = {
+  1: (raw) => ({ ...raw, snapshots: [] }),
+  2: (raw) => mapConfigs(raw, (config) => ({ ...config, siteArea: 3200 })),
+  3: (raw) => mapConfigs(raw, (config) => ({ ...config, maxWindowWallRatio: 0.4 })),
+  4: (raw) =>
+    mapConfigs(raw, (config) => ({
+      ...config,
+      planShape: "rectangle",
+      cutoutRatio: 0.4,
+      cornerStyle: "square",
+      cornerSize: 2,
+      heightProfile: "straight",
+      topScale: 0.7,
+      setbackInterval: 6,
+      twistPerFloor: 0,
+    })),
+  5: (raw) => mapConfigs(raw, (config) => ({ ...config, zones: [] })),
+  6: (raw) => ({ ...raw, site: defaultSite }),
+  7: (raw) => mapConfigs(raw, (config) => ({ ...config, plot: defaultConfig.plot })),
+  8: (raw) => mapConfigs(raw, (config) => ({ ...config, sunStudy: defaultConfig.sunStudy })),
+};
+
+export const ENUM_FIELDS: Partial<Record<keyof BuildingConfig, string[]>> = {
+  facadePattern: ["grid", "stacked", "offset"],
+  balconyFrequency: ["none", "alternate", "every", "corners"],
+  roofStyle: ["flat", "pitched", "sawtooth"],
+  planShape: ["rectangle", "l-shape", "u-shape", "courtyard"],
+  cornerStyle: ["square", "chamfered", "rounded"],
+  heightProfile: ["straight", "taper", "stepped"],
+};
+
+// The editor's own control limits. Values from outside the editor, such as an
+// imported file or a language model's design move, are held to them.
+export const FIELD_RANGES: Partial<Record<keyof BuildingConfig, [number, number]>> = {
+  floors: [3, 80],
+  floorHeight: [2.7, 8],
+  lobbyHeight: [3, 12],
+  width: [12, 120],
+  depth: [12, 120],
+  cutoutRatio: [0.1, 0.8],
+  cornerSize: [0, 10],
+  topScale: [0.3, 1],
+  setbackInterval: [1, 40],
+  twistPerFloor: [-10, 10],
+  siteArea: [0, Infinity],
+  coreWidth: [4, 20],
+  coreDepth: [4, 20],
+  baseHeight: [0, 6],
+  structuralGrid: [4, 12],
+  unitsPerFloor: [2, 40],
+  windowModule: [2, 6],
+  windowWidth: [1, 5],
+  windowHeight: [1.5, 4.5],
+  spandrelHeight: [0.2, 2],
+  maxWindowWallRatio: [0.1, 1],
+  balconyDepth: [0, 4],
+  podiumLevels: [1, 6],
+  podiumSetback: [0, 12],
+};
+
+// Counts the editor steps through one at a time.
+export const WHOLE_FIELDS: (keyof BuildingConfig)[] = ["floors", "setbackInterval", "unitsPerFloor", "podiumLevels"];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const validateColors = (raw: unknown): BuildingConfig["colors"] => {
+  if (!isRecord(raw)) {
+    throw new ProjectFileError("config.colors must be an object of hex colours.");
+  }
+  const colors = { ...defaultConfig.colors };
+  (Object.keys(colors) as (keyof BuildingConfig["colors"])[]).forEach((key) => {
+    const value = raw[key];
+    if (typeof value !== "string" || !HEX_COLOR.test(value)) {
+      throw new ProjectFileError(`config.colors.${key} must be a hex colour like #4d5c6f.`);
+    }
+    colors[key] = value;
+  });
+  return colors;
+};
+
+const ZONE_NUMBERS = ["fromFloor", "toFloor", "floorHeight", "unitsPerFloor"] as const;
+
+const validateZones = (raw: unknown): ProgramZone[] => {
+  if (!Array.isArray(raw)) {
+    throw new ProjectFileError("config.zones must be a list.");
+  }
+  return raw.map((entry, index) => {
+    if (!isRecord(entry)) {
+      throw new ProjectFileError(`config.zones[${index}] must be an object.`);
+    }
+    if (!(ZONE_USES as string[]).includes(entry.use as string)) {
+      throw new ProjectFileError(`config.zones[${index}].use must be one of ${ZONE_USES.join(", ")}.`);
+    }
+    ZONE_NUMBERS.forEach((key) => {
+      if (typeof entry[key] !== "number" || !Number.isFinite(entry[key])) {
+        throw new ProjectFileError(`config.zones[${index}].${key} must be a number.`);
+      }
+    });
+    const balconies = ENUM_FIELDS.balconyFrequency ?? [];
+    if (!balconies.includes(entry.balconyFrequency as string)) {
+      throw new ProjectFileError(`config.zones[${index}].balconyFrequency must be one of ${balconies.join(", ")}.`);
+    }
+    return {
+      use: entry.use,
+      fromFloor: entry.fromFloor,
+      toFloor: entry.toFloor,
+      floorHeight: entry.floorHeight,
+      unitsPerFloor: entry.unitsPerFloor,
+      balconyFrequency: entry.balconyFrequency,
+    } as ProgramZone;
+  });
+};
+
+const isNumberList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === "number" && Number.isFinite(entry));
+
+const PLOT_LIMITS = ["maxHeight", "maxFloorAreaRatio", "maxCoverage"] as const;
+
+const validatePlot = (raw: unknown): SitePlot => {
+  if (!isRecord(raw)) {
+    throw new ProjectFileError("config.plot must be an object.");
+  }
+  const { boundary, setbacks } = raw;
+  if (!Array.isArray(boundary) || boundary.some((point) => !isNumberList(point) || point.length !== 2)) {
+    throw new ProjectFileError("config.plot.boundary must be a list of [x, y] points.");
+  }
+  if (!isNumberList(setbacks) || setbacks.length !== boundary.length) {
+    throw new ProjectFileError("config.plot.setbacks needs one number per boundary point.");
+  }
+  PLOT_LIMITS.forEach((key) => {
+    if (typeof raw[key] !== "number" || !Number.isFinite(raw[key])) {
+      throw new ProjectFileError(`config.plot.${key} must be a number.`);
+    }
+  });
+  return {
+    boundary: boundary.map((point): [number, number] => [point[0], point[1]]),
+    setbacks,
+    maxHeight: raw.maxHeight as number,
+    maxFloorAreaRatio: raw.maxFloorAreaRatio as number,
+    maxCoverage: raw.maxCoverage as number,
+  };
+};
+
+const SUN_NUMBERS = ["latitude", "longitude", "utcOffset", "startHour", "endHour"] as const;
+
+const validateSunStudy = (raw: unknown): SunStudy => {
+  if (!isRecord(raw)) {
+    throw new ProjectFileError("config.sunStudy must be an object.");
+  }
+  SUN_NUMBERS.forEach((key) => {
+    if (typeof raw[key] !== "number" || !Number.isFinite(raw[key])) {
+      throw new ProjectFileError(`config.sunStudy.${key} must be a number.`);
+    }
+  });
+  if (typeof raw.date !== "string") {
+    throw new ProjectFileError("config.sunStudy.date must be a date like 2026-06-21.");
+  }
+  return {
+    latitude: raw.latitude as number,
+    longitude: raw.longitude as number,
+    utcOffset: raw.utcOffset as number,
+    date: raw.date,
+    startHour: raw.startHour as number,
+    endHour: raw.endHour as number,
+  };
+};
+
+const validateField = (key: keyof BuildingConfig, value: unknown): unknown => {
+  if (key === "colors") {
+    return validateColors(value);
+  }
+  if (key === "zones") {
+    return validateZones(value);
+  }
+  if (key === "plot") {
+    return validatePlot(value);
+  }
+  if (key === "sunStudy") {
+    return validateSunStudy(value);
+  }
+  const expected = typeof defaultConfig[key];
+  if (typeof value !== expected || (expected === "number" && !Number.isFinite(value))) {
+    throw new ProjectFileError(`config.${key} must be a ${expected}.`);
+  }
+  const options = ENUM_FIELDS[key];
+  if (options && !options.includes(value as string)) {
+    throw new ProjectFileError(`config.${key} must be one of ${options.join(", ")}.`);
+  }
+  // Numbers are held to the editor's limits rather than rejected, so a design
+  // saved with a value typed past a control's limit still opens.
+  const range = FIELD_RANGES[key];
+  if (range) {
+    const held = clamp(value as number, range[0], range[1]);
+    return WHOLE_FIELDS.includes(key) ? Math.round(held) : held;
+  }
+  return value;
+};
+
+const validateConfig = (raw: unknown): BuildingConfig => {
+  if (!isRecord(raw)) {
+    throw new ProjectFileError("Project file has no config object.");
+  }
+  const config: Record<string, unknown> = {};
+  (Object.keys(defaultConfig) as (keyof BuildingConfig)[]).forEach((key) => {
+    config[key] = validateField(key, raw[key]);
+  });
+  return config as BuildingConfig;
+};
+
+// The same checks for a partial config from outside the app, such as a
+// language model's design move. Unknown keys are dropped.
+export const validateConfigUpdates = (raw: unknown): Partial<BuildingConfig> => {
+  if (!isRecord(raw)) {
+    throw new ProjectFileError("Config updates must be an object.");
+  }
+  const updates: Record<string, unknown> = {};
+  (Object.keys(defaultConfig) as (keyof BuildingConfig)[]).forEach((key) => {
+    if (raw[key] !== undefined) {
+      updates[key] = validateField(key, raw[key]);
+    }
+  });
+  return updates as Partial<BuildingConfig>;
+};
+
+const validateSnapshots = (raw: unknown): DesignSnapshot[] => {
+  if (!Array.isArray(raw)) {
+    throw new ProjectFileError("snapshots must be a list.");
+  }
+  return raw.map((entry, index) => {
+    if (!isRecord(entry) || typeof entry.id !== "string" || typeof entry.name !== "string") {
+      throw new ProjectFileError(`snapshots[${index}] needs an id and a name.`);
+    }
+    return {
+      id: entry.id,
+      name: entry.name,
+      createdAt: typeof entry.createdAt === "string" ? entry.createdAt : new Date(0).toISOString(),
+      config: validateConfig(entry.config),
+    };
+  });
+};
+
+const validateSite = (raw: unknown): SiteModel => {
+  if (!isRecord(raw) || !Array.isArray(raw.buildings) || typeof raw.sharedPodium !== "boolean") {
+    throw new ProjectFileError("site needs a list of buildings and a sharedPodium flag.");
+  }
+  const buildings = raw.buildings.map((entry, index): SiteBuilding => {
+    if (!isRecord(entry) || typeof entry.id !== "string" || typeof entry.name !== "string") {
+      throw new ProjectFileError(`site.buildings[${index}] needs an id and a name.`);
+    }
+    const { position, rotation } = entry;
+    if (
+      !Array.isArray(position) ||
+      position.length !== 2 ||
+      position.some((value) => typeof value !== "number" || !Number.isFinite(value))
+    ) {
+      throw new ProjectFileError(`site.buildings[${index}].position must be an [x, y] pair of numbers.`);
+    }
+    if (typeof rotation !== "number" || !Number.isFinite(rotation)) {
+      throw new ProjectFileError(`site.buildings[${index}].rotation must be a number.`);
+    }
+    return {
+      id: entry.id,
+      name: entry.name,
+      config: validateConfig(entry.config),
+      position: [position[0], position[1]],
+      rotation,
+    };
+  });
+  return { buildings, sharedPodium: raw.sharedPodium };
+};
+
+const migrate = (raw: RawProject, version: number) => {
+  let current = raw;
+  for (let step = version; step < PROJECT_SCHEMA_VERSION; step += 1) {
+    const migration = MIGRATIONS[step];
+    if (!migration) {
+      throw new ProjectFileError(`Schema version ${version} is no longer supported and cannot be migrated.`);
+    }
+    current = migration(current);
+  }
+  return current;
+};
+
+export const serializeProject = ({ config, aiSummary, snapshots, site }: ProjectContents) => {
+  const project: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    config,
+    aiSummary,
+    snapshots,
+    site,
+  };
+  return JSON.stringify(project, null, 2);
+};
+
+export const parseProject = (text: string): ProjectFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError("File is not valid JSON.");
+  }
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError("File is not a Parametric Building Studio project.");
+  }
+  const version = raw.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw new ProjectFileError("Project file is missing a schema version.");
+  }
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new ProjectFileError(
+      `Project uses schema version ${version}, newer than this app supports (${PROJECT_SCHEMA_VERSION}).`,
+    );
+  }
+
+  const migrated = migrate(raw, version);
+  const aiSummary = migrated.aiSummary ?? [];
+  if (!Array.isArray(aiSummary) || aiSummary.some((entry) => typeof entry !== "string")) {
+    throw new ProjectFileError("aiSummary must be a list of strings.");
+  }
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_SCHEMA_VERSION,
+    savedAt: typeof migrated.savedAt === "string" ? migrated.savedAt : new Date(0).toISOString(),
+    config: validateConfig(migrated.config),
+    aiSummary,
+    snapshots: validateSnapshots(migrated.snapshots),
+    site: validateSite(migrated.site),
+  };
+};
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "./defaults";
+import { buildScene } from "./scene";
+import type { BuildingConfig, FacadePattern } from "./types";
+
+// A 32 m front in 4 m modules, each with a 2 m window.
+const facade: BuildingConfig = {
+  ...defaultConfig,
+  width: 32,
+  windowModule: 4,
+  windowWidth: 2,
+  includePodium: false,
+  hasAtrium: false,
+};
+
+// Front windows on one level, left to right: where each sits and how wide it is.
+const frontWindows = (facadePattern: FacadePattern, level: number) =>
+  buildScene({ ...facade, facadePattern })
+    .elements.filter((element) => element.kind === "window" && element.side === "front" && element.level === level)
+    .map((element) => [Math.round(element.position[0] * 100) / 100, Math.round(element.size[0] * 100) / 100]);
+
+describe("buildScene windows", () => {
+  it("centres one window in every module for the grid pattern", () => {
+    assert.deepEqual(
+      frontWindows("grid", 2),
+      Array.from({ length: 8 }, (_, idx) => [-14 + idx * 4, 2]),
+    );
+  });
+
+  it("pairs narrow windows either side of a mullion for the stacked pattern", () => {
+    const windows = frontWindows("stacked", 2);
+    assert.equal(windows.length, 16);
+    assert.deepEqual(windows.slice(0, 2), [
+      [-14.55, 0.9],
+      [-13.45, 0.9],
+    ]);
+  });
+
+  it("shifts alternate levels by half a module for the offset pattern", () => {
+    assert.deepEqual(frontWindows("offset", 2), frontWindows("grid", 2));
+    assert.deepEqual(
+      frontWindows("offset", 3),
+      Array.from({ length: 7 }, (_, idx) => [-12 + idx * 4, 2]),
+    );
+  });
+});
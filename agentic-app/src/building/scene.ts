@@ -0,0 +1,645 @@
+import { buildableArea, hasPlot } from "./envelope";
+import type { PlanPoint } from "./floorplan";
+import { layoutFloorPlan } from "./floorplan";
+import type { LevelFootprint } from "./footprint";
+import { coreCentre, footprintToWorld, isRectangularMassing, levelFootprint } from "./footprint";
+import type { Level } from "./levels";
+import {
+  ZONE_USES,
+  balconiesAt,
+  buildLevelStack,
+  levelAt,
+  towerTop,
+  zoneAt,
+  zoneUseLabel,
+  zoneWindowHeight,
+} from "./levels";
+import type { Vec3 } from "./math";
+import { degrees } from "./math";
+import type { PlanPolygon } from "./polygon";
+import { pointInPieces, polygonBounds } from "./polygon";
+import { COLUMN_SIZE, TRANSFER_DEPTH, layoutStructure } from "./structure";
+import type { BuildingConfig, ZoneUse } from "./types";
+
+export type MaterialSlot =
+  | "base"
+  | "accent"
+  | "glazing"
+  | "balcony"
+  | "roof"
+  | "ground"
+  | "garden"
+  | "structure"
+  | "partition"
+  | "plot"
+  | "zoning"
+  | ZoneUse;
+
+export type ElementKind =
+  | "site"
+  | "core"
+  | "floor"
+  | "window"
+  | "balcony"
+  | "lightShelf"
+  | "podium"
+  | "column"
+  | "beam"
+  | "partition"
+  | "roof"
+  | "solar"
+  | "garden"
+  | "zoning"
+  | "void";
+
+export type ElementShape = "box" | "plane" | "grid" | "prism";
+
+export type FacadeSide = "front" | "back" | "left" | "right";
+
+export type SceneElement = {
+  name: string;
+  kind: ElementKind;
+  shape: ElementShape;
+  material: MaterialSlot | null;
+  size: Vec3;
+  position: Vec3;
+  rotation: Vec3;
+  level?: number;
+  side?: FacadeSide;
+  parent?: string;
+  subdivisions?: number;
+  bevel?: { width: number; segments: number };
+  cutBy?: string[];
+  hidden?: boolean;
+  // Prisms extrude these convex plan pieces through the element's height
+  // (size[2]); size[0] and size[1] only record the plan's bounding box.
+  profile?: PlanPolygon[];
+  // Reference outlines (the plot and its zoning envelope) are drawn as edges
+  // in the preview and as wireframes in Blender, and left out of exports.
+  wireframe?: boolean;
+};
+
+export type SceneMaterial = {
+  name: string;
+  color: string;
+};
+
+export type BuildingScene = {
+  projectName: string;
+  elements: SceneElement[];
+  materials: Record<MaterialSlot, SceneMaterial>;
+  height: number;
+  extent: number;
+};
+
+export const FACADE_SIDES: FacadeSide[] = ["front", "back", "left", "right"];
+
+export const ROOF_THICKNESS = 0.8;
+
+// Zoned floor plates take their program's colour in place of the facade base.
+export const ZONE_COLORS: Record<ZoneUse, string> = {
+  retail: "#d9a35f",
+  office: "#6f8fb3",
+  residential: "#8fae7e",
+  amenity: "#b58cc2",
+};
+
+const NO_ROTATION: Vec3 = [0, 0, 0];
+
+const EPSILON = 1e-9;
+
+const box = (
+  name: string,
+  kind: ElementKind,
+  material: MaterialSlot | null,
+  size: Vec3,
+  position: Vec3,
+  extra: Partial<SceneElement> = {},
+): SceneElement => ({
+  name,
+  kind,
+  shape: "box",
+  material,
+  size,
+  position,
+  rotation: NO_ROTATION,
+  ...extra,
+});
+
+const pad = (value: number, length: number) => String(value).padStart(length, "0");
+
+export const sceneMaterials = (config: BuildingConfig): Record<MaterialSlot, SceneMaterial> => ({
+  base: { name: "Facade_Base", color: config.colors.base },
+  accent: { name: "Facade_Accent", color: config.colors.accent },
+  glazing: { name: "Facade_Glass", color: config.colors.glazing },
+  balcony: { name: "Balcony_Frame", color: config.colors.balcony },
+  roof: { name: "Roof_Finish", color: config.colors.roof },
+  ground: { name: "GroundPlane", color: "#1f1f1f" },
+  garden: { name: "RooftopGarden", color: "#2e522e" },
+  structure: { name: "Structure_Concrete", color: "#9aa1ab" },
+  partition: { name: "Interior_Partition", color: "#ddd6c8" },
+  plot: { name: "Site_Plot", color: "#f2c14e" },
+  zoning: { name: "Zoning_Envelope", color: "#f0643c" },
+  ...(Object.fromEntries(
+    ZONE_USES.map((use) => [use, { name: `Zone_${zoneUseLabel(use)}`, color: ZONE_COLORS[use] }]),
+  ) as Record<ZoneUse, SceneMaterial>),
+});
+
+// The grid also reaches the furthest corner of the plot, when one is drawn.
+const siteExtent = (config: BuildingConfig) =>
+  Math.max(
+    Math.max(config.width, config.depth) + (config.includePodium ? config.podiumSetback * 2 : 0),
+    ...(hasPlot(config) ? config.plot.boundary.map(([x, y]) => Math.max(Math.abs(x), Math.abs(y))) : []),
+  );
+
+const createSiteGrid = (config: BuildingConfig): SceneElement => {
+  const size = siteExtent(config) * 2;
+  return {
+    name: `${config.projectName}::SiteGrid`,
+    kind: "site",
+    shape: "grid",
+    material: "ground",
+    size: [size, size, 0],
+    position: [0, 0, 0],
+    rotation: NO_ROTATION,
+    subdivisions: 12,
+  };
+};
+
+const outline = (
+  name: string,
+  kind: ElementKind,
+  material: MaterialSlot,
+  profile: PlanPolygon,
+  height: number,
+): SceneElement => {
+  const { min, max } = polygonBounds(profile);
+  return {
+    name,
+    kind,
+    shape: "prism",
+    material,
+    size: [max[0] - min[0], max[1] - min[1], height],
+    position: [0, 0, height / 2],
+    rotation: NO_ROTATION,
+    profile: [profile],
+    wireframe: true,
+  };
+};
+
+// The plot boundary on the ground and the buildable envelope rising to the
+// height limit, or to the roof where the plot sets none.
+const createPlot = (config: BuildingConfig, top: number): SceneElement[] => {
+  if (!hasPlot(config)) {
+    return [];
+  }
+  const envelope = buildableArea(config);
+  const height = config.plot.maxHeight > 0 ? config.plot.maxHeight : top + ROOF_THICKNESS;
+  return [
+    outline("Site_Plot", "site", "plot", config.plot.boundary, 0.05),
+    ...(envelope.length > 0 ? [outline("Zoning_Envelope", "zoning", "zoning", envelope, height)] : []),
+  ];
+};
+
+const createCore = (config: BuildingConfig): SceneElement => {
+  const height = towerTop(config) + config.baseHeight;
+  const [x, y] = coreCentre(config);
+  return box(
+    "VerticalCore",
+    "core",
+    "accent",
+    [config.coreWidth, config.coreDepth, height],
+    [x, y, height / 2],
+    { bevel: { width: 0.2, segments: 2 } },
+  );
+};
+
+const twist = (footprint: LevelFootprint): Vec3 => (footprint.rotation === 0 ? NO_ROTATION : [0, 0, footprint.rotation]);
+
+const createFloorPlate = (config: BuildingConfig, level: Level, footprint: LevelFootprint): SceneElement => {
+  const z = level.bottom + level.height / 2;
+  const material = zoneAt(config, level.index)?.use ?? "base";
+  if (isRectangularMassing(config)) {
+    return box(level.name, "floor", material, [config.width, config.depth, level.height], [0, 0, z], {
+      level: level.index,
+      cutBy: config.hasAtrium ? ["AtriumCut"] : undefined,
+    });
+  }
+  const { min, max } = footprint.bounds;
+  return {
+    name: level.name,
+    kind: "floor",
+    shape: "prism",
+    material,
+    size: [max[0] - min[0], max[1] - min[1], level.height],
+    position: [footprint.origin[0], footprint.origin[1], z],
+    rotation: twist(footprint),
+    level: level.index,
+    profile: footprint.solid,
+  };
+};
+
+export type Facade = {
+  side: FacadeSide;
+  centre: PlanPoint;
+  dir: PlanPoint;
+  normal: PlanPoint;
+  length: number;
+};
+
+// Facade edges in world space. Each faces the side its outward normal points
+// to and runs left to right along that side's axis, the way the rectangular
+// facades always have.
+export const levelFacades = (footprint: LevelFootprint): Facade[] =>
+  footprint.facades.map((segment) => {
+    const from = footprintToWorld(footprint, segment.from);
+    const to = footprintToWorld(footprint, segment.to);
+    const length = Math.hypot(to[0] - from[0], to[1] - from[1]);
+    const dir: PlanPoint = [(to[0] - from[0]) / length, (to[1] - from[1]) / length];
+    const normal: PlanPoint = [dir[1], -dir[0]];
+    const side: FacadeSide =
+      Math.abs(normal[0]) > Math.abs(normal[1])
+        ? normal[0] > 0
+          ? "right"
+          : "left"
+        : normal[1] > 0
+          ? "front"
+          : "back";
+    const flip = dir[side === "front" || side === "back" ? 0 : 1] < 0 ? -1 : 1;
+    return {
+      side,
+      centre: [(from[0] + to[0]) / 2, (from[1] + to[1]) / 2],
+      dir: [dir[0] * flip, dir[1] * flip],
+      normal,
+      length,
+    };
+  });
+
+// A box set `along` the facade from its centre and `out` from its face.
+// `size` is [along, out, up]; boxes on square facades stay unrotated.
+const onFacade = (
+  facade: Facade,
+  along: number,
+  out: number,
+  z: number,
+  [length, thickness, height]: Vec3,
+): Pick<SceneElement, "size" | "position" | "rotation"> => {
+  const { centre, dir, normal } = facade;
+  const position: Vec3 = [
+    centre[0] + dir[0] * along + normal[0] * out,
+    centre[1] + dir[1] * along + normal[1] * out,
+    z,
+  ];
+  if (Math.abs(dir[1]) < EPSILON) {
+    return { size: [length, thickness, height], position, rotation: NO_ROTATION };
+  }
+  if (Math.abs(dir[0]) < EPSILON) {
+    return { size: [thickness, length, height], position, rotation: NO_ROTATION };
+  }
+  return { size: [length, thickness, height], position, rotation: [0, 0, Math.atan2(dir[1], dir[0])] };
+};
+
+const PAIR_MULLION = 0.2;
+
+type WindowColumn = {
+  along: number;
+  width: number;
+};
+
+// grid: one window centred in every module.
+// stacked: each module holds a pair of narrow vertical windows split by a mullion.
+// offset: odd levels shift by half a module, dropping the window that would overhang the corner.
+const windowColumns = (config: BuildingConfig, level: Level, span: number): WindowColumn[] => {
+  const moduleWidth = Math.max(1, config.windowModule);
+  const repetitions = Math.max(1, Math.floor(span / moduleWidth));
+  const spread = span / repetitions;
+  if (config.facadePattern === "offset" && level.index % 2 === 1 && repetitions > 1) {
+    return Array.from({ length: repetitions - 1 }, (_, idx) => ({
+      along: -span / 2 + spread * (idx + 1),
+      width: config.windowWidth,
+    }));
+  }
+  const centres = Array.from({ length: repetitions }, (_, idx) => -span / 2 + spread * (idx + 0.5));
+  if (config.facadePattern === "stacked") {
+    const paneWidth = Math.max(0.2, (config.windowWidth - PAIR_MULLION) / 2);
+    return centres.flatMap((centre) =>
+      [-1, 1].map((sign) => ({ along: centre + (sign * (paneWidth + PAIR_MULLION)) / 2, width: paneWidth })),
+    );
+  }
+  return centres.map((along) => ({ along, width: config.windowWidth }));
+};
+
+// Zoned floors keep the typical spandrel and head, so taller floors get
+// taller glazing.
+const windowHeightAt = (config: BuildingConfig, level: Level) => {
+  const zone = zoneAt(config, level.index);
+  return zone ? zoneWindowHeight(config, zone) : config.windowHeight;
+};
+
+// Windows on a side are numbered left to right across all of its facade edges.
+// Edges too short for a single window stay blank.
+const addWindows = (config: BuildingConfig, level: Level, facades: Facade[], side: FacadeSide): SceneElement[] => {
+  const axis = side === "front" || side === "back" ? 0 : 1;
+  const windowHeight = windowHeightAt(config, level);
+  const z = level.bottom + config.spandrelHeight + windowHeight / 2;
+  return facades
+    .filter((facade) => facade.side === side && facade.length >= config.windowWidth)
+    .flatMap((facade) =>
+      windowColumns(config, level, facade.length).map(({ along, width }) =>
+        onFacade(facade, along, 0.02, z, [width, 0.1, windowHeight]),
+      ),
+    )
+    .sort((a, b) => a.position[axis] - b.position[axis])
+    .map((placement, idx) => ({
+      name: `Window_${side}_${pad(level.index + 1, 2)}_${pad(idx, 3)}`,
+      kind: "window",
+      shape: "box",
+      material: "glazing",
+      ...placement,
+      level: level.index,
+      side,
+      parent: level.name,
+    }));
+};
+
+const createBalconies = (config: BuildingConfig, level: Level, facades: Facade[]): SceneElement[] => {
+  const frequency = balconiesAt(config, level.index);
+  if (frequency === "none" || level.isLobby || config.balconyDepth <= 0.05) {
+    return [];
+  }
+  let numbered = 0;
+  return facades
+    .filter((facade) => facade.side === "front" && facade.length >= config.windowWidth)
+    .flatMap((facade) => {
+      const moduleCount = Math.max(3, Math.floor(facade.length / Math.max(1, config.windowModule)));
+      let columns: number[] = [];
+      let total = moduleCount;
+      if (frequency === "every" || (frequency === "alternate" && level.index % 2 === 0)) {
+        columns = Array.from({ length: moduleCount }, (_, idx) => idx);
+      } else if (frequency === "corners") {
+        total = Math.max(2, moduleCount);
+        columns = [0, total - 1];
+      }
+      const spacing = facade.length / total;
+      const first = numbered;
+      numbered += total;
+      return columns.map(
+        (col): SceneElement => ({
+          name: `Balcony_${pad(level.index + 1, 2)}_${pad(first + col, 2)}`,
+          kind: "balcony",
+          shape: "box",
+          material: "balcony",
+          ...onFacade(
+            facade,
+            -facade.length / 2 + spacing * (col + 0.5),
+            config.balconyDepth / 2,
+            level.bottom + level.height * 0.6,
+            [config.windowWidth, config.balconyDepth, level.height * 0.36],
+          ),
+          level: level.index,
+          side: "front",
+          bevel: { width: 0.08, segments: 2 },
+        }),
+      );
+    });
+};
+
+const createLightShelves = (config: BuildingConfig, level: Level, facades: Facade[]): SceneElement[] =>
+  config.includeLightShelves && level.index <= 6
+    ? facades
+        .filter((facade) => facade.side === "front")
+        .map((facade, idx) => ({
+          name: `LightShelf_${pad(level.index + 1, 2)}${idx > 0 ? `_${idx + 1}` : ""}`,
+          kind: "lightShelf",
+          shape: "box",
+          material: "accent",
+          ...onFacade(facade, 0, 0.3, level.bottom + level.height / 2 + windowHeightAt(config, level) / 2, [
+            facade.length,
+            0.5,
+            0.1,
+          ]),
+          level: level.index,
+          side: "front",
+        }))
+    : [];
+
+const createPodium = (config: BuildingConfig): SceneElement[] =>
+  Array.from({ length: config.includePodium ? config.podiumLevels : 0 }, (_, index) => {
+    const shrink = config.podiumSetback * index;
+    const level = levelAt(config, index);
+    return box(
+      `Podium_${index + 1}`,
+      "podium",
+      "accent",
+      [
+        config.width + config.podiumSetback * 2 - shrink,
+        config.depth + config.podiumSetback * 2 - shrink,
+        level.height,
+      ],
+      [0, 0, level.bottom + level.height / 2],
+      { level: index },
+    );
+  });
+
+const createStructure = (config: BuildingConfig): SceneElement[] => {
+  const { levels, columns, transfers } = layoutStructure(config);
+  const elements = columns.map((column) => {
+    const level = levels[column.level];
+    return box(
+      `Column_${pad(column.level + 1, 2)}_${column.label}`,
+      "column",
+      "structure",
+      [COLUMN_SIZE, COLUMN_SIZE, level.height],
+      [column.x, column.y, level.bottom + level.height / 2],
+      { level: column.level },
+    );
+  });
+  transfers.forEach((beam) => {
+    const dx = beam.to[0] - beam.from[0];
+    const dy = beam.to[1] - beam.from[1];
+    const length = Math.hypot(dx, dy) + COLUMN_SIZE;
+    const alongY = Math.abs(dx) < 1e-6;
+    elements.push(
+      box(
+        `Transfer_${pad(beam.level + 1, 2)}_${beam.label}`,
+        "beam",
+        "structure",
+        alongY ? [COLUMN_SIZE, length, TRANSFER_DEPTH] : [length, COLUMN_SIZE, TRANSFER_DEPTH],
+        [
+          (beam.from[0] + beam.to[0]) / 2,
+          (beam.from[1] + beam.to[1]) / 2,
+          levels[beam.level].bottom - TRANSFER_DEPTH / 2,
+        ],
+        { level: beam.level - 1, rotation: alongY ? NO_ROTATION : [0, 0, Math.atan(dy / dx)] },
+      ),
+    );
+  });
+  return elements;
+};
+
+const PARTITION_THICKNESS = { demising: 0.2, corridor: 0.15 };
+
+// Every level above the lobby repeats its zone's unit plan, scaled and
+// twisted with its plate: flats on residential floors, tenancies on retail,
+// office and amenity floors. The lobby stays open.
+const createPartitions = (config: BuildingConfig, level: Level, footprint: LevelFootprint): SceneElement[] =>
+  level.isLobby
+    ? []
+    : layoutFloorPlan(config, level.index).walls.map((wall, idx) => {
+        const thickness = PARTITION_THICKNESS[wall.kind];
+        const alongY = Math.abs(wall.from[0] - wall.to[0]) < 1e-6;
+        const length = Math.hypot(wall.to[0] - wall.from[0], wall.to[1] - wall.from[1]);
+        const [x, y] = footprintToWorld(footprint, [(wall.from[0] + wall.to[0]) / 2, (wall.from[1] + wall.to[1]) / 2]);
+        return box(
+          `Partition_${pad(level.index + 1, 2)}_${pad(idx, 2)}`,
+          "partition",
+          "partition",
+          alongY ? [thickness, length, level.height] : [length, thickness, level.height],
+          [x, y, level.bottom + level.height / 2],
+          { level: level.index, parent: level.name, rotation: twist(footprint) },
+        );
+      });
+
+// The roof follows the top floor plate. Pitched and sawtooth roofs need a
+// plain rectangle to span, so other plans fall back to a flat roof slab.
+const applyRoof = (config: BuildingConfig, top: number, footprint: LevelFootprint): SceneElement[] => {
+  const { bounds, rotation } = footprint;
+  const [width, depth] = [bounds.max[0] - bounds.min[0], bounds.max[1] - bounds.min[1]];
+  const at = (x: number, y: number, z: number): Vec3 => [...footprintToWorld(footprint, [x, y]), z];
+  const spans = config.planShape === "rectangle" && config.cornerStyle === "square";
+  const elements: SceneElement[] = [];
+  if (spans && config.roofStyle === "pitched") {
+    const angle = degrees(12);
+    const rise = (width / 4) * Math.tan(angle);
+    [-1, 1].forEach((sign, idx) =>
+      elements.push(
+        box(
+          `Roof_Pitch_${idx + 1}`,
+          "roof",
+          "roof",
+          [width / 2 / Math.cos(angle), depth, ROOF_THICKNESS],
+          at((sign * width) / 4, 0, top + ROOF_THICKNESS / 2 + rise),
+          { rotation: [0, sign * angle, rotation] },
+        ),
+      ),
+    );
+  } else if (spans && config.roofStyle === "sawtooth") {
+    const teeth = 4;
+    const angle = degrees(18);
+    const toothWidth = width / teeth;
+    const rise = (toothWidth / 2) * Math.tan(angle);
+    for (let idx = 0; idx < teeth; idx += 1) {
+      elements.push(
+        box(
+          `Roof_Tooth_${idx + 1}`,
+          "roof",
+          "roof",
+          [toothWidth / Math.cos(angle), depth, ROOF_THICKNESS],
+          at(-width / 2 + toothWidth * (idx + 0.5), 0, top + ROOF_THICKNESS / 2 + rise),
+          { rotation: [0, -angle, rotation] },
+        ),
+      );
+    }
+  } else if (spans) {
+    elements.push(
+      box("Roof", "roof", "roof", [width, depth, ROOF_THICKNESS], at(0, 0, top + ROOF_THICKNESS / 2), {
+        rotation: twist(footprint),
+      }),
+    );
+  } else {
+    elements.push({
+      name: "Roof",
+      kind: "roof",
+      shape: "prism",
+      material: "roof",
+      size: [width, depth, ROOF_THICKNESS],
+      position: at(0, 0, top + ROOF_THICKNESS / 2),
+      rotation: twist(footprint),
+      profile: footprint.plate,
+    });
+  }
+
+  const roofTop = top + ROOF_THICKNESS;
+  if (config.includeSolarPanels) {
+    for (let idx = 0; idx < 10; idx += 1) {
+      const x = bounds.min[0] + 2 + (idx % 5) * 3;
+      const y = bounds.min[1] + 2 + Math.floor(idx / 5) * 3;
+      if (pointInPieces([x, y], footprint.plate)) {
+        elements.push(
+          box(`Solar_${pad(idx, 2)}`, "solar", "accent", [2.4, 2.4, 0.1], at(x, y, roofTop + 0.35), {
+            rotation: [degrees(12), 0, rotation],
+          }),
+        );
+      }
+    }
+  }
+
+  if (config.addRooftopGarden) {
+    const { min, max } = footprint.rects[0];
+    const side = Math.min(max[0] - min[0], max[1] - min[1]) * 0.65;
+    elements.push({
+      name: "RooftopGarden",
+      kind: "garden",
+      shape: "plane",
+      material: "garden",
+      size: [side, side, 0],
+      position: at((min[0] + max[0]) / 2, (min[1] + max[1]) / 2, roofTop + 0.05),
+      rotation: twist(footprint),
+    });
+  }
+  return elements;
+};
+
+// Shaped plates carry the atrium in their profile; only the box massing needs
+// a cutter.
+const carveAtrium = (config: BuildingConfig, levels: Level[]): SceneElement | null => {
+  if (!config.hasAtrium || levels.length === 0 || !isRectangularMassing(config)) {
+    return null;
+  }
+  const bottom = levels[0].bottom;
+  const height = towerTop(config) - bottom;
+  return box(
+    "AtriumCut",
+    "void",
+    null,
+    [config.width * 0.5, config.depth * 0.5, height],
+    [0, 0, bottom + height / 2],
+    { hidden: true },
+  );
+};
+
+export const buildScene = (config: BuildingConfig): BuildingScene => {
+  const levels = buildLevelStack(config);
+  const top = towerTop(config);
+  const elements: SceneElement[] = [
+    createSiteGrid(config),
+    createCore(config),
+    ...createPodium(config),
+    ...createStructure(config),
+  ];
+
+  levels.forEach((level) => {
+    const footprint = levelFootprint(config, level.index);
+    const facades = levelFacades(footprint);
+    elements.push(createFloorPlate(config, level, footprint));
+    elements.push(...createPartitions(config, level, footprint));
+    FACADE_SIDES.forEach((side) => elements.push(...addWindows(config, level, facades, side)));
+    elements.push(...createBalconies(config, level, facades));
+    elements.push(...createLightShelves(config, level, facades));
+  });
+
+  const atrium = carveAtrium(config, levels);
+  if (atrium) {
+    elements.push(atrium);
+  }
+  elements.push(...applyRoof(config, top, levelFootprint(config, Math.max(0, config.floors - 1))));
+  elements.push(...createPlot(config, top));
+
+  return {
+    projectName: config.projectName,
+    elements,
+    materials: sceneMaterials(config),
+    height: top + ROOF_THICKNESS,
+    extent: siteExtent(config),
+  };
+};
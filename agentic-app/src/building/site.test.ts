@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "./defaults";
+import { buildSiteScene, sharedPodiumHost } from "./site";
+import type { BuildingConfig, SiteModel } from "./types";
+
+const tower: BuildingConfig = { ...defaultConfig, width: 30, depth: 20 };
+
+// The same design twice, the second square and turned a quarter on the site.
+const site = (sharedPodium: boolean): SiteModel => ({
+  sharedPodium,
+  buildings: [
+    { id: "a", name: "West", config: tower, position: [-25, 0], rotation: 0 },
+    { id: "b", name: "East", config: { ...tower, width: 20 }, position: [25, 0], rotation: 90 },
+  ],
+});
+
+const round = (values: number[]) => values.map((value) => Math.round(value * 100) / 100);
+
+describe("buildSiteScene", () => {
+  it("builds every tower under its own prefix without repeating a name", () => {
+    const { elements } = buildSiteScene(site(false), defaultConfig);
+    const names = elements.map((element) => element.name);
+    assert.equal(new Set(names).size, names.length);
+    assert.ok(names.includes("B01::Floor_01"));
+    assert.ok(names.includes("B02::Floor_01"));
+    assert.ok(elements.filter((element) => element.parent).every((element) => names.includes(element.parent ?? "")));
+  });
+
+  it("moves and turns each tower onto its place on the site", () => {
+    const { elements } = buildSiteScene(site(false), defaultConfig);
+    const lobby = (prefix: string) => elements.find((element) => element.name === `${prefix}::Floor_01`);
+    assert.deepEqual(round(lobby("B01")?.position.slice(0, 2) ?? []), [-25, 0]);
+    assert.deepEqual(round(lobby("B02")?.position.slice(0, 2) ?? []), [25, 0]);
+    assert.equal(Math.round(((lobby("B02")?.rotation[2] ?? 0) * 180) / Math.PI), 90);
+  });
+
+  it("wraps one podium around every tower when the site shares it", () => {
+    assert.equal(sharedPodiumHost(site(false)), null);
+    assert.equal(sharedPodiumHost(site(true)), tower);
+    const { elements } = buildSiteScene(site(true), defaultConfig);
+    const podiums = elements.filter((element) => element.kind === "podium");
+    assert.deepEqual(
+      podiums.map((element) => element.name),
+      ["Site::Podium_1", "Site::Podium_2", "Site::Podium_3"],
+    );
+    // The towers span 75 × 20 m; the lowest level steps out by the setback.
+    assert.deepEqual(round([...podiums[0].position.slice(0, 2), ...podiums[0].size.slice(0, 2)]), [-2.5, 0, 83, 28]);
+  });
+});
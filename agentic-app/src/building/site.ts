@@ -0,0 +1,134 @@
+import { levelAt } from "./levels";
+import type { Vec3 } from "./math";
+import { degrees } from "./math";
+import type { BuildingScene, SceneElement } from "./scene";
+import { buildScene, sceneMaterials } from "./scene";
+import type { BuildingConfig, SiteBuilding, SiteModel } from "./types";
+
+type Bounds = { min: [number, number]; max: [number, number] };
+
+const SITE_MARGIN = 12;
+
+// Every element of a building is renamed under its prefix, so two towers
+// built from the same design never share an object name.
+export const sitePrefix = (index: number) => `B${String(index + 1).padStart(2, "0")}`;
+
+const rename = (prefix: string, name: string) => `${prefix}::${name}`;
+
+const toSite = (building: SiteBuilding, [x, y]: [number, number]): [number, number] => {
+  const angle = degrees(building.rotation);
+  return [
+    building.position[0] + x * Math.cos(angle) - y * Math.sin(angle),
+    building.position[1] + x * Math.sin(angle) + y * Math.cos(angle),
+  ];
+};
+
+const placeElement = (building: SiteBuilding, prefix: string, element: SceneElement): SceneElement => {
+  const [x, y] = toSite(building, [element.position[0], element.position[1]]);
+  return {
+    ...element,
+    name: rename(prefix, element.name),
+    position: [x, y, element.position[2]],
+    rotation: [element.rotation[0], element.rotation[1], element.rotation[2] + degrees(building.rotation)],
+    parent: element.parent ? rename(prefix, element.parent) : undefined,
+    cutBy: element.cutBy?.map((name) => rename(prefix, name)),
+  };
+};
+
+const CORNERS: [number, number][] = [
+  [-1, -1],
+  [1, -1],
+  [1, 1],
+  [-1, 1],
+];
+
+// Plan bounds of every tower's plate, turned and moved onto the site.
+const towerBounds = (buildings: SiteBuilding[]): Bounds | null => {
+  const corners = buildings.flatMap((building) =>
+    CORNERS.map(([x, y]) => toSite(building, [(x * building.config.width) / 2, (y * building.config.depth) / 2])),
+  );
+  if (corners.length === 0) {
+    return null;
+  }
+  return {
+    min: [Math.min(...corners.map(([x]) => x)), Math.min(...corners.map(([, y]) => y))],
+    max: [Math.max(...corners.map(([x]) => x)), Math.max(...corners.map(([, y]) => y))],
+  };
+};
+
+// The first building with a podium hosts the shared one: its levels, heights
+// and setback wrap the plan bounds of every tower on the site.
+export const sharedPodiumHost = (site: SiteModel): BuildingConfig | null =>
+  site.sharedPodium
+    ? (site.buildings.find((building) => building.config.includePodium && building.config.podiumLevels > 0)
+        ?.config ?? null)
+    : null;
+
+const createSharedPodium = (host: BuildingConfig, bounds: Bounds): SceneElement[] =>
+  Array.from({ length: host.podiumLevels }, (_, index) => {
+    const inset = host.podiumSetback * (index / 2 - 1);
+    const level = levelAt(host, index);
+    const size: Vec3 = [
+      Math.max(0, bounds.max[0] - bounds.min[0] - inset * 2),
+      Math.max(0, bounds.max[1] - bounds.min[1] - inset * 2),
+      level.height,
+    ];
+    return {
+      name: `Site::Podium_${index + 1}`,
+      kind: "podium",
+      shape: "box",
+      material: "accent",
+      size,
+      position: [
+        (bounds.min[0] + bounds.max[0]) / 2,
+        (bounds.min[1] + bounds.max[1]) / 2,
+        level.bottom + level.height / 2,
+      ],
+      rotation: [0, 0, 0],
+      level: index,
+    };
+  });
+
+// One scene for the whole ensemble, named and coloured after the project. With
+// a shared podium each tower drops its own podium and stands on the common one;
+// each design's own plot and zoning envelope are left out.
+export const buildSiteScene = (site: SiteModel, project: BuildingConfig): BuildingScene => {
+  const host = sharedPodiumHost(site);
+  const scenes = site.buildings.map((building) =>
+    buildScene(host ? { ...building.config, includePodium: false } : building.config),
+  );
+  const bounds = towerBounds(site.buildings);
+  const extent = Math.max(
+    0,
+    ...site.buildings.map(
+      (building, index) => Math.hypot(building.position[0], building.position[1]) + scenes[index].extent,
+    ),
+  );
+  const elements: SceneElement[] = [
+    {
+      name: "Site::SiteGrid",
+      kind: "site",
+      shape: "grid",
+      material: "ground",
+      size: [(extent + SITE_MARGIN) * 2, (extent + SITE_MARGIN) * 2, 0],
+      position: [0, 0, 0],
+      rotation: [0, 0, 0],
+      subdivisions: 16,
+    },
+    ...(host && bounds ? createSharedPodium(host, bounds) : []),
+  ];
+  scenes.forEach((scene, index) => {
+    const prefix = sitePrefix(index);
+    scene.elements
+      .filter((element) => element.kind !== "site" && element.kind !== "zoning")
+      .forEach((element) => elements.push(placeElement(site.buildings[index], prefix, element)));
+  });
+
+  return {
+    projectName: project.projectName,
+    elements,
+    materials: sceneMaterials(project),
+    height: Math.max(0, ...scenes.map((scene) => scene.height)),
+    extent: extent + SITE_MARGIN,
+  };
+};
@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "./defaults";
+import { layoutStructure, summarizeStructure } from "./structure";
+import type { BuildingConfig } from "./types";
+import { validateBuildingConfig } from "./validation";
+
+// A 30 × 15 m plate on a 7.5 m grid: five lines by three, the middle one in the core.
+const gridded: BuildingConfig = { ...defaultConfig, width: 30, depth: 15, structuralGrid: 7.5, hasAtrium: false };
+
+describe("layoutStructure", () => {
+  it("stands a column on every grid line outside the core", () => {
+    const summary = summarizeStructure(layoutStructure({ ...gridded, includePodium: false }));
+    assert.deepEqual(summary.gridLines, [5, 3]);
+    assert.equal(summary.typicalFloorColumns, 5 * 3 - 1);
+    assert.equal(summary.totalColumns, gridded.floors * 14);
+    assert.equal(summary.transferColumns, 0);
+  });
+
+  it("carries columns the setback podium moves in on transfer girders", () => {
+    const layout = layoutStructure(gridded);
+    const summary = summarizeStructure(layout);
+    const transfers = layout.columns.filter((column) => column.transfer);
+    assert.ok(transfers.length > 0);
+    assert.ok(transfers.every((column) => column.podium && column.level > 0 && column.level < gridded.podiumLevels));
+    assert.equal(summary.transferBeams, transfers.length);
+    assert.deepEqual(
+      layout.transfers.map((beam) => beam.label),
+      transfers.map((column) => column.label),
+    );
+  });
+
+  it("warns when the grid leaves an odd end bay", () => {
+    const ids = (patch: Partial<BuildingConfig>) =>
+      validateBuildingConfig({ ...gridded, ...patch }).map((issue) => issue.id);
+    assert.ok(!ids({}).includes("grid-uneven"));
+    assert.ok(ids({ width: 32 }).includes("grid-uneven"));
+  });
+});
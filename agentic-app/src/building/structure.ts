@@ -0,0 +1,231 @@
+import type { PlanPoint } from "./floorplan";
+import type { LevelFootprint } from "./footprint";
+import { coreCentre, coreOutline, footprintToLocal, footprintToWorld, levelFootprint } from "./footprint";
+import type { Level } from "./levels";
+import { levelAt } from "./levels";
+import { pointInPieces, polygonBounds } from "./polygon";
+import type { BuildingConfig } from "./types";
+
+export type ColumnPlacement = {
+  level: number;
+  label: string;
+  x: number;
+  y: number;
+  podium: boolean;
+  transfer: boolean;
+};
+
+export type TransferBeam = {
+  level: number;
+  label: string;
+  from: [number, number];
+  to: [number, number];
+};
+
+export type StructureLayout = {
+  levels: Level[];
+  columns: ColumnPlacement[];
+  transfers: TransferBeam[];
+  xLines: number;
+  yLines: number;
+};
+
+export const COLUMN_SIZE = 0.6;
+export const TRANSFER_DEPTH = 1.2;
+
+const EPSILON = 1e-6;
+
+const uniquePositions = (values: number[]) =>
+  [...values]
+    .sort((a, b) => a - b)
+    .filter((value, idx, sorted) => idx === 0 || value - sorted[idx - 1] > EPSILON);
+
+// Grid lines start at the tower's left/front face and repeat every bay. A
+// remainder bay shorter than a quarter bay is folded into the last full bay.
+const towerLines = (span: number, bay: number) => {
+  const half = span / 2;
+  const count = Math.max(1, Math.floor(span / bay + EPSILON));
+  const interior = span - count * bay > bay * 0.25 ? count : count - 1;
+  return [...Array.from({ length: interior + 1 }, (_, index) => -half + bay * index), half];
+};
+
+// Podium lines continue the tower grid outwards from the tower faces and close
+// on the podium faces.
+const podiumLines = (span: number, extent: number, bay: number) => {
+  const half = span / 2;
+  const limit = extent / 2;
+  const lines = towerLines(span, bay).filter((position) => Math.abs(position) < limit - EPSILON);
+  for (let position = half + bay; position < limit - EPSILON; position += bay) {
+    lines.push(-position, position);
+  }
+  return uniquePositions([...lines, -limit, limit]);
+};
+
+const letter = (index: number): string =>
+  index < 26 ? String.fromCharCode(65 + index) : `${letter(Math.floor(index / 26) - 1)}${letter(index % 26)}`;
+
+// Perimeter columns are pulled inside the facade, so columns less than a
+// column width apart are treated as the same vertical line.
+const near = (a: number, b: number) => Math.abs(a - b) < COLUMN_SIZE - EPSILON;
+
+export const layoutStructure = (config: BuildingConfig): StructureLayout => {
+  const bay = Math.max(1, config.structuralGrid);
+  const podiumCount = config.includePodium ? config.podiumLevels : 0;
+  const levels = Array.from({ length: Math.max(config.floors, podiumCount) }, (_, index) => levelAt(config, index));
+  const inset = COLUMN_SIZE / 2;
+  const coreHalf: [number, number] = [config.coreWidth / 2 + inset, config.coreDepth / 2 + inset];
+  const [coreX, coreY] = coreCentre(config);
+
+  type RawColumn = Omit<ColumnPlacement, "label" | "transfer"> & { lineX: number; lineY: number };
+  // Each wing of the plate gets its own grid in the level's frame, so columns
+  // follow tapers and twists. Columns are dropped where a shaped corner or the
+  // core takes their place, or where a neighbouring wing already has one.
+  const placeTower = (footprint: LevelFootprint, columns: RawColumn[]) => {
+    const core = polygonBounds(coreOutline(config, footprint));
+    const tower: PlanPoint[] = [];
+    footprint.rects.forEach(({ min, max }) => {
+      const centre: PlanPoint = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2];
+      const [spanX, spanY] = [max[0] - min[0], max[1] - min[1]];
+      const fromWing = tower.length;
+      towerLines(spanX, bay).forEach((offsetX) =>
+        towerLines(spanY, bay).forEach((offsetY) => {
+          const [lineX, lineY] = [centre[0] + offsetX, centre[1] + offsetY];
+          const local: PlanPoint = [
+            Math.max(min[0] + inset, Math.min(max[0] - inset, lineX)),
+            Math.max(min[1] + inset, Math.min(max[1] - inset, lineY)),
+          ];
+          const inCore =
+            local[0] > core.min[0] - inset &&
+            local[0] < core.max[0] + inset &&
+            local[1] > core.min[1] - inset &&
+            local[1] < core.max[1] + inset;
+          // Wings clamp their edge columns a column width either side of a
+          // shared edge, so the first wing's column stands for both.
+          const taken = tower
+            .slice(0, fromWing)
+            .some(
+              (other) =>
+                Math.abs(other[0] - local[0]) <= COLUMN_SIZE + EPSILON &&
+                Math.abs(other[1] - local[1]) <= COLUMN_SIZE + EPSILON,
+            );
+          if (inCore || taken || !pointInPieces(local, footprint.plate, inset)) {
+            return;
+          }
+          tower.push(local);
+          const [x, y] = footprintToWorld(footprint, local);
+          columns.push({ level: footprint.level, x, y, podium: false, lineX, lineY });
+        }),
+      );
+    });
+  };
+  const perLevel: RawColumn[][] = levels.map((level) => {
+    const hasTower = level.index < config.floors;
+    const footprint = levelFootprint(config, Math.min(level.index, config.floors - 1));
+    const shrink = config.podiumSetback * level.index;
+    const podiumSize: [number, number] | null =
+      level.index < podiumCount
+        ? [config.width + config.podiumSetback * 2 - shrink, config.depth + config.podiumSetback * 2 - shrink]
+        : null;
+    const columns: RawColumn[] = [];
+    const place = (xs: number[], ys: number[], extent: [number, number], podium: boolean) => {
+      xs.forEach((lineX) =>
+        ys.forEach((lineY) => {
+          const x = Math.max(-extent[0] / 2 + inset, Math.min(extent[0] / 2 - inset, lineX));
+          const y = Math.max(-extent[1] / 2 + inset, Math.min(extent[1] / 2 - inset, lineY));
+          const inCore = Math.abs(x - coreX) < coreHalf[0] && Math.abs(y - coreY) < coreHalf[1];
+          const inTower = podium && hasTower && pointInPieces(footprintToLocal(footprint, [x, y]), footprint.plate);
+          if (!inCore && !inTower) {
+            columns.push({ level: level.index, x, y, podium, lineX, lineY });
+          }
+        }),
+      );
+    };
+    if (hasTower) {
+      placeTower(footprint, columns);
+    }
+    if (podiumSize && podiumSize[0] > 0 && podiumSize[1] > 0) {
+      place(
+        podiumLines(config.width, podiumSize[0], bay),
+        podiumLines(config.depth, podiumSize[1], bay),
+        podiumSize,
+        true,
+      );
+    }
+    return columns;
+  });
+
+  const all = perLevel.flat();
+  const xLines = uniquePositions(all.map((column) => column.lineX));
+  const yLines = uniquePositions(all.map((column) => column.lineY));
+  const lineIndex = (lines: number[], position: number) =>
+    lines.findIndex((line) => Math.abs(line - position) <= EPSILON);
+  const label = (column: RawColumn) =>
+    `${letter(lineIndex(xLines, column.lineX))}${lineIndex(yLines, column.lineY) + 1}`;
+
+  const columns: ColumnPlacement[] = [];
+  const transfers: TransferBeam[] = [];
+  perLevel.forEach((levelColumns, index) => {
+    const below = index > 0 ? perLevel[index - 1] : null;
+    levelColumns.forEach((column) => {
+      const transfer =
+        below !== null && !below.some((support) => near(support.x, column.x) && near(support.y, column.y));
+      const name = label(column);
+      columns.push({ level: column.level, label: name, x: column.x, y: column.y, podium: column.podium, transfer });
+      if (!transfer || !below) {
+        return;
+      }
+      // Span the girder between the nearest supported columns on the same row or
+      // column line; corners without either cantilever from the closest support.
+      const span = (axis: "x" | "y") => {
+        const other = axis === "x" ? "y" : "x";
+        const aligned = below.filter((support) => near(support[other], column[other]));
+        const before = aligned.filter((support) => support[axis] < column[axis]).sort((a, b) => b[axis] - a[axis])[0];
+        const after = aligned.filter((support) => support[axis] > column[axis]).sort((a, b) => a[axis] - b[axis])[0];
+        return before && after ? { before, after } : null;
+      };
+      const supports = span("x") ?? span("y");
+      const closest = [...below].sort(
+        (a, b) => Math.hypot(a.x - column.x, a.y - column.y) - Math.hypot(b.x - column.x, b.y - column.y),
+      )[0];
+      if (supports) {
+        transfers.push({
+          level: column.level,
+          label: name,
+          from: [supports.before.x, supports.before.y],
+          to: [supports.after.x, supports.after.y],
+        });
+      } else if (closest) {
+        transfers.push({ level: column.level, label: name, from: [closest.x, closest.y], to: [column.x, column.y] });
+      }
+    });
+  });
+
+  return { levels, columns, transfers, xLines: xLines.length, yLines: yLines.length };
+};
+
+export type StructureSummary = {
+  gridLines: [number, number];
+  totalColumns: number;
+  typicalFloorColumns: number;
+  podiumColumns: number;
+  transferColumns: number;
+  transferBeams: number;
+  transferLevels: string[];
+};
+
+export const summarizeStructure = (layout: StructureLayout): StructureSummary => {
+  const towerLevels = layout.levels.filter((level) =>
+    layout.columns.some((column) => column.level === level.index && !column.podium),
+  );
+  const typical = towerLevels[towerLevels.length - 1];
+  const transferLevels = [...new Set(layout.columns.filter((column) => column.transfer).map((column) => column.level))];
+  return {
+    gridLines: [layout.xLines, layout.yLines],
+    totalColumns: layout.columns.length,
+    typicalFloorColumns: typical ? layout.columns.filter((column) => column.level === typical.index).length : 0,
+    podiumColumns: layout.columns.filter((column) => column.podium).length,
+    transferColumns: layout.columns.filter((column) => column.transfer).length,
+    transferBeams: layout.transfers.length,
+    transferLevels: transferLevels.map((index) => layout.levels[index].name),
+  };
+};
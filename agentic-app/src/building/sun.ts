@@ -0,0 +1,283 @@
+import { levelFootprint } from "./footprint";
+import { levelAt } from "./levels";
+import type { Vec3 } from "./math";
+import { clamp, degrees } from "./math";
+import type { Box } from "./mesh";
+import { elementWorldMesh, indexScene, toWorld } from "./mesh";
+import type { BuildingScene, ElementKind, FacadeSide, SceneElement } from "./scene";
+import { FACADE_SIDES, buildScene, levelFacades } from "./scene";
+import type { BuildingConfig, SunStudy } from "./types";
+
+export type SunPosition = {
+  hour: number;
+  // Degrees clockwise from north, and above the horizon.
+  azimuth: number;
+  altitude: number;
+};
+
+export type SunExposure = {
+  id: string;
+  label: string;
+  hours: number;
+};
+
+export type SunHours = {
+  daylight: number;
+  surfaces: SunExposure[];
+};
+
+type Obstacle = Box & { triangles: Vec3[][] };
+
+export const SUN_STEP_MINUTES = 15;
+
+// Scene y runs north and x east, so each facade side faces one compass point.
+export const FACADE_COMPASS: Record<FacadeSide, string> = {
+  front: "north",
+  back: "south",
+  left: "west",
+  right: "east",
+};
+
+// The solids that cast shadows; windows, partitions and the frame sit inside
+// the plates and add nothing.
+const SHADOW_KINDS: ElementKind[] = ["core", "floor", "balcony", "lightShelf", "podium", "roof", "solar"];
+
+const SAMPLE_LEVELS = 5;
+
+const SAMPLE_OFFSET = 0.05;
+
+const EPSILON = 1e-6;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const toDegrees = (value: number) => (value * 180) / Math.PI;
+
+// Day of the year (1 on 1 January) for a YYYY-MM-DD date, or null when the
+// date does not exist.
+export const parseStudyDate = (date: string) => {
+  const match = DATE_PATTERN.exec(date);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  if (parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) {
+    return null;
+  }
+  const dayOfYear = Math.round((parsed.getTime() - Date.UTC(year, 0, 1)) / 86_400_000) + 1;
+  const daysInYear = Math.round((Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / 86_400_000);
+  return { dayOfYear, daysInYear };
+};
+
+// NOAA's low-precision solar position: good to a fraction of a degree, which
+// is plenty for massing studies, and needs no ephemeris or network.
+export const solarPosition = (study: SunStudy, hour: number): SunPosition => {
+  const { dayOfYear, daysInYear } = parseStudyDate(study.date) ?? { dayOfYear: 1, daysInYear: 365 };
+  const gamma = ((2 * Math.PI) / daysInYear) * (dayOfYear - 1 + (hour - study.utcOffset - 12) / 24);
+  const equationOfTime =
+    229.18 *
+    (0.000075 +
+      0.001868 * Math.cos(gamma) -
+      0.032077 * Math.sin(gamma) -
+      0.014615 * Math.cos(2 * gamma) -
+      0.040849 * Math.sin(2 * gamma));
+  const declination =
+    0.006918 -
+    0.399912 * Math.cos(gamma) +
+    0.070257 * Math.sin(gamma) -
+    0.006758 * Math.cos(2 * gamma) +
+    0.000907 * Math.sin(2 * gamma) -
+    0.002697 * Math.cos(3 * gamma) +
+    0.00148 * Math.sin(3 * gamma);
+  const solarMinutes = hour * 60 + equationOfTime + 4 * study.longitude - 60 * study.utcOffset;
+  const hourAngle = degrees(solarMinutes / 4 - 180);
+  const latitude = degrees(study.latitude);
+  const altitude = Math.asin(
+    clamp(
+      Math.sin(latitude) * Math.sin(declination) + Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle),
+      -1,
+      1,
+    ),
+  );
+  const azimuth = Math.atan2(
+    Math.sin(hourAngle),
+    Math.cos(hourAngle) * Math.sin(latitude) - Math.tan(declination) * Math.cos(latitude),
+  );
+  return { hour, azimuth: (toDegrees(azimuth) + 180) % 360, altitude: toDegrees(altitude) };
+};
+
+// Unit vector from the building towards the sun.
+export const sunDirection = ({ azimuth, altitude }: SunPosition): Vec3 => [
+  Math.sin(degrees(azimuth)) * Math.cos(degrees(altitude)),
+  Math.cos(degrees(azimuth)) * Math.cos(degrees(altitude)),
+  Math.sin(degrees(altitude)),
+];
+
+const stepCount = (study: SunStudy) =>
+  Math.max(0, Math.round(((study.endHour - study.startHour) * 60) / SUN_STEP_MINUTES));
+
+// Positions at every step from the start of the study to its end.
+export const sunPath = (study: SunStudy): SunPosition[] => {
+  const steps = stepCount(study);
+  if (steps === 0) {
+    return [];
+  }
+  const span = (study.endHour - study.startHour) / steps;
+  return Array.from({ length: steps + 1 }, (_, idx) => solarPosition(study, study.startHour + idx * span));
+};
+
+export const formatClock = (hour: number) => {
+  const minutes = Math.round(clamp(hour, 0, 24) * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+};
+
+export const castsShadow = (element: SceneElement) =>
+  SHADOW_KINDS.includes(element.kind) && !element.hidden && !element.wireframe;
+
+const collectObstacles = (scene: BuildingScene): Obstacle[] => {
+  const lookup = indexScene(scene);
+  return scene.elements.filter(castsShadow).map((element) => {
+    const { positions, indices } = elementWorldMesh(element, lookup);
+    const vertex = (index: number): Vec3 => [positions[index * 3], positions[index * 3 + 1], positions[index * 3 + 2]];
+    const triangles: Vec3[][] = [];
+    for (let idx = 0; idx < indices.length; idx += 3) {
+      triangles.push([vertex(indices[idx]), vertex(indices[idx + 1]), vertex(indices[idx + 2])]);
+    }
+    const axis = (offset: number) => positions.filter((_, idx) => idx % 3 === offset);
+    return {
+      min: [Math.min(...axis(0)), Math.min(...axis(1)), Math.min(...axis(2))],
+      max: [Math.max(...axis(0)), Math.max(...axis(1)), Math.max(...axis(2))],
+      triangles,
+    };
+  });
+};
+
+const hitsBox = (origin: Vec3, direction: Vec3, { min, max }: Box) => {
+  let [near, far] = [EPSILON, Infinity];
+  for (let axis = 0; axis < 3; axis += 1) {
+    if (Math.abs(direction[axis]) < EPSILON) {
+      if (origin[axis] < min[axis] || origin[axis] > max[axis]) {
+        return false;
+      }
+      continue;
+    }
+    const a = (min[axis] - origin[axis]) / direction[axis];
+    const b = (max[axis] - origin[axis]) / direction[axis];
+    near = Math.max(near, Math.min(a, b));
+    far = Math.min(far, Math.max(a, b));
+  }
+  return near <= far;
+};
+
+// Möller–Trumbore, counting hits from either face.
+const hitsTriangle = (origin: Vec3, direction: Vec3, [a, b, c]: Vec3[]) => {
+  const edge1: Vec3 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const edge2: Vec3 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+  const p: Vec3 = [
+    direction[1] * edge2[2] - direction[2] * edge2[1],
+    direction[2] * edge2[0] - direction[0] * edge2[2],
+    direction[0] * edge2[1] - direction[1] * edge2[0],
+  ];
+  const determinant = edge1[0] * p[0] + edge1[1] * p[1] + edge1[2] * p[2];
+  if (Math.abs(determinant) < EPSILON) {
+    return false;
+  }
+  const t0: Vec3 = [origin[0] - a[0], origin[1] - a[1], origin[2] - a[2]];
+  const u = (t0[0] * p[0] + t0[1] * p[1] + t0[2] * p[2]) / determinant;
+  if (u < 0 || u > 1) {
+    return false;
+  }
+  const q: Vec3 = [
+    t0[1] * edge1[2] - t0[2] * edge1[1],
+    t0[2] * edge1[0] - t0[0] * edge1[2],
+    t0[0] * edge1[1] - t0[1] * edge1[0],
+  ];
+  const v = (direction[0] * q[0] + direction[1] * q[1] + direction[2] * q[2]) / determinant;
+  if (v < 0 || u + v > 1) {
+    return false;
+  }
+  return (edge2[0] * q[0] + edge2[1] * q[1] + edge2[2] * q[2]) / determinant > EPSILON;
+};
+
+const inShadow = (point: Vec3, direction: Vec3, obstacles: Obstacle[]) =>
+  obstacles.some(
+    (obstacle) =>
+      hitsBox(point, direction, obstacle) &&
+      obstacle.triangles.some((triangle) => hitsTriangle(point, direction, triangle)),
+  );
+
+// Levels spread evenly from the lobby to the top floor.
+const sampleLevels = (config: BuildingConfig) => {
+  const count = Math.min(SAMPLE_LEVELS, config.floors);
+  const indices = Array.from({ length: count }, (_, idx) =>
+    count === 1 ? 0 : Math.round((idx * (config.floors - 1)) / (count - 1)),
+  );
+  return [...new Set(indices)];
+};
+
+// Points a hair off each facade at mid-storey, a third of the way in from
+// either end and at the middle, with the facade's outward normal.
+const facadeSamples = (config: BuildingConfig, side: FacadeSide) =>
+  sampleLevels(config).flatMap((index) => {
+    const level = levelAt(config, index);
+    const z = level.bottom + level.height / 2;
+    return levelFacades(levelFootprint(config, index))
+      .filter((facade) => facade.side === side)
+      .flatMap(({ centre, dir, normal, length }) =>
+        [-length / 3, 0, length / 3].map((along) => ({
+          point: [
+            centre[0] + dir[0] * along + normal[0] * SAMPLE_OFFSET,
+            centre[1] + dir[1] * along + normal[1] * SAMPLE_OFFSET,
+            z,
+          ] as Vec3,
+          normal: [normal[0], normal[1], 0] as Vec3,
+        })),
+      );
+  });
+
+const gardenSamples = (garden: SceneElement) =>
+  [-1 / 3, 0, 1 / 3].flatMap((u) =>
+    [-1 / 3, 0, 1 / 3].map((v) => ({
+      point: toWorld(garden, [u * garden.size[0], v * garden.size[1], SAMPLE_OFFSET]),
+      normal: [0, 0, 1] as Vec3,
+    })),
+  );
+
+// Hours of direct sun within the study window, averaged over sample points on
+// the rooftop garden and on each facade. A point counts a step when the sun
+// is up, in front of its surface and not blocked by any part of the building.
+export const computeSunHours = (config: BuildingConfig): SunHours => {
+  const { sunStudy } = config;
+  const steps = stepCount(sunStudy);
+  const span = steps > 0 ? (sunStudy.endHour - sunStudy.startHour) / steps : 0;
+  const moments = Array.from({ length: steps }, (_, idx) => solarPosition(sunStudy, sunStudy.startHour + (idx + 0.5) * span))
+    .filter((position) => position.altitude > 0)
+    .map(sunDirection);
+  const scene = buildScene(config);
+  const obstacles = collectObstacles(scene);
+
+  const exposure = (id: string, label: string, samples: { point: Vec3; normal: Vec3 }[]): SunExposure => {
+    const lit = samples.reduce(
+      (sum, { point, normal }) =>
+        sum +
+        moments.filter(
+          (direction) =>
+            normal[0] * direction[0] + normal[1] * direction[1] + normal[2] * direction[2] > EPSILON &&
+            !inShadow(point, direction, obstacles),
+        ).length,
+      0,
+    );
+    return { id, label, hours: samples.length > 0 ? (lit * span) / samples.length : 0 };
+  };
+
+  const garden = scene.elements.find((element) => element.kind === "garden");
+  const surfaces = [
+    ...(garden ? [exposure("garden", "Rooftop garden", gardenSamples(garden))] : []),
+    ...FACADE_SIDES.map((side) => ({ side, samples: facadeSamples(config, side) }))
+      .filter(({ samples }) => samples.length > 0)
+      .map(({ side, samples }) =>
+        exposure(side, `${side.charAt(0).toUpperCase()}${side.slice(1)} (${FACADE_COMPASS[side]})`, samples),
+      ),
+  ];
+  return { daylight: moments.length * span, surfaces };
+};
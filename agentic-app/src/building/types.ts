@@ -0,0 +1,130 @@
+export type FacadePattern = "grid" | "stacked" | "offset";
+export type BalconyFrequency = "none" | "alternate" | "every" | "corners";
+export type RoofStyle = "flat" | "pitched" | "sawtooth";
+export type PlanShape = "rectangle" | "l-shape" | "u-shape" | "courtyard";
+export type CornerStyle = "square" | "chamfered" | "rounded";
+export type HeightProfile = "straight" | "taper" | "stepped";
+export type ZoneUse = "retail" | "office" | "residential" | "amenity";
+
+// A band of floors with its own program. Floors are numbered from 1 like the
+// level names (Floor_01 is the lobby); the lobby keeps `lobbyHeight`.
+export type ProgramZone = {
+  use: ZoneUse;
+  fromFloor: number;
+  toFloor: number;
+  floorHeight: number;
+  unitsPerFloor: number;
+  balconyFrequency: BalconyFrequency;
+};
+
+// The plot boundary is given in metres round the tower origin. `setbacks[i]`
+// pulls the buildable line in from the edge that starts at `boundary[i]`.
+// Limits left at zero are not enforced.
+export type SitePlot = {
+  boundary: [number, number][];
+  setbacks: number[];
+  maxHeight: number;
+  maxFloorAreaRatio: number;
+  maxCoverage: number;
+};
+
+// Where and when the sun is studied. Hours are local clock time on `date`
+// (YYYY-MM-DD); `utcOffset` is the site's time zone in hours from UTC.
+export type SunStudy = {
+  latitude: number;
+  longitude: number;
+  utcOffset: number;
+  date: string;
+  startHour: number;
+  endHour: number;
+};
+
+export type BuildingConfig = {
+  projectName: string;
+  narrative: string;
+  floors: number;
+  floorHeight: number;
+  lobbyHeight: number;
+  width: number;
+  depth: number;
+  planShape: PlanShape;
+  cutoutRatio: number;
+  cornerStyle: CornerStyle;
+  cornerSize: number;
+  heightProfile: HeightProfile;
+  topScale: number;
+  setbackInterval: number;
+  twistPerFloor: number;
+  siteArea: number;
+  plot: SitePlot;
+  sunStudy: SunStudy;
+  coreWidth: number;
+  coreDepth: number;
+  baseHeight: number;
+  structuralGrid: number;
+  unitsPerFloor: number;
+  zones: ProgramZone[];
+  facadePattern: FacadePattern;
+  windowModule: number;
+  windowWidth: number;
+  windowHeight: number;
+  spandrelHeight: number;
+  maxWindowWallRatio: number;
+  balconyDepth: number;
+  balconyFrequency: BalconyFrequency;
+  roofStyle: RoofStyle;
+  podiumLevels: number;
+  podiumSetback: number;
+  includePodium: boolean;
+  hasAtrium: boolean;
+  addRooftopGarden: boolean;
+  includeSolarPanels: boolean;
+  includeLightShelves: boolean;
+  colors: {
+    base: string;
+    accent: string;
+    glazing: string;
+    balcony: string;
+    roof: string;
+  };
+};
+
+// A tower placed on the site grid. `position` is its centre in metres east and
+// north of the site origin; `rotation` turns it anticlockwise, in degrees.
+export type SiteBuilding = {
+  id: string;
+  name: string;
+  config: BuildingConfig;
+  position: [number, number];
+  rotation: number;
+};
+
+export type SiteModel = {
+  buildings: SiteBuilding[];
+  sharedPodium: boolean;
+};
+
+// `notes` quotes the words of the prompt behind each changed setting, keyed by
+// field or, for nested settings, by entry (`colors.base`).
+export type AiInference = {
+  updates: Partial<BuildingConfig>;
+  summary: string;
+  notes: Record<string, string>;
+};
+
+// One of several candidate schemes generated from a single brief. `config` is
+// the whole design the option leads to; rank 1 fits the brief best.
+export type AiOption = AiInference & {
+  id: string;
+  name: string;
+  rank: number;
+  rationale: string;
+  config: BuildingConfig;
+};
+
+export type DesignSnapshot = {
+  id: string;
+  name: string;
+  createdAt: string;
+  config: BuildingConfig;
+};
@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultConfig } from "./defaults";
+import type { BuildingConfig, ProgramZone } from "./types";
+import { validateBuildingConfig } from "./validation";
+
+const zone = (floorHeight: number): ProgramZone => ({
+  use: "retail",
+  fromFloor: 2,
+  toFloor: 3,
+  floorHeight,
+  unitsPerFloor: 4,
+  balconyFrequency: "none",
+});
+
+const issueIds = (floorHeight: number) =>
+  validateBuildingConfig({ ...defaultConfig, zones: [zone(floorHeight)] }).map((issue) => issue.id);
+
+const errorIds = (patch: Partial<BuildingConfig>) =>
+  validateBuildingConfig({ ...defaultConfig, ...patch })
+    .filter((issue) => issue.severity === "error")
+    .map((issue) => issue.id);
+
+describe("validateBuildingConfig", () => {
+  it("finds no errors in the default design", () => {
+    assert.deepEqual(errorIds({}), []);
+  });
+
+  it("rejects geometry that cannot be built", () => {
+    assert.deepEqual(errorIds({ windowWidth: 3.5, windowModule: 3 }), ["window-wider-than-module"]);
+    assert.deepEqual(errorIds({ floorHeight: 3, windowHeight: 2.6 }), ["window-taller-than-floor"]);
+    assert.deepEqual(errorIds({ coreWidth: 20, width: 18 }), ["core-larger-than-plate"]);
+    assert.deepEqual(errorIds({ podiumSetback: 12, podiumLevels: 6 }), ["podium-negative"]);
+  });
+
+  it("accepts zoned floors lower than the typical window, which shrinks to fit", () => {
+    assert.ok(defaultConfig.windowHeight + defaultConfig.spandrelHeight > 3);
+    assert.ok(!issueIds(3).includes("zone-window-taller-than-floor"));
+  });
+
+  it("rejects zoned floors too low for the spandrel and the smallest window", () => {
+    assert.ok(issueIds(1.2).includes("zone-window-taller-than-floor"));
+  });
+});
@@ -0,0 +1,448 @@
+import { levelFootprint } from "./footprint";
+import { zoneLabel, zoneWindowHeight } from "./levels";
+import { parseStudyDate } from "./sun";
+import type { BuildingConfig } from "./types";
+
+export type IssueSeverity = "error" | "warning";
+
+export type ConfigField = Exclude<keyof BuildingConfig, "colors">;
+
+export type ValidationIssue = {
+  id: string;
+  severity: IssueSeverity;
+  fields: ConfigField[];
+  message: string;
+};
+
+type NumericField = { [K in ConfigField]: BuildingConfig[K] extends number ? K : never }[ConfigField];
+
+type Rule = (config: BuildingConfig) => ValidationIssue | null;
+
+const format = (value: number) => `${Number(value.toFixed(2))} m`;
+
+const POSITIVE_FIELDS: [NumericField, string][] = [
+  ["floors", "Floors"],
+  ["floorHeight", "Floor-to-floor height"],
+  ["lobbyHeight", "Lobby height"],
+  ["width", "Width"],
+  ["depth", "Depth"],
+  ["windowModule", "Window module"],
+  ["windowWidth", "Window width"],
+  ["windowHeight", "Window height"],
+  ["unitsPerFloor", "Units per floor"],
+  ["structuralGrid", "Structural grid"],
+];
+
+const positiveRules: Rule[] = POSITIVE_FIELDS.map(([field, label]) => (config) =>
+  config[field] > 0
+    ? null
+    : { id: `${field}-positive`, severity: "error", fields: [field], message: `${label} must be greater than zero.` },
+);
+
+const podiumTopSize = (config: BuildingConfig) => {
+  const shrink = config.podiumSetback * Math.max(0, config.podiumLevels - 1);
+  return {
+    width: config.width + config.podiumSetback * 2 - shrink,
+    depth: config.depth + config.podiumSetback * 2 - shrink,
+  };
+};
+
+// The core sits in the main wing of shaped plans and has to clear it on every
+// floor, including the smallest plate at the top of a tapered tower.
+const coreClearance = (config: BuildingConfig, index: number) => {
+  const [wing] = levelFootprint(config, index).rects;
+  return { width: wing.max[0] - wing.min[0], depth: wing.max[1] - wing.min[1] };
+};
+
+// Zone rules report the first offending zone; fixing it surfaces the next.
+const zoneRules: Rule[] = [
+  (config) => {
+    const zone = config.zones.find(
+      (entry) =>
+        !Number.isInteger(entry.fromFloor) ||
+        !Number.isInteger(entry.toFloor) ||
+        entry.fromFloor < 2 ||
+        entry.fromFloor > entry.toFloor ||
+        entry.toFloor > config.floors,
+    );
+    return zone
+      ? {
+          id: "zone-range-invalid",
+          severity: "error",
+          fields: ["zones", "floors"],
+          message: `${zoneLabel(zone)} must cover whole floors between 2 and ${config.floors}; the lobby cannot be zoned.`,
+        }
+      : null;
+  },
+  (config) => {
+    const zone = config.zones.find((entry) => entry.floorHeight <= 0);
+    return zone
+      ? {
+          id: "zone-floor-height-positive",
+          severity: "error",
+          fields: ["zones"],
+          message: `${zoneLabel(zone)} needs a floor-to-floor height greater than zero.`,
+        }
+      : null;
+  },
+  (config) => {
+    // Zoned floors shrink their windows to fit, so only the shortest window the
+    // scene will draw has to clear the floor.
+    const zone = config.zones.find(
+      (entry) => entry.floorHeight > 0 && entry.floorHeight < zoneWindowHeight(config, entry) + config.spandrelHeight,
+    );
+    return zone
+      ? {
+          id: "zone-window-taller-than-floor",
+          severity: "error",
+          fields: ["zones", "windowHeight", "spandrelHeight"],
+          message: `Spandrel plus window (${format(config.spandrelHeight + zoneWindowHeight(config, zone))}) is taller than the ${format(zone.floorHeight)} floors of ${zoneLabel(zone)}.`,
+        }
+      : null;
+  },
+  (config) => {
+    const zone = config.zones.find((entry) => entry.unitsPerFloor < 0);
+    return zone
+      ? {
+          id: "zone-units-negative",
+          severity: "error",
+          fields: ["zones"],
+          message: `${zoneLabel(zone)} cannot have a negative number of units per floor.`,
+        }
+      : null;
+  },
+  (config) => {
+    const later = config.zones.find((zone, idx) =>
+      config.zones.slice(0, idx).some((earlier) => zone.fromFloor <= earlier.toFloor && zone.toFloor >= earlier.fromFloor),
+    );
+    return later
+      ? {
+          id: "zones-overlap",
+          severity: "warning",
+          fields: ["zones"],
+          message: `${zoneLabel(later)} overlaps an earlier zone, which takes precedence on the shared floors.`,
+        }
+      : null;
+  },
+];
+
+const plotRules: Rule[] = [
+  (config) =>
+    config.plot.setbacks.some((setback) => setback < 0)
+      ? {
+          id: "plot-setback-negative",
+          severity: "error",
+          fields: ["plot"],
+          message: "Setbacks cannot be negative.",
+        }
+      : null,
+  (config) =>
+    config.plot.maxHeight < 0 || config.plot.maxFloorAreaRatio < 0 || config.plot.maxCoverage < 0
+      ? {
+          id: "plot-limit-negative",
+          severity: "error",
+          fields: ["plot"],
+          message: "Height, floor-area ratio and coverage limits cannot be negative; use zero for no limit.",
+        }
+      : null,
+  (config) =>
+    config.plot.maxCoverage > 1
+      ? {
+          id: "plot-coverage-above-full",
+          severity: "error",
+          fields: ["plot"],
+          message: "Site coverage cannot be limited to more than 100% of the plot.",
+        }
+      : null,
+];
+
+const sunRules: Rule[] = [
+  (config) =>
+    Math.abs(config.sunStudy.latitude) > 90 || Math.abs(config.sunStudy.longitude) > 180
+      ? {
+          id: "sun-location-invalid",
+          severity: "error",
+          fields: ["sunStudy"],
+          message: "Latitude must lie within ±90° and longitude within ±180°.",
+        }
+      : null,
+  (config) =>
+    config.sunStudy.utcOffset < -12 || config.sunStudy.utcOffset > 14
+      ? {
+          id: "sun-utc-offset-invalid",
+          severity: "error",
+          fields: ["sunStudy"],
+          message: "The UTC offset must be between -12 and +14 hours.",
+        }
+      : null,
+  (config) =>
+    parseStudyDate(config.sunStudy.date)
+      ? null
+      : {
+          id: "sun-date-invalid",
+          severity: "error",
+          fields: ["sunStudy"],
+          message: "The sun study needs a real calendar date.",
+        },
+  (config) =>
+    config.sunStudy.startHour < 0 ||
+    config.sunStudy.endHour > 24 ||
+    config.sunStudy.startHour >= config.sunStudy.endHour
+      ? {
+          id: "sun-time-range-invalid",
+          severity: "error",
+          fields: ["sunStudy"],
+          message: "The study must start before it ends, between 00:00 and 24:00.",
+        }
+      : null,
+];
+
+const RULES: Rule[] = [
+  ...positiveRules,
+  (config) =>
+    config.windowWidth > config.windowModule
+      ? {
+          id: "window-wider-than-module",
+          severity: "error",
+          fields: ["windowWidth", "windowModule"],
+          message: `Window width ${format(config.windowWidth)} is wider than the ${format(config.windowModule)} module, so neighbouring windows overlap.`,
+        }
+      : null,
+  (config) =>
+    config.windowWidth > Math.min(config.width, config.depth)
+      ? {
+          id: "window-wider-than-facade",
+          severity: "error",
+          fields: ["windowWidth", "width", "depth"],
+          message: "Window width is larger than the narrowest facade.",
+        }
+      : null,
+  (config) =>
+    config.windowHeight + config.spandrelHeight > config.floorHeight
+      ? {
+          id: "window-taller-than-floor",
+          severity: "error",
+          fields: ["windowHeight", "spandrelHeight", "floorHeight"],
+          message: `Spandrel plus window (${format(config.spandrelHeight + config.windowHeight)}) is taller than the ${format(config.floorHeight)} floor-to-floor height.`,
+        }
+      : null,
+  (config) => {
+    const headroom = config.floorHeight - config.windowHeight - config.spandrelHeight;
+    return headroom >= 0 && headroom < 0.3
+      ? {
+          id: "window-head-tight",
+          severity: "warning",
+          fields: ["windowHeight", "spandrelHeight", "floorHeight"],
+          message: `Only ${format(headroom)} is left above the window head for the slab and services.`,
+        }
+      : null;
+  },
+  (config) =>
+    config.floors > 0 && config.windowHeight + config.spandrelHeight > config.lobbyHeight
+      ? {
+          id: "window-taller-than-lobby",
+          severity: "error",
+          fields: ["windowHeight", "spandrelHeight", "lobbyHeight"],
+          message: "Lobby windows would run past the lobby height.",
+        }
+      : null,
+  (config) =>
+    config.coreWidth >= config.width || config.coreDepth >= config.depth
+      ? {
+          id: "core-larger-than-plate",
+          severity: "error",
+          fields: ["coreWidth", "coreDepth", "width", "depth"],
+          message: `The ${format(config.coreWidth)} × ${format(config.coreDepth)} core does not fit inside the ${format(config.width)} × ${format(config.depth)} floor plate.`,
+        }
+      : null,
+  (config) => {
+    const plate = config.width * config.depth;
+    const share = plate > 0 ? (config.coreWidth * config.coreDepth) / plate : 0;
+    const fits = config.coreWidth < config.width && config.coreDepth < config.depth;
+    return fits && share > 0.3
+      ? {
+          id: "core-inefficient",
+          severity: "warning",
+          fields: ["coreWidth", "coreDepth"],
+          message: `The core takes ${Math.round(share * 100)}% of the floor plate; typical towers stay below 25–30%.`,
+        }
+      : null;
+  },
+  (config) =>
+    config.hasAtrium && config.coreWidth >= config.width * 0.5 && config.coreDepth >= config.depth * 0.5
+      ? {
+          id: "core-fills-atrium",
+          severity: "warning",
+          fields: ["hasAtrium", "coreWidth", "coreDepth"],
+          message: "The core covers the whole atrium void, so the atrium has no open area.",
+        }
+      : null,
+  (config) =>
+    config.planShape !== "rectangle" && (config.cutoutRatio < 0.1 || config.cutoutRatio > 0.8)
+      ? {
+          id: "cutout-ratio-range",
+          severity: "error",
+          fields: ["cutoutRatio", "planShape"],
+          message: "The cut-out has to take between 10% and 80% of the plate width and depth.",
+        }
+      : null,
+  (config) => {
+    if (config.planShape === "rectangle" || config.coreWidth >= config.width || config.coreDepth >= config.depth) {
+      return null;
+    }
+    const wing = coreClearance(config, 0);
+    return config.coreWidth >= wing.width || config.coreDepth >= wing.depth
+      ? {
+          id: "core-outside-wing",
+          severity: "error",
+          fields: ["coreWidth", "coreDepth", "cutoutRatio", "planShape"],
+          message: `The core does not fit the ${format(wing.width)} × ${format(wing.depth)} main wing of the ${config.planShape} plan.`,
+        }
+      : null;
+  },
+  (config) =>
+    config.heightProfile !== "straight" && (config.topScale < 0.3 || config.topScale > 1)
+      ? {
+          id: "top-scale-range",
+          severity: "error",
+          fields: ["topScale", "heightProfile"],
+          message: "The top floor has to keep between 30% and 100% of the base plate.",
+        }
+      : null,
+  (config) =>
+    config.heightProfile === "stepped" && config.setbackInterval < 1
+      ? {
+          id: "setback-interval-positive",
+          severity: "error",
+          fields: ["setbackInterval", "heightProfile"],
+          message: "Stepped setbacks need at least one floor per step.",
+        }
+      : null,
+  (config) => {
+    if (config.heightProfile === "straight" || config.floors < 2) {
+      return null;
+    }
+    const top = coreClearance(config, config.floors - 1);
+    const fitsBase = config.coreWidth < config.width && config.coreDepth < config.depth;
+    return fitsBase && (config.coreWidth >= top.width || config.coreDepth >= top.depth)
+      ? {
+          id: "core-outside-top-plate",
+          severity: "error",
+          fields: ["coreWidth", "coreDepth", "topScale", "heightProfile"],
+          message: `The core no longer fits the ${format(top.width)} × ${format(top.depth)} plate on the top floor.`,
+        }
+      : null;
+  },
+  (config) =>
+    config.cornerStyle !== "square" && config.cornerSize < 0
+      ? {
+          id: "corner-size-negative",
+          severity: "error",
+          fields: ["cornerSize", "cornerStyle"],
+          message: "Corner size cannot be negative.",
+        }
+      : null,
+  (config) =>
+    config.roofStyle !== "flat" && (config.planShape !== "rectangle" || config.cornerStyle !== "square")
+      ? {
+          id: "roof-falls-back-flat",
+          severity: "warning",
+          fields: ["roofStyle", "planShape", "cornerStyle"],
+          message: `A ${config.roofStyle} roof needs a plain rectangular plan, so this tower gets a flat roof instead.`,
+        }
+      : null,
+  (config) =>
+    config.hasAtrium && config.planShape === "courtyard"
+      ? {
+          id: "courtyard-replaces-atrium",
+          severity: "warning",
+          fields: ["hasAtrium", "planShape"],
+          message: "The courtyard already opens the middle of the plan, so no separate atrium is cut.",
+        }
+      : null,
+  (config) => {
+    if (!config.includePodium || config.podiumLevels <= 0) {
+      return null;
+    }
+    const top = podiumTopSize(config);
+    if (top.width <= 0 || top.depth <= 0) {
+      return {
+        id: "podium-negative",
+        severity: "error",
+        fields: ["podiumSetback", "podiumLevels"],
+        message: `A ${format(config.podiumSetback)} setback over ${config.podiumLevels} levels shrinks the top podium level to nothing.`,
+      };
+    }
+    if (top.width < config.width || top.depth < config.depth) {
+      return {
+        id: "podium-inside-tower",
+        severity: "warning",
+        fields: ["podiumSetback", "podiumLevels"],
+        message: "Upper podium levels step back inside the tower footprint and disappear behind it.",
+      };
+    }
+    return null;
+  },
+  (config) =>
+    config.includePodium && config.podiumLevels > config.floors
+      ? {
+          id: "podium-taller-than-tower",
+          severity: "warning",
+          fields: ["podiumLevels", "floors"],
+          message: "The podium has more levels than the tower.",
+        }
+      : null,
+  (config) => {
+    if (config.structuralGrid <= 0) {
+      return null;
+    }
+    const uneven = (["width", "depth"] as const).filter((field) => {
+      const remainder = config[field] % config.structuralGrid;
+      return remainder > 0.01 && config.structuralGrid - remainder > 0.01;
+    });
+    return uneven.length > 0
+      ? {
+          id: "grid-uneven",
+          severity: "warning",
+          fields: ["structuralGrid", ...uneven],
+          message: `The ${format(config.structuralGrid)} grid does not divide the ${uneven
+            .map((field) => `${format(config[field])} ${field}`)
+            .join(" or ")} evenly, leaving an odd end bay.`,
+        }
+      : null;
+  },
+  (config) =>
+    config.balconyFrequency !== "none" && config.balconyDepth > 3
+      ? {
+          id: "balcony-deep",
+          severity: "warning",
+          fields: ["balconyDepth"],
+          message: "Balconies deeper than 3 m usually need supporting columns.",
+        }
+      : null,
+  (config) => {
+    const ground =
+      config.includePodium && config.podiumLevels > 0
+        ? (config.width + config.podiumSetback * 2) * (config.depth + config.podiumSetback * 2)
+        : config.width * config.depth;
+    return config.siteArea > 0 && ground > config.siteArea
+      ? {
+          id: "footprint-exceeds-site",
+          severity: "error",
+          fields: ["width", "depth", "podiumSetback", "siteArea"],
+          message: `The ${Math.round(ground).toLocaleString()} m² ground footprint is larger than the site area.`,
+        }
+      : null;
+  },
+  ...zoneRules,
+  ...plotRules,
+  ...sunRules,
+];
+
+export const validateBuildingConfig = (config: BuildingConfig): ValidationIssue[] =>
+  RULES.map((rule) => rule(config)).filter((issue): issue is ValidationIssue => issue !== null);
+
+export const issuesForField = (issues: ValidationIssue[], field: ConfigField) =>
+  issues.filter((issue) => issue.fields.includes(field));
+
+export const hasErrors = (issues: ValidationIssue[]) => issues.some((issue) => issue.severity === "error");
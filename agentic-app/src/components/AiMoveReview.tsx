@@ -0,0 +1,82 @@
+import type { MoveReview } from "../building/ai/review";
+import type { FieldValue } from "../building/fields";
+import { formatFieldValue } from "../building/fields";
+
+const Value = ({ field, value }: { field: string; value: FieldValue }) =>
+  field.startsWith("colors.") ? (
+    <span className="inline-flex items-center gap-1">
+      <span className="h-3 w-3 rounded-full border border-slate-300" style={{ background: String(value) }} />
+      {value}
+    </span>
+  ) : (
+    <span className="line-clamp-2">{formatFieldValue(value)}</span>
+  );
+
+export const AiMoveReview = ({
+  review,
+  onToggle,
+  onApply,
+  onDiscard,
+}: {
+  review: MoveReview;
+  onToggle: (key: string, accepted: boolean) => void;
+  onApply: () => void;
+  onDiscard: () => void;
+}) => (
+  <div className="mt-5 space-y-3 rounded-xl border border-slate-200 bg-slate-50 p-3 text-xs text-slate-600">
+    <div className="flex items-center justify-between gap-3">
+      <span className="font-semibold text-slate-900">Proposed by {review.move.source}</span>
+      <span>
+        {review.accepted.length} of {review.changes.length} accepted
+      </span>
+    </div>
+    {review.move.fallbackReason && (
+      <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-amber-800">
+        {review.move.fallbackReason} The offline rules answered instead.
+      </p>
+    )}
+    {review.move.summary && <p>{review.move.summary}</p>}
+    <ul className="space-y-2">
+      {review.changes.map((change) => (
+        <li key={change.key} className="rounded-lg border border-slate-200 bg-white px-3 py-2">
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={review.accepted.includes(change.key)}
+              onChange={(event) => onToggle(change.key, event.target.checked)}
+              className="mt-0.5 h-4 w-4 rounded border-slate-300 text-slate-900"
+            />
+            <span className="flex-1 space-y-1">
+              <span className="block font-medium text-slate-900">{change.label}</span>
+              <span className="flex flex-wrap items-center gap-2">
+                <span className="text-slate-500 line-through">
+                  <Value field={change.key} value={change.before} />
+                </span>
+                →
+                <Value field={change.key} value={change.after} />
+              </span>
+              <span className={`block ${change.note ? "text-slate-500" : "text-amber-700"}`}>
+                {change.note ? `From “${change.note}”` : "Not tied to any words in the prompt; check it before applying."}
+              </span>
+            </span>
+          </label>
+        </li>
+      ))}
+    </ul>
+    <div className="flex gap-2">
+      <button
+        onClick={onApply}
+        disabled={review.accepted.length === 0}
+        className="flex-1 rounded-lg bg-slate-900 px-3 py-2 text-xs font-semibold text-white transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        Apply {review.accepted.length === review.changes.length ? "all" : "selected"}
+      </button>
+      <button
+        onClick={onDiscard}
+        className="rounded-lg border border-slate-200 px-3 py-2 text-xs font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+      >
+        Reject all
+      </button>
+    </div>
+  </div>
+);
@@ -0,0 +1,86 @@
+"use client";
+
+import { useMemo } from "react";
+import type { OptionSet } from "../building/ai/options";
+import { computeMetrics } from "../building/metrics";
+import { buildScene } from "../building/scene";
+import type { AiOption } from "../building/types";
+import { MassingViewer } from "./MassingViewer";
+
+export const AiOptionsPanel = ({
+  optionSet,
+  onPick,
+  onDismiss,
+}: {
+  optionSet: OptionSet;
+  onPick: (option: AiOption) => void;
+  onDismiss: () => void;
+}) => {
+  const scenes = useMemo(() => optionSet.options.map((option) => buildScene(option.config)), [optionSet]);
+  const metrics = useMemo(() => optionSet.options.map((option) => computeMetrics(option.config)), [optionSet]);
+
+  return (
+    <div className="mt-5 space-y-3 text-xs text-slate-600">
+      <div className="flex items-center justify-between gap-3">
+        <span className="font-semibold text-slate-900">
+          {optionSet.options.length} options, brief read by {optionSet.source}
+        </span>
+        <button
+          onClick={onDismiss}
+          className="rounded-lg border border-slate-200 px-2 py-1 font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+        >
+          Dismiss
+        </button>
+      </div>
+      {optionSet.options.length < optionSet.requested && (
+        <p className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
+          Only {optionSet.options.length} of the {optionSet.requested} options asked for are distinct; the brief brings
+          the other starting points to the same design.
+        </p>
+      )}
+      {optionSet.fallbackReason && (
+        <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-amber-800">
+          {optionSet.fallbackReason} The offline rules read the brief instead.
+        </p>
+      )}
+      {optionSet.options.map((option, idx) => (
+        <div key={option.id} className="rounded-xl border border-slate-200 bg-slate-50 p-3">
+          <div className="flex items-center justify-between gap-3">
+            <span className="font-semibold text-slate-900">
+              {option.rank}. {option.name}
+            </span>
+            <button
+              onClick={() => onPick(option)}
+              className="rounded-lg bg-slate-900 px-3 py-1 font-semibold text-white transition hover:bg-slate-700"
+            >
+              Use this option
+            </button>
+          </div>
+          <MassingViewer
+            scene={scenes[idx]}
+            className="mt-2 h-36 overflow-hidden rounded-lg border border-slate-200 bg-slate-950"
+          />
+          <dl className="mt-2 grid grid-cols-4 gap-2 text-slate-500">
+            <div>
+              <dt>Floors</dt>
+              <dd className="font-semibold text-slate-900">{option.config.floors}</dd>
+            </div>
+            <div>
+              <dt>Height</dt>
+              <dd className="font-semibold text-slate-900">{metrics[idx].height.toFixed(1)} m</dd>
+            </div>
+            <div>
+              <dt>GFA</dt>
+              <dd className="font-semibold text-slate-900">{Math.round(metrics[idx].grossArea).toLocaleString()} m²</dd>
+            </div>
+            <div>
+              <dt>Units</dt>
+              <dd className="font-semibold text-slate-900">{metrics[idx].unitCount}</dd>
+            </div>
+          </dl>
+          <p className="mt-2">{option.rationale}</p>
+        </div>
+      ))}
+    </div>
+  );
+};
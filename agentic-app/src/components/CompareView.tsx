@@ -0,0 +1,106 @@
+"use client";
+
+import { useMemo } from "react";
+import type { FieldValue } from "../building/fields";
+import { fieldLabel, flattenConfig, formatFieldValue } from "../building/fields";
+import { computeMetrics } from "../building/metrics";
+import { buildScene } from "../building/scene";
+import type { BuildingConfig } from "../building/types";
+import { MassingViewer } from "./MassingViewer";
+
+export type CompareOption = {
+  id: string;
+  name: string;
+  config: BuildingConfig;
+};
+
+export const CompareView = ({ options }: { options: CompareOption[] }) => {
+  const metrics = useMemo(() => options.map((option) => computeMetrics(option.config)), [options]);
+  const scenes = useMemo(() => options.map((option) => buildScene(option.config)), [options]);
+
+  const differences = useMemo(() => {
+    const flattened = options.map((option) => new Map(flattenConfig(option.config)));
+    return [...(flattened[0]?.keys() ?? [])]
+      .map((key) => ({ key, values: flattened.map((fields) => fields.get(key) as FieldValue) }))
+      .filter(({ values }) => values.some((value) => value !== values[0]));
+  }, [options]);
+
+  const metricRows = [
+    { label: "Gross floor area", values: metrics.map((entry) => `${Math.round(entry.grossArea).toLocaleString()} m²`) },
+    { label: "Height", values: metrics.map((entry) => `${entry.height.toFixed(1)} m`) },
+    { label: "Windows", values: metrics.map((entry) => entry.windowCount.toLocaleString()) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(220px, 1fr))" }}>
+        {options.map((option, idx) => (
+          <div
+            key={option.id}
+            className="rounded-2xl border border-slate-900/20 bg-gradient-to-b from-slate-900 to-slate-950 p-4 text-white"
+          >
+            <div className="flex items-center justify-between text-xs uppercase tracking-wider text-slate-300">
+              <span className="truncate">{option.name}</span>
+              <span>{option.config.floors} floors</span>
+            </div>
+            <MassingViewer
+              scene={scenes[idx]}
+              className="mt-3 h-56 overflow-hidden rounded-xl border border-white/5 bg-slate-950/40"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="overflow-x-auto rounded-2xl border border-slate-200">
+        <table className="w-full text-left text-xs text-slate-700">
+          <thead className="bg-slate-50 text-slate-500">
+            <tr>
+              <th className="px-3 py-2 font-medium">Field</th>
+              {options.map((option) => (
+                <th key={option.id} className="px-3 py-2 font-medium">
+                  {option.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {metricRows.map((row) => (
+              <tr key={row.label} className="border-t border-slate-200 bg-slate-50/60 font-medium text-slate-900">
+                <td className="px-3 py-2">{row.label}</td>
+                {row.values.map((value, idx) => (
+                  <td key={options[idx].id} className="px-3 py-2">
+                    {value}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {differences.length === 0 ? (
+              <tr className="border-t border-slate-200">
+                <td colSpan={options.length + 1} className="px-3 py-3 text-slate-500">
+                  The selected options share every parameter.
+                </td>
+              </tr>
+            ) : (
+              differences.map(({ key, values }) => (
+                <tr key={key} className="border-t border-slate-200">
+                  <td className="px-3 py-2 text-slate-500">{fieldLabel(key)}</td>
+                  {values.map((value, idx) => (
+                    <td key={options[idx].id} className="max-w-xs px-3 py-2">
+                      {key.startsWith("colors.") ? (
+                        <span className="flex items-center gap-2">
+                          <span className="h-3 w-3 rounded-full border border-slate-300" style={{ background: String(value) }} />
+                          {value}
+                        </span>
+                      ) : (
+                        <span className="line-clamp-2">{formatFieldValue(value)}</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { Drawing, DrawingId } from "../building/drawings";
+import { exportSvg } from "../building/exporters/svg";
+
+export type DrawingFormat = "svg" | "dxf";
+
+type DrawingsPanelProps = {
+  drawings: Drawing[];
+  disabled?: boolean;
+  onDownload: (drawing: Drawing, format: DrawingFormat) => void;
+};
+
+export const DrawingsPanel = ({ drawings, disabled, onDownload }: DrawingsPanelProps) => {
+  const [selectedId, setSelectedId] = useState<DrawingId>("plan");
+  const selected = drawings.find((drawing) => drawing.id === selectedId) ?? drawings[0];
+  const preview = useMemo(() => (selected ? exportSvg(selected) : ""), [selected]);
+
+  if (!selected) {
+    return null;
+  }
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {drawings.map((drawing) => (
+          <button
+            key={drawing.id}
+            onClick={() => setSelectedId(drawing.id)}
+            className={`rounded-full border px-3 py-1 text-xs font-medium transition ${
+              drawing.id === selected.id
+                ? "border-slate-900 bg-slate-900 text-white"
+                : "border-slate-200 text-slate-600 hover:border-slate-300 hover:text-slate-900"
+            }`}
+          >
+            {drawing.title}
+          </button>
+        ))}
+      </div>
+      <div
+        className="max-h-[520px] overflow-auto rounded-2xl border border-slate-200 bg-white p-3 [&>svg]:h-auto [&>svg]:w-full"
+        dangerouslySetInnerHTML={{ __html: preview }}
+      />
+      <div className="flex flex-wrap gap-2">
+        {(["svg", "dxf"] as DrawingFormat[]).map((format) => (
+          <button
+            key={format}
+            onClick={() => onDownload(selected, format)}
+            disabled={disabled}
+            className="rounded-xl border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-400 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Download {format.toUpperCase()}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
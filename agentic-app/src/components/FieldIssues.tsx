@@ -0,0 +1,21 @@
+import type { ConfigField, ValidationIssue } from "../building/validation";
+import { issuesForField } from "../building/validation";
+
+export const FieldIssues = ({ issues, field }: { issues: ValidationIssue[]; field: ConfigField }) => {
+  const matching = issuesForField(issues, field);
+  if (matching.length === 0) {
+    return null;
+  }
+  return (
+    <span className="flex flex-col gap-1">
+      {matching.map((issue) => (
+        <span
+          key={issue.id}
+          className={`text-xs font-normal ${issue.severity === "error" ? "text-rose-600" : "text-amber-700"}`}
+        >
+          {issue.message}
+        </span>
+      ))}
+    </span>
+  );
+};
@@ -0,0 +1,125 @@
+import { useId } from "react";
+import type { FloorPlan, PlanRect } from "../building/floorplan";
+import type { PlanPolygon } from "../building/polygon";
+import { boundarySegments } from "../building/polygon";
+
+const UNIT_FILLS = ["#e0ecff", "#fdebd3", "#e3f4e4", "#f4e1f2"];
+
+const MARGIN = 3;
+
+const rectProps = ({ min, max }: PlanRect) => ({
+  x: min[0],
+  y: min[1],
+  width: max[0] - min[0],
+  height: max[1] - min[1],
+});
+
+const polygonPoints = (polygon: PlanPolygon) => polygon.map(([x, y]) => `${x},${y}`).join(" ");
+
+// Plan coordinates match the massing: +x runs right and the front facade (+y)
+// sits at the bottom of the drawing. Fills are clipped to the plate so shaped
+// corners read cleanly.
+export const FloorPlanView = ({ plan }: { plan: FloorPlan }) => {
+  const clipId = useId();
+  const { min, max } = plan.bounds;
+  const labelSize = Math.max(0.9, Math.min(plan.width, plan.depth) / 22);
+  const averageArea = plan.units.length > 0 ? plan.units.reduce((sum, unit) => sum + unit.area, 0) / plan.units.length : 0;
+  return (
+    <div className="space-y-3">
+      <svg
+        viewBox={`${min[0] - MARGIN} ${min[1] - MARGIN} ${plan.width + MARGIN * 2} ${plan.depth + MARGIN * 2}`}
+        className="w-full rounded-2xl border border-slate-200 bg-slate-50"
+        role="img"
+        aria-label={`Typical floor plan with ${plan.units.length} units`}
+      >
+        <defs>
+          <clipPath id={clipId}>
+            {plan.plate.map((piece, idx) => (
+              <polygon key={idx} points={polygonPoints(piece)} />
+            ))}
+          </clipPath>
+        </defs>
+        <g clipPath={`url(#${clipId})`}>
+          {plan.plate.map((piece, idx) => (
+            <polygon key={idx} points={polygonPoints(piece)} fill="#eef0f3" />
+          ))}
+          {plan.units.map((unit, idx) =>
+            unit.rects.map((rect, rectIdx) => (
+              <rect key={`${unit.number}-${rectIdx}`} {...rectProps(rect)} fill={UNIT_FILLS[idx % UNIT_FILLS.length]} />
+            )),
+          )}
+        </g>
+        {plan.atrium && (
+          <rect
+            {...rectProps(plan.atrium)}
+            fill="#ffffff"
+            stroke="#94a3b8"
+            strokeWidth={0.12}
+            strokeDasharray="0.6 0.4"
+          />
+        )}
+        <polygon points={polygonPoints(plan.coreOutline)} fill="#475569" />
+        {plan.walls.map((wall, idx) => (
+          <line
+            key={idx}
+            x1={wall.from[0]}
+            y1={wall.from[1]}
+            x2={wall.to[0]}
+            y2={wall.to[1]}
+            stroke={wall.kind === "demising" ? "#334155" : "#94a3b8"}
+            strokeWidth={wall.kind === "demising" ? 0.2 : 0.15}
+          />
+        ))}
+        {boundarySegments(plan.plate).map((edge, idx) => (
+          <line
+            key={`edge-${idx}`}
+            x1={edge.from[0]}
+            y1={edge.from[1]}
+            x2={edge.to[0]}
+            y2={edge.to[1]}
+            stroke="#0f172a"
+            strokeWidth={0.35}
+            strokeLinecap="round"
+          />
+        ))}
+        {plan.units.map((unit) => (
+          <text
+            key={unit.number}
+            x={unit.label[0]}
+            y={unit.label[1]}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fontSize={labelSize}
+            fill="#0f172a"
+          >
+            <tspan x={unit.label[0]} dy={-labelSize * 0.4} fontWeight={600}>
+              {unit.number}
+            </tspan>
+            <tspan x={unit.label[0]} dy={labelSize * 1.1} fontSize={labelSize * 0.75} fill="#475569">
+              {Math.round(unit.area)} m²
+            </tspan>
+          </text>
+        ))}
+        {plan.atrium && (
+          <text x={(plan.core.min[0] + plan.core.max[0]) / 2} y={plan.core.min[1] - labelSize} textAnchor="middle" fontSize={labelSize * 0.8} fill="#64748b">
+            Atrium
+          </text>
+        )}
+        <text
+          x={(min[0] + max[0]) / 2}
+          y={max[1] + MARGIN * 0.65}
+          textAnchor="middle"
+          fontSize={labelSize * 0.8}
+          fill="#64748b"
+        >
+          Front
+        </text>
+      </svg>
+      <p className="text-xs text-slate-500">
+        {plan.units.length > 0
+          ? `${plan.units.length} units averaging ${Math.round(averageArea)} m² around a ${Math.round(plan.corridorArea)} m² corridor.`
+          : "The core and corridor leave no room for units on this floor plate."}
+      </p>
+    </div>
+  );
+};
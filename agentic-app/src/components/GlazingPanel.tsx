@@ -0,0 +1,53 @@
+import type { GlazingSummary } from "../building/glazing";
+
+const formatArea = (value: number) => `${Math.round(value).toLocaleString()} m²`;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export const GlazingPanel = ({ glazing }: { glazing: GlazingSummary }) => {
+  const rows = [
+    ...glazing.sides.map((side) => ({ label: side.side.charAt(0).toUpperCase() + side.side.slice(1), ...side })),
+    { label: "Total", ...glazing.total },
+  ];
+  const offending = glazing.sides.filter((side) => side.exceedsLimit).map((side) => side.side);
+
+  return (
+    <div className="space-y-3">
+      {offending.length > 0 ? (
+        <div className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-2 text-xs text-amber-800">
+          Window-to-wall ratio exceeds the {formatPercent(glazing.limit)} limit on the {offending.join(", ")} facade
+          {offending.length === 1 ? "" : "s"}. Reduce window size or widen the module.
+        </div>
+      ) : null}
+      <div className="overflow-x-auto rounded-2xl border border-slate-200">
+        <table className="w-full text-left text-xs text-slate-700">
+          <thead className="bg-slate-50 text-slate-500">
+            <tr>
+              <th className="px-3 py-2 font-medium">Orientation</th>
+              <th className="px-3 py-2 text-right font-medium">Windows</th>
+              <th className="px-3 py-2 text-right font-medium">Glazed</th>
+              <th className="px-3 py-2 text-right font-medium">Opaque</th>
+              <th className="px-3 py-2 text-right font-medium">WWR</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.label}
+                className={`border-t border-slate-200 ${row.label === "Total" ? "bg-slate-50 font-semibold text-slate-900" : ""}`}
+              >
+                <td className="px-3 py-2">{row.label}</td>
+                <td className="px-3 py-2 text-right">{row.windowCount.toLocaleString()}</td>
+                <td className="px-3 py-2 text-right">{formatArea(row.glazedArea)}</td>
+                <td className="px-3 py-2 text-right">{formatArea(row.opaqueArea)}</td>
+                <td className={`px-3 py-2 text-right ${row.exceedsLimit ? "font-semibold text-amber-700" : ""}`}>
+                  {formatPercent(row.ratio)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
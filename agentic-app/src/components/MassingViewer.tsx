@@ -0,0 +1,245 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Vec3 } from "../building/math";
+import { clamp } from "../building/math";
+import type { BuildingScene, ElementKind } from "../building/scene";
+import { buildViewerBuffers } from "./viewer/buffers";
+import { lookAt, multiply, perspective } from "./viewer/math";
+import type { MassingRenderer } from "./viewer/renderer";
+import { createMassingRenderer } from "./viewer/renderer";
+
+type OrbitState = {
+  yaw: number;
+  pitch: number;
+  distance: number;
+  target: Vec3;
+};
+
+type DragState = {
+  mode: "orbit" | "pan";
+  x: number;
+  y: number;
+};
+
+// The structure view strips the envelope and fit-out to expose columns, transfers and the core.
+const ENVELOPE_KINDS: ElementKind[] = [
+  "floor",
+  "partition",
+  "window",
+  "balcony",
+  "lightShelf",
+  "podium",
+  "roof",
+  "solar",
+  "garden",
+];
+
+const initialOrbit = (height: number, span: number): OrbitState => ({
+  yaw: Math.PI / 4,
+  pitch: 0.45,
+  distance: Math.max(height, span) * 1.9,
+  target: [0, 0, height * 0.45],
+});
+
+const cameraEye = ({ yaw, pitch, distance, target }: OrbitState): Vec3 => [
+  target[0] + distance * Math.cos(pitch) * Math.cos(yaw),
+  target[1] + distance * Math.cos(pitch) * Math.sin(yaw),
+  target[2] + distance * Math.sin(pitch),
+];
+
+// With `sun` (a unit vector towards it) the preview is lit from the sun and
+// casts the building's shadow on the ground.
+export const MassingViewer = ({
+  scene,
+  sun = null,
+  className,
+}: {
+  scene: BuildingScene;
+  sun?: Vec3 | null;
+  className?: string;
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const rendererRef = useRef<MassingRenderer | null>(null);
+  const orbitRef = useRef<OrbitState | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const [unsupported, setUnsupported] = useState(false);
+  const [showStructure, setShowStructure] = useState(false);
+
+  const visibleScene = useMemo(
+    () =>
+      showStructure
+        ? { ...scene, elements: scene.elements.filter((element) => !ENVELOPE_KINDS.includes(element.kind)) }
+        : scene,
+    [scene, showStructure],
+  );
+  const span = scene.extent;
+
+  const draw = useCallback(() => {
+    if (frameRef.current !== null) {
+      return;
+    }
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      const canvas = canvasRef.current;
+      const renderer = rendererRef.current;
+      const orbit = orbitRef.current;
+      if (!canvas || !renderer || !orbit) {
+        return;
+      }
+      const aspect = canvas.width / Math.max(1, canvas.height);
+      const far = orbit.distance * 4 + span * 4;
+      const projection = perspective(Math.PI / 4, aspect, Math.max(0.1, orbit.distance / 200), far);
+      const view = lookAt(cameraEye(orbit), orbit.target, [0, 0, 1]);
+      renderer.render(multiply(projection, view));
+    });
+  }, [span]);
+
+  // The renderer lives for the whole mount, so its resize handler reaches the
+  // latest `draw` through a ref.
+  const drawRef = useRef(draw);
+  useEffect(() => {
+    drawRef.current = draw;
+  }, [draw]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return;
+    }
+    const renderer = createMassingRenderer(canvas);
+    if (!renderer) {
+      setUnsupported(true);
+      return;
+    }
+    rendererRef.current = renderer;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const ratio = window.devicePixelRatio || 1;
+      renderer.resize(
+        Math.max(1, Math.round(entry.contentRect.width * ratio)),
+        Math.max(1, Math.round(entry.contentRect.height * ratio)),
+      );
+      drawRef.current();
+    });
+    observer.observe(canvas);
+
+    return () => {
+      observer.disconnect();
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    rendererRef.current?.setBuffers(buildViewerBuffers(visibleScene, sun));
+    rendererRef.current?.setLight(sun && sun[2] > 0 ? sun : null);
+    if (!orbitRef.current) {
+      orbitRef.current = initialOrbit(scene.height, span);
+    }
+    draw();
+  }, [visibleScene, sun, scene.height, span, draw]);
+
+  // React attaches wheel listeners as passive, so zooming listens on the
+  // canvas itself to keep the page from scrolling underneath.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return;
+    }
+    const handleWheel = (event: WheelEvent) => {
+      const orbit = orbitRef.current;
+      if (!orbit) {
+        return;
+      }
+      event.preventDefault();
+      orbit.distance = clamp(orbit.distance * Math.exp(event.deltaY * 0.001), 5, span * 20 + 500);
+      draw();
+    };
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, [draw, span]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = {
+      mode: event.button === 2 || event.shiftKey ? "pan" : "orbit",
+      x: event.clientX,
+      y: event.clientY,
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    const orbit = orbitRef.current;
+    if (!drag || !orbit) {
+      return;
+    }
+    const dx = event.clientX - drag.x;
+    const dy = event.clientY - drag.y;
+    drag.x = event.clientX;
+    drag.y = event.clientY;
+    if (drag.mode === "orbit") {
+      orbit.yaw -= dx * 0.008;
+      orbit.pitch = clamp(orbit.pitch + dy * 0.008, -0.1, Math.PI / 2 - 0.05);
+    } else {
+      const scale = orbit.distance * 0.0015;
+      const right: Vec3 = [-Math.sin(orbit.yaw), Math.cos(orbit.yaw), 0];
+      orbit.target = [
+        orbit.target[0] - right[0] * dx * scale,
+        orbit.target[1] - right[1] * dx * scale,
+        orbit.target[2] + dy * scale,
+      ];
+    }
+    draw();
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    dragRef.current = null;
+  };
+
+  const handleRecenter = () => {
+    orbitRef.current = initialOrbit(scene.height, span);
+    draw();
+  };
+
+  return (
+    <div className={`relative ${className ?? ""}`}>
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onContextMenu={(event) => event.preventDefault()}
+        className="h-full w-full cursor-grab touch-none rounded-2xl active:cursor-grabbing"
+      />
+      {unsupported ? (
+        <div className="absolute inset-0 flex items-center justify-center rounded-2xl bg-slate-950/80 p-6 text-center text-xs text-slate-300">
+          WebGL 2 is not available in this browser, so the 3D massing preview cannot be shown.
+        </div>
+      ) : (
+        <div className="absolute right-2 top-2 flex gap-1">
+          <button
+            onClick={() => setShowStructure((prev) => !prev)}
+            className="rounded-lg border border-white/10 bg-slate-900/70 px-2 py-1 text-[10px] uppercase tracking-wider text-slate-300 transition hover:text-white"
+          >
+            {showStructure ? "Envelope" : "Structure"}
+          </button>
+          <button
+            onClick={handleRecenter}
+            className="rounded-lg border border-white/10 bg-slate-900/70 px-2 py-1 text-[10px] uppercase tracking-wider text-slate-300 transition hover:text-white"
+          >
+            Recenter
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
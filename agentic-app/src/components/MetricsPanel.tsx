@@ -0,0 +1,117 @@
+import { zoneUseLabel } from "../building/levels";
+import type { BuildingMetrics } from "../building/metrics";
+import { ZONE_COLORS } from "../building/scene";
+
+const formatArea = (value: number) => `${Math.round(value).toLocaleString()} m²`;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const MetricsPanel = ({ metrics }: { metrics: BuildingMetrics }) => {
+  const { heightBreakdown } = metrics;
+  const tiles = [
+    { label: "Gross floor area", value: formatArea(metrics.grossArea), detail: `${metrics.levels.length} levels` },
+    {
+      label: "Net floor area",
+      value: formatArea(metrics.netArea),
+      detail: `${formatPercent(metrics.efficiency)} efficiency after core and atrium`,
+    },
+    {
+      label: "Average unit",
+      value: formatArea(metrics.averageUnitSize),
+      detail: `${metrics.unitCount.toLocaleString()} units on typical floors`,
+    },
+    {
+      label: "Building height",
+      value: `${metrics.height.toFixed(1)} m`,
+      detail: `Base ${heightBreakdown.base.toFixed(1)} + lobby ${heightBreakdown.lobby.toFixed(1)} + floors ${heightBreakdown.typical.toFixed(1)} + roof ${heightBreakdown.roof.toFixed(1)}`,
+    },
+    {
+      label: "Floor-area ratio",
+      value: metrics.siteArea > 0 ? metrics.floorAreaRatio.toFixed(2) : "–",
+      detail: metrics.siteArea > 0 ? `${formatPercent(metrics.siteCoverage)} site coverage` : "Enter a site area",
+    },
+  ];
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 xl:grid-cols-3">
+        {tiles.map((tile) => (
+          <div key={tile.label} className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3">
+            <p className="text-xs uppercase tracking-wider text-slate-500">{tile.label}</p>
+            <p className="mt-1 text-lg font-semibold text-slate-900">{tile.value}</p>
+            <p className="mt-1 text-xs text-slate-500">{tile.detail}</p>
+          </div>
+        ))}
+      </div>
+      {metrics.zones.length > 0 && (
+        <div className="overflow-hidden rounded-2xl border border-slate-200">
+          <table className="w-full text-left text-xs text-slate-700">
+            <thead className="bg-slate-50 text-slate-500">
+              <tr>
+                <th className="px-3 py-2 font-medium">Zone</th>
+                <th className="px-3 py-2 text-right font-medium">Floors</th>
+                <th className="px-3 py-2 text-right font-medium">Units</th>
+                <th className="px-3 py-2 text-right font-medium">Gross</th>
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.zones.map((zone, idx) => (
+                <tr key={idx} className="border-t border-slate-200">
+                  <td className="px-3 py-1.5">
+                    <span className="flex items-center gap-2">
+                      <span className="h-3 w-3 rounded-full" style={{ background: ZONE_COLORS[zone.use] }} />
+                      {zone.label}
+                    </span>
+                  </td>
+                  <td className="px-3 py-1.5 text-right">{zone.floors}</td>
+                  <td className="px-3 py-1.5 text-right">{zone.units.toLocaleString()}</td>
+                  <td className="px-3 py-1.5 text-right">{formatArea(zone.gross)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="max-h-72 overflow-y-auto rounded-2xl border border-slate-200">
+        <table className="w-full text-left text-xs text-slate-700">
+          <thead className="sticky top-0 bg-slate-50 text-slate-500">
+            <tr>
+              <th className="px-3 py-2 font-medium">Level</th>
+              <th className="px-3 py-2 font-medium">Use</th>
+              <th className="px-3 py-2 text-right font-medium">Elevation</th>
+              <th className="px-3 py-2 text-right font-medium">Gross</th>
+              <th className="px-3 py-2 text-right font-medium">Net</th>
+            </tr>
+          </thead>
+          <tbody>
+            {metrics.levels.map((level) => (
+              <tr key={level.index} className="border-t border-slate-200">
+                <td className="px-3 py-1.5">{level.name}</td>
+                <td className="px-3 py-1.5 text-slate-500">
+                  {level.index === 0
+                    ? "Lobby"
+                    : level.use
+                      ? zoneUseLabel(level.use)
+                      : level.hasTower
+                        ? "Typical"
+                        : "Podium"}
+                  {level.hasPodium && level.hasTower ? " + podium" : ""}
+                </td>
+                <td className="px-3 py-1.5 text-right">{level.bottom.toFixed(1)} m</td>
+                <td className="px-3 py-1.5 text-right">{formatArea(level.gross)}</td>
+                <td className="px-3 py-1.5 text-right">{formatArea(level.net)}</td>
+              </tr>
+            ))}
+            <tr className="border-t border-slate-300 bg-slate-50 font-semibold text-slate-900">
+              <td className="px-3 py-2" colSpan={3}>
+                Total
+              </td>
+              <td className="px-3 py-2 text-right">{formatArea(metrics.grossArea)}</td>
+              <td className="px-3 py-2 text-right">{formatArea(metrics.netArea)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
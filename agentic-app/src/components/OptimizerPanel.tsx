@@ -0,0 +1,256 @@
+import type { Candidate, OptimizerTargets, SearchProgress, SearchResult } from "../building/optimizer";
+import { GFA_TOLERANCE } from "../building/optimizer";
+
+const INPUT =
+  "rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400";
+
+// Ratios are edited as percentages, like the glazing limit in the facade section.
+const FIELDS: { key: keyof OptimizerTargets; label: string; step: number; scale: number }[] = [
+  { key: "grossArea", label: "Target GFA (m²)", step: 500, scale: 1 },
+  { key: "maxHeight", label: "Max height (m)", step: 1, scale: 1 },
+  { key: "maxWindowWallRatio", label: "Max WWR (%)", step: 1, scale: 100 },
+  { key: "minUnitSize", label: "Min unit size (m²)", step: 5, scale: 1 },
+];
+
+const WIDTH = 600;
+const HEIGHT = 300;
+const PAD = { left: 60, right: 16, top: 12, bottom: 40 };
+const TICKS = 4;
+
+// Rounds an axis up to 1, 2 or 5 times a power of ten.
+const niceMax = (value: number) => {
+  const power = 10 ** Math.floor(Math.log10(Math.max(value, 1)));
+  return ([1, 2, 5, 10].find((step) => step * power >= value) ?? 10) * power;
+};
+
+const formatArea = (value: number) => `${Math.round(value).toLocaleString("en-GB")} m²`;
+
+const describe = (candidate: Candidate) =>
+  [
+    `${candidate.values.floors} floors, ${candidate.values.width} × ${candidate.values.depth} m`,
+    `Height ${candidate.height.toFixed(1)} m, footprint ${formatArea(candidate.footprint)}`,
+    `GFA ${formatArea(candidate.grossArea)}, WWR ${Math.round(candidate.windowWallRatio * 100)}%`,
+    ...candidate.failures,
+  ].join("\n");
+
+const DesignSpaceChart = ({
+  result,
+  loadedId,
+  onPick,
+}: {
+  result: SearchResult;
+  loadedId: string | null;
+  onPick: (candidate: Candidate) => void;
+}) => {
+  const { candidates, targets } = result;
+  const xMax = niceMax(Math.max(targets.maxHeight, ...candidates.map((candidate) => candidate.height)));
+  const yMax = niceMax(Math.max(...candidates.map((candidate) => candidate.footprint)));
+  const x = (value: number) => PAD.left + (value / xMax) * (WIDTH - PAD.left - PAD.right);
+  const y = (value: number) => HEIGHT - PAD.bottom - (value / yMax) * (HEIGHT - PAD.top - PAD.bottom);
+  const front = candidates.filter((candidate) => candidate.pareto).sort((a, b) => a.height - b.height);
+  // Infeasible designs first, so the ones that fit are drawn on top.
+  const ordered = [...candidates].sort(
+    (a, b) => Number(a.feasible) - Number(b.feasible) || Number(a.pareto) - Number(b.pareto),
+  );
+  const ticks = Array.from({ length: TICKS + 1 }, (_, idx) => idx / TICKS);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full rounded-2xl border border-slate-200 bg-slate-50"
+      role="img"
+      aria-label={`Height against footprint for ${candidates.length} searched designs`}
+    >
+      {ticks.map((tick) => (
+        <g key={tick} className="text-[10px]" fill="#64748b">
+          <line x1={x(tick * xMax)} y1={PAD.top} x2={x(tick * xMax)} y2={HEIGHT - PAD.bottom} stroke="#e2e8f0" />
+          <line x1={PAD.left} y1={y(tick * yMax)} x2={WIDTH - PAD.right} y2={y(tick * yMax)} stroke="#e2e8f0" />
+          <text x={x(tick * xMax)} y={HEIGHT - PAD.bottom + 14} textAnchor="middle">
+            {Math.round(tick * xMax)}
+          </text>
+          <text x={PAD.left - 6} y={y(tick * yMax) + 3} textAnchor="end">
+            {Math.round(tick * yMax).toLocaleString("en-GB")}
+          </text>
+        </g>
+      ))}
+      <text
+        x={(PAD.left + WIDTH - PAD.right) / 2}
+        y={HEIGHT - 6}
+        textAnchor="middle"
+        className="text-[11px]"
+        fill="#334155"
+      >
+        Height (m)
+      </text>
+      <text
+        transform={`translate(14 ${(PAD.top + HEIGHT - PAD.bottom) / 2}) rotate(-90)`}
+        textAnchor="middle"
+        className="text-[11px]"
+        fill="#334155"
+      >
+        Footprint (m²)
+      </text>
+      {targets.maxHeight > 0 && (
+        <line
+          x1={x(targets.maxHeight)}
+          y1={PAD.top}
+          x2={x(targets.maxHeight)}
+          y2={HEIGHT - PAD.bottom}
+          stroke="#f59e0b"
+          strokeDasharray="4 3"
+        />
+      )}
+      {front.length > 1 && (
+        <polyline
+          points={front.map((candidate) => `${x(candidate.height)},${y(candidate.footprint)}`).join(" ")}
+          fill="none"
+          stroke="#0f172a"
+          strokeWidth={1.5}
+        />
+      )}
+      {ordered.map((candidate) => (
+        <circle
+          key={candidate.id}
+          cx={x(candidate.height)}
+          cy={y(candidate.footprint)}
+          r={candidate.pareto ? 5 : 3.5}
+          fill={candidate.pareto ? "#0f172a" : candidate.feasible ? "#94a3b8" : "#fecaca"}
+          stroke={candidate.id === loadedId ? "#f59e0b" : "#ffffff"}
+          strokeWidth={candidate.id === loadedId ? 3 : 1}
+          className="cursor-pointer"
+          onClick={() => onPick(candidate)}
+        >
+          <title>{describe(candidate)}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export const OptimizerPanel = ({
+  targets,
+  result,
+  progress,
+  loadedId,
+  onTargetsChange,
+  onSearch,
+  onPick,
+}: {
+  targets: OptimizerTargets;
+  result: SearchResult | null;
+  progress: SearchProgress | null;
+  loadedId: string | null;
+  onTargetsChange: (targets: OptimizerTargets) => void;
+  onSearch: () => void;
+  onPick: (candidate: Candidate) => void;
+}) => {
+  const feasible = result?.candidates.filter((candidate) => candidate.feasible) ?? [];
+  const front = feasible.filter((candidate) => candidate.pareto).sort((a, b) => a.height - b.height);
+  const nearest = result && [...result.candidates].sort((a, b) => a.violation - b.violation)[0];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-4">
+        {FIELDS.map(({ key, label, step, scale }) => (
+          <label key={key} className="flex flex-col gap-2 text-sm font-medium text-slate-700">
+            {label}
+            <input
+              type="number"
+              min={0}
+              step={step}
+              value={Math.round(targets[key] * scale * 100) / 100}
+              onChange={(event) =>
+                onTargetsChange({ ...targets, [key]: Math.max(0, Number(event.target.value)) / scale })
+              }
+              className={INPUT}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          onClick={onSearch}
+          disabled={progress !== null}
+          className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-700 disabled:cursor-wait disabled:opacity-60"
+        >
+          {progress ? `Searching… ${progress.evaluated} of ${progress.total}` : "Search Design Space"}
+        </button>
+        <span className="text-xs text-slate-500">
+          GFA counts as met within ±{Math.round(GFA_TOLERANCE * 100)}%; a zero limit is ignored.
+        </span>
+      </div>
+      {result && (
+        <>
+          <p className="text-sm text-slate-600">
+            {feasible.length > 0
+              ? `${feasible.length} of ${result.candidates.length} designs meet every target; ` +
+                `${front.length} are on the front. Click a point to load it.`
+              : `None of the ${result.candidates.length} designs met every target. ` +
+                `Closest: ${nearest?.failures.join(" ")}`}
+          </p>
+          <DesignSpaceChart result={result} loadedId={loadedId} onPick={onPick} />
+          <div className="flex flex-wrap gap-4 text-xs text-slate-500">
+            <span className="flex items-center gap-2">
+              <span className="h-2.5 w-2.5 rounded-full bg-slate-900" /> Pareto front
+            </span>
+            <span className="flex items-center gap-2">
+              <span className="h-2.5 w-2.5 rounded-full bg-slate-400" /> Meets targets
+            </span>
+            <span className="flex items-center gap-2">
+              <span className="h-2.5 w-2.5 rounded-full bg-red-200" /> Misses a target
+            </span>
+            <span className="flex items-center gap-2">
+              <span className="h-0 w-4 border-t border-dashed border-amber-500" /> Max height
+            </span>
+          </div>
+          {front.length > 0 && (
+            <div className="overflow-x-auto rounded-2xl border border-slate-200">
+              <table className="w-full text-left text-xs text-slate-700">
+                <thead className="bg-slate-50 text-slate-500">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Floors</th>
+                    <th className="px-3 py-2 font-medium">Plate</th>
+                    <th className="px-3 py-2 text-right font-medium">Floor height</th>
+                    <th className="px-3 py-2 text-right font-medium">Units</th>
+                    <th className="px-3 py-2 text-right font-medium">Module</th>
+                    <th className="px-3 py-2 text-right font-medium">Height</th>
+                    <th className="px-3 py-2 text-right font-medium">GFA</th>
+                    <th className="px-3 py-2 text-right font-medium">WWR</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {front.map((candidate) => (
+                    <tr
+                      key={candidate.id}
+                      className={`border-t border-slate-200 ${candidate.id === loadedId ? "bg-amber-50" : ""}`}
+                    >
+                      <td className="px-3 py-2">{candidate.values.floors}</td>
+                      <td className="px-3 py-2">
+                        {candidate.values.width} × {candidate.values.depth} m
+                      </td>
+                      <td className="px-3 py-2 text-right">{candidate.values.floorHeight.toFixed(1)} m</td>
+                      <td className="px-3 py-2 text-right">{candidate.values.unitsPerFloor}</td>
+                      <td className="px-3 py-2 text-right">{candidate.values.windowModule.toFixed(1)} m</td>
+                      <td className="px-3 py-2 text-right">{candidate.height.toFixed(1)} m</td>
+                      <td className="px-3 py-2 text-right">{formatArea(candidate.grossArea)}</td>
+                      <td className="px-3 py-2 text-right">{Math.round(candidate.windowWallRatio * 100)}%</td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          onClick={() => onPick(candidate)}
+                          className="rounded-lg border border-slate-200 px-2 py-1 font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+                        >
+                          Load
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+import type { EnvelopeCheck } from "../building/envelope";
+import { polygonArea } from "../building/polygon";
+import type { BuildingConfig, SitePlot } from "../building/types";
+
+const INPUT =
+  "w-full rounded-lg border border-slate-200 px-2 py-1.5 text-sm text-slate-900 outline-none transition focus:border-slate-400";
+
+const DEFAULT_SETBACK = 5;
+
+const PLOT_MARGIN = 8;
+
+// A rectangular plot that clears the podium (or the tower) by a margin beyond
+// its setbacks, as a starting point to edit.
+const plotAroundBuilding = (config: BuildingConfig): SitePlot => {
+  const podium = config.includePodium && config.podiumLevels > 0 ? config.podiumSetback : 0;
+  const halfWidth = config.width / 2 + podium + DEFAULT_SETBACK + PLOT_MARGIN;
+  const halfDepth = config.depth / 2 + podium + DEFAULT_SETBACK + PLOT_MARGIN;
+  return {
+    ...config.plot,
+    boundary: [
+      [-halfWidth, -halfDepth],
+      [halfWidth, -halfDepth],
+      [halfWidth, halfDepth],
+      [-halfWidth, halfDepth],
+    ],
+    setbacks: [DEFAULT_SETBACK, DEFAULT_SETBACK, DEFAULT_SETBACK, DEFAULT_SETBACK],
+  };
+};
+
+export const PlotEditor = ({
+  config,
+  checks,
+  onChange,
+}: {
+  config: BuildingConfig;
+  checks: EnvelopeCheck[];
+  onChange: (partial: Partial<BuildingConfig>) => void;
+}) => {
+  const { plot } = config;
+
+  // The site area follows the drawn plot so the area schedule uses it too.
+  const updatePlot = (next: SitePlot) =>
+    onChange(
+      next.boundary.length >= 3 ? { plot: next, siteArea: Math.round(polygonArea(next.boundary)) } : { plot: next },
+    );
+
+  const updatePoint = (index: number, axis: 0 | 1, value: number) =>
+    updatePlot({
+      ...plot,
+      boundary: plot.boundary.map((point, idx): [number, number] =>
+        idx !== index ? point : axis === 0 ? [value, point[1]] : [point[0], value],
+      ),
+    });
+
+  // New points go halfway along the closing edge, ready to be dragged out.
+  const addPoint = () => {
+    const [first, last] = [plot.boundary[0], plot.boundary[plot.boundary.length - 1]];
+    updatePlot({
+      ...plot,
+      boundary: [...plot.boundary, [(first[0] + last[0]) / 2, (first[1] + last[1]) / 2]],
+      setbacks: [...plot.setbacks, plot.setbacks[plot.setbacks.length - 1] ?? DEFAULT_SETBACK],
+    });
+  };
+
+  const removePoint = (index: number) =>
+    updatePlot({
+      ...plot,
+      boundary: plot.boundary.filter((_, idx) => idx !== index),
+      setbacks: plot.setbacks.filter((_, idx) => idx !== index),
+    });
+
+  if (plot.boundary.length < 3) {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-slate-500">
+          No plot is drawn, so setbacks and zoning limits are not checked. Start from a rectangle round the building
+          and edit its corners, setbacks and limits.
+        </p>
+        <button
+          type="button"
+          onClick={() => updatePlot(plotAroundBuilding(config))}
+          className="rounded-lg border border-slate-200 px-3 py-1 text-xs font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+        >
+          Draw plot round building
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
+          Max height (m)
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={plot.maxHeight}
+            onChange={(event) => updatePlot({ ...plot, maxHeight: Number(event.target.value) })}
+            className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
+          />
+        </label>
+        <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
+          Max floor-area ratio
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={plot.maxFloorAreaRatio}
+            onChange={(event) => updatePlot({ ...plot, maxFloorAreaRatio: Number(event.target.value) })}
+            className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
+          />
+        </label>
+        <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
+          Max coverage (%)
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={1}
+            value={Math.round(plot.maxCoverage * 100)}
+            onChange={(event) => updatePlot({ ...plot, maxCoverage: Number(event.target.value) / 100 })}
+            className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
+          />
+        </label>
+      </div>
+      <p className="text-xs text-slate-500">Leave a limit at zero to skip it.</p>
+      <div className="overflow-x-auto rounded-2xl border border-slate-200">
+        <table className="w-full text-left text-xs text-slate-700">
+          <thead className="bg-slate-50 text-slate-500">
+            <tr>
+              <th className="px-3 py-2 font-medium">Corner</th>
+              <th className="px-3 py-2 font-medium">East (m)</th>
+              <th className="px-3 py-2 font-medium">North (m)</th>
+              <th className="px-3 py-2 font-medium">Setback to next corner (m)</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {plot.boundary.map((point, idx) => (
+              <tr key={idx} className="border-t border-slate-200">
+                <td className="px-3 py-2 text-slate-500">P{idx + 1}</td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    step={0.5}
+                    value={point[0]}
+                    onChange={(event) => updatePoint(idx, 0, Number(event.target.value))}
+                    className={INPUT}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    step={0.5}
+                    value={point[1]}
+                    onChange={(event) => updatePoint(idx, 1, Number(event.target.value))}
+                    className={INPUT}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={plot.setbacks[idx]}
+                    onChange={(event) =>
+                      updatePlot({
+                        ...plot,
+                        setbacks: plot.setbacks.map((setback, other) =>
+                          other === idx ? Number(event.target.value) : setback,
+                        ),
+                      })
+                    }
+                    className={INPUT}
+                  />
+                </td>
+                <td className="px-3 py-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => removePoint(idx)}
+                    disabled={plot.boundary.length <= 3}
+                    className="font-medium text-rose-600 transition hover:text-rose-800 disabled:cursor-not-allowed disabled:opacity-40"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex flex-wrap gap-3">
+        <button
+          type="button"
+          onClick={addPoint}
+          className="rounded-lg border border-slate-200 px-3 py-1 text-xs font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+        >
+          Add corner
+        </button>
+        <button
+          type="button"
+          onClick={() => updatePlot({ ...plot, boundary: [], setbacks: [] })}
+          className="rounded-lg border border-slate-200 px-3 py-1 text-xs font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+        >
+          Clear plot
+        </button>
+      </div>
+      <ul className="divide-y divide-slate-200 rounded-2xl border border-slate-200 text-sm">
+        {checks.map((check) => (
+          <li key={check.id} className="flex items-center justify-between gap-4 px-4 py-2">
+            <span className="text-slate-700">{check.label}</span>
+            <span className={check.ok ? "text-emerald-700" : "font-medium text-rose-600"}>
+              {check.actual} <span className="text-slate-400">/ {check.limit}</span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { createProjectId } from "../building/library";
+import { buildSiteScene, sharedPodiumHost } from "../building/site";
+import type { BuildingConfig, SiteBuilding, SiteModel } from "../building/types";
+import type { CompareOption } from "./CompareView";
+import { MassingViewer } from "./MassingViewer";
+
+const INPUT =
+  "w-full rounded-lg border border-slate-200 px-2 py-1.5 text-sm text-slate-900 outline-none transition focus:border-slate-400";
+
+const SPACING = 12;
+
+// New towers line up east of the last one with a clear gap between plates.
+const nextPosition = (buildings: SiteBuilding[], config: BuildingConfig): [number, number] => {
+  const last = buildings[buildings.length - 1];
+  if (!last) {
+    return [0, 0];
+  }
+  const reach = Math.max(last.config.width, last.config.depth) / 2 + Math.max(config.width, config.depth) / 2;
+  return [last.position[0] + reach + SPACING, last.position[1]];
+};
+
+export const SitePanel = ({
+  site,
+  project,
+  options,
+  onChange,
+  onDownloadScript,
+  onDownloadGlb,
+}: {
+  site: SiteModel;
+  project: BuildingConfig;
+  options: CompareOption[];
+  onChange: (site: SiteModel) => void;
+  onDownloadScript: () => void;
+  onDownloadGlb: () => void;
+}) => {
+  const [optionId, setOptionId] = useState<string>("");
+  const scene = useMemo(() => buildSiteScene(site, project), [site, project]);
+  const host = sharedPodiumHost({ ...site, sharedPodium: true });
+  const selected = options.find((option) => option.id === optionId) ?? options[0];
+
+  const update = (index: number, partial: Partial<SiteBuilding>) =>
+    onChange({
+      ...site,
+      buildings: site.buildings.map((building, idx) => (idx === index ? { ...building, ...partial } : building)),
+    });
+
+  const handleAdd = () => {
+    if (!selected) {
+      return;
+    }
+    onChange({
+      ...site,
+      buildings: [
+        ...site.buildings,
+        {
+          id: createProjectId(),
+          name: selected.name,
+          config: selected.config,
+          position: nextPosition(site.buildings, selected.config),
+          rotation: 0,
+        },
+      ],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={selected?.id ?? ""}
+          onChange={(event) => setOptionId(event.target.value)}
+          className="rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400"
+        >
+          {options.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="rounded-lg border border-slate-200 px-3 py-1 text-xs font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+        >
+          Add to site
+        </button>
+        <label className="flex items-center gap-3 text-sm font-medium text-slate-700">
+          <input
+            type="checkbox"
+            checked={site.sharedPodium}
+            onChange={(event) => onChange({ ...site, sharedPodium: event.target.checked })}
+            disabled={!host}
+            className="h-4 w-4 rounded border-slate-300 text-slate-900"
+          />
+          Share one podium{host ? ` (${host.podiumLevels} levels)` : ""}
+        </label>
+      </div>
+      {site.buildings.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          Add the current design or a pinned snapshot to start a site. Each building keeps its own settings and is
+          placed by its centre and rotation on the site grid.
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto rounded-2xl border border-slate-200">
+            <table className="w-full text-left text-xs text-slate-700">
+              <thead className="bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Building</th>
+                  <th className="px-3 py-2 font-medium">East (m)</th>
+                  <th className="px-3 py-2 font-medium">North (m)</th>
+                  <th className="px-3 py-2 font-medium">Rotation (°)</th>
+                  <th className="px-3 py-2 text-right font-medium">Floors</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {site.buildings.map((building, idx) => (
+                  <tr key={building.id} className="border-t border-slate-200">
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        value={building.name}
+                        onChange={(event) => update(idx, { name: event.target.value })}
+                        className={INPUT}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        step={1}
+                        value={building.position[0]}
+                        onChange={(event) =>
+                          update(idx, { position: [Number(event.target.value), building.position[1]] })
+                        }
+                        className={INPUT}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        step={1}
+                        value={building.position[1]}
+                        onChange={(event) =>
+                          update(idx, { position: [building.position[0], Number(event.target.value)] })
+                        }
+                        className={INPUT}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        min={-180}
+                        max={180}
+                        step={5}
+                        value={building.rotation}
+                        onChange={(event) => update(idx, { rotation: Number(event.target.value) })}
+                        className={INPUT}
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-right">{building.config.floors}</td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          onChange({ ...site, buildings: site.buildings.filter((_, other) => other !== idx) })
+                        }
+                        className="font-medium text-rose-600 transition hover:text-rose-800"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="rounded-2xl border border-slate-900/20 bg-gradient-to-b from-slate-900 to-slate-950 p-4">
+            <MassingViewer scene={scene} className="h-80 overflow-hidden rounded-xl border border-white/5 bg-slate-950/40" />
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="button"
+              onClick={onDownloadScript}
+              className="rounded-xl border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-400 hover:text-slate-900"
+            >
+              Download site Blender script
+            </button>
+            <button
+              type="button"
+              onClick={onDownloadGlb}
+              className="rounded-xl border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-400 hover:text-slate-900"
+            >
+              Download site GLB
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
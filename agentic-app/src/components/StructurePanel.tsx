@@ -0,0 +1,28 @@
+import type { StructureSummary } from "../building/structure";
+
+export const StructurePanel = ({ summary }: { summary: StructureSummary }) => {
+  const tiles = [
+    { label: "Grid lines", value: `${summary.gridLines[0]} × ${summary.gridLines[1]}`, detail: "Lettered across the width, numbered across the depth" },
+    { label: "Columns", value: summary.totalColumns.toLocaleString(), detail: `${summary.typicalFloorColumns} on a typical floor` },
+    { label: "Podium columns", value: summary.podiumColumns.toLocaleString(), detail: "Outside the tower footprint" },
+    {
+      label: "Transfers",
+      value: summary.transferColumns.toLocaleString(),
+      detail:
+        summary.transferColumns > 0
+          ? `${summary.transferBeams} girders under ${summary.transferLevels.join(", ")}`
+          : "Every column lands on one below",
+    },
+  ];
+  return (
+    <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+      {tiles.map((tile) => (
+        <div key={tile.label} className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3">
+          <p className="text-xs uppercase tracking-wider text-slate-500">{tile.label}</p>
+          <p className="mt-1 text-lg font-semibold text-slate-900">{tile.value}</p>
+          <p className="mt-1 text-xs text-slate-500">{tile.detail}</p>
+        </div>
+      ))}
+    </div>
+  );
+};
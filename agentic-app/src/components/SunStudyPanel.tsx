@@ -0,0 +1,115 @@
+import type { SunHours, SunPosition } from "../building/sun";
+import { formatClock } from "../building/sun";
+import type { SunStudy } from "../building/types";
+
+const INPUT =
+  "rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-slate-400";
+
+const FIELDS: { key: Exclude<keyof SunStudy, "date">; label: string; step: number }[] = [
+  { key: "latitude", label: "Latitude (°N)", step: 0.1 },
+  { key: "longitude", label: "Longitude (°E)", step: 0.1 },
+  { key: "utcOffset", label: "UTC offset (h)", step: 0.5 },
+  { key: "startHour", label: "From (h)", step: 0.5 },
+  { key: "endHour", label: "To (h)", step: 0.5 },
+];
+
+const formatHours = (value: number) => `${value.toFixed(1)} h`;
+
+export const SunStudyPanel = ({
+  study,
+  hours,
+  position,
+  showShadows,
+  onChange,
+  onHourChange,
+  onShowShadowsChange,
+}: {
+  study: SunStudy;
+  hours: SunHours;
+  position: SunPosition;
+  showShadows: boolean;
+  onChange: (study: SunStudy) => void;
+  onHourChange: (hour: number) => void;
+  onShowShadowsChange: (show: boolean) => void;
+}) => (
+  <div className="space-y-4">
+    <div className="grid gap-4 md:grid-cols-3">
+      <label className="flex flex-col gap-2 text-sm font-medium text-slate-700">
+        Date
+        <input
+          type="date"
+          value={study.date}
+          onChange={(event) => onChange({ ...study, date: event.target.value })}
+          className={INPUT}
+        />
+      </label>
+      {FIELDS.map(({ key, label, step }) => (
+        <label key={key} className="flex flex-col gap-2 text-sm font-medium text-slate-700">
+          {label}
+          <input
+            type="number"
+            step={step}
+            value={study[key]}
+            onChange={(event) => onChange({ ...study, [key]: Number(event.target.value) })}
+            className={INPUT}
+          />
+        </label>
+      ))}
+    </div>
+    <div className="flex flex-wrap items-center gap-4">
+      <label className="flex flex-1 items-center gap-3 text-sm font-medium text-slate-700">
+        {formatClock(position.hour)}
+        <input
+          type="range"
+          min={study.startHour}
+          max={study.endHour}
+          step={0.25}
+          value={position.hour}
+          onChange={(event) => onHourChange(Number(event.target.value))}
+          className="flex-1"
+        />
+      </label>
+      <span className="text-xs text-slate-500">
+        {position.altitude > 0
+          ? `Sun at ${Math.round(position.azimuth)}° azimuth, ${Math.round(position.altitude)}° high`
+          : "Sun below the horizon"}
+      </span>
+      <label className="flex items-center gap-3 text-sm font-medium text-slate-700">
+        <input
+          type="checkbox"
+          checked={showShadows}
+          onChange={(event) => onShowShadowsChange(event.target.checked)}
+          className="h-4 w-4 rounded border-slate-300 text-slate-900"
+        />
+        Shadows in preview
+      </label>
+    </div>
+    <div className="overflow-x-auto rounded-2xl border border-slate-200">
+      <table className="w-full text-left text-xs text-slate-700">
+        <thead className="bg-slate-50 text-slate-500">
+          <tr>
+            <th className="px-3 py-2 font-medium">Surface</th>
+            <th className="px-3 py-2 text-right font-medium">Direct sun</th>
+            <th className="px-3 py-2 text-right font-medium">Of daylight</th>
+          </tr>
+        </thead>
+        <tbody>
+          {hours.surfaces.map((surface) => (
+            <tr key={surface.id} className="border-t border-slate-200">
+              <td className="px-3 py-2">{surface.label}</td>
+              <td className="px-3 py-2 text-right">{formatHours(surface.hours)}</td>
+              <td className="px-3 py-2 text-right">
+                {hours.daylight > 0 ? `${Math.round((surface.hours / hours.daylight) * 100)}%` : "–"}
+              </td>
+            </tr>
+          ))}
+          <tr className="border-t border-slate-200 bg-slate-50 font-semibold text-slate-900">
+            <td className="px-3 py-2">Sun above the horizon</td>
+            <td className="px-3 py-2 text-right">{formatHours(hours.daylight)}</td>
+            <td className="px-3 py-2" />
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
@@ -0,0 +1,149 @@
+import { ZONE_USES, zoneUseLabel } from "../building/levels";
+import { ZONE_COLORS } from "../building/scene";
+import type { BalconyFrequency, BuildingConfig, ProgramZone, ZoneUse } from "../building/types";
+
+const INPUT =
+  "w-full rounded-lg border border-slate-200 px-2 py-1.5 text-sm text-slate-900 outline-none transition focus:border-slate-400";
+
+// A new zone picks up above the last one, at the typical floor settings.
+const nextZone = (config: BuildingConfig): ProgramZone => {
+  const fromFloor = Math.min(config.floors, Math.max(2, ...config.zones.map((zone) => zone.toFloor + 1)));
+  return {
+    use: "residential",
+    fromFloor,
+    toFloor: config.floors,
+    floorHeight: config.floorHeight,
+    unitsPerFloor: config.unitsPerFloor,
+    balconyFrequency: config.balconyFrequency,
+  };
+};
+
+export const ZoneEditor = ({
+  config,
+  onChange,
+}: {
+  config: BuildingConfig;
+  onChange: (zones: ProgramZone[]) => void;
+}) => {
+  const update = (index: number, partial: Partial<ProgramZone>) =>
+    onChange(config.zones.map((zone, idx) => (idx === index ? { ...zone, ...partial } : zone)));
+
+  return (
+    <div className="space-y-3">
+      {config.zones.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          Every floor above the lobby uses the typical settings. Add a zone to stack retail, office, residential or
+          amenity floors with their own heights, units and balconies.
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-2xl border border-slate-200">
+          <table className="w-full text-left text-xs text-slate-700">
+            <thead className="bg-slate-50 text-slate-500">
+              <tr>
+                <th className="px-3 py-2 font-medium">Use</th>
+                <th className="px-3 py-2 font-medium">From floor</th>
+                <th className="px-3 py-2 font-medium">To floor</th>
+                <th className="px-3 py-2 font-medium">Floor height (m)</th>
+                <th className="px-3 py-2 font-medium">Units / floor</th>
+                <th className="px-3 py-2 font-medium">Balconies</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {config.zones.map((zone, idx) => (
+                <tr key={idx} className="border-t border-slate-200">
+                  <td className="px-3 py-2">
+                    <span className="flex items-center gap-2">
+                      <span className="h-3 w-3 shrink-0 rounded-full" style={{ background: ZONE_COLORS[zone.use] }} />
+                      <select
+                        value={zone.use}
+                        onChange={(event) => update(idx, { use: event.target.value as ZoneUse })}
+                        className={INPUT}
+                      >
+                        {ZONE_USES.map((use) => (
+                          <option key={use} value={use}>
+                            {zoneUseLabel(use)}
+                          </option>
+                        ))}
+                      </select>
+                    </span>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={2}
+                      max={config.floors}
+                      value={zone.fromFloor}
+                      onChange={(event) => update(idx, { fromFloor: Number(event.target.value) })}
+                      className={INPUT}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={2}
+                      max={config.floors}
+                      value={zone.toFloor}
+                      onChange={(event) => update(idx, { toFloor: Number(event.target.value) })}
+                      className={INPUT}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={2.5}
+                      max={8}
+                      step={0.1}
+                      value={zone.floorHeight}
+                      onChange={(event) => update(idx, { floorHeight: Number(event.target.value) })}
+                      className={INPUT}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      max={40}
+                      value={zone.unitsPerFloor}
+                      onChange={(event) => update(idx, { unitsPerFloor: Number(event.target.value) })}
+                      className={INPUT}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={zone.balconyFrequency}
+                      onChange={(event) => update(idx, { balconyFrequency: event.target.value as BalconyFrequency })}
+                      className={INPUT}
+                    >
+                      <option value="none">None</option>
+                      <option value="alternate">Alternate floors</option>
+                      <option value="every">Every floor</option>
+                      <option value="corners">Corners</option>
+                    </select>
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => onChange(config.zones.filter((_, other) => other !== idx))}
+                      className="font-medium text-rose-600 transition hover:text-rose-800"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={() => onChange([...config.zones, nextZone(config)])}
+        disabled={config.floors < 2}
+        className="rounded-lg border border-slate-200 px-3 py-1 text-xs font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        Add zone
+      </button>
+    </div>
+  );
+};
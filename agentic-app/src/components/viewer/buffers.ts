@@ -0,0 +1,106 @@
+import { hexToUnitRgb } from "../../building/color";
+import type { Vec3 } from "../../building/math";
+import { elementWorldMesh, indexScene, toWorld } from "../../building/mesh";
+import { boundarySegments } from "../../building/polygon";
+import type { BuildingScene, SceneElement } from "../../building/scene";
+import { castsShadow } from "../../building/sun";
+
+export const FLOATS_PER_VERTEX = 9;
+
+export type ViewerBuffers = {
+  triangles: Float32Array;
+  lines: Float32Array;
+  shadows: Float32Array;
+};
+
+const SHADOW_COLOR = hexToUnitRgb("#3a4660");
+
+const SHADOW_LIFT = 0.02;
+
+// Below this the sun grazes the ground and shadows run off the site.
+const MIN_SHADOW_SUN = Math.sin((3 * Math.PI) / 180);
+
+const gridLines = (element: SceneElement, color: Vec3, out: number[]) => {
+  const divisions = element.subdivisions ?? 10;
+  const [width, depth] = element.size;
+  for (let idx = 0; idx <= divisions; idx += 1) {
+    const x = -width / 2 + (width / divisions) * idx;
+    const y = -depth / 2 + (depth / divisions) * idx;
+    const segments: Vec3[][] = [
+      [[x, -depth / 2, 0], [x, depth / 2, 0]],
+      [[-width / 2, y, 0], [width / 2, y, 0]],
+    ];
+    segments.flat().forEach((point) => out.push(...toWorld(element, point), 0, 0, 1, ...color));
+  }
+};
+
+// Wireframe prisms show their outline top and bottom and an upright at each corner.
+const wireframeLines = (element: SceneElement, color: Vec3, out: number[]) => {
+  const half = element.size[2] / 2;
+  boundarySegments(element.profile ?? []).forEach(({ from, to }) => {
+    const segments: Vec3[][] = [
+      [[from[0], from[1], -half], [to[0], to[1], -half]],
+      [[from[0], from[1], half], [to[0], to[1], half]],
+      [[from[0], from[1], -half], [from[0], from[1], half]],
+    ];
+    segments.flat().forEach((point) => out.push(...toWorld(element, point), 0, 0, 1, ...color));
+  });
+};
+
+// Every shadow-casting triangle is flattened onto the ground along the sun's
+// rays; their union is the shadow, so overlaps need no merging.
+const shadowTriangles = (scene: BuildingScene, sun: Vec3, out: number[]) => {
+  if (sun[2] < MIN_SHADOW_SUN) {
+    return;
+  }
+  const lookup = indexScene(scene);
+  const project = (positions: number[], index: number): Vec3 => {
+    const [x, y, z] = positions.slice(index * 3, index * 3 + 3);
+    return [x - (sun[0] * z) / sun[2], y - (sun[1] * z) / sun[2], SHADOW_LIFT];
+  };
+  scene.elements.filter(castsShadow).forEach((element) => {
+    const { positions, indices } = elementWorldMesh(element, lookup);
+    for (let idx = 0; idx < indices.length; idx += 3) {
+      const [a, b, c] = [0, 1, 2].map((offset) => project(positions, indices[idx + offset]));
+      const area = (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+      if (Math.abs(area) < 1e-9) {
+        continue;
+      }
+      // Wound to face up so back-face culling keeps them.
+      (area > 0 ? [a, b, c] : [a, c, b]).forEach((point) => out.push(...point, 0, 0, 1, ...SHADOW_COLOR));
+    }
+  });
+};
+
+export const buildViewerBuffers = (scene: BuildingScene, sun: Vec3 | null = null): ViewerBuffers => {
+  const lookup = indexScene(scene);
+  const triangles: number[] = [];
+  const lines: number[] = [];
+  scene.elements.forEach((element) => {
+    if (element.hidden || !element.material) {
+      return;
+    }
+    const color = hexToUnitRgb(scene.materials[element.material].color);
+    if (element.shape === "grid") {
+      gridLines(element, color, lines);
+      return;
+    }
+    if (element.wireframe) {
+      wireframeLines(element, color, lines);
+      return;
+    }
+    const mesh = elementWorldMesh(element, lookup);
+    mesh.indices.forEach((index) => {
+      triangles.push(
+        ...mesh.positions.slice(index * 3, index * 3 + 3),
+        ...mesh.normals.slice(index * 3, index * 3 + 3),
+        ...color,
+      );
+    });
+  });
+  const shadows: number[] = [];
+  if (sun) {
+    shadowTriangles(scene, sun, shadows);
+  }
+  return { triangles: new Float32Array(triangles), lines: new Float32Array(lines), shadows: new Float32Array(shadows) };
+};
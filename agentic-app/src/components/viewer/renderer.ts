@@ -0,0 +1,160 @@
+import type { Vec3 } from "../../building/math";
+import type { ViewerBuffers } from "./buffers";
+import { FLOATS_PER_VERTEX } from "./buffers";
+import type { Mat4 } from "./math";
+
+const VERTEX_SHADER = `#version 300 es
+in vec3 aPosition;
+in vec3 aNormal;
+in vec3 aColor;
+uniform mat4 uViewProjection;
+out vec3 vNormal;
+out vec3 vColor;
+void main() {
+  vNormal = aNormal;
+  vColor = aColor;
+  gl_Position = uViewProjection * vec4(aPosition, 1.0);
+}
+`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec3 vNormal;
+in vec3 vColor;
+uniform vec3 uLightDirection;
+uniform float uUnlit;
+out vec4 outColor;
+void main() {
+  vec3 normal = normalize(vNormal);
+  float diffuse = max(dot(normal, normalize(uLightDirection)), 0.0);
+  float sky = 0.5 + 0.5 * normal.z;
+  float shade = mix(0.35 + 0.25 * sky + 0.55 * diffuse, 1.0, uUnlit);
+  outColor = vec4(vColor * shade, 1.0);
+}
+`;
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) {
+    throw new Error("Unable to allocate WebGL shader.");
+  }
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compilation failed: ${log}`);
+  }
+  return shader;
+};
+
+const DEFAULT_LIGHT: Vec3 = [0.45, -0.6, 0.65];
+
+export type MassingRenderer = {
+  setBuffers: (buffers: ViewerBuffers) => void;
+  setLight: (direction: Vec3 | null) => void;
+  render: (viewProjection: Mat4) => void;
+  resize: (width: number, height: number) => void;
+  dispose: () => void;
+};
+
+export const createMassingRenderer = (canvas: HTMLCanvasElement): MassingRenderer | null => {
+  const gl = canvas.getContext("webgl2", { antialias: true });
+  if (!gl) {
+    return null;
+  }
+
+  const program = gl.createProgram();
+  const vertexShader = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Shader link failed: ${gl.getProgramInfoLog(program)}`);
+  }
+
+  const locations = {
+    position: gl.getAttribLocation(program, "aPosition"),
+    normal: gl.getAttribLocation(program, "aNormal"),
+    color: gl.getAttribLocation(program, "aColor"),
+    viewProjection: gl.getUniformLocation(program, "uViewProjection"),
+    lightDirection: gl.getUniformLocation(program, "uLightDirection"),
+    unlit: gl.getUniformLocation(program, "uUnlit"),
+  };
+
+  const createVertexArray = () => {
+    const vao = gl.createVertexArray();
+    const buffer = gl.createBuffer();
+    gl.bindVertexArray(vao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    const stride = FLOATS_PER_VERTEX * 4;
+    gl.enableVertexAttribArray(locations.position);
+    gl.vertexAttribPointer(locations.position, 3, gl.FLOAT, false, stride, 0);
+    gl.enableVertexAttribArray(locations.normal);
+    gl.vertexAttribPointer(locations.normal, 3, gl.FLOAT, false, stride, 12);
+    gl.enableVertexAttribArray(locations.color);
+    gl.vertexAttribPointer(locations.color, 3, gl.FLOAT, false, stride, 24);
+    gl.bindVertexArray(null);
+    return { vao, buffer, count: 0 };
+  };
+
+  const solids = createVertexArray();
+  const grid = createVertexArray();
+  const shadows = createVertexArray();
+  let light = DEFAULT_LIGHT;
+
+  const upload = (target: ReturnType<typeof createVertexArray>, data: Float32Array) => {
+    gl.bindBuffer(gl.ARRAY_BUFFER, target.buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
+    target.count = data.length / FLOATS_PER_VERTEX;
+  };
+
+  gl.enable(gl.DEPTH_TEST);
+  gl.enable(gl.CULL_FACE);
+
+  return {
+    setBuffers: (buffers) => {
+      upload(solids, buffers.triangles);
+      upload(grid, buffers.lines);
+      upload(shadows, buffers.shadows);
+    },
+    setLight: (direction) => {
+      light = direction ?? DEFAULT_LIGHT;
+    },
+    render: (viewProjection) => {
+      gl.clearColor(0.02, 0.03, 0.07, 1);
+      gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+      gl.useProgram(program);
+      gl.uniformMatrix4fv(locations.viewProjection, false, viewProjection);
+      gl.uniform3f(locations.lightDirection, ...light);
+
+      gl.uniform1f(locations.unlit, 1);
+      gl.bindVertexArray(grid.vao);
+      gl.drawArrays(gl.LINES, 0, grid.count);
+      gl.bindVertexArray(shadows.vao);
+      gl.drawArrays(gl.TRIANGLES, 0, shadows.count);
+
+      gl.uniform1f(locations.unlit, 0);
+      gl.bindVertexArray(solids.vao);
+      gl.drawArrays(gl.TRIANGLES, 0, solids.count);
+      gl.bindVertexArray(null);
+    },
+    resize: (width, height) => {
+      canvas.width = width;
+      canvas.height = height;
+      gl.viewport(0, 0, width, height);
+    },
+    dispose: () => {
+      gl.deleteBuffer(solids.buffer);
+      gl.deleteBuffer(grid.buffer);
+      gl.deleteBuffer(shadows.buffer);
+      gl.deleteVertexArray(solids.vao);
+      gl.deleteVertexArray(grid.vao);
+      gl.deleteVertexArray(shadows.vao);
+      gl.deleteShader(vertexShader);
+      gl.deleteShader(fragmentShader);
+      gl.deleteProgram(program);
+    },
+  };
+};